@@ -1,4 +1,4 @@
-import { getEnv } from "../utils/get-env";
+import { getEnv, getPositiveNumberEnv } from "../utils/get-env";
 
 const appConfig = () => ({
   NODE_ENV: getEnv("NODE_ENV", "development"),
@@ -15,6 +15,12 @@ const appConfig = () => ({
 
   FRONTEND_ORIGIN: getEnv("FRONTEND_ORIGIN", "localhost"),
   FRONTEND_GOOGLE_CALLBACK_URL: getEnv("FRONTEND_GOOGLE_CALLBACK_URL"),
+
+  ATTACHMENT_STORAGE_DRIVER: getEnv("ATTACHMENT_STORAGE_DRIVER", "local"),
+  ATTACHMENT_LOCAL_DIR: getEnv("ATTACHMENT_LOCAL_DIR", "uploads"),
+  ATTACHMENT_MAX_SIZE_MB: getPositiveNumberEnv("ATTACHMENT_MAX_SIZE_MB", 10),
+
+  TRASH_RETENTION_DAYS: getPositiveNumberEnv("TRASH_RETENTION_DAYS", 30),
 });
 
 export const config = appConfig();
@@ -0,0 +1,119 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middlewares/asyncHandler.middleware";
+import {
+  attachmentIdSchema,
+  uploadAttachmentQuerySchema,
+} from "../validation/attachment.validation";
+import { taskIdSchema } from "../validation/task.validation";
+import { workspaceIdSchema } from "../validation/workspace.validation";
+import { getMemberRoleInWorkspace } from "../services/member.service";
+import { roleGuard } from "../utils/roleGuard";
+import { Permissions } from "../enums/role.enum";
+import {
+  deleteAttachmentService,
+  getAttachmentFileService,
+  getTaskAttachmentsService,
+  uploadAttachmentService,
+} from "../services/attachment.service";
+import { HTTPSTATUS } from "../config/http.config";
+import { BadRequestException } from "../utils/appError";
+
+export const uploadAttachmentController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const query = uploadAttachmentQuerySchema.parse(req.query);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    // Anyone who can respond to a clarification may attach files to it.
+    roleGuard(role, [
+      query.clarificationId ? Permissions.VIEW_ONLY : Permissions.EDIT_TASK,
+    ]);
+
+    if (!Buffer.isBuffer(req.body)) {
+      throw new BadRequestException(
+        "Send the file as an application/octet-stream request body"
+      );
+    }
+
+    const { attachment } = await uploadAttachmentService(
+      workspaceId,
+      taskId,
+      userId,
+      {
+        fileName: query.fileName,
+        data: req.body,
+        clarificationId: query.clarificationId,
+        responseId: query.responseId,
+      }
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "File uploaded successfully",
+      attachment,
+    });
+  }
+);
+
+export const getTaskAttachmentsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { attachments } = await getTaskAttachmentsService(
+      workspaceId,
+      taskId
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Attachments fetched successfully",
+      attachments,
+    });
+  }
+);
+
+export const downloadAttachmentController = asyncHandler(
+  async (req: Request, res: Response, next) => {
+    const attachmentId = attachmentIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { attachment, stream } = await getAttachmentFileService(
+      workspaceId,
+      attachmentId
+    );
+
+    res.attachment(attachment.fileName);
+    res.setHeader("Content-Type", attachment.mimeType);
+    res.setHeader("Content-Length", attachment.size);
+    res.setHeader("X-Content-Type-Options", "nosniff");
+
+    stream.on("error", next);
+    stream.pipe(res);
+  }
+);
+
+export const deleteAttachmentController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const attachmentId = attachmentIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    await deleteAttachmentService(workspaceId, attachmentId, userId, role);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Attachment deleted successfully",
+    });
+  }
+);
@@ -0,0 +1,75 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middlewares/asyncHandler.middleware";
+import { auditLogFilterSchema } from "../validation/audit-log.validation";
+import { workspaceIdSchema } from "../validation/workspace.validation";
+import { getMemberRoleInWorkspace } from "../services/member.service";
+import { roleGuard } from "../utils/roleGuard";
+import { Permissions } from "../enums/role.enum";
+import {
+  exportAuditLogsCsvService,
+  getAuditLogsService,
+  verifyAuditLogChainService,
+} from "../services/audit-log.service";
+import { HTTPSTATUS } from "../config/http.config";
+
+export const getAuditLogsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const filters = auditLogFilterSchema.parse(req.query);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const pagination = {
+      pageSize: parseInt(req.query.pageSize as string) || 20,
+      pageNumber: parseInt(req.query.pageNumber as string) || 1,
+    };
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    const result = await getAuditLogsService(workspaceId, filters, pagination);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Audit log fetched successfully",
+      ...result,
+    });
+  }
+);
+
+export const exportAuditLogsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const filters = auditLogFilterSchema.parse(req.query);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    const { csv } = await exportAuditLogsCsvService(workspaceId, filters);
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      'attachment; filename="audit-log.csv"'
+    );
+    return res.status(HTTPSTATUS.OK).send(csv);
+  }
+);
+
+export const verifyAuditLogController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    const verification = await verifyAuditLogChainService(workspaceId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: verification.valid
+        ? "Audit log is intact"
+        : "Audit log has been tampered with",
+      verification,
+    });
+  }
+);
@@ -4,8 +4,16 @@ import { config } from "../config/app.config";
 import { registerSchema } from "../validation/auth.validation";
 import { HTTPSTATUS } from "../config/http.config";
 import { registerUserService } from "../services/auth.service";
+import { recordLoginAuditService } from "../services/audit-log.service";
+import { ProviderEnum } from "../enums/account-provider.enum";
 import passport from "passport";
 
+const getLoginAuditMetadata = (req: Request, provider: string) => ({
+  provider,
+  ipAddress: req.ip ?? null,
+  userAgent: req.get("user-agent") ?? null,
+});
+
 export const googleLoginCallback = asyncHandler(
   async (req: Request, res: Response) => {
     const currentWorkspace = req.user?.currentWorkspace;
@@ -16,6 +24,11 @@ export const googleLoginCallback = asyncHandler(
       );
     }
 
+    await recordLoginAuditService(
+      req.user?._id,
+      getLoginAuditMetadata(req, ProviderEnum.GOOGLE)
+    );
+
     return res.redirect(
       `${config.FRONTEND_ORIGIN}/workspace/${currentWorkspace}`
     );
@@ -60,10 +73,17 @@ export const loginController = asyncHandler(
             return next(err);
           }
 
-          return res.status(HTTPSTATUS.OK).json({
-            message: "Logged in successfully",
-            user,
-          });
+          recordLoginAuditService(
+            user._id,
+            getLoginAuditMetadata(req, ProviderEnum.EMAIL)
+          )
+            .then(() =>
+              res.status(HTTPSTATUS.OK).json({
+                message: "Logged in successfully",
+                user,
+              })
+            )
+            .catch(next);
         });
       }
     )(req, res, next);
@@ -0,0 +1,177 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middlewares/asyncHandler.middleware";
+import {
+  checklistItemIdSchema,
+  createChecklistItemSchema,
+  reorderChecklistSchema,
+  updateChecklistItemSchema,
+} from "../validation/checklist.validation";
+import { taskIdSchema } from "../validation/task.validation";
+import { workspaceIdSchema } from "../validation/workspace.validation";
+import { getMemberRoleInWorkspace } from "../services/member.service";
+import { roleGuard } from "../utils/roleGuard";
+import { Permissions } from "../enums/role.enum";
+import {
+  convertChecklistItemService,
+  createChecklistItemService,
+  deleteChecklistItemService,
+  getChecklistService,
+  reorderChecklistService,
+  updateChecklistItemService,
+} from "../services/checklist.service";
+import { HTTPSTATUS } from "../config/http.config";
+
+export const getChecklistController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { checklist, progress } = await getChecklistService(
+      workspaceId,
+      taskId
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Checklist fetched successfully",
+      checklist,
+      progress,
+    });
+  }
+);
+
+export const createChecklistItemController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = createChecklistItemSchema.parse(req.body);
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_TASK]);
+
+    const { checklist, progress } = await createChecklistItemService(
+      workspaceId,
+      taskId,
+      userId,
+      role,
+      body
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Checklist item added successfully",
+      checklist,
+      progress,
+    });
+  }
+);
+
+export const updateChecklistItemController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = updateChecklistItemSchema.parse(req.body);
+    const itemId = checklistItemIdSchema.parse(req.params.id);
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_TASK]);
+
+    const { checklist, progress } = await updateChecklistItemService(
+      workspaceId,
+      taskId,
+      itemId,
+      userId,
+      role,
+      body
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Checklist item updated successfully",
+      checklist,
+      progress,
+    });
+  }
+);
+
+export const reorderChecklistController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { itemIds } = reorderChecklistSchema.parse(req.body);
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_TASK]);
+
+    const { checklist, progress } = await reorderChecklistService(
+      workspaceId,
+      taskId,
+      userId,
+      role,
+      itemIds
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Checklist reordered successfully",
+      checklist,
+      progress,
+    });
+  }
+);
+
+export const deleteChecklistItemController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const itemId = checklistItemIdSchema.parse(req.params.id);
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_TASK]);
+
+    const { checklist, progress } = await deleteChecklistItemService(
+      workspaceId,
+      taskId,
+      itemId,
+      userId,
+      role
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Checklist item deleted successfully",
+      checklist,
+      progress,
+    });
+  }
+);
+
+export const convertChecklistItemController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const itemId = checklistItemIdSchema.parse(req.params.id);
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_TASK, Permissions.CREATE_TASK]);
+
+    const { subtask, checklist, progress } = await convertChecklistItemService(
+      workspaceId,
+      taskId,
+      itemId,
+      userId,
+      role
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Checklist item converted to a subtask",
+      subtask,
+      checklist,
+      progress,
+    });
+  }
+);
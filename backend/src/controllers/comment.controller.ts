@@ -0,0 +1,102 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middlewares/asyncHandler.middleware";
+import {
+  commentIdSchema,
+  createCommentSchema,
+  updateCommentSchema,
+} from "../validation/comment.validation";
+import { taskIdSchema } from "../validation/task.validation";
+import { workspaceIdSchema } from "../validation/workspace.validation";
+import { getMemberRoleInWorkspace } from "../services/member.service";
+import { roleGuard } from "../utils/roleGuard";
+import { Permissions } from "../enums/role.enum";
+import {
+  createTaskCommentService,
+  deleteTaskCommentService,
+  getTaskCommentsService,
+  updateTaskCommentService,
+} from "../services/comment.service";
+import { HTTPSTATUS } from "../config/http.config";
+
+export const getTaskCommentsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { comments } = await getTaskCommentsService(workspaceId, taskId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Comments fetched successfully",
+      comments,
+    });
+  }
+);
+
+export const createTaskCommentController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = createCommentSchema.parse(req.body);
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { comment } = await createTaskCommentService(
+      workspaceId,
+      taskId,
+      userId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Comment added successfully",
+      comment,
+    });
+  }
+);
+
+export const updateTaskCommentController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = updateCommentSchema.parse(req.body);
+    const commentId = commentIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { comment } = await updateTaskCommentService(
+      workspaceId,
+      commentId,
+      userId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Comment updated successfully",
+      comment,
+    });
+  }
+);
+
+export const deleteTaskCommentController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const commentId = commentIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    await deleteTaskCommentService(workspaceId, commentId, userId, role);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Comment deleted successfully",
+    });
+  }
+);
@@ -0,0 +1,94 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middlewares/asyncHandler.middleware";
+import {
+  createCustomFieldSchema,
+  customFieldIdSchema,
+  updateCustomFieldSchema,
+} from "../validation/custom-field.validation";
+import { workspaceIdSchema } from "../validation/workspace.validation";
+import { getMemberRoleInWorkspace } from "../services/member.service";
+import { roleGuard } from "../utils/roleGuard";
+import { Permissions } from "../enums/role.enum";
+import {
+  createCustomFieldService,
+  deleteCustomFieldService,
+  getCustomFieldsService,
+  updateCustomFieldService,
+} from "../services/custom-field.service";
+import { HTTPSTATUS } from "../config/http.config";
+
+export const createCustomFieldController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = createCustomFieldSchema.parse(req.body);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    const { field } = await createCustomFieldService(workspaceId, userId, body);
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Custom field created successfully",
+      field,
+    });
+  }
+);
+
+export const getCustomFieldsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const projectId = req.query.projectId as string | undefined;
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { fields } = await getCustomFieldsService(workspaceId, projectId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Custom fields fetched successfully",
+      fields,
+    });
+  }
+);
+
+export const updateCustomFieldController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = updateCustomFieldSchema.parse(req.body);
+    const fieldId = customFieldIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    const { field } = await updateCustomFieldService(
+      workspaceId,
+      fieldId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Custom field updated successfully",
+      field,
+    });
+  }
+);
+
+export const deleteCustomFieldController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const fieldId = customFieldIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    await deleteCustomFieldService(workspaceId, fieldId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Custom field deleted successfully",
+    });
+  }
+);
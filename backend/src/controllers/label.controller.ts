@@ -0,0 +1,114 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middlewares/asyncHandler.middleware";
+import {
+  bulkTaskLabelsSchema,
+  createLabelSchema,
+  labelIdSchema,
+  updateLabelSchema,
+} from "../validation/label.validation";
+import { workspaceIdSchema } from "../validation/workspace.validation";
+import { getMemberRoleInWorkspace } from "../services/member.service";
+import { roleGuard } from "../utils/roleGuard";
+import { Permissions } from "../enums/role.enum";
+import {
+  bulkUpdateTaskLabelsService,
+  createLabelService,
+  deleteLabelService,
+  getLabelsService,
+  updateLabelService,
+} from "../services/label.service";
+import { HTTPSTATUS } from "../config/http.config";
+
+export const createLabelController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = createLabelSchema.parse(req.body);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    const { label } = await createLabelService(workspaceId, userId, body);
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Label created successfully",
+      label,
+    });
+  }
+);
+
+export const getLabelsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { labels } = await getLabelsService(workspaceId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Labels fetched successfully",
+      labels,
+    });
+  }
+);
+
+export const updateLabelController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = updateLabelSchema.parse(req.body);
+    const labelId = labelIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    const { label } = await updateLabelService(workspaceId, labelId, body);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Label updated successfully",
+      label,
+    });
+  }
+);
+
+export const deleteLabelController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const labelId = labelIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    await deleteLabelService(workspaceId, labelId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Label deleted successfully",
+    });
+  }
+);
+
+export const bulkUpdateTaskLabelsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = bulkTaskLabelsSchema.parse(req.body);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_TASK]);
+
+    const { tasks } = await bulkUpdateTaskLabelsService(
+      workspaceId,
+      userId,
+      role,
+      body
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Task labels updated successfully",
+      tasks,
+    });
+  }
+);
@@ -0,0 +1,109 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middlewares/asyncHandler.middleware";
+import {
+  createMilestoneSchema,
+  milestoneFilterSchema,
+  milestoneIdSchema,
+  updateMilestoneSchema,
+} from "../validation/milestone.validation";
+import { projectIdSchema } from "../validation/project.validation";
+import { workspaceIdSchema } from "../validation/workspace.validation";
+import { getMemberRoleInWorkspace } from "../services/member.service";
+import { roleGuard } from "../utils/roleGuard";
+import { Permissions } from "../enums/role.enum";
+import {
+  createMilestoneService,
+  deleteMilestoneService,
+  getMilestonesService,
+  updateMilestoneService,
+} from "../services/milestone.service";
+import { HTTPSTATUS } from "../config/http.config";
+
+export const createMilestoneController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = createMilestoneSchema.parse(req.body);
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    const { milestone } = await createMilestoneService(
+      workspaceId,
+      projectId,
+      userId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Milestone created successfully",
+      milestone,
+    });
+  }
+);
+
+export const getMilestonesController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const filters = milestoneFilterSchema.parse({
+      projectId: req.query.projectId || undefined,
+      from: req.query.from || undefined,
+      to: req.query.to || undefined,
+    });
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { milestones } = await getMilestonesService(workspaceId, filters);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Milestones fetched successfully",
+      milestones,
+    });
+  }
+);
+
+export const updateMilestoneController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = updateMilestoneSchema.parse(req.body);
+    const milestoneId = milestoneIdSchema.parse(req.params.milestoneId);
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    const { milestone } = await updateMilestoneService(
+      workspaceId,
+      projectId,
+      milestoneId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Milestone updated successfully",
+      milestone,
+    });
+  }
+);
+
+export const deleteMilestoneController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const milestoneId = milestoneIdSchema.parse(req.params.milestoneId);
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    await deleteMilestoneService(workspaceId, projectId, milestoneId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Milestone deleted successfully",
+    });
+  }
+);
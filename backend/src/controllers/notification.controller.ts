@@ -0,0 +1,68 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middlewares/asyncHandler.middleware";
+import { notificationIdSchema } from "../validation/notification.validation";
+import { workspaceIdSchema } from "../validation/workspace.validation";
+import { getMemberRoleInWorkspace } from "../services/member.service";
+import { roleGuard } from "../utils/roleGuard";
+import { Permissions } from "../enums/role.enum";
+import {
+  getNotificationsService,
+  markAllNotificationsReadService,
+  markNotificationReadService,
+} from "../services/notification.service";
+import { HTTPSTATUS } from "../config/http.config";
+
+export const getNotificationsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const result = await getNotificationsService(workspaceId, userId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Notifications fetched successfully",
+      ...result,
+    });
+  }
+);
+
+export const markNotificationReadController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const notificationId = notificationIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { notification } = await markNotificationReadService(
+      workspaceId,
+      notificationId,
+      userId
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Notification marked as read",
+      notification,
+    });
+  }
+);
+
+export const markAllNotificationsReadController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    await markAllNotificationsReadService(workspaceId, userId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "All notifications marked as read",
+    });
+  }
+);
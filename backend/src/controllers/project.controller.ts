@@ -3,6 +3,7 @@ import { asyncHandler } from "../middlewares/asyncHandler.middleware";
 import {
   createProjectSchema,
   projectIdSchema,
+  projectListFilterSchema,
   updateProjectSchema,
 } from "../validation/project.validation";
 import { workspaceIdSchema } from "../validation/workspace.validation";
@@ -10,11 +11,13 @@ import { getMemberRoleInWorkspace } from "../services/member.service";
 import { roleGuard } from "../utils/roleGuard";
 import { Permissions } from "../enums/role.enum";
 import {
+  archiveProjectService,
   createProjectService,
   deleteProjectService,
   getProjectAnalyticsService,
   getProjectByIdAndWorkspaceIdService,
   getProjectsInWorkspaceService,
+  unarchiveProjectService,
   updateProjectService,
 } from "../services/project.service";
 import { HTTPSTATUS } from "../config/http.config";
@@ -40,6 +43,7 @@ export const createProjectController = asyncHandler(
 export const getAllProjectsInWorkspaceController = asyncHandler(
   async (req: Request, res: Response) => {
     const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const filters = projectListFilterSchema.parse(req.query);
     const userId = req.user?._id;
 
     const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
@@ -49,7 +53,12 @@ export const getAllProjectsInWorkspaceController = asyncHandler(
     const pageNumber = parseInt(req.query.pageNumber as string) || 1;
 
     const { projects, totalCount, totalPages, skip } =
-      await getProjectsInWorkspaceService(workspaceId, pageSize, pageNumber);
+      await getProjectsInWorkspaceService(
+        workspaceId,
+        pageSize,
+        pageNumber,
+        filters
+      );
 
     return res.status(HTTPSTATUS.OK).json({
       message: "Project fetched successfully",
@@ -98,14 +107,14 @@ export const getProjectAnalyticsController = asyncHandler(
     const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
     roleGuard(role, [Permissions.VIEW_ONLY]);
 
-    const { analytics } = await getProjectAnalyticsService(
-      workspaceId,
-      projectId
-    );
+    const { analytics, labelBreakdown, timeByMember } =
+      await getProjectAnalyticsService(workspaceId, projectId);
 
     return res.status(HTTPSTATUS.OK).json({
       message: "Project analytics retrieved successfully",
       analytics,
+      labelBreakdown,
+      timeByMember,
     });
   }
 );
@@ -145,10 +154,56 @@ export const deleteProjectController = asyncHandler(
     const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
     roleGuard(role, [Permissions.DELETE_PROJECT]);
 
-    await deleteProjectService(workspaceId, projectId);
+    await deleteProjectService(workspaceId, projectId, userId);
 
     return res.status(HTTPSTATUS.OK).json({
-      message: "Project deleted successfully",
+      message: "Project moved to the trash",
+    });
+  }
+);
+
+export const archiveProjectController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    const { project } = await archiveProjectService(
+      workspaceId,
+      projectId,
+      userId
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Project archived successfully",
+      project,
+    });
+  }
+);
+
+export const unarchiveProjectController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    const { project } = await unarchiveProjectService(
+      workspaceId,
+      projectId,
+      userId
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Project unarchived successfully",
+      project,
     });
   }
 );
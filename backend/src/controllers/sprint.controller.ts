@@ -0,0 +1,180 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middlewares/asyncHandler.middleware";
+import {
+  closeSprintSchema,
+  createSprintSchema,
+  sprintIdSchema,
+  updateSprintSchema,
+} from "../validation/sprint.validation";
+import { projectIdSchema } from "../validation/project.validation";
+import { workspaceIdSchema } from "../validation/workspace.validation";
+import { getMemberRoleInWorkspace } from "../services/member.service";
+import { roleGuard } from "../utils/roleGuard";
+import { Permissions } from "../enums/role.enum";
+import {
+  closeSprintService,
+  createSprintService,
+  deleteSprintService,
+  getSprintReportService,
+  getSprintsService,
+  startSprintService,
+  updateSprintService,
+} from "../services/sprint.service";
+import { HTTPSTATUS } from "../config/http.config";
+
+export const createSprintController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = createSprintSchema.parse(req.body);
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    const { sprint } = await createSprintService(
+      workspaceId,
+      projectId,
+      userId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Sprint created successfully",
+      sprint,
+    });
+  }
+);
+
+export const getSprintsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { sprints } = await getSprintsService(workspaceId, projectId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Sprints fetched successfully",
+      sprints,
+    });
+  }
+);
+
+export const updateSprintController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = updateSprintSchema.parse(req.body);
+    const sprintId = sprintIdSchema.parse(req.params.sprintId);
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    const { sprint } = await updateSprintService(
+      workspaceId,
+      projectId,
+      sprintId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Sprint updated successfully",
+      sprint,
+    });
+  }
+);
+
+export const deleteSprintController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const sprintId = sprintIdSchema.parse(req.params.sprintId);
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    await deleteSprintService(workspaceId, projectId, sprintId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Sprint deleted successfully",
+    });
+  }
+);
+
+export const startSprintController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const sprintId = sprintIdSchema.parse(req.params.sprintId);
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    const { sprint } = await startSprintService(
+      workspaceId,
+      projectId,
+      sprintId
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Sprint started",
+      sprint,
+    });
+  }
+);
+
+export const closeSprintController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { carryOverTo } = closeSprintSchema.parse(req.body);
+    const sprintId = sprintIdSchema.parse(req.params.sprintId);
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_PROJECT]);
+
+    const { sprint } = await closeSprintService(
+      workspaceId,
+      projectId,
+      sprintId,
+      carryOverTo
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Sprint closed",
+      sprint,
+    });
+  }
+);
+
+export const getSprintReportController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const sprintId = sprintIdSchema.parse(req.params.sprintId);
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { sprint, report } = await getSprintReportService(
+      workspaceId,
+      projectId,
+      sprintId
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Sprint report fetched successfully",
+      sprint,
+      report,
+    });
+  }
+);
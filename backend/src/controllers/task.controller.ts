@@ -1,28 +1,66 @@
 import { Request, Response } from "express";
 import { asyncHandler } from "../middlewares/asyncHandler.middleware";
 import {
+  addDependencySchema,
+  batchTasksSchema,
   clarificationIdSchema,
   createClarificationSchema,
+  createSubtaskSchema,
   createTaskSchema,
+  dueDateSchema,
+  duplicateTaskSchema,
+  hasOpenClarificationsFilterSchema,
+  isBlockedFilterSchema,
+  moveTaskSchema,
+  resolveClarificationSchema,
   respondClarificationSchema,
+  updateClarificationSchema,
+  taskCodeSchema,
   taskIdSchema,
+  taskLevelSchema,
+  taskSortBySchema,
+  taskSortOrderSchema,
   updateTaskSchema,
+  updateTaskSeriesSchema,
+  watchingFilterSchema,
 } from "../validation/task.validation";
 import { projectIdSchema } from "../validation/project.validation";
 import { workspaceIdSchema } from "../validation/workspace.validation";
+import { labelMatchSchema } from "../validation/label.validation";
+import { sprintFilterSchema } from "../validation/sprint.validation";
 import { Permissions, RoleType } from "../enums/role.enum";
 import { getMemberRoleInWorkspace } from "../services/member.service";
 import { roleGuard } from "../utils/roleGuard";
 import {
+  addTaskDependencyService,
+  createSubtaskService,
   createTaskClarificationService,
   createTaskService,
   deleteTaskService,
+  getSubtasksService,
   getTaskClarificationsService,
+  getTaskDependenciesService,
   getAllTasksService,
+  getTaskByCodeService,
   getTaskByIdService,
+  removeTaskDependencyService,
+  reopenTaskClarificationService,
+  resolveTaskClarificationService,
   respondToTaskClarificationService,
+  updateTaskClarificationService,
+  withdrawTaskClarificationService,
+  unwatchTaskService,
   updateTaskService,
+  watchTaskService,
 } from "../services/task.service";
+import { updateTaskSeriesService } from "../services/task-series.service";
+import { batchTasksService } from "../services/task-batch.service";
+import {
+  duplicateTaskService,
+  getProjectWorkspaceIdService,
+  moveTaskService,
+} from "../services/task-transfer.service";
+import { getTaskActivityService } from "../services/task-activity.service";
 import { HTTPSTATUS } from "../config/http.config";
 
 export const createTaskController = asyncHandler(
@@ -79,6 +117,223 @@ export const updateTaskController = asyncHandler(
   }
 );
 
+export const createSubtaskController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const body = createSubtaskSchema.parse(req.body);
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.CREATE_TASK]);
+
+    const { task } = await createSubtaskService(
+      workspaceId,
+      taskId,
+      userId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Subtask created successfully",
+      task,
+    });
+  }
+);
+
+export const getSubtasksController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { subtasks, progress } = await getSubtasksService(
+      workspaceId,
+      taskId
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Subtasks fetched successfully",
+      subtasks,
+      progress,
+    });
+  }
+);
+
+export const getTaskDependenciesController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { blockers, dependents } = await getTaskDependenciesService(
+      workspaceId,
+      taskId
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Task dependencies fetched successfully",
+      blockers,
+      dependents,
+    });
+  }
+);
+
+export const getTaskActivityController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const pagination = {
+      pageSize: parseInt(req.query.pageSize as string) || 20,
+      pageNumber: parseInt(req.query.pageNumber as string) || 1,
+    };
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const result = await getTaskActivityService(
+      workspaceId,
+      taskId,
+      pagination
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Task activity fetched successfully",
+      ...result,
+    });
+  }
+);
+
+export const addTaskDependencyController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const { blockerId } = addDependencySchema.parse(req.body);
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_TASK]);
+
+    const { blockers, dependents } = await addTaskDependencyService(
+      workspaceId,
+      taskId,
+      blockerId,
+      userId,
+      role as RoleType
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Task dependency added successfully",
+      blockers,
+      dependents,
+    });
+  }
+);
+
+export const removeTaskDependencyController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const blockerId = taskIdSchema.parse(req.params.blockerId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_TASK]);
+
+    const { blockers, dependents } = await removeTaskDependencyService(
+      workspaceId,
+      taskId,
+      blockerId,
+      userId,
+      role as RoleType
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Task dependency removed successfully",
+      blockers,
+      dependents,
+    });
+  }
+);
+
+export const watchTaskController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { watchers } = await watchTaskService(workspaceId, taskId, userId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "You are now watching this task",
+      watchers,
+    });
+  }
+);
+
+export const unwatchTaskController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { watchers } = await unwatchTaskService(workspaceId, taskId, userId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "You are no longer watching this task",
+      watchers,
+    });
+  }
+);
+
+export const updateTaskSeriesController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const body = updateTaskSeriesSchema.parse(req.body);
+    const taskId = taskIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_TASK]);
+
+    const { series } = await updateTaskSeriesService(
+      workspaceId,
+      taskId,
+      userId,
+      role as RoleType,
+      body
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Recurring series updated successfully",
+      series,
+    });
+  }
+);
+
 export const getAllTasksController = asyncHandler(
   async (req: Request, res: Response) => {
     const userId = req.user?._id;
@@ -96,8 +351,30 @@ export const getAllTasksController = asyncHandler(
       assignedTo: req.query.assignedTo
         ? (req.query.assignedTo as string)?.split(",")
         : undefined,
+      watcherId: watchingFilterSchema.parse(req.query.watching || undefined)
+        ? String(userId)
+        : undefined,
+      labels: req.query.labels
+        ? (req.query.labels as string)?.split(",")
+        : undefined,
+      labelsMatch: labelMatchSchema.parse(req.query.labelsMatch || undefined),
       keyword: req.query.keyword as string | undefined,
-      dueDate: req.query.dueDate as string | undefined,
+      dueFrom: dueDateSchema.parse(req.query.dueFrom || undefined),
+      dueTo: dueDateSchema.parse(req.query.dueTo || undefined),
+      level: taskLevelSchema.parse(req.query.level || undefined),
+      parentTaskId: req.query.parentTaskId as string | undefined,
+      isBlocked: isBlockedFilterSchema.parse(req.query.isBlocked || undefined),
+      hasOpenClarifications: hasOpenClarificationsFilterSchema.parse(
+        req.query.hasOpenClarifications || undefined
+      ),
+      sprint: sprintFilterSchema.parse(req.query.sprint || undefined),
+      customFields: Object.fromEntries(
+        Object.entries(req.query)
+          .filter(([key, value]) => key.startsWith("cf.") && value)
+          .map(([key, value]) => [key.slice(3), String(value)])
+      ),
+      sortBy: taskSortBySchema.parse(req.query.sortBy || undefined),
+      sortOrder: taskSortOrderSchema.parse(req.query.sortOrder || undefined),
     };
 
     const pagination = {
@@ -137,6 +414,25 @@ export const getTaskByIdController = asyncHandler(
   }
 );
 
+export const getTaskByCodeController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const taskCode = taskCodeSchema.parse(req.params.taskCode);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { task } = await getTaskByCodeService(workspaceId, taskCode);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Task fetched successfully",
+      task,
+    });
+  }
+);
+
 export const deleteTaskController = asyncHandler(
   async (req: Request, res: Response) => {
     const userId = req.user?._id;
@@ -147,10 +443,10 @@ export const deleteTaskController = asyncHandler(
     const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
     roleGuard(role, [Permissions.DELETE_TASK]);
 
-    await deleteTaskService(workspaceId, taskId);
+    await deleteTaskService(workspaceId, taskId, userId);
 
     return res.status(HTTPSTATUS.OK).json({
-      message: "Task deleted successfully",
+      message: "Task moved to the trash",
     });
   }
 );
@@ -214,13 +510,15 @@ export const respondToTaskClarificationController = asyncHandler(
     const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
 
     const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
-    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
 
+    // Who may answer beyond owners and admins is a workspace setting.
     const { clarification } = await respondToTaskClarificationService(
       workspaceId,
       taskId,
       clarificationId,
       userId,
+      role,
       body.message
     );
 
@@ -230,3 +528,220 @@ export const respondToTaskClarificationController = asyncHandler(
     });
   }
 );
+
+export const updateTaskClarificationController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const body = updateClarificationSchema.parse(req.body);
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const clarificationId = clarificationIdSchema.parse(
+      req.params.clarificationId
+    );
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { clarification } = await updateTaskClarificationService(
+      workspaceId,
+      taskId,
+      clarificationId,
+      userId,
+      body.question
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Clarification updated successfully",
+      clarification,
+    });
+  }
+);
+
+export const withdrawTaskClarificationController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const clarificationId = clarificationIdSchema.parse(
+      req.params.clarificationId
+    );
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { clarification } = await withdrawTaskClarificationService(
+      workspaceId,
+      taskId,
+      clarificationId,
+      userId
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Clarification withdrawn successfully",
+      clarification,
+    });
+  }
+);
+
+export const resolveTaskClarificationController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const body = resolveClarificationSchema.parse(req.body ?? {});
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const clarificationId = clarificationIdSchema.parse(
+      req.params.clarificationId
+    );
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { clarification } = await resolveTaskClarificationService(
+      workspaceId,
+      taskId,
+      clarificationId,
+      userId,
+      role,
+      body.acceptedResponseId
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Clarification resolved successfully",
+      clarification,
+    });
+  }
+);
+
+export const reopenTaskClarificationController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const clarificationId = clarificationIdSchema.parse(
+      req.params.clarificationId
+    );
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { clarification } = await reopenTaskClarificationService(
+      workspaceId,
+      taskId,
+      clarificationId,
+      userId,
+      role
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Clarification reopened successfully",
+      clarification,
+    });
+  }
+);
+
+export const moveTaskController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const body = moveTaskSchema.parse(req.body);
+    const taskId = taskIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_TASK, Permissions.DELETE_TASK]);
+
+    // The target project may live in another workspace, where the user
+    // needs to be allowed to create tasks.
+    const { workspaceId: targetWorkspaceId } =
+      await getProjectWorkspaceIdService(body.projectId);
+    const { role: targetRole } = await getMemberRoleInWorkspace(
+      userId,
+      targetWorkspaceId
+    );
+    roleGuard(targetRole, [Permissions.CREATE_TASK]);
+
+    const { task } = await moveTaskService(workspaceId, taskId, userId, body);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Task moved successfully",
+      task,
+    });
+  }
+);
+
+export const duplicateTaskController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const body = duplicateTaskSchema.parse(req.body ?? {});
+    const taskId = taskIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.CREATE_TASK]);
+
+    const { task, subtasks } = await duplicateTaskService(
+      workspaceId,
+      taskId,
+      userId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Task duplicated successfully",
+      task,
+      subtasks,
+    });
+  }
+);
+
+export const batchTasksController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const userId = req.user?._id;
+
+    const body = batchTasksSchema.parse(req.body);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+
+    switch (body.operation.action) {
+      case "update":
+        roleGuard(role, [Permissions.EDIT_TASK]);
+        break;
+      case "move": {
+        roleGuard(role, [Permissions.EDIT_TASK, Permissions.DELETE_TASK]);
+        const { workspaceId: targetWorkspaceId } =
+          await getProjectWorkspaceIdService(body.operation.projectId);
+        const { role: targetRole } = await getMemberRoleInWorkspace(
+          userId,
+          targetWorkspaceId
+        );
+        roleGuard(targetRole, [Permissions.CREATE_TASK]);
+        break;
+      }
+      case "delete":
+        roleGuard(role, [Permissions.DELETE_TASK]);
+        break;
+    }
+
+    const { results } = await batchTasksService(
+      workspaceId,
+      userId,
+      role as RoleType,
+      body
+    );
+
+    const succeeded = results.filter((result) => result.success).length;
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: `Applied to ${succeeded} of ${results.length} tasks`,
+      succeeded,
+      failed: results.length - succeeded,
+      results,
+    });
+  }
+);
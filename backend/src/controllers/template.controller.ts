@@ -0,0 +1,103 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middlewares/asyncHandler.middleware";
+import {
+  createTemplateSchema,
+  templateIdSchema,
+  templateTypeSchema,
+} from "../validation/template.validation";
+import { projectIdSchema } from "../validation/project.validation";
+import { taskIdSchema } from "../validation/task.validation";
+import { workspaceIdSchema } from "../validation/workspace.validation";
+import { getMemberRoleInWorkspace } from "../services/member.service";
+import { roleGuard } from "../utils/roleGuard";
+import { Permissions } from "../enums/role.enum";
+import {
+  createProjectTemplateService,
+  createTaskTemplateService,
+  deleteTemplateService,
+  getTemplatesService,
+} from "../services/template.service";
+import { HTTPSTATUS } from "../config/http.config";
+
+export const getTemplatesController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+    const type = templateTypeSchema.parse(req.query.type);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { templates } = await getTemplatesService(workspaceId, type);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Templates fetched successfully",
+      templates,
+    });
+  }
+);
+
+export const createProjectTemplateController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = createTemplateSchema.parse(req.body);
+    const projectId = projectIdSchema.parse(req.params.projectId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.CREATE_PROJECT]);
+
+    const { template } = await createProjectTemplateService(
+      workspaceId,
+      projectId,
+      userId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Project saved as a template",
+      template,
+    });
+  }
+);
+
+export const createTaskTemplateController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = createTemplateSchema.parse(req.body);
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.CREATE_TASK]);
+
+    const { template } = await createTaskTemplateService(
+      workspaceId,
+      taskId,
+      userId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Task saved as a template",
+      template,
+    });
+  }
+);
+
+export const deleteTemplateController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const templateId = templateIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    await deleteTemplateService(workspaceId, templateId, userId, role);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Template deleted successfully",
+    });
+  }
+);
@@ -0,0 +1,71 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middlewares/asyncHandler.middleware";
+import { workspaceIdSchema } from "../validation/workspace.validation";
+import { projectIdSchema } from "../validation/project.validation";
+import { taskIdSchema } from "../validation/task.validation";
+import { getMemberRoleInWorkspace } from "../services/member.service";
+import { roleGuard } from "../utils/roleGuard";
+import { Permissions } from "../enums/role.enum";
+import {
+  getTrashService,
+  restoreProjectService,
+  restoreTaskService,
+} from "../services/trash.service";
+import { HTTPSTATUS } from "../config/http.config";
+
+export const getTrashController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const result = await getTrashService(workspaceId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Trash fetched successfully",
+      ...result,
+    });
+  }
+);
+
+export const restoreTaskController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const taskId = taskIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.DELETE_TASK]);
+
+    const { task } = await restoreTaskService(workspaceId, taskId, userId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Task restored successfully",
+      task,
+    });
+  }
+);
+
+export const restoreProjectController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const projectId = projectIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.DELETE_PROJECT]);
+
+    const { project } = await restoreProjectService(
+      workspaceId,
+      projectId,
+      userId
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Project restored successfully",
+      project,
+    });
+  }
+);
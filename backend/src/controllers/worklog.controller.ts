@@ -0,0 +1,160 @@
+import { Request, Response } from "express";
+import { asyncHandler } from "../middlewares/asyncHandler.middleware";
+import {
+  createWorklogSchema,
+  timerNoteSchema,
+  worklogIdSchema,
+  worklogRangeSchema,
+} from "../validation/worklog.validation";
+import { taskIdSchema } from "../validation/task.validation";
+import { workspaceIdSchema } from "../validation/workspace.validation";
+import { getMemberRoleInWorkspace } from "../services/member.service";
+import { roleGuard } from "../utils/roleGuard";
+import { Permissions } from "../enums/role.enum";
+import {
+  createWorklogService,
+  deleteWorklogService,
+  exportWorklogsCsvService,
+  getActiveTimerService,
+  getTaskWorklogsService,
+  startTimerService,
+  stopTimerService,
+} from "../services/worklog.service";
+import { HTTPSTATUS } from "../config/http.config";
+
+export const startTimerController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const { note } = timerNoteSchema.parse(req.body ?? {});
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_TASK]);
+
+    const { timer } = await startTimerService(workspaceId, taskId, userId, note);
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Timer started",
+      timer,
+    });
+  }
+);
+
+export const stopTimerController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_TASK]);
+
+    const { worklog } = await stopTimerService(workspaceId, userId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Timer stopped",
+      worklog,
+    });
+  }
+);
+
+export const getActiveTimerController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { timer } = await getActiveTimerService(workspaceId, userId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Active timer fetched successfully",
+      timer,
+    });
+  }
+);
+
+export const createWorklogController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const body = createWorklogSchema.parse(req.body);
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_TASK]);
+
+    const { worklog } = await createWorklogService(
+      workspaceId,
+      taskId,
+      userId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.CREATED).json({
+      message: "Time logged successfully",
+      worklog,
+    });
+  }
+);
+
+export const getTaskWorklogsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const taskId = taskIdSchema.parse(req.params.taskId);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const result = await getTaskWorklogsService(workspaceId, taskId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Worklogs fetched successfully",
+      ...result,
+    });
+  }
+);
+
+export const deleteWorklogController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const worklogId = worklogIdSchema.parse(req.params.id);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.EDIT_TASK]);
+
+    await deleteWorklogService(workspaceId, worklogId, userId, role);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Worklog deleted successfully",
+    });
+  }
+);
+
+export const exportWorklogsController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const filters = worklogRangeSchema.parse(req.query);
+    const workspaceId = workspaceIdSchema.parse(req.params.workspaceId);
+
+    const userId = req.user?._id;
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { csv } = await exportWorklogsCsvService(
+      workspaceId,
+      userId,
+      role,
+      filters
+    );
+
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader(
+      "Content-Disposition",
+      'attachment; filename="worklogs.csv"'
+    );
+    return res.status(HTTPSTATUS.OK).send(csv);
+  }
+);
@@ -15,12 +15,22 @@ import {
   getWorkspaceAnalyticsService,
   getWorkspaceByIdService,
   getWorkspaceMembersService,
+  updateClarificationPolicyService,
   updateWorkspaceByIdService,
 } from "../services/workspace.service";
 import { getMemberRoleInWorkspace } from "../services/member.service";
 import { Permissions } from "../enums/role.enum";
 import { roleGuard } from "../utils/roleGuard";
-import { updateWorkspaceSchema } from "../validation/workspace.validation";
+import { ClarificationResponsePolicyEnumType } from "../enums/clarification.enum";
+import {
+  clarificationPolicySchema,
+  updateWorkflowSchema,
+  updateWorkspaceSchema,
+} from "../validation/workspace.validation";
+import {
+  getWorkspaceWorkflowService,
+  updateWorkspaceWorkflowService,
+} from "../services/workflow.service";
 
 export const createWorkspaceController = asyncHandler(
   async (req: Request, res: Response) => {
@@ -93,11 +103,80 @@ export const getWorkspaceAnalyticsController = asyncHandler(
     const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
     roleGuard(role, [Permissions.VIEW_ONLY]);
 
-    const { analytics } = await getWorkspaceAnalyticsService(workspaceId);
+    const includeArchived = req.query.includeArchived === "true";
+
+    const { analytics, timeByMember, clarificationStats } =
+      await getWorkspaceAnalyticsService(workspaceId, includeArchived);
 
     return res.status(HTTPSTATUS.OK).json({
       message: "Workspace analytics retrieved successfully",
       analytics,
+      timeByMember,
+      clarificationStats,
+    });
+  }
+);
+
+export const getWorkspaceWorkflowController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.id);
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.VIEW_ONLY]);
+
+    const { workflow } = await getWorkspaceWorkflowService(workspaceId);
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Workspace workflow fetched successfully",
+      workflow,
+    });
+  }
+);
+
+export const updateWorkspaceWorkflowController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.id);
+    const body = updateWorkflowSchema.parse(req.body);
+
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    const { workflow } = await updateWorkspaceWorkflowService(
+      workspaceId,
+      body
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Workspace workflow updated successfully",
+      workflow,
+    });
+  }
+);
+
+export const updateClarificationPolicyController = asyncHandler(
+  async (req: Request, res: Response) => {
+    const workspaceId = workspaceIdSchema.parse(req.params.id);
+    const { clarificationResponsePolicy } = clarificationPolicySchema.parse(
+      req.body
+    );
+
+    const userId = req.user?._id;
+
+    const { role } = await getMemberRoleInWorkspace(userId, workspaceId);
+    roleGuard(role, [Permissions.MANAGE_WORKSPACE_SETTINGS]);
+
+    const { workspace } = await updateClarificationPolicyService(
+      workspaceId,
+      userId,
+      clarificationResponsePolicy as ClarificationResponsePolicyEnumType
+    );
+
+    return res.status(HTTPSTATUS.OK).json({
+      message: "Clarification policy updated successfully",
+      workspace,
     });
   }
 );
@@ -115,7 +194,8 @@ export const changeWorkspaceMemberRoleController = asyncHandler(
     const { member } = await changeMemberRoleService(
       workspaceId,
       memberId,
-      roleId
+      roleId,
+      userId
     );
 
     return res.status(HTTPSTATUS.OK).json({
@@ -137,6 +217,7 @@ export const updateWorkspaceByIdController = asyncHandler(
 
     const { workspace } = await updateWorkspaceByIdService(
       workspaceId,
+      userId,
       name,
       description
     );
@@ -0,0 +1,15 @@
+export const AuditActionEnum = {
+  USER_LOGGED_IN: "USER_LOGGED_IN",
+  MEMBER_JOINED: "MEMBER_JOINED",
+  MEMBER_ROLE_CHANGED: "MEMBER_ROLE_CHANGED",
+  WORKSPACE_UPDATED: "WORKSPACE_UPDATED",
+  PROJECT_DELETED: "PROJECT_DELETED",
+  TASK_DELETED: "TASK_DELETED",
+  TASK_MOVED: "TASK_MOVED",
+  PROJECT_RESTORED: "PROJECT_RESTORED",
+  TASK_RESTORED: "TASK_RESTORED",
+  PROJECT_ARCHIVED: "PROJECT_ARCHIVED",
+  PROJECT_UNARCHIVED: "PROJECT_UNARCHIVED",
+} as const;
+
+export type AuditActionEnumType = keyof typeof AuditActionEnum;
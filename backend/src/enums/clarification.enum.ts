@@ -0,0 +1,18 @@
+export const ClarificationStatusEnum = {
+  OPEN: "OPEN",
+  ANSWERED: "ANSWERED",
+  RESOLVED: "RESOLVED",
+  WITHDRAWN: "WITHDRAWN",
+} as const;
+
+export type ClarificationStatusEnumType = keyof typeof ClarificationStatusEnum;
+
+// Who besides the workspace owner and admins may answer a clarification.
+export const ClarificationResponsePolicyEnum = {
+  ADMINS: "ADMINS",
+  ADMINS_AND_ASSIGNEES: "ADMINS_AND_ASSIGNEES",
+  ANY_MEMBER: "ANY_MEMBER",
+} as const;
+
+export type ClarificationResponsePolicyEnumType =
+  keyof typeof ClarificationResponsePolicyEnum;
@@ -0,0 +1,11 @@
+export const CustomFieldTypeEnum = {
+  TEXT: "TEXT",
+  NUMBER: "NUMBER",
+  SINGLE_SELECT: "SINGLE_SELECT",
+  MULTI_SELECT: "MULTI_SELECT",
+  DATE: "DATE",
+  USER: "USER",
+  CHECKBOX: "CHECKBOX",
+} as const;
+
+export type CustomFieldTypeEnumType = keyof typeof CustomFieldTypeEnum;
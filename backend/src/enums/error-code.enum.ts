@@ -15,6 +15,19 @@ export const ErrorCodeEnum = {
   VALIDATION_ERROR: "VALIDATION_ERROR",
   RESOURCE_NOT_FOUND: "RESOURCE_NOT_FOUND",
 
+  // Project Errors
+  PROJECT_ARCHIVED: "PROJECT_ARCHIVED",
+
+  // Task Workflow Errors
+  TASK_BLOCKED_BY_DEPENDENCY: "TASK_BLOCKED_BY_DEPENDENCY",
+  TASK_DEPENDENCY_CYCLE: "TASK_DEPENDENCY_CYCLE",
+  TASK_INVALID_STATUS: "TASK_INVALID_STATUS",
+  TASK_STATUS_TRANSITION_NOT_ALLOWED: "TASK_STATUS_TRANSITION_NOT_ALLOWED",
+
+  // Attachment Errors
+  ATTACHMENT_TOO_LARGE: "ATTACHMENT_TOO_LARGE",
+  ATTACHMENT_TYPE_NOT_ALLOWED: "ATTACHMENT_TYPE_NOT_ALLOWED",
+
   // System Errors
   INTERNAL_SERVER_ERROR: "INTERNAL_SERVER_ERROR",
 } as const;
@@ -0,0 +1,5 @@
+export const NotificationTypeEnum = {
+  COMMENT_MENTION: "COMMENT_MENTION",
+} as const;
+
+export type NotificationTypeEnumType = keyof typeof NotificationTypeEnum;
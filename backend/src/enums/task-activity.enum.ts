@@ -0,0 +1,8 @@
+export const TaskActivityActionEnum = {
+  CREATED: "CREATED",
+  UPDATED: "UPDATED",
+  DELETED: "DELETED",
+  RESTORED: "RESTORED",
+} as const;
+
+export type TaskActivityActionEnumType = keyof typeof TaskActivityActionEnum;
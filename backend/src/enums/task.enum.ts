@@ -6,11 +6,26 @@ export const TaskStatusEnum = {
   DONE: "DONE",
 } as const;
 
+export const TaskStatusCategoryEnum = {
+  NOT_STARTED: "NOT_STARTED",
+  ACTIVE: "ACTIVE",
+  DONE: "DONE",
+} as const;
+
 export const TaskPriorityEnum = {
   LOW: "LOW",
   MEDIUM: "MEDIUM",
   HIGH: "HIGH",
 } as const;
 
+export const RecurrenceFrequencyEnum = {
+  DAILY: "DAILY",
+  WEEKLY: "WEEKLY",
+  MONTHLY: "MONTHLY",
+  EVERY_N_DAYS: "EVERY_N_DAYS",
+} as const;
+
 export type TaskStatusEnumType = keyof typeof TaskStatusEnum;
+export type TaskStatusCategoryEnumType = keyof typeof TaskStatusCategoryEnum;
 export type TaskPriorityEnumType = keyof typeof TaskPriorityEnum;
+export type RecurrenceFrequencyEnumType = keyof typeof RecurrenceFrequencyEnum;
@@ -0,0 +1,6 @@
+export const TemplateTypeEnum = {
+  PROJECT: "PROJECT",
+  TASK: "TASK",
+} as const;
+
+export type TemplateTypeEnumType = keyof typeof TemplateTypeEnum;
@@ -0,0 +1,6 @@
+export const WorklogSourceEnum = {
+  TIMER: "TIMER",
+  MANUAL: "MANUAL",
+} as const;
+
+export type WorklogSourceEnumType = keyof typeof WorklogSourceEnum;
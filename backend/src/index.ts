@@ -19,10 +19,25 @@ import workspaceRoutes from "./routes/workspace.route";
 import memberRoutes from "./routes/member.route";
 import projectRoutes from "./routes/project.route";
 import taskRoutes from "./routes/task.route";
+import customFieldRoutes from "./routes/custom-field.route";
+import labelRoutes from "./routes/label.route";
+import worklogRoutes from "./routes/worklog.route";
+import auditLogRoutes from "./routes/audit-log.route";
+import commentRoutes from "./routes/comment.route";
+import notificationRoutes from "./routes/notification.route";
+import attachmentRoutes from "./routes/attachment.route";
+import checklistRoutes from "./routes/checklist.route";
+import templateRoutes from "./routes/template.route";
+import trashRoutes from "./routes/trash.route";
+import { generateScheduledOccurrencesService } from "./services/task-series.service";
+import { purgeExpiredTrashService } from "./services/trash.service";
+import { dropLegacyTaskCodeIndex } from "./models/task.model";
 
 const app = express();
 
 const BASE_PATH = config.BASE_PATH;
+const RECURRING_TASK_CHECK_INTERVAL = 15 * 60 * 1000;
+const TRASH_PURGE_INTERVAL = 60 * 60 * 1000;
 
 if (config.NODE_ENV === "production") {
   app.set("trust proxy", 1); // Trust the first proxy
@@ -79,10 +94,38 @@ app.use(`${BASE_PATH}/workspace`, isAuthenticated, workspaceRoutes);
 app.use(`${BASE_PATH}/member`, isAuthenticated, memberRoutes);
 app.use(`${BASE_PATH}/project`, isAuthenticated, projectRoutes);
 app.use(`${BASE_PATH}/task`, isAuthenticated, taskRoutes);
+app.use(`${BASE_PATH}/custom-field`, isAuthenticated, customFieldRoutes);
+app.use(`${BASE_PATH}/label`, isAuthenticated, labelRoutes);
+app.use(`${BASE_PATH}/worklog`, isAuthenticated, worklogRoutes);
+app.use(`${BASE_PATH}/audit-log`, isAuthenticated, auditLogRoutes);
+app.use(`${BASE_PATH}/comment`, isAuthenticated, commentRoutes);
+app.use(`${BASE_PATH}/notification`, isAuthenticated, notificationRoutes);
+app.use(`${BASE_PATH}/attachment`, isAuthenticated, attachmentRoutes);
+app.use(`${BASE_PATH}/checklist`, isAuthenticated, checklistRoutes);
+app.use(`${BASE_PATH}/template`, isAuthenticated, templateRoutes);
+app.use(`${BASE_PATH}/trash`, isAuthenticated, trashRoutes);
 
 app.use(errorHandler);
 
 app.listen(config.PORT, async () => {
   console.log(`Server listening on port ${config.PORT} in ${config.NODE_ENV}`);
   await connectDatabase();
+
+  await dropLegacyTaskCodeIndex().catch((error) =>
+    console.error("Failed to drop the legacy task code index", error)
+  );
+
+  // Generate the next occurrence of recurring tasks whose due date has passed
+  setInterval(() => {
+    generateScheduledOccurrencesService().catch((error) =>
+      console.error("Failed to generate recurring tasks", error)
+    );
+  }, RECURRING_TASK_CHECK_INTERVAL);
+
+  // Permanently delete projects and tasks past the trash retention period
+  setInterval(() => {
+    purgeExpiredTrashService().catch((error) =>
+      console.error("Failed to purge the trash", error)
+    );
+  }, TRASH_PURGE_INTERVAL);
 });
@@ -30,6 +30,14 @@ export const errorHandler: ErrorRequestHandler = (
     });
   }
 
+  // Raised by the raw body parser on attachment uploads.
+  if (error?.type === "entity.too.large") {
+    return res.status(HTTPSTATUS.PAYLOAD_TOO_LARGE).json({
+      message: "File exceeds the maximum upload size",
+      errorCode: ErrorCodeEnum.ATTACHMENT_TOO_LARGE,
+    });
+  }
+
   if (error instanceof ZodError) {
     return formatZodError(res, error);
   }
@@ -0,0 +1,83 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface AttachmentDocument extends Document {
+  task: mongoose.Types.ObjectId;
+  project: mongoose.Types.ObjectId;
+  workspace: mongoose.Types.ObjectId;
+  // Set when the file belongs to a clarification response rather than the
+  // task itself.
+  clarification: mongoose.Types.ObjectId | null;
+  clarificationResponse: mongoose.Types.ObjectId | null;
+  uploadedBy: mongoose.Types.ObjectId;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  // Location of the bytes in the configured storage driver.
+  storageKey: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const attachmentSchema = new Schema<AttachmentDocument>(
+  {
+    task: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      required: true,
+      index: true,
+    },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: "Project",
+      required: true,
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+      index: true,
+    },
+    clarification: {
+      type: Schema.Types.ObjectId,
+      ref: "TaskClarification",
+      default: null,
+    },
+    clarificationResponse: {
+      type: Schema.Types.ObjectId,
+      default: null,
+    },
+    uploadedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    fileName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    mimeType: {
+      type: String,
+      required: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+    },
+    storageKey: {
+      type: String,
+      required: true,
+      select: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const AttachmentModel = mongoose.model<AttachmentDocument>(
+  "Attachment",
+  attachmentSchema
+);
+
+export default AttachmentModel;
@@ -0,0 +1,89 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+  AuditActionEnum,
+  AuditActionEnumType,
+} from "../enums/audit-log.enum";
+
+export interface AuditLogDocument extends Document {
+  workspace: mongoose.Types.ObjectId;
+  // Position in the workspace's hash chain, starting at 1.
+  sequence: number;
+  actor: mongoose.Types.ObjectId;
+  action: AuditActionEnumType;
+  targetId: string | null;
+  metadata: Record<string, unknown>;
+  prevHash: string | null;
+  hash: string;
+  createdAt: Date;
+}
+
+const auditLogSchema = new Schema<AuditLogDocument>(
+  {
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    sequence: {
+      type: Number,
+      required: true,
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: Object.values(AuditActionEnum),
+      required: true,
+    },
+    targetId: {
+      type: String,
+      default: null,
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    prevHash: {
+      type: String,
+      default: null,
+    },
+    hash: {
+      type: String,
+      required: true,
+    },
+    // Set on construction rather than by timestamps so it can be hashed.
+    createdAt: {
+      type: Date,
+      default: Date.now,
+      immutable: true,
+    },
+  },
+  {
+    minimize: false,
+  }
+);
+
+auditLogSchema.index({ workspace: 1, sequence: 1 }, { unique: true });
+auditLogSchema.index({ workspace: 1, action: 1, createdAt: -1 });
+
+// Entries are append-only; edits would break the hash chain anyway.
+auditLogSchema.pre("save", function () {
+  if (!this.isNew) throw new Error("Audit log entries cannot be modified");
+});
+
+auditLogSchema.pre(
+  ["updateOne", "updateMany", "findOneAndUpdate", "replaceOne"],
+  function () {
+    throw new Error("Audit log entries cannot be modified");
+  }
+);
+
+const AuditLogModel = mongoose.model<AuditLogDocument>(
+  "AuditLog",
+  auditLogSchema
+);
+
+export default AuditLogModel;
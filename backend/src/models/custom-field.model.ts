@@ -0,0 +1,61 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+  CustomFieldTypeEnum,
+  CustomFieldTypeEnumType,
+} from "../enums/custom-field.enum";
+
+export interface CustomFieldDocument extends Document {
+  name: string;
+  type: CustomFieldTypeEnumType;
+  options: string[];
+  workspace: mongoose.Types.ObjectId;
+  project: mongoose.Types.ObjectId | null; // null means workspace-wide
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const customFieldSchema = new Schema<CustomFieldDocument>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    type: {
+      type: String,
+      enum: Object.values(CustomFieldTypeEnum),
+      required: true,
+    },
+    options: {
+      type: [String],
+      default: [],
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+      index: true,
+    },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: "Project",
+      default: null,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const CustomFieldModel = mongoose.model<CustomFieldDocument>(
+  "CustomField",
+  customFieldSchema
+);
+
+export default CustomFieldModel;
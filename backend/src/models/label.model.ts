@@ -0,0 +1,43 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface LabelDocument extends Document {
+  name: string;
+  color: string;
+  workspace: mongoose.Types.ObjectId;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const labelSchema = new Schema<LabelDocument>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    color: {
+      type: String,
+      required: true,
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+labelSchema.index({ workspace: 1, name: 1 }, { unique: true });
+
+const LabelModel = mongoose.model<LabelDocument>("Label", labelSchema);
+
+export default LabelModel;
@@ -0,0 +1,58 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface MilestoneDocument extends Document {
+  name: string;
+  description: string | null;
+  date: Date;
+  project: mongoose.Types.ObjectId;
+  workspace: mongoose.Types.ObjectId;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const milestoneSchema = new Schema<MilestoneDocument>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    date: {
+      type: Date,
+      required: true,
+    },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: "Project",
+      required: true,
+      index: true,
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+      index: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const MilestoneModel = mongoose.model<MilestoneDocument>(
+  "Milestone",
+  milestoneSchema
+);
+
+export default MilestoneModel;
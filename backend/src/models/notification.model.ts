@@ -0,0 +1,67 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+  NotificationTypeEnum,
+  NotificationTypeEnumType,
+} from "../enums/notification.enum";
+
+export interface NotificationDocument extends Document {
+  recipient: mongoose.Types.ObjectId;
+  workspace: mongoose.Types.ObjectId;
+  actor: mongoose.Types.ObjectId;
+  type: NotificationTypeEnumType;
+  task: mongoose.Types.ObjectId | null;
+  comment: mongoose.Types.ObjectId | null;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+const notificationSchema = new Schema<NotificationDocument>(
+  {
+    recipient: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: Object.values(NotificationTypeEnum),
+      required: true,
+    },
+    task: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      default: null,
+    },
+    comment: {
+      type: Schema.Types.ObjectId,
+      ref: "TaskComment",
+      default: null,
+    },
+    readAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+notificationSchema.index({ recipient: 1, workspace: 1, createdAt: -1 });
+
+const NotificationModel = mongoose.model<NotificationDocument>(
+  "Notification",
+  notificationSchema
+);
+
+export default NotificationModel;
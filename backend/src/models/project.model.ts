@@ -1,11 +1,22 @@
 import mongoose, { Document, Schema } from "mongoose";
+import { softDeletePlugin } from "../utils/soft-delete";
 
 export interface ProjectDocument extends Document {
   name: string;
+  // Short uppercase prefix for task codes, e.g. WEB for WEB-123.
+  key: string;
+  // Number of the last task code issued in this project.
+  taskCounter: number;
   description: string | null; // Optional description for the project
   emoji: string;
   workspace: mongoose.Types.ObjectId;
   createdBy: mongoose.Types.ObjectId;
+  // Archived projects are hidden from default listings and read-only.
+  archivedAt: Date | null;
+  archivedBy: mongoose.Types.ObjectId | null;
+  // Set while the document sits in the trash; see softDeletePlugin.
+  deletedAt: Date | null;
+  deletedBy: mongoose.Types.ObjectId | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -17,6 +28,15 @@ const projectSchema = new Schema<ProjectDocument>(
       required: true,
       trim: true,
     },
+    key: {
+      type: String,
+      trim: true,
+      uppercase: true,
+    },
+    taskCounter: {
+      type: Number,
+      default: 0,
+    },
     emoji: {
       type: String,
       required: false,
@@ -34,11 +54,38 @@ const projectSchema = new Schema<ProjectDocument>(
       ref: "User",
       required: true,
     },
+    archivedAt: {
+      type: Date,
+      default: null,
+    },
+    archivedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    deletedAt: {
+      type: Date,
+      default: null,
+      index: true,
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+// Projects created before keys existed have none until the migration runs.
+projectSchema.index(
+  { workspace: 1, key: 1 },
+  { unique: true, partialFilterExpression: { key: { $type: "string" } } }
+);
+
+projectSchema.plugin(softDeletePlugin);
+
 const ProjectModel = mongoose.model<ProjectDocument>("Project", projectSchema);
 export default ProjectModel;
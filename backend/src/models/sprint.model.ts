@@ -0,0 +1,96 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { SprintStatusEnum, SprintStatusEnumType } from "../enums/sprint.enum";
+
+export interface SprintDocument extends Document {
+  name: string;
+  goal: string | null;
+  project: mongoose.Types.ObjectId;
+  workspace: mongoose.Types.ObjectId;
+  startDate: Date;
+  endDate: Date;
+  status: SprintStatusEnumType;
+  startedAt: Date | null;
+  closedAt: Date | null;
+  // Scope snapshots used by the sprint report.
+  committedTasks: mongoose.Types.ObjectId[];
+  addedTasks: mongoose.Types.ObjectId[];
+  completedTasks: mongoose.Types.ObjectId[];
+  carriedOverTasks: mongoose.Types.ObjectId[];
+  carriedOverTo: mongoose.Types.ObjectId | null;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const taskRefs = {
+  type: [{ type: Schema.Types.ObjectId, ref: "Task" }],
+  default: [],
+};
+
+const sprintSchema = new Schema<SprintDocument>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    goal: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: "Project",
+      required: true,
+      index: true,
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    startDate: {
+      type: Date,
+      required: true,
+    },
+    endDate: {
+      type: Date,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(SprintStatusEnum),
+      default: SprintStatusEnum.PLANNED,
+    },
+    startedAt: {
+      type: Date,
+      default: null,
+    },
+    closedAt: {
+      type: Date,
+      default: null,
+    },
+    committedTasks: taskRefs,
+    addedTasks: taskRefs,
+    completedTasks: taskRefs,
+    carriedOverTasks: taskRefs,
+    carriedOverTo: {
+      type: Schema.Types.ObjectId,
+      ref: "Sprint",
+      default: null,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const SprintModel = mongoose.model<SprintDocument>("Sprint", sprintSchema);
+
+export default SprintModel;
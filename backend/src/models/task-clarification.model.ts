@@ -1,17 +1,36 @@
 import { Schema, model, Document, Types } from "mongoose";
+import {
+  ClarificationStatusEnum,
+  ClarificationStatusEnumType,
+} from "../enums/clarification.enum";
 
 export interface ClarificationResponse {
+  _id: Types.ObjectId;
   message: string;
   respondedBy: Types.ObjectId;
   createdAt: Date;
 }
 
+export interface ClarificationQuestionRevision {
+  question: string;
+  editedAt: Date;
+}
+
 export interface TaskClarificationDocument extends Document {
   task: Types.ObjectId;
   workspace: Types.ObjectId;
   question: string;
+  questionHistory: ClarificationQuestionRevision[];
   askedBy: Types.ObjectId;
   responses: ClarificationResponse[];
+  status: ClarificationStatusEnumType;
+  acceptedResponse: Types.ObjectId | null;
+  firstRespondedAt: Date | null;
+  resolvedAt: Date | null;
+  resolvedBy: Types.ObjectId | null;
+  reopenedAt: Date | null;
+  editedAt: Date | null;
+  withdrawnAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -36,6 +55,14 @@ const clarificationResponseSchema = new Schema<ClarificationResponse>(
   { _id: true }
 );
 
+const questionRevisionSchema = new Schema<ClarificationQuestionRevision>(
+  {
+    question: { type: String, required: true },
+    editedAt: { type: Date, required: true },
+  },
+  { _id: false }
+);
+
 const taskClarificationSchema = new Schema<TaskClarificationDocument>(
   {
     task: {
@@ -55,6 +82,11 @@ const taskClarificationSchema = new Schema<TaskClarificationDocument>(
       required: true,
       trim: true,
     },
+    // Earlier wordings of the question, oldest first.
+    questionHistory: {
+      type: [questionRevisionSchema],
+      default: [],
+    },
     askedBy: {
       type: Schema.Types.ObjectId,
       ref: "User",
@@ -64,12 +96,50 @@ const taskClarificationSchema = new Schema<TaskClarificationDocument>(
       type: [clarificationResponseSchema],
       default: [],
     },
+    status: {
+      type: String,
+      enum: Object.values(ClarificationStatusEnum),
+      default: ClarificationStatusEnum.OPEN,
+    },
+    // Set when the asker (or an admin) marks a response as the answer.
+    acceptedResponse: {
+      type: Schema.Types.ObjectId,
+      default: null,
+    },
+    // Kept across reopen cycles so response-time analytics stay stable.
+    firstRespondedAt: {
+      type: Date,
+      default: null,
+    },
+    resolvedAt: {
+      type: Date,
+      default: null,
+    },
+    resolvedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    reopenedAt: {
+      type: Date,
+      default: null,
+    },
+    editedAt: {
+      type: Date,
+      default: null,
+    },
+    withdrawnAt: {
+      type: Date,
+      default: null,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+taskClarificationSchema.index({ workspace: 1, status: 1 });
+
 const TaskClarificationModel = model<TaskClarificationDocument>(
   "TaskClarification",
   taskClarificationSchema
@@ -0,0 +1,79 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface TaskCommentDocument extends Document {
+  task: mongoose.Types.ObjectId;
+  project: mongoose.Types.ObjectId;
+  workspace: mongoose.Types.ObjectId;
+  author: mongoose.Types.ObjectId;
+  // Markdown source; rendered on the client.
+  body: string;
+  // Replies always point at the top-level comment of their thread.
+  parentComment: mongoose.Types.ObjectId | null;
+  mentions: mongoose.Types.ObjectId[];
+  editedAt: Date | null;
+  // Set instead of removing a comment that still has replies.
+  deletedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const taskCommentSchema = new Schema<TaskCommentDocument>(
+  {
+    task: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      required: true,
+    },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: "Project",
+      required: true,
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+      index: true,
+    },
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    body: {
+      type: String,
+      default: "",
+    },
+    parentComment: {
+      type: Schema.Types.ObjectId,
+      ref: "TaskComment",
+      default: null,
+    },
+    mentions: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+      },
+    ],
+    editedAt: {
+      type: Date,
+      default: null,
+    },
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+taskCommentSchema.index({ task: 1, createdAt: 1 });
+
+const TaskCommentModel = mongoose.model<TaskCommentDocument>(
+  "TaskComment",
+  taskCommentSchema
+);
+
+export default TaskCommentModel;
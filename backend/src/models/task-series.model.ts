@@ -0,0 +1,102 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+  RecurrenceFrequencyEnum,
+  RecurrenceFrequencyEnumType,
+  TaskPriorityEnum,
+  TaskPriorityEnumType,
+} from "../enums/task.enum";
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequencyEnumType;
+  interval: number;
+  weekdays: number[];
+  dayOfMonth: number | null;
+  endsAt: Date | null;
+}
+
+export interface TaskSeriesDocument extends Document {
+  workspace: mongoose.Types.ObjectId;
+  project: mongoose.Types.ObjectId;
+  title: string;
+  description: string | null;
+  priority: TaskPriorityEnumType;
+  assignees: mongoose.Types.ObjectId[];
+  recurrence: RecurrenceRule;
+  isActive: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const recurrenceRuleSchema = new Schema<RecurrenceRule>(
+  {
+    frequency: {
+      type: String,
+      enum: Object.values(RecurrenceFrequencyEnum),
+      required: true,
+    },
+    interval: { type: Number, default: 1, min: 1 },
+    weekdays: { type: [Number], default: [] },
+    dayOfMonth: { type: Number, default: null },
+    endsAt: { type: Date, default: null },
+  },
+  { _id: false }
+);
+
+const taskSeriesSchema = new Schema<TaskSeriesDocument>(
+  {
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+      index: true,
+    },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: "Project",
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    priority: {
+      type: String,
+      enum: Object.values(TaskPriorityEnum),
+      default: TaskPriorityEnum.MEDIUM,
+    },
+    assignees: {
+      type: [{ type: Schema.Types.ObjectId, ref: "User" }],
+      default: [],
+    },
+    recurrence: {
+      type: recurrenceRuleSchema,
+      required: true,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+const TaskSeriesModel = mongoose.model<TaskSeriesDocument>(
+  "TaskSeries",
+  taskSeriesSchema
+);
+
+export default TaskSeriesModel;
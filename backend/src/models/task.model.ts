@@ -3,31 +3,94 @@ import {
   TaskPriorityEnum,
   TaskPriorityEnumType,
   TaskStatusEnum,
-  TaskStatusEnumType,
 } from "../enums/task.enum";
 import { generateTaskCode } from "../utils/uuid";
+import { softDeletePlugin } from "../utils/soft-delete";
+import ProjectModel from "./project.model";
+
+export interface ChecklistItemDocument extends Document {
+  title: string;
+  completed: boolean;
+  completedAt: Date | null;
+  completedBy: mongoose.Types.ObjectId | null;
+  assignee: mongoose.Types.ObjectId | null;
+}
 
 export interface TaskDocument extends Document {
+  // Project key plus a per-project number, e.g. WEB-123.
   taskCode: string;
   title: string;
   description: string | null;
   project: mongoose.Types.ObjectId;
   workspace: mongoose.Types.ObjectId;
-  status: TaskStatusEnumType;
+  status: string;
   priority: TaskPriorityEnumType;
-  assignedTo: mongoose.Types.ObjectId | null;
+  assignees: mongoose.Types.ObjectId[];
+  watchers: mongoose.Types.ObjectId[];
   createdBy: mongoose.Types.ObjectId;
+  startDate: Date | null;
   dueDate: Date | null;
+  estimateMinutes: number | null;
+  // Sum of finished worklogs, kept in step by the worklog service.
+  loggedMinutes: number;
+  parentTask: mongoose.Types.ObjectId | null;
+  blockedBy: mongoose.Types.ObjectId[];
+  labels: mongoose.Types.ObjectId[];
+  series: mongoose.Types.ObjectId | null;
+  sprint: mongoose.Types.ObjectId | null;
+  // Position within a board column; lower ranks come first.
+  rank: number;
+  nextOccurrenceCreated: boolean;
+  subtaskProgress: {
+    total: number;
+    completed: number;
+  };
+  // Items are kept in display order.
+  checklist: mongoose.Types.DocumentArray<ChecklistItemDocument>;
+  checklistProgress: {
+    total: number;
+    completed: number;
+  };
+  // Values keyed by custom field id; see CustomFieldModel.
+  customFields: Map<string, unknown>;
+  // Set while the document sits in the trash; see softDeletePlugin.
+  deletedAt: Date | null;
+  deletedBy: mongoose.Types.ObjectId | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const checklistItemSchema = new Schema<ChecklistItemDocument>({
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  completed: {
+    type: Boolean,
+    default: false,
+  },
+  completedAt: {
+    type: Date,
+    default: null,
+  },
+  completedBy: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    default: null,
+  },
+  assignee: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    default: null,
+  },
+});
+
 const taskSchema = new Schema<TaskDocument>(
   {
     taskCode: {
       type: String,
-      unique: true,
-      default: generateTaskCode,
+      required: true,
     },
     title: {
       type: String,
@@ -51,7 +114,7 @@ const taskSchema = new Schema<TaskDocument>(
     },
     status: {
       type: String,
-      enum: Object.values(TaskStatusEnum),
+      trim: true,
       default: TaskStatusEnum.TODO,
     },
     priority: {
@@ -59,26 +122,143 @@ const taskSchema = new Schema<TaskDocument>(
       enum: Object.values(TaskPriorityEnum),
       default: TaskPriorityEnum.MEDIUM,
     },
-    assignedTo: {
-      type: Schema.Types.ObjectId,
-      ref: "User",
-      default: null,
+    assignees: {
+      type: [{ type: Schema.Types.ObjectId, ref: "User" }],
+      default: [],
+      index: true,
+    },
+    watchers: {
+      type: [{ type: Schema.Types.ObjectId, ref: "User" }],
+      default: [],
+      index: true,
     },
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: "User",
       required: true,
     },
+    startDate: {
+      type: Date,
+      default: null,
+    },
     dueDate: {
       type: Date,
       default: null,
     },
+    estimateMinutes: {
+      type: Number,
+      min: 0,
+      default: null,
+    },
+    loggedMinutes: {
+      type: Number,
+      default: 0,
+    },
+    parentTask: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      default: null,
+      index: true,
+    },
+    blockedBy: {
+      type: [{ type: Schema.Types.ObjectId, ref: "Task" }],
+      default: [],
+      index: true,
+    },
+    labels: {
+      type: [{ type: Schema.Types.ObjectId, ref: "Label" }],
+      default: [],
+      index: true,
+    },
+    series: {
+      type: Schema.Types.ObjectId,
+      ref: "TaskSeries",
+      default: null,
+      index: true,
+    },
+    sprint: {
+      type: Schema.Types.ObjectId,
+      ref: "Sprint",
+      default: null,
+      index: true,
+    },
+    rank: {
+      type: Number,
+      default: () => Date.now(),
+      index: true,
+    },
+    nextOccurrenceCreated: {
+      type: Boolean,
+      default: false,
+    },
+    subtaskProgress: {
+      total: { type: Number, default: 0 },
+      completed: { type: Number, default: 0 },
+    },
+    checklist: {
+      type: [checklistItemSchema],
+      default: [],
+    },
+    checklistProgress: {
+      total: { type: Number, default: 0 },
+      completed: { type: Number, default: 0 },
+    },
+    customFields: {
+      type: Map,
+      of: Schema.Types.Mixed,
+      default: {},
+    },
+    deletedAt: {
+      type: Date,
+      default: null,
+      index: true,
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+taskSchema.index({ workspace: 1, taskCode: 1 }, { unique: true });
+
+// New tasks, and tasks moved into another project, take the next number from
+// the project's counter. The $inc is atomic, so concurrent creates never
+// share a code. Projects without a key keep the old random codes.
+taskSchema.pre("validate", async function () {
+  if (!this.isNew && !this.isModified("project")) return;
+
+  const project = await ProjectModel.findOneAndUpdate(
+    { _id: this.project, key: { $type: "string" } },
+    { $inc: { taskCounter: 1 } },
+    { new: true }
+  );
+
+  this.taskCode = project
+    ? `${project.key}-${project.taskCounter}`
+    : generateTaskCode();
+});
+
+taskSchema.plugin(softDeletePlugin);
+
 const TaskModel = mongoose.model<TaskDocument>("Task", taskSchema);
 
+// Codes used to be unique across all workspaces. That index makes two
+// workspaces with the same project key clash, so it is dropped at startup.
+export const dropLegacyTaskCodeIndex = async () => {
+  try {
+    const indexes = await TaskModel.collection.indexes();
+    if (indexes.some((index) => index.name === "taskCode_1")) {
+      await TaskModel.collection.dropIndex("taskCode_1");
+    }
+  } catch (error: any) {
+    // A fresh database has no tasks collection yet.
+    if (error?.codeName !== "NamespaceNotFound") throw error;
+  }
+};
+
 export default TaskModel;
@@ -0,0 +1,117 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+  TemplateTypeEnum,
+  TemplateTypeEnumType,
+} from "../enums/template.enum";
+import {
+  TaskPriorityEnum,
+  TaskPriorityEnumType,
+} from "../enums/task.enum";
+import { Roles, RoleType } from "../enums/role.enum";
+
+export interface TemplateTask {
+  title: string;
+  description: string | null;
+  priority: TaskPriorityEnumType;
+  // Days after the start date chosen when the template is used.
+  startOffsetDays: number | null;
+  dueOffsetDays: number | null;
+  estimateMinutes: number | null;
+  checklist: string[];
+  // Filled with a member holding each role when the template is used.
+  assigneeRoles: RoleType[];
+  labels: mongoose.Types.ObjectId[];
+}
+
+export interface TemplateDocument extends Document {
+  name: string;
+  description: string | null;
+  type: TemplateTypeEnumType;
+  workspace: mongoose.Types.ObjectId;
+  // Only used by project templates.
+  projectEmoji: string | null;
+  projectDescription: string | null;
+  tasks: TemplateTask[];
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const templateTaskSchema = new Schema<TemplateTask>(
+  {
+    title: { type: String, required: true, trim: true },
+    description: { type: String, default: null },
+    priority: {
+      type: String,
+      enum: Object.values(TaskPriorityEnum),
+      default: TaskPriorityEnum.MEDIUM,
+    },
+    startOffsetDays: { type: Number, default: null },
+    dueOffsetDays: { type: Number, default: null },
+    estimateMinutes: { type: Number, default: null },
+    checklist: { type: [String], default: [] },
+    assigneeRoles: {
+      type: [{ type: String, enum: Object.values(Roles) }],
+      default: [],
+    },
+    labels: {
+      type: [{ type: Schema.Types.ObjectId, ref: "Label" }],
+      default: [],
+    },
+  },
+  { _id: false }
+);
+
+const templateSchema = new Schema<TemplateDocument>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    type: {
+      type: String,
+      enum: Object.values(TemplateTypeEnum),
+      required: true,
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    projectEmoji: {
+      type: String,
+      default: null,
+    },
+    projectDescription: {
+      type: String,
+      default: null,
+    },
+    tasks: {
+      type: [templateTaskSchema],
+      default: [],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+templateSchema.index({ workspace: 1, type: 1 });
+
+const TemplateModel = mongoose.model<TemplateDocument>(
+  "Template",
+  templateSchema
+);
+
+export default TemplateModel;
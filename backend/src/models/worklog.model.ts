@@ -0,0 +1,77 @@
+import mongoose, { Document, Schema } from "mongoose";
+import {
+  WorklogSourceEnum,
+  WorklogSourceEnumType,
+} from "../enums/worklog.enum";
+
+export interface WorklogDocument extends Document {
+  task: mongoose.Types.ObjectId;
+  project: mongoose.Types.ObjectId;
+  workspace: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  source: WorklogSourceEnumType;
+  note: string | null;
+  startedAt: Date;
+  endedAt: Date | null; // null while a timer is running
+  durationMinutes: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const worklogSchema = new Schema<WorklogDocument>(
+  {
+    task: {
+      type: Schema.Types.ObjectId,
+      ref: "Task",
+      required: true,
+      index: true,
+    },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: "Project",
+      required: true,
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    source: {
+      type: String,
+      enum: Object.values(WorklogSourceEnum),
+      required: true,
+    },
+    note: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+    },
+    endedAt: {
+      type: Date,
+      default: null,
+    },
+    durationMinutes: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+worklogSchema.index({ workspace: 1, startedAt: -1 });
+worklogSchema.index({ user: 1, endedAt: 1 });
+
+const WorklogModel = mongoose.model<WorklogDocument>("Worklog", worklogSchema);
+
+export default WorklogModel;
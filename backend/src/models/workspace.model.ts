@@ -1,15 +1,54 @@
 import mongoose, { Document, Schema } from "mongoose";
 import { generateInviteCode } from "../utils/uuid";
+import { TaskStatusCategoryEnum } from "../enums/task.enum";
+import { getDefaultTaskWorkflow, TaskWorkflow } from "../utils/workflow";
+import {
+  ClarificationResponsePolicyEnum,
+  ClarificationResponsePolicyEnumType,
+} from "../enums/clarification.enum";
 
 export interface WorkspaceDocument extends Document {
   name: string;
   description: string;
   owner: mongoose.Types.ObjectId;
   inviteCode: string;
+  workflow: TaskWorkflow;
+  clarificationResponsePolicy: ClarificationResponsePolicyEnumType;
   createdAt: string;
   updatedAt: string;
 }
 
+const workflowStatusSchema = new Schema(
+  {
+    key: { type: String, required: true, trim: true },
+    name: { type: String, required: true, trim: true },
+    category: {
+      type: String,
+      enum: Object.values(TaskStatusCategoryEnum),
+      required: true,
+    },
+    color: { type: String, default: null },
+  },
+  { _id: false }
+);
+
+const workflowTransitionSchema = new Schema(
+  {
+    from: { type: String, required: true },
+    to: { type: String, required: true },
+  },
+  { _id: false }
+);
+
+const workflowSchema = new Schema(
+  {
+    statuses: { type: [workflowStatusSchema], default: undefined },
+    transitions: { type: [workflowTransitionSchema], default: [] },
+    defaultStatus: { type: String, required: true },
+  },
+  { _id: false }
+);
+
 const workspaceSchema = new Schema<WorkspaceDocument>(
   {
     name: { type: String, required: true, trim: true },
@@ -25,6 +64,15 @@ const workspaceSchema = new Schema<WorkspaceDocument>(
       unique: true,
       default: generateInviteCode,
     },
+    workflow: {
+      type: workflowSchema,
+      default: getDefaultTaskWorkflow,
+    },
+    clarificationResponsePolicy: {
+      type: String,
+      enum: Object.values(ClarificationResponsePolicyEnum),
+      default: ClarificationResponsePolicyEnum.ADMINS,
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,39 @@
+import express, { Router } from "express";
+import { config } from "../config/app.config";
+import {
+  deleteAttachmentController,
+  downloadAttachmentController,
+  getTaskAttachmentsController,
+  uploadAttachmentController,
+} from "../controllers/attachment.controller";
+
+const attachmentRoutes = Router();
+
+// The file is sent as the raw request body; the parser enforces the size cap.
+const rawFileBody = express.raw({
+  type: "application/octet-stream",
+  limit: `${config.ATTACHMENT_MAX_SIZE_MB}mb`,
+});
+
+attachmentRoutes.post(
+  "/task/:taskId/workspace/:workspaceId/upload",
+  rawFileBody,
+  uploadAttachmentController
+);
+
+attachmentRoutes.get(
+  "/task/:taskId/workspace/:workspaceId/all",
+  getTaskAttachmentsController
+);
+
+attachmentRoutes.get(
+  "/:id/workspace/:workspaceId/download",
+  downloadAttachmentController
+);
+
+attachmentRoutes.delete(
+  "/:id/workspace/:workspaceId/delete",
+  deleteAttachmentController
+);
+
+export default attachmentRoutes;
@@ -0,0 +1,19 @@
+import { Router } from "express";
+import {
+  exportAuditLogsController,
+  getAuditLogsController,
+  verifyAuditLogController,
+} from "../controllers/audit-log.controller";
+
+const auditLogRoutes = Router();
+
+auditLogRoutes.get("/workspace/:workspaceId/all", getAuditLogsController);
+
+auditLogRoutes.get(
+  "/workspace/:workspaceId/export",
+  exportAuditLogsController
+);
+
+auditLogRoutes.get("/workspace/:workspaceId/verify", verifyAuditLogController);
+
+export default auditLogRoutes;
@@ -0,0 +1,43 @@
+import { Router } from "express";
+import {
+  convertChecklistItemController,
+  createChecklistItemController,
+  deleteChecklistItemController,
+  getChecklistController,
+  reorderChecklistController,
+  updateChecklistItemController,
+} from "../controllers/checklist.controller";
+
+const checklistRoutes = Router();
+
+checklistRoutes.get(
+  "/task/:taskId/workspace/:workspaceId/all",
+  getChecklistController
+);
+
+checklistRoutes.post(
+  "/task/:taskId/workspace/:workspaceId/create",
+  createChecklistItemController
+);
+
+checklistRoutes.put(
+  "/task/:taskId/workspace/:workspaceId/reorder",
+  reorderChecklistController
+);
+
+checklistRoutes.put(
+  "/:id/task/:taskId/workspace/:workspaceId/update",
+  updateChecklistItemController
+);
+
+checklistRoutes.post(
+  "/:id/task/:taskId/workspace/:workspaceId/convert",
+  convertChecklistItemController
+);
+
+checklistRoutes.delete(
+  "/:id/task/:taskId/workspace/:workspaceId/delete",
+  deleteChecklistItemController
+);
+
+export default checklistRoutes;
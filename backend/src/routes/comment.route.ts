@@ -0,0 +1,31 @@
+import { Router } from "express";
+import {
+  createTaskCommentController,
+  deleteTaskCommentController,
+  getTaskCommentsController,
+  updateTaskCommentController,
+} from "../controllers/comment.controller";
+
+const commentRoutes = Router();
+
+commentRoutes.get(
+  "/task/:taskId/workspace/:workspaceId/all",
+  getTaskCommentsController
+);
+
+commentRoutes.post(
+  "/task/:taskId/workspace/:workspaceId/create",
+  createTaskCommentController
+);
+
+commentRoutes.put(
+  "/:id/workspace/:workspaceId/update",
+  updateTaskCommentController
+);
+
+commentRoutes.delete(
+  "/:id/workspace/:workspaceId/delete",
+  deleteTaskCommentController
+);
+
+export default commentRoutes;
@@ -0,0 +1,28 @@
+import { Router } from "express";
+import {
+  createCustomFieldController,
+  deleteCustomFieldController,
+  getCustomFieldsController,
+  updateCustomFieldController,
+} from "../controllers/custom-field.controller";
+
+const customFieldRoutes = Router();
+
+customFieldRoutes.post(
+  "/workspace/:workspaceId/create",
+  createCustomFieldController
+);
+
+customFieldRoutes.put(
+  "/:id/workspace/:workspaceId/update",
+  updateCustomFieldController
+);
+
+customFieldRoutes.delete(
+  "/:id/workspace/:workspaceId/delete",
+  deleteCustomFieldController
+);
+
+customFieldRoutes.get("/workspace/:workspaceId/all", getCustomFieldsController);
+
+export default customFieldRoutes;
@@ -0,0 +1,25 @@
+import { Router } from "express";
+import {
+  bulkUpdateTaskLabelsController,
+  createLabelController,
+  deleteLabelController,
+  getLabelsController,
+  updateLabelController,
+} from "../controllers/label.controller";
+
+const labelRoutes = Router();
+
+labelRoutes.post("/workspace/:workspaceId/create", createLabelController);
+
+labelRoutes.put(
+  "/workspace/:workspaceId/tasks",
+  bulkUpdateTaskLabelsController
+);
+
+labelRoutes.put("/:id/workspace/:workspaceId/update", updateLabelController);
+
+labelRoutes.delete("/:id/workspace/:workspaceId/delete", deleteLabelController);
+
+labelRoutes.get("/workspace/:workspaceId/all", getLabelsController);
+
+export default labelRoutes;
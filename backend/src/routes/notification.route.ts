@@ -0,0 +1,25 @@
+import { Router } from "express";
+import {
+  getNotificationsController,
+  markAllNotificationsReadController,
+  markNotificationReadController,
+} from "../controllers/notification.controller";
+
+const notificationRoutes = Router();
+
+notificationRoutes.get(
+  "/workspace/:workspaceId/all",
+  getNotificationsController
+);
+
+notificationRoutes.put(
+  "/workspace/:workspaceId/read-all",
+  markAllNotificationsReadController
+);
+
+notificationRoutes.put(
+  "/:id/workspace/:workspaceId/read",
+  markNotificationReadController
+);
+
+export default notificationRoutes;
@@ -1,12 +1,29 @@
 import { Router } from "express";
 import {
+  archiveProjectController,
   createProjectController,
   deleteProjectController,
   getAllProjectsInWorkspaceController,
   getProjectAnalyticsController,
   getProjectByIdAndWorkspaceIdController,
+  unarchiveProjectController,
   updateProjectController,
 } from "../controllers/project.controller";
+import {
+  closeSprintController,
+  createSprintController,
+  deleteSprintController,
+  getSprintReportController,
+  getSprintsController,
+  startSprintController,
+  updateSprintController,
+} from "../controllers/sprint.controller";
+import {
+  createMilestoneController,
+  deleteMilestoneController,
+  getMilestonesController,
+  updateMilestoneController,
+} from "../controllers/milestone.controller";
 
 const projectRoutes = Router();
 
@@ -22,6 +39,16 @@ projectRoutes.delete(
   deleteProjectController
 );
 
+projectRoutes.put(
+  "/:id/workspace/:workspaceId/archive",
+  archiveProjectController
+);
+
+projectRoutes.put(
+  "/:id/workspace/:workspaceId/unarchive",
+  unarchiveProjectController
+);
+
 projectRoutes.get(
   "/workspace/:workspaceId/all",
   getAllProjectsInWorkspaceController
@@ -32,6 +59,58 @@ projectRoutes.get(
   getProjectAnalyticsController
 );
 
+projectRoutes.post(
+  "/:id/workspace/:workspaceId/sprint/create",
+  createSprintController
+);
+
+projectRoutes.get("/:id/workspace/:workspaceId/sprint/all", getSprintsController);
+
+projectRoutes.put(
+  "/:id/workspace/:workspaceId/sprint/:sprintId/update",
+  updateSprintController
+);
+
+projectRoutes.delete(
+  "/:id/workspace/:workspaceId/sprint/:sprintId/delete",
+  deleteSprintController
+);
+
+projectRoutes.post(
+  "/:id/workspace/:workspaceId/sprint/:sprintId/start",
+  startSprintController
+);
+
+projectRoutes.post(
+  "/:id/workspace/:workspaceId/sprint/:sprintId/close",
+  closeSprintController
+);
+
+projectRoutes.get(
+  "/:id/workspace/:workspaceId/sprint/:sprintId/report",
+  getSprintReportController
+);
+
+projectRoutes.get(
+  "/workspace/:workspaceId/milestone/all",
+  getMilestonesController
+);
+
+projectRoutes.post(
+  "/:id/workspace/:workspaceId/milestone/create",
+  createMilestoneController
+);
+
+projectRoutes.put(
+  "/:id/workspace/:workspaceId/milestone/:milestoneId/update",
+  updateMilestoneController
+);
+
+projectRoutes.delete(
+  "/:id/workspace/:workspaceId/milestone/:milestoneId/delete",
+  deleteMilestoneController
+);
+
 projectRoutes.get(
   "/:id/workspace/:workspaceId",
   getProjectByIdAndWorkspaceIdController
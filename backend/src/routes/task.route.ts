@@ -1,13 +1,30 @@
 import { Router } from "express";
 import {
+  addTaskDependencyController,
+  batchTasksController,
+  createSubtaskController,
   createTaskController,
   createTaskClarificationController,
   deleteTaskController,
+  duplicateTaskController,
   getAllTasksController,
+  getSubtasksController,
+  getTaskActivityController,
   getTaskClarificationsController,
+  getTaskDependenciesController,
+  getTaskByCodeController,
   getTaskByIdController,
+  moveTaskController,
+  removeTaskDependencyController,
+  reopenTaskClarificationController,
+  resolveTaskClarificationController,
   respondToTaskClarificationController,
+  updateTaskClarificationController,
   updateTaskController,
+  updateTaskSeriesController,
+  unwatchTaskController,
+  watchTaskController,
+  withdrawTaskClarificationController,
 } from "../controllers/task.controller";
 
 const taskRoutes = Router();
@@ -24,6 +41,48 @@ taskRoutes.put(
   updateTaskController
 );
 
+taskRoutes.post("/:id/workspace/:workspaceId/move", moveTaskController);
+
+taskRoutes.post(
+  "/:id/workspace/:workspaceId/duplicate",
+  duplicateTaskController
+);
+
+taskRoutes.put(
+  "/:id/workspace/:workspaceId/series",
+  updateTaskSeriesController
+);
+
+taskRoutes.get(
+  "/:taskId/workspace/:workspaceId/subtasks",
+  getSubtasksController
+);
+
+taskRoutes.post(
+  "/:taskId/workspace/:workspaceId/subtasks",
+  createSubtaskController
+);
+
+taskRoutes.get(
+  "/:taskId/workspace/:workspaceId/dependencies",
+  getTaskDependenciesController
+);
+
+taskRoutes.get(
+  "/:taskId/workspace/:workspaceId/activity",
+  getTaskActivityController
+);
+
+taskRoutes.post(
+  "/:taskId/workspace/:workspaceId/dependencies",
+  addTaskDependencyController
+);
+
+taskRoutes.delete(
+  "/:taskId/workspace/:workspaceId/dependencies/:blockerId",
+  removeTaskDependencyController
+);
+
 taskRoutes.get(
   "/:taskId/workspace/:workspaceId/clarifications",
   getTaskClarificationsController
@@ -39,8 +98,42 @@ taskRoutes.post(
   respondToTaskClarificationController
 );
 
+taskRoutes.put(
+  "/:taskId/workspace/:workspaceId/clarifications/:clarificationId",
+  updateTaskClarificationController
+);
+
+taskRoutes.post(
+  "/:taskId/workspace/:workspaceId/clarifications/:clarificationId/withdraw",
+  withdrawTaskClarificationController
+);
+
+taskRoutes.post(
+  "/:taskId/workspace/:workspaceId/clarifications/:clarificationId/resolve",
+  resolveTaskClarificationController
+);
+
+taskRoutes.post(
+  "/:taskId/workspace/:workspaceId/clarifications/:clarificationId/reopen",
+  reopenTaskClarificationController
+);
+
+taskRoutes.post("/:taskId/workspace/:workspaceId/watch", watchTaskController);
+
+taskRoutes.delete(
+  "/:taskId/workspace/:workspaceId/watch",
+  unwatchTaskController
+);
+
 taskRoutes.get("/workspace/:workspaceId/all", getAllTasksController);
 
+taskRoutes.post("/workspace/:workspaceId/batch", batchTasksController);
+
+taskRoutes.get(
+  "/workspace/:workspaceId/code/:taskCode",
+  getTaskByCodeController
+);
+
 taskRoutes.get(
   "/:id/project/:projectId/workspace/:workspaceId",
   getTaskByIdController
@@ -0,0 +1,28 @@
+import { Router } from "express";
+import {
+  createProjectTemplateController,
+  createTaskTemplateController,
+  deleteTemplateController,
+  getTemplatesController,
+} from "../controllers/template.controller";
+
+const templateRoutes = Router();
+
+templateRoutes.get("/workspace/:workspaceId/all", getTemplatesController);
+
+templateRoutes.post(
+  "/project/:projectId/workspace/:workspaceId/create",
+  createProjectTemplateController
+);
+
+templateRoutes.post(
+  "/task/:taskId/workspace/:workspaceId/create",
+  createTaskTemplateController
+);
+
+templateRoutes.delete(
+  "/:id/workspace/:workspaceId/delete",
+  deleteTemplateController
+);
+
+export default templateRoutes;
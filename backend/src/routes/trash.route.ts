@@ -0,0 +1,22 @@
+import { Router } from "express";
+import {
+  getTrashController,
+  restoreProjectController,
+  restoreTaskController,
+} from "../controllers/trash.controller";
+
+const trashRoutes = Router();
+
+trashRoutes.get("/workspace/:workspaceId/all", getTrashController);
+
+trashRoutes.post(
+  "/task/:id/workspace/:workspaceId/restore",
+  restoreTaskController
+);
+
+trashRoutes.post(
+  "/project/:id/workspace/:workspaceId/restore",
+  restoreProjectController
+);
+
+export default trashRoutes;
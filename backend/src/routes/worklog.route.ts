@@ -0,0 +1,43 @@
+import { Router } from "express";
+import {
+  createWorklogController,
+  deleteWorklogController,
+  exportWorklogsController,
+  getActiveTimerController,
+  getTaskWorklogsController,
+  startTimerController,
+  stopTimerController,
+} from "../controllers/worklog.controller";
+
+const worklogRoutes = Router();
+
+worklogRoutes.post(
+  "/task/:taskId/workspace/:workspaceId/timer/start",
+  startTimerController
+);
+
+worklogRoutes.post("/workspace/:workspaceId/timer/stop", stopTimerController);
+
+worklogRoutes.get(
+  "/workspace/:workspaceId/timer/active",
+  getActiveTimerController
+);
+
+worklogRoutes.post(
+  "/task/:taskId/workspace/:workspaceId/create",
+  createWorklogController
+);
+
+worklogRoutes.get(
+  "/task/:taskId/workspace/:workspaceId/all",
+  getTaskWorklogsController
+);
+
+worklogRoutes.delete(
+  "/:id/workspace/:workspaceId/delete",
+  deleteWorklogController
+);
+
+worklogRoutes.get("/workspace/:workspaceId/export", exportWorklogsController);
+
+export default worklogRoutes;
@@ -7,7 +7,10 @@ import {
   getWorkspaceAnalyticsController,
   getWorkspaceByIdController,
   getWorkspaceMembersController,
+  getWorkspaceWorkflowController,
+  updateClarificationPolicyController,
   updateWorkspaceByIdController,
+  updateWorkspaceWorkflowController,
 } from "../controllers/workspace.controller";
 
 const workspaceRoutes = Router();
@@ -27,6 +30,14 @@ workspaceRoutes.get("/all", getAllWorkspacesUserIsMemberController);
 workspaceRoutes.get("/members/:id", getWorkspaceMembersController);
 workspaceRoutes.get("/analytics/:id", getWorkspaceAnalyticsController);
 
+workspaceRoutes.get("/workflow/:id", getWorkspaceWorkflowController);
+workspaceRoutes.put("/workflow/:id", updateWorkspaceWorkflowController);
+
+workspaceRoutes.put(
+  "/clarification-policy/:id",
+  updateClarificationPolicyController
+);
+
 workspaceRoutes.get("/:id", getWorkspaceByIdController);
 
 export default workspaceRoutes;
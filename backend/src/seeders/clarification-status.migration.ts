@@ -0,0 +1,45 @@
+import "dotenv/config";
+import mongoose from "mongoose";
+import connectDatabase from "../config/database.config";
+import TaskClarificationModel from "../models/task-clarification.model";
+
+// Gives clarifications created before the lifecycle existed a status, treating
+// any with a response as answered.
+const toStatusPipeline = [
+  {
+    $set: {
+      status: {
+        $cond: [{ $gt: [{ $size: "$responses" }, 0] }, "ANSWERED", "OPEN"],
+      },
+      firstRespondedAt: { $ifNull: [{ $min: "$responses.createdAt" }, null] },
+      acceptedResponse: null,
+      resolvedAt: null,
+      resolvedBy: null,
+      reopenedAt: null,
+    },
+  },
+];
+
+const migrateClarificationStatus = async () => {
+  console.log("Migrating clarification status started...");
+
+  try {
+    await connectDatabase();
+
+    const result = await TaskClarificationModel.collection.updateMany(
+      { status: { $exists: false } },
+      toStatusPipeline
+    );
+    console.log(`${result.modifiedCount} clarification(s) migrated.`);
+
+    console.log("Migration completed successfully.");
+  } catch (error) {
+    console.error("Error during migration:", error);
+  } finally {
+    await mongoose.disconnect();
+  }
+};
+
+migrateClarificationStatus().catch((error) =>
+  console.error("Error running migration script:", error)
+);
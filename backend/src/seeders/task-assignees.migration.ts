@@ -0,0 +1,45 @@
+import "dotenv/config";
+import mongoose from "mongoose";
+import connectDatabase from "../config/database.config";
+import TaskModel from "../models/task.model";
+import TaskSeriesModel from "../models/task-series.model";
+
+// Moves the legacy single `assignedTo` field into the `assignees` array.
+const toAssigneesPipeline = [
+  {
+    $set: {
+      assignees: {
+        $cond: [{ $ifNull: ["$assignedTo", false] }, ["$assignedTo"], []],
+      },
+    },
+  },
+  { $unset: "assignedTo" },
+];
+
+const migrateTaskAssignees = async () => {
+  console.log("Migrating task assignees started...");
+
+  try {
+    await connectDatabase();
+
+    for (const model of [TaskModel, TaskSeriesModel]) {
+      const result = await model.collection.updateMany(
+        { assignedTo: { $exists: true } },
+        toAssigneesPipeline
+      );
+      console.log(
+        `${model.collection.name}: ${result.modifiedCount} document(s) migrated.`
+      );
+    }
+
+    console.log("Migration completed successfully.");
+  } catch (error) {
+    console.error("Error during migration:", error);
+  } finally {
+    await mongoose.disconnect();
+  }
+};
+
+migrateTaskAssignees().catch((error) =>
+  console.error("Error running migration script:", error)
+);
@@ -0,0 +1,91 @@
+import "dotenv/config";
+import mongoose from "mongoose";
+import connectDatabase from "../config/database.config";
+import ProjectModel from "../models/project.model";
+import TaskModel, { dropLegacyTaskCodeIndex } from "../models/task.model";
+import { deriveProjectKey, makeUniqueProjectKey } from "../utils/project-key";
+
+// Gives projects created before keys existed a key and renumbers their tasks
+// KEY-1, KEY-2, ... in the order they were created, including tasks in the
+// trash. Projects that already have a key are left alone, so it is safe to
+// run again. The collections are used directly so the soft-delete filter and
+// the task code hook stay out of it.
+const migrateTaskKeys = async () => {
+  console.log("Migrating task keys started...");
+
+  try {
+    await connectDatabase();
+
+    await dropLegacyTaskCodeIndex();
+
+    const projects = await ProjectModel.collection
+      .find({})
+      .sort({ createdAt: 1 })
+      .toArray();
+
+    const takenKeys = new Map<string, Set<string>>();
+    projects.forEach((project) => {
+      const workspaceId = String(project.workspace);
+      if (!takenKeys.has(workspaceId)) takenKeys.set(workspaceId, new Set());
+      if (project.key) takenKeys.get(workspaceId)!.add(project.key);
+    });
+
+    let keyed = 0;
+    let renumbered = 0;
+    for (const project of projects) {
+      if (project.key) continue;
+
+      const taken = takenKeys.get(String(project.workspace))!;
+      const key = makeUniqueProjectKey(deriveProjectKey(project.name), taken);
+      taken.add(key);
+
+      const tasks = await TaskModel.collection
+        .find({ project: project._id })
+        .sort({ createdAt: 1, _id: 1 })
+        .project({ _id: 1 })
+        .toArray();
+
+      // Temporary codes first, so renumbering never collides with the
+      // codes being replaced.
+      if (tasks.length) {
+        await TaskModel.collection.bulkWrite(
+          tasks.map((task) => ({
+            updateOne: {
+              filter: { _id: task._id },
+              update: { $set: { taskCode: `migrating-${task._id}` } },
+            },
+          }))
+        );
+        await TaskModel.collection.bulkWrite(
+          tasks.map((task, index) => ({
+            updateOne: {
+              filter: { _id: task._id },
+              update: { $set: { taskCode: `${key}-${index + 1}` } },
+            },
+          }))
+        );
+      }
+
+      await ProjectModel.collection.updateOne(
+        { _id: project._id },
+        { $set: { key, taskCounter: tasks.length } }
+      );
+      keyed++;
+      renumbered += tasks.length;
+    }
+
+    await TaskModel.createIndexes();
+    await ProjectModel.createIndexes();
+
+    console.log(`${keyed} project(s) keyed, ${renumbered} task(s) renumbered.`);
+    console.log("Migration completed successfully.");
+  } catch (error) {
+    console.error("Error during migration:", error);
+  } finally {
+    await mongoose.disconnect();
+  }
+};
+
+migrateTaskKeys().catch((error) =>
+  console.error("Error running migration script:", error)
+);
@@ -0,0 +1,201 @@
+import { FilterQuery } from "mongoose";
+import AttachmentModel, {
+  AttachmentDocument,
+} from "../models/attachment.model";
+import TaskModel from "../models/task.model";
+import TaskClarificationModel from "../models/task-clarification.model";
+import { Roles, RoleType } from "../enums/role.enum";
+import { ErrorCodeEnum } from "../enums/error-code.enum";
+import { HTTPSTATUS } from "../config/http.config";
+import {
+  BadRequestException,
+  HttpException,
+  NotFoundException,
+  UnauthorizedException,
+} from "../utils/appError";
+import { getAttachmentMimeType } from "../utils/attachment-types";
+import { generateStorageKey } from "../utils/uuid";
+import { getStorageDriver } from "../storage/storage.driver";
+import { assertProjectNotArchived } from "./task.service";
+
+// Trashed tasks are skipped, so their files stay out of reach until restored.
+const findTaskOrThrow = async (workspaceId: string, taskId: string) => {
+  const task = await TaskModel.findOne({ _id: taskId, workspace: workspaceId });
+
+  if (!task) {
+    throw new NotFoundException(
+      "Task not found or does not belong to this workspace"
+    );
+  }
+
+  return task;
+};
+
+export const uploadAttachmentService = async (
+  workspaceId: string,
+  taskId: string,
+  userId: string,
+  file: {
+    fileName: string;
+    data: Buffer;
+    clarificationId?: string;
+    responseId?: string;
+  }
+) => {
+  const task = await findTaskOrThrow(workspaceId, taskId);
+  await assertProjectNotArchived(task.project);
+
+  if (!file.data.length) {
+    throw new BadRequestException("The uploaded file is empty");
+  }
+
+  const mimeType = getAttachmentMimeType(file.fileName);
+  if (!mimeType) {
+    throw new HttpException(
+      "This file type is not allowed",
+      HTTPSTATUS.UNSUPPORTED_MEDIA_TYPE,
+      ErrorCodeEnum.ATTACHMENT_TYPE_NOT_ALLOWED
+    );
+  }
+
+  // Files on a clarification response can only be added by whoever wrote it.
+  if (file.clarificationId) {
+    const clarification = await TaskClarificationModel.findOne({
+      _id: file.clarificationId,
+      task: task._id,
+      workspace: workspaceId,
+    });
+    const response = clarification?.responses.find(
+      (item) => item._id.toString() === file.responseId
+    );
+
+    if (!response) {
+      throw new NotFoundException("Clarification response not found");
+    }
+
+    if (response.respondedBy.toString() !== userId.toString()) {
+      throw new UnauthorizedException(
+        "You can only attach files to your own responses",
+        ErrorCodeEnum.ACCESS_UNAUTHORIZED
+      );
+    }
+  }
+
+  const storage = getStorageDriver();
+  const storageKey = generateStorageKey(workspaceId, taskId);
+  await storage.save(storageKey, file.data);
+
+  const created = await AttachmentModel.create({
+    task: task._id,
+    project: task.project,
+    workspace: workspaceId,
+    clarification: file.clarificationId ?? null,
+    clarificationResponse: file.responseId ?? null,
+    uploadedBy: userId,
+    fileName: file.fileName,
+    mimeType,
+    size: file.data.length,
+    storageKey,
+  }).catch(async (error) => {
+    await storage.remove(storageKey);
+    throw error;
+  });
+
+  // Re-read so the storage key stays out of the response.
+  const attachment = await AttachmentModel.findById(created._id).populate(
+    "uploadedBy",
+    "_id name profilePicture"
+  );
+
+  return { attachment };
+};
+
+export const getTaskAttachmentsService = async (
+  workspaceId: string,
+  taskId: string
+) => {
+  const task = await findTaskOrThrow(workspaceId, taskId);
+
+  const attachments = await AttachmentModel.find({
+    workspace: workspaceId,
+    task: task._id,
+  })
+    .sort({ createdAt: -1 })
+    .populate("uploadedBy", "_id name profilePicture");
+
+  return { attachments };
+};
+
+export const getAttachmentFileService = async (
+  workspaceId: string,
+  attachmentId: string
+) => {
+  const attachment = await AttachmentModel.findOne({
+    _id: attachmentId,
+    workspace: workspaceId,
+  }).select("+storageKey");
+
+  if (!attachment) {
+    throw new NotFoundException("Attachment not found");
+  }
+
+  await findTaskOrThrow(workspaceId, String(attachment.task));
+
+  const stream = await getStorageDriver()
+    .read(attachment.storageKey)
+    .catch(() => {
+      throw new NotFoundException("Attachment file is missing from storage");
+    });
+
+  return { attachment, stream };
+};
+
+export const deleteAttachmentService = async (
+  workspaceId: string,
+  attachmentId: string,
+  userId: string,
+  userRole: RoleType
+) => {
+  const attachment = await AttachmentModel.findOne({
+    _id: attachmentId,
+    workspace: workspaceId,
+  }).select("+storageKey");
+
+  if (!attachment) {
+    throw new NotFoundException("Attachment not found");
+  }
+
+  await findTaskOrThrow(workspaceId, String(attachment.task));
+  await assertProjectNotArchived(attachment.project);
+
+  const isOwnerOrAdmin =
+    userRole === Roles.OWNER || userRole === Roles.ADMIN;
+
+  if (!isOwnerOrAdmin && attachment.uploadedBy.toString() !== userId.toString()) {
+    throw new UnauthorizedException(
+      "You can only delete attachments you uploaded",
+      ErrorCodeEnum.ACCESS_UNAUTHORIZED
+    );
+  }
+
+  await getStorageDriver().remove(attachment.storageKey);
+  await attachment.deleteOne();
+};
+
+// Used when tasks, projects or workspaces are deleted.
+export const removeAttachmentsService = async (
+  filter: FilterQuery<AttachmentDocument>
+) => {
+  const attachments = await AttachmentModel.find(filter).select(
+    "+storageKey"
+  );
+  if (!attachments.length) return;
+
+  const storage = getStorageDriver();
+  await Promise.allSettled(
+    attachments.map((attachment) => storage.remove(attachment.storageKey))
+  );
+  await AttachmentModel.deleteMany({
+    _id: { $in: attachments.map((attachment) => attachment._id) },
+  });
+};
@@ -0,0 +1,215 @@
+import crypto from "crypto";
+import {
+  AuditActionEnum,
+  AuditActionEnumType,
+} from "../enums/audit-log.enum";
+import AuditLogModel, { AuditLogDocument } from "../models/audit-log.model";
+import MemberModel from "../models/member.model";
+import { toCsv } from "../utils/csv";
+import { toDateRangeQuery } from "../utils/date-range";
+
+type AuditLogFilters = {
+  action?: AuditActionEnumType;
+  actorId?: string;
+  from?: string;
+  to?: string;
+};
+
+// Concurrent writers may claim the same sequence number; the loser retries.
+const MAX_APPEND_ATTEMPTS = 5;
+
+const computeAuditHash = (entry: AuditLogDocument) =>
+  crypto
+    .createHash("sha256")
+    .update(
+      JSON.stringify([
+        entry.workspace.toString(),
+        entry.sequence,
+        entry.actor.toString(),
+        entry.action,
+        entry.targetId,
+        entry.metadata,
+        entry.createdAt.toISOString(),
+        entry.prevHash,
+      ])
+    )
+    .digest("hex");
+
+const buildAuditLogQuery = (workspaceId: string, filters: AuditLogFilters) => {
+  const query: Record<string, unknown> = { workspace: workspaceId };
+
+  if (filters.action) query.action = filters.action;
+  if (filters.actorId) query.actor = filters.actorId;
+  if (filters.from || filters.to) {
+    query.createdAt = toDateRangeQuery(filters.from, filters.to);
+  }
+
+  return query;
+};
+
+/**
+ * Appends an entry to the workspace's audit chain. Each entry hashes its own
+ * content together with the previous entry's hash, so editing or removing
+ * any entry is detected by `verifyAuditLogChainService`.
+ */
+export const recordAuditLogService = async (
+  workspaceId: string,
+  actorId: string,
+  action: AuditActionEnumType,
+  details: {
+    targetId?: string | null;
+    metadata?: Record<string, unknown>;
+  } = {}
+) => {
+  for (let attempt = 1; ; attempt++) {
+    const last = await AuditLogModel.findOne({ workspace: workspaceId })
+      .sort({ sequence: -1 })
+      .select("sequence hash");
+
+    const entry = new AuditLogModel({
+      workspace: workspaceId,
+      sequence: (last?.sequence ?? 0) + 1,
+      actor: actorId,
+      action,
+      targetId: details.targetId ?? null,
+      metadata: details.metadata ?? {},
+      prevHash: last?.hash ?? null,
+    });
+    entry.hash = computeAuditHash(entry);
+
+    try {
+      await entry.save();
+      return { entry };
+    } catch (error: any) {
+      if (error?.code !== 11000 || attempt >= MAX_APPEND_ATTEMPTS) throw error;
+    }
+  }
+};
+
+// Logins are not tied to a workspace, so they are logged in every workspace
+// the user belongs to.
+export const recordLoginAuditService = async (
+  userId: string,
+  metadata: Record<string, unknown>
+) => {
+  const memberships = await MemberModel.find({ userId }).select("workspaceId");
+
+  for (const membership of memberships) {
+    await recordAuditLogService(
+      membership.workspaceId.toString(),
+      userId,
+      AuditActionEnum.USER_LOGGED_IN,
+      { targetId: String(userId), metadata }
+    );
+  }
+};
+
+export const getAuditLogsService = async (
+  workspaceId: string,
+  filters: AuditLogFilters,
+  pagination: {
+    pageSize: number;
+    pageNumber: number;
+  }
+) => {
+  const query = buildAuditLogQuery(workspaceId, filters);
+
+  const { pageSize, pageNumber } = pagination;
+  const skip = (pageNumber - 1) * pageSize;
+
+  const [logs, totalCount] = await Promise.all([
+    AuditLogModel.find(query)
+      .sort({ sequence: -1 })
+      .skip(skip)
+      .limit(pageSize)
+      .select("-prevHash -hash")
+      .populate("actor", "_id name email profilePicture"),
+    AuditLogModel.countDocuments(query),
+  ]);
+
+  const totalPages = Math.ceil(totalCount / pageSize);
+
+  return {
+    logs,
+    pagination: {
+      pageSize,
+      pageNumber,
+      totalCount,
+      totalPages,
+      skip,
+    },
+  };
+};
+
+export const exportAuditLogsCsvService = async (
+  workspaceId: string,
+  filters: AuditLogFilters
+) => {
+  const logs = await AuditLogModel.find(
+    buildAuditLogQuery(workspaceId, filters)
+  )
+    .sort({ sequence: 1 })
+    .populate<{ actor: { name: string; email: string } | null }>(
+      "actor",
+      "name email"
+    );
+
+  const csv = toCsv(
+    [
+      "Sequence",
+      "Date",
+      "Actor",
+      "Email",
+      "Action",
+      "Target",
+      "Details",
+      "Hash",
+    ],
+    logs.map((log) => [
+      log.sequence,
+      log.createdAt.toISOString(),
+      log.actor?.name,
+      log.actor?.email,
+      log.action,
+      log.targetId,
+      JSON.stringify(log.metadata),
+      log.hash,
+    ])
+  );
+
+  return { csv };
+};
+
+/**
+ * Walks the chain in order and reports the first entry that is missing,
+ * out of place or whose content no longer matches its hash.
+ */
+export const verifyAuditLogChainService = async (workspaceId: string) => {
+  const cursor = AuditLogModel.find({ workspace: workspaceId })
+    .sort({ sequence: 1 })
+    .cursor();
+
+  let checkedCount = 0;
+  let prevHash: string | null = null;
+
+  for await (const entry of cursor) {
+    const isIntact =
+      entry.sequence === checkedCount + 1 &&
+      entry.prevHash === prevHash &&
+      entry.hash === computeAuditHash(entry);
+
+    if (!isIntact) {
+      await cursor.close();
+      return {
+        valid: false,
+        checkedCount,
+        brokenAtSequence: checkedCount + 1,
+      };
+    }
+
+    checkedCount++;
+    prevHash = entry.hash;
+  }
+
+  return { valid: true, checkedCount, brokenAtSequence: null };
+};
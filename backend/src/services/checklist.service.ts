@@ -0,0 +1,261 @@
+import { Roles, RoleType } from "../enums/role.enum";
+import { TaskActivityActionEnum } from "../enums/task-activity.enum";
+import TaskModel, { TaskDocument } from "../models/task.model";
+import {
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from "../utils/appError";
+import { validateWorkspaceMemberIdsService } from "./member.service";
+import { recordTaskActivityService } from "./task-activity.service";
+import {
+  assertProjectNotArchived,
+  createSubtaskService,
+} from "./task.service";
+
+const MAX_CHECKLIST_ITEMS = 200;
+
+const checklistPopulate = [
+  { path: "checklist.assignee", select: "_id name profilePicture" },
+  { path: "checklist.completedBy", select: "_id name" },
+];
+
+const findChecklistTask = async (workspaceId: string, taskId: string) => {
+  const task = await TaskModel.findOne({ _id: taskId, workspace: workspaceId });
+
+  if (!task) {
+    throw new NotFoundException(
+      "Task not found or does not belong to this workspace"
+    );
+  }
+
+  return task;
+};
+
+// Checklists follow the same rule as task status: admins and assignees,
+// and only while the project is not archived.
+const assertCanEditChecklist = async (
+  task: TaskDocument,
+  userId: string,
+  userRole: RoleType
+) => {
+  const isOwnerOrAdmin = userRole === Roles.OWNER || userRole === Roles.ADMIN;
+  const isAssignee = task.assignees.some(
+    (assignee) => assignee.toString() === userId.toString()
+  );
+
+  if (!isOwnerOrAdmin && !isAssignee) {
+    throw new UnauthorizedException(
+      "Only admins and the task's assignees can edit its checklist"
+    );
+  }
+
+  await assertProjectNotArchived(task.project);
+};
+
+const findChecklistItem = (task: TaskDocument, itemId: string) => {
+  const item = task.checklist.id(itemId);
+
+  if (!item) {
+    throw new NotFoundException("Checklist item not found");
+  }
+
+  return item;
+};
+
+const formatProgress = (progress: { total: number; completed: number }) =>
+  `${progress.completed}/${progress.total}`;
+
+// Refreshes the stored progress, saves the task and logs progress changes
+// to the task's activity history.
+const saveChecklist = async (task: TaskDocument, userId: string) => {
+  const previous = formatProgress(task.checklistProgress);
+
+  task.checklistProgress = {
+    total: task.checklist.length,
+    completed: task.checklist.filter((item) => item.completed).length,
+  };
+  await task.save();
+
+  await recordTaskActivityService(
+    task,
+    userId,
+    TaskActivityActionEnum.UPDATED,
+    previous === formatProgress(task.checklistProgress)
+      ? []
+      : [
+          {
+            field: "checklist",
+            oldValue: previous,
+            newValue: formatProgress(task.checklistProgress),
+          },
+        ]
+  );
+
+  await task.populate(checklistPopulate);
+
+  return { checklist: task.checklist, progress: task.checklistProgress };
+};
+
+const resolveChecklistAssignee = async (
+  workspaceId: string,
+  assignee: string | null
+) => {
+  if (!assignee) return null;
+
+  const [assigneeId] = await validateWorkspaceMemberIdsService(
+    workspaceId,
+    [assignee],
+    "Checklist items can only be assigned to workspace members"
+  );
+
+  return assigneeId;
+};
+
+export const getChecklistService = async (
+  workspaceId: string,
+  taskId: string
+) => {
+  const task = await findChecklistTask(workspaceId, taskId);
+  await task.populate(checklistPopulate);
+
+  return { checklist: task.checklist, progress: task.checklistProgress };
+};
+
+export const createChecklistItemService = async (
+  workspaceId: string,
+  taskId: string,
+  userId: string,
+  userRole: RoleType,
+  body: { title: string; assignee?: string | null }
+) => {
+  const task = await findChecklistTask(workspaceId, taskId);
+  await assertCanEditChecklist(task, userId, userRole);
+
+  if (task.checklist.length >= MAX_CHECKLIST_ITEMS) {
+    throw new BadRequestException(
+      `A checklist can hold at most ${MAX_CHECKLIST_ITEMS} items`
+    );
+  }
+
+  task.checklist.push({
+    title: body.title,
+    assignee: await resolveChecklistAssignee(workspaceId, body.assignee ?? null),
+  });
+
+  return saveChecklist(task, userId);
+};
+
+export const updateChecklistItemService = async (
+  workspaceId: string,
+  taskId: string,
+  itemId: string,
+  userId: string,
+  userRole: RoleType,
+  body: { title?: string; completed?: boolean; assignee?: string | null }
+) => {
+  const task = await findChecklistTask(workspaceId, taskId);
+  await assertCanEditChecklist(task, userId, userRole);
+
+  const item = findChecklistItem(task, itemId);
+
+  if (body.title !== undefined) {
+    item.title = body.title;
+  }
+
+  if (body.completed !== undefined && body.completed !== item.completed) {
+    item.completed = body.completed;
+    item.completedAt = body.completed ? new Date() : null;
+    item.set("completedBy", body.completed ? userId : null);
+  }
+
+  if (body.assignee !== undefined) {
+    item.set(
+      "assignee",
+      await resolveChecklistAssignee(workspaceId, body.assignee)
+    );
+  }
+
+  return saveChecklist(task, userId);
+};
+
+export const reorderChecklistService = async (
+  workspaceId: string,
+  taskId: string,
+  userId: string,
+  userRole: RoleType,
+  itemIds: string[]
+) => {
+  const task = await findChecklistTask(workspaceId, taskId);
+  await assertCanEditChecklist(task, userId, userRole);
+
+  const currentIds = task.checklist.map((item) => String(item._id));
+
+  if (
+    new Set(itemIds).size !== itemIds.length ||
+    itemIds.length !== currentIds.length ||
+    itemIds.some((id) => !currentIds.includes(id))
+  ) {
+    throw new BadRequestException(
+      "The new order must list every checklist item exactly once"
+    );
+  }
+
+  task.set(
+    "checklist",
+    itemIds.map((id) => findChecklistItem(task, id).toObject())
+  );
+
+  return saveChecklist(task, userId);
+};
+
+export const deleteChecklistItemService = async (
+  workspaceId: string,
+  taskId: string,
+  itemId: string,
+  userId: string,
+  userRole: RoleType
+) => {
+  const task = await findChecklistTask(workspaceId, taskId);
+  await assertCanEditChecklist(task, userId, userRole);
+
+  findChecklistItem(task, itemId).deleteOne();
+
+  return saveChecklist(task, userId);
+};
+
+// Turns an item into a subtask of the same task, carrying over its title
+// and assignee, and removes it from the checklist.
+export const convertChecklistItemService = async (
+  workspaceId: string,
+  taskId: string,
+  itemId: string,
+  userId: string,
+  userRole: RoleType
+) => {
+  const task = await findChecklistTask(workspaceId, taskId);
+  await assertCanEditChecklist(task, userId, userRole);
+
+  const item = findChecklistItem(task, itemId);
+
+  if (item.completed) {
+    throw new BadRequestException(
+      "Completed checklist items cannot be turned into subtasks"
+    );
+  }
+
+  const { task: subtask } = await createSubtaskService(
+    workspaceId,
+    taskId,
+    userId,
+    {
+      title: item.title,
+      assignees: item.assignee ? [item.assignee.toString()] : [],
+    }
+  );
+
+  item.deleteOne();
+  const { checklist, progress } = await saveChecklist(task, userId);
+
+  return { subtask, checklist, progress };
+};
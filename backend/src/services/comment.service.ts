@@ -0,0 +1,250 @@
+import mongoose from "mongoose";
+import { ErrorCodeEnum } from "../enums/error-code.enum";
+import { NotificationTypeEnum } from "../enums/notification.enum";
+import { Roles, RoleType } from "../enums/role.enum";
+import MemberModel from "../models/member.model";
+import NotificationModel from "../models/notification.model";
+import TaskCommentModel from "../models/task-comment.model";
+import TaskModel from "../models/task.model";
+import {
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from "../utils/appError";
+import { createNotificationsService } from "./notification.service";
+import { assertProjectNotArchived } from "./task.service";
+
+const AUTHOR_FIELDS = "_id name profilePicture";
+
+const findTaskOrThrow = async (workspaceId: string, taskId: string) => {
+  const task = mongoose.isValidObjectId(taskId)
+    ? await TaskModel.findOne({ _id: taskId, workspace: workspaceId })
+    : null;
+
+  if (!task) {
+    throw new NotFoundException(
+      "Task not found or does not belong to this workspace"
+    );
+  }
+
+  return task;
+};
+
+const findCommentOrThrow = async (workspaceId: string, commentId: string) => {
+  const comment = mongoose.isValidObjectId(commentId)
+    ? await TaskCommentModel.findOne({
+        _id: commentId,
+        workspace: workspaceId,
+        deletedAt: null,
+      })
+    : null;
+
+  if (!comment) {
+    throw new NotFoundException("Comment not found");
+  }
+
+  return comment;
+};
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Returns the ids of workspace members mentioned as `@Full Name` in the body.
+ * Longer names are matched first so `@Ann Lee` is not also read as `@Ann`.
+ */
+const resolveMentionedMemberIds = async (workspaceId: string, body: string) => {
+  if (!body.includes("@")) return [];
+
+  const members = await MemberModel.find({ workspaceId }).populate<{
+    userId: { _id: mongoose.Types.ObjectId; name: string } | null;
+  }>("userId", "_id name");
+
+  const candidates = members
+    .map((member) => member.userId)
+    .filter((user) => user?.name)
+    .sort((a, b) => b!.name.length - a!.name.length);
+
+  let text = body;
+  const mentionedIds = new Set<string>();
+
+  for (const user of candidates) {
+    const pattern = new RegExp(
+      `(^|[^\\w@])@${escapeRegExp(user!.name)}(?!\\w)`,
+      "gi"
+    );
+    if (pattern.test(text)) {
+      mentionedIds.add(user!._id.toString());
+      text = text.replace(pattern, "$1");
+    }
+  }
+
+  return Array.from(mentionedIds);
+};
+
+const notifyMentionedMembers = async (
+  workspaceId: string,
+  actorId: string,
+  taskId: string,
+  commentId: string,
+  mentionIds: string[]
+) =>
+  createNotificationsService(mentionIds, {
+    workspaceId,
+    actorId,
+    type: NotificationTypeEnum.COMMENT_MENTION,
+    taskId,
+    commentId,
+  });
+
+export const getTaskCommentsService = async (
+  workspaceId: string,
+  taskId: string
+) => {
+  await findTaskOrThrow(workspaceId, taskId);
+
+  const comments = await TaskCommentModel.find({ task: taskId })
+    .sort({ createdAt: 1 })
+    .populate("author", AUTHOR_FIELDS)
+    .populate("mentions", "_id name");
+
+  return { comments };
+};
+
+export const createTaskCommentService = async (
+  workspaceId: string,
+  taskId: string,
+  userId: string,
+  body: { body: string; parentCommentId?: string }
+) => {
+  const task = await findTaskOrThrow(workspaceId, taskId);
+  await assertProjectNotArchived(task.project);
+
+  let parentComment: mongoose.Types.ObjectId | null = null;
+  if (body.parentCommentId) {
+    const parent = await findCommentOrThrow(workspaceId, body.parentCommentId);
+    if (!parent.task.equals(task._id as mongoose.Types.ObjectId)) {
+      throw new BadRequestException("Parent comment belongs to another task");
+    }
+    // Threads are one level deep: replying to a reply joins the same thread.
+    parentComment =
+      parent.parentComment ?? (parent._id as mongoose.Types.ObjectId);
+  }
+
+  const mentions = await resolveMentionedMemberIds(workspaceId, body.body);
+
+  const comment = await TaskCommentModel.create({
+    task: task._id,
+    project: task.project,
+    workspace: workspaceId,
+    author: userId,
+    body: body.body,
+    parentComment,
+    mentions,
+  });
+
+  await notifyMentionedMembers(
+    workspaceId,
+    userId,
+    taskId,
+    String(comment._id),
+    mentions
+  );
+
+  await comment.populate([
+    { path: "author", select: AUTHOR_FIELDS },
+    { path: "mentions", select: "_id name" },
+  ]);
+
+  return { comment };
+};
+
+export const updateTaskCommentService = async (
+  workspaceId: string,
+  commentId: string,
+  userId: string,
+  body: { body: string }
+) => {
+  const comment = await findCommentOrThrow(workspaceId, commentId);
+  await assertProjectNotArchived(comment.project);
+
+  if (comment.author.toString() !== userId.toString()) {
+    throw new UnauthorizedException(
+      "You can only edit your own comments",
+      ErrorCodeEnum.ACCESS_UNAUTHORIZED
+    );
+  }
+
+  if (comment.body !== body.body) {
+    const previousMentions = comment.mentions.map((id) => id.toString());
+    const mentions = await resolveMentionedMemberIds(workspaceId, body.body);
+
+    comment.body = body.body;
+    comment.mentions = mentions.map((id) => new mongoose.Types.ObjectId(id));
+    comment.editedAt = new Date();
+    await comment.save();
+
+    // Only people newly mentioned by the edit are notified.
+    await notifyMentionedMembers(
+      workspaceId,
+      userId,
+      comment.task.toString(),
+      String(comment._id),
+      mentions.filter((id) => !previousMentions.includes(id))
+    );
+  }
+
+  await comment.populate([
+    { path: "author", select: AUTHOR_FIELDS },
+    { path: "mentions", select: "_id name" },
+  ]);
+
+  return { comment };
+};
+
+export const deleteTaskCommentService = async (
+  workspaceId: string,
+  commentId: string,
+  userId: string,
+  userRole: RoleType
+) => {
+  const comment = await findCommentOrThrow(workspaceId, commentId);
+  await assertProjectNotArchived(comment.project);
+
+  const isOwnerOrAdmin = userRole === Roles.OWNER || userRole === Roles.ADMIN;
+  if (!isOwnerOrAdmin && comment.author.toString() !== userId.toString()) {
+    throw new UnauthorizedException(
+      "You can only delete your own comments",
+      ErrorCodeEnum.ACCESS_UNAUTHORIZED
+    );
+  }
+
+  const hasReplies = await TaskCommentModel.exists({
+    parentComment: comment._id,
+  });
+  await NotificationModel.deleteMany({ comment: comment._id });
+
+  // A thread stays readable when its opening comment is deleted.
+  if (hasReplies) {
+    comment.body = "";
+    comment.mentions = [];
+    comment.deletedAt = new Date();
+    await comment.save();
+    return;
+  }
+
+  await comment.deleteOne();
+
+  // Drop a deleted thread opener once its last reply is gone.
+  if (comment.parentComment) {
+    const remainingReplies = await TaskCommentModel.countDocuments({
+      parentComment: comment.parentComment,
+    });
+    if (!remainingReplies) {
+      await TaskCommentModel.deleteOne({
+        _id: comment.parentComment,
+        deletedAt: { $ne: null },
+      });
+    }
+  }
+};
@@ -0,0 +1,321 @@
+import mongoose from "mongoose";
+import {
+  CustomFieldTypeEnum,
+  CustomFieldTypeEnumType,
+} from "../enums/custom-field.enum";
+import CustomFieldModel, {
+  CustomFieldDocument,
+} from "../models/custom-field.model";
+import MemberModel from "../models/member.model";
+import ProjectModel from "../models/project.model";
+import TaskModel from "../models/task.model";
+import { BadRequestException, NotFoundException } from "../utils/appError";
+import { getCustomFieldValueSchema } from "../validation/custom-field.validation";
+
+type CustomFieldValue = string | number | boolean | string[] | Date | null;
+
+const findCustomFieldOrThrow = async (workspaceId: string, fieldId: string) => {
+  const field = await CustomFieldModel.findOne({
+    _id: fieldId,
+    workspace: workspaceId,
+  });
+
+  if (!field) {
+    throw new NotFoundException(
+      "Custom field not found or does not belong to this workspace"
+    );
+  }
+
+  return field;
+};
+
+export const createCustomFieldService = async (
+  workspaceId: string,
+  userId: string,
+  body: {
+    name: string;
+    type: string;
+    options?: string[];
+    projectId?: string | null;
+  }
+) => {
+  if (body.projectId) {
+    const project = await ProjectModel.exists({
+      _id: body.projectId,
+      workspace: workspaceId,
+    });
+
+    if (!project) {
+      throw new NotFoundException(
+        "Project not found or does not belong to this workspace"
+      );
+    }
+  }
+
+  const isSelect =
+    body.type === CustomFieldTypeEnum.SINGLE_SELECT ||
+    body.type === CustomFieldTypeEnum.MULTI_SELECT;
+
+  const field = await CustomFieldModel.create({
+    name: body.name,
+    type: body.type,
+    options: isSelect ? body.options || [] : [],
+    workspace: workspaceId,
+    project: body.projectId || null,
+    createdBy: userId,
+  });
+
+  return { field };
+};
+
+/**
+ * Workspace-wide fields plus, when `projectId` is given, that project's
+ * fields. Without a project every field in the workspace is returned.
+ */
+export const getCustomFieldsService = async (
+  workspaceId: string,
+  projectId?: string
+) => {
+  const query: Record<string, unknown> = { workspace: workspaceId };
+
+  if (projectId) {
+    query.project = { $in: [null, projectId] };
+  }
+
+  const fields = await CustomFieldModel.find(query).sort({ createdAt: 1 });
+
+  return { fields };
+};
+
+export const updateCustomFieldService = async (
+  workspaceId: string,
+  fieldId: string,
+  body: { name?: string; options?: string[] }
+) => {
+  const field = await findCustomFieldOrThrow(workspaceId, fieldId);
+
+  if (body.name !== undefined) {
+    field.name = body.name;
+  }
+
+  if (body.options !== undefined) {
+    const removedOptions = field.options.filter(
+      (option) => !body.options?.includes(option)
+    );
+    field.options = body.options;
+
+    // Drop values that pointed at options which no longer exist.
+    if (removedOptions.length) {
+      const path = `customFields.${field._id}`;
+
+      if (field.type === CustomFieldTypeEnum.MULTI_SELECT) {
+        await TaskModel.updateMany(
+          { workspace: workspaceId, [path]: { $in: removedOptions } },
+          { $pull: { [path]: { $in: removedOptions } } }
+        );
+      } else if (field.type === CustomFieldTypeEnum.SINGLE_SELECT) {
+        await TaskModel.updateMany(
+          { workspace: workspaceId, [path]: { $in: removedOptions } },
+          { $unset: { [path]: "" } }
+        );
+      }
+    }
+  }
+
+  await field.save();
+
+  return { field };
+};
+
+export const deleteCustomFieldService = async (
+  workspaceId: string,
+  fieldId: string
+) => {
+  const field = await findCustomFieldOrThrow(workspaceId, fieldId);
+
+  await field.deleteOne();
+
+  await TaskModel.updateMany(
+    { workspace: workspaceId },
+    { $unset: { [`customFields.${field._id}`]: "" } }
+  );
+
+  return { field };
+};
+
+const resolveCustomFieldValue = async (
+  workspaceId: string,
+  field: CustomFieldDocument,
+  rawValue: unknown
+): Promise<CustomFieldValue> => {
+  if (rawValue === null || rawValue === "") return null;
+
+  const parsed = getCustomFieldValueSchema(
+    field.type as CustomFieldTypeEnumType
+  ).safeParse(rawValue);
+
+  if (!parsed.success) {
+    throw new BadRequestException(`Invalid value for "${field.name}"`);
+  }
+
+  const value = parsed.data;
+
+  switch (field.type) {
+    case CustomFieldTypeEnum.SINGLE_SELECT:
+      if (!field.options.includes(value as string)) {
+        throw new BadRequestException(
+          `"${value}" is not an option of "${field.name}"`
+        );
+      }
+      return value as string;
+    case CustomFieldTypeEnum.MULTI_SELECT: {
+      const selected = Array.from(new Set(value as string[]));
+      const unknown = selected.filter(
+        (option) => !field.options.includes(option)
+      );
+      if (unknown.length) {
+        throw new BadRequestException(
+          `${unknown.join(", ")} not an option of "${field.name}"`
+        );
+      }
+      return selected;
+    }
+    case CustomFieldTypeEnum.USER: {
+      const isMember = mongoose.isValidObjectId(value)
+        ? await MemberModel.exists({ userId: value, workspaceId })
+        : null;
+      if (!isMember) {
+        throw new BadRequestException(
+          `"${field.name}" must be a member of this workspace`
+        );
+      }
+      return value as string;
+    }
+    case CustomFieldTypeEnum.DATE:
+      return new Date(value as string);
+    default:
+      return value as CustomFieldValue;
+  }
+};
+
+/**
+ * Checks submitted values against the fields that apply to the task's
+ * project and returns them converted to their stored form. A null value
+ * clears the field.
+ */
+export const resolveCustomFieldValuesService = async (
+  workspaceId: string,
+  projectId: string,
+  values: Record<string, unknown>
+) => {
+  const fieldIds = Object.keys(values);
+  if (!fieldIds.length) return {};
+
+  if (!fieldIds.every((id) => mongoose.isValidObjectId(id))) {
+    throw new BadRequestException("Unknown custom field");
+  }
+
+  const fields = await CustomFieldModel.find({
+    _id: { $in: fieldIds },
+    workspace: workspaceId,
+    project: { $in: [null, projectId] },
+  });
+
+  if (fields.length !== fieldIds.length) {
+    throw new BadRequestException(
+      "One or more custom fields do not apply to this project"
+    );
+  }
+
+  const resolved: Record<string, CustomFieldValue> = {};
+  for (const field of fields) {
+    const id = String(field._id);
+    resolved[id] = await resolveCustomFieldValue(
+      workspaceId,
+      field,
+      values[id]
+    );
+  }
+
+  return resolved;
+};
+
+const toFilterValue = (
+  field: CustomFieldDocument,
+  raw: string,
+  toValue: (value: string) => number | Date
+) => {
+  const value = toValue(raw);
+  if (!Number.isFinite(Number(value))) {
+    throw new BadRequestException(
+      `"${raw}" is not a valid value to filter ${field.name} by`
+    );
+  }
+  return value;
+};
+
+// A single value is an exact match; `from..to` is a range.
+const parseRange = (
+  field: CustomFieldDocument,
+  raw: string,
+  toValue: (value: string) => number | Date
+) => {
+  if (!raw.includes("..")) return toFilterValue(field, raw, toValue);
+
+  const [from, to] = raw.split("..");
+  const range: Record<string, unknown> = {};
+  if (from) range.$gte = toFilterValue(field, from, toValue);
+  if (to) range.$lte = toFilterValue(field, to, toValue);
+  return range;
+};
+
+/**
+ * Turns `cf.<fieldId>=<value>` filters into a task query. Select and user
+ * fields take comma separated values, numbers and dates take a single value
+ * or a `from..to` range (either end optional), text matches
+ * case-insensitively.
+ */
+export const buildCustomFieldFilterQuery = async (
+  workspaceId: string,
+  filters: Record<string, string>
+) => {
+  const fieldIds = Object.keys(filters).filter((id) =>
+    mongoose.isValidObjectId(id)
+  );
+  if (!fieldIds.length) return {};
+
+  const fields = await CustomFieldModel.find({
+    _id: { $in: fieldIds },
+    workspace: workspaceId,
+  });
+
+  const query: Record<string, unknown> = {};
+
+  for (const field of fields) {
+    const raw = filters[String(field._id)];
+    const path = `customFields.${field._id}`;
+
+    switch (field.type) {
+      case CustomFieldTypeEnum.TEXT:
+        query[path] = {
+          $regex: raw.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+          $options: "i",
+        };
+        break;
+      case CustomFieldTypeEnum.NUMBER:
+        query[path] = parseRange(field, raw, Number);
+        break;
+      case CustomFieldTypeEnum.DATE:
+        query[path] = parseRange(field, raw, (value) => new Date(value));
+        break;
+      case CustomFieldTypeEnum.CHECKBOX:
+        query[path] = raw === "true" ? true : { $ne: true };
+        break;
+      default:
+        query[path] = { $in: raw.split(",") };
+        break;
+    }
+  }
+
+  return query;
+};
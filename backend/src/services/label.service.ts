@@ -0,0 +1,200 @@
+import { Roles, RoleType } from "../enums/role.enum";
+import LabelModel from "../models/label.model";
+import TaskModel from "../models/task.model";
+import { TaskActivityActionEnum } from "../enums/task-activity.enum";
+import {
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from "../utils/appError";
+import {
+  getTaskFieldChanges,
+  recordTaskActivityService,
+} from "./task-activity.service";
+import { assertProjectNotArchived } from "./task.service";
+
+const findLabelOrThrow = async (workspaceId: string, labelId: string) => {
+  const label = await LabelModel.findOne({
+    _id: labelId,
+    workspace: workspaceId,
+  });
+
+  if (!label) {
+    throw new NotFoundException(
+      "Label not found or does not belong to this workspace"
+    );
+  }
+
+  return label;
+};
+
+const ensureLabelNameIsFree = async (
+  workspaceId: string,
+  name: string,
+  excludeLabelId?: string
+) => {
+  const existing = await LabelModel.findOne({
+    workspace: workspaceId,
+    name,
+    ...(excludeLabelId && { _id: { $ne: excludeLabelId } }),
+  }).collation({ locale: "en", strength: 2 });
+
+  if (existing) {
+    throw new BadRequestException(`A label named "${name}" already exists`);
+  }
+};
+
+export const createLabelService = async (
+  workspaceId: string,
+  userId: string,
+  body: { name: string; color: string }
+) => {
+  await ensureLabelNameIsFree(workspaceId, body.name);
+
+  const label = await LabelModel.create({
+    name: body.name,
+    color: body.color,
+    workspace: workspaceId,
+    createdBy: userId,
+  });
+
+  return { label };
+};
+
+export const getLabelsService = async (workspaceId: string) => {
+  const labels = await LabelModel.find({ workspace: workspaceId })
+    .collation({ locale: "en", strength: 2 })
+    .sort({ name: 1 });
+
+  return { labels };
+};
+
+export const updateLabelService = async (
+  workspaceId: string,
+  labelId: string,
+  body: { name?: string; color?: string }
+) => {
+  const label = await findLabelOrThrow(workspaceId, labelId);
+
+  if (body.name !== undefined && body.name !== label.name) {
+    await ensureLabelNameIsFree(workspaceId, body.name, labelId);
+    label.name = body.name;
+  }
+  if (body.color !== undefined) {
+    label.color = body.color;
+  }
+
+  await label.save();
+
+  return { label };
+};
+
+export const deleteLabelService = async (
+  workspaceId: string,
+  labelId: string
+) => {
+  const label = await findLabelOrThrow(workspaceId, labelId);
+
+  await label.deleteOne();
+
+  await TaskModel.updateMany(
+    { workspace: workspaceId, labels: label._id },
+    { $pull: { labels: label._id } }
+  );
+
+  return { label };
+};
+
+/**
+ * Returns the given label ids with duplicates removed, throwing when any of
+ * them is not a label of this workspace.
+ */
+export const validateLabelIdsService = async (
+  workspaceId: string,
+  labelIds: string[]
+) => {
+  const uniqueIds = Array.from(new Set(labelIds));
+  if (!uniqueIds.length) return [];
+
+  const count = await LabelModel.countDocuments({
+    _id: { $in: uniqueIds },
+    workspace: workspaceId,
+  });
+
+  if (count !== uniqueIds.length) {
+    throw new BadRequestException(
+      "One or more labels do not belong to this workspace"
+    );
+  }
+
+  return uniqueIds;
+};
+
+export const bulkUpdateTaskLabelsService = async (
+  workspaceId: string,
+  userId: string,
+  userRole: RoleType,
+  body: { taskIds: string[]; add: string[]; remove: string[] }
+) => {
+  if (userRole !== Roles.OWNER && userRole !== Roles.ADMIN) {
+    throw new UnauthorizedException("Only admins can change task labels");
+  }
+
+  const taskIds = Array.from(new Set(body.taskIds));
+  const [add, remove] = await Promise.all([
+    validateLabelIdsService(workspaceId, body.add),
+    validateLabelIdsService(workspaceId, body.remove),
+  ]);
+
+  const taskCount = await TaskModel.countDocuments({
+    _id: { $in: taskIds },
+    workspace: workspaceId,
+  });
+
+  if (taskCount !== taskIds.length) {
+    throw new NotFoundException(
+      "One or more tasks were not found in this workspace"
+    );
+  }
+
+  const query = { _id: { $in: taskIds }, workspace: workspaceId };
+  const previousTasks = await TaskModel.find(query);
+
+  const projectIds = new Set(previousTasks.map((task) => String(task.project)));
+  for (const projectId of projectIds) {
+    await assertProjectNotArchived(projectId);
+  }
+
+  // $addToSet and $pull cannot target the same path in one update.
+  if (add.length) {
+    await TaskModel.updateMany(query, {
+      $addToSet: { labels: { $each: add } },
+    });
+  }
+  if (remove.length) {
+    await TaskModel.updateMany(query, {
+      $pull: { labels: { $in: remove } },
+    });
+  }
+
+  await Promise.all(
+    previousTasks.map((task) => {
+      const labels = [
+        ...new Set([...task.labels.map(String), ...add.map(String)]),
+      ].filter((labelId) => !remove.map(String).includes(labelId));
+
+      return recordTaskActivityService(
+        task,
+        userId,
+        TaskActivityActionEnum.UPDATED,
+        getTaskFieldChanges(task, { labels })
+      );
+    })
+  );
+
+  const tasks = await TaskModel.find(query)
+    .select("_id labels")
+    .populate("labels", "_id name color");
+
+  return { tasks };
+};
@@ -1,4 +1,5 @@
 import { ErrorCodeEnum } from "../enums/error-code.enum";
+import { AuditActionEnum } from "../enums/audit-log.enum";
 import { Roles } from "../enums/role.enum";
 import MemberModel from "../models/member.model";
 import RoleModel from "../models/roles-permission.model";
@@ -9,6 +10,7 @@ import {
   UnauthorizedException,
 } from "../utils/appError";
 import { RolePermissions } from "../utils/role-permission";
+import { recordAuditLogService } from "./audit-log.service";
 
 export const getMemberRoleInWorkspace = async (
   userId: string,
@@ -36,6 +38,30 @@ export const getMemberRoleInWorkspace = async (
   return { role: roleName };
 };
 
+/**
+ * Returns the given user ids with duplicates removed, throwing when any of
+ * them is not a member of the workspace.
+ */
+export const validateWorkspaceMemberIdsService = async (
+  workspaceId: string,
+  userIds: string[],
+  message = "One or more users are not members of this workspace"
+) => {
+  const uniqueIds = Array.from(new Set(userIds));
+  if (!uniqueIds.length) return [];
+
+  const count = await MemberModel.countDocuments({
+    userId: { $in: uniqueIds },
+    workspaceId,
+  });
+
+  if (count !== uniqueIds.length) {
+    throw new BadRequestException(message);
+  }
+
+  return uniqueIds;
+};
+
 export const joinWorkspaceByInviteService = async (
   userId: string,
   inviteCode: string
@@ -74,5 +100,12 @@ export const joinWorkspaceByInviteService = async (
   });
   await newMember.save();
 
+  await recordAuditLogService(
+    String(workspace._id),
+    userId,
+    AuditActionEnum.MEMBER_JOINED,
+    { targetId: String(userId), metadata: { role: role.name } }
+  );
+
   return { workspaceId: workspace._id, role: role.name };
 };
@@ -0,0 +1,139 @@
+import mongoose from "mongoose";
+import MilestoneModel from "../models/milestone.model";
+import ProjectModel from "../models/project.model";
+import { NotFoundException } from "../utils/appError";
+import { toDateRangeQuery } from "../utils/date-range";
+import { assertProjectNotArchived } from "./task.service";
+
+const findProjectOrThrow = async (workspaceId: string, projectId: string) => {
+  const project = await ProjectModel.findOne({
+    _id: projectId,
+    workspace: workspaceId,
+  });
+
+  if (!project) {
+    throw new NotFoundException(
+      "Project not found or does not belong to this workspace"
+    );
+  }
+
+  return project;
+};
+
+const findMilestoneOrThrow = async (
+  workspaceId: string,
+  projectId: string,
+  milestoneId: string
+) => {
+  const milestone = mongoose.isValidObjectId(milestoneId)
+    ? await MilestoneModel.findOne({
+        _id: milestoneId,
+        project: projectId,
+        workspace: workspaceId,
+      })
+    : null;
+
+  if (!milestone) {
+    throw new NotFoundException(
+      "Milestone not found or does not belong to this project"
+    );
+  }
+
+  return milestone;
+};
+
+export const createMilestoneService = async (
+  workspaceId: string,
+  projectId: string,
+  userId: string,
+  body: {
+    name: string;
+    description?: string | null;
+    date: string;
+  }
+) => {
+  await findProjectOrThrow(workspaceId, projectId);
+  await assertProjectNotArchived(projectId);
+
+  const milestone = await MilestoneModel.create({
+    name: body.name,
+    description: body.description || null,
+    date: body.date,
+    project: projectId,
+    workspace: workspaceId,
+    createdBy: userId,
+  });
+
+  return { milestone };
+};
+
+/**
+ * Milestones in the workspace, or in one project when `projectId` is given,
+ * optionally limited to a date range for the timeline.
+ */
+export const getMilestonesService = async (
+  workspaceId: string,
+  filters: { projectId?: string; from?: string; to?: string }
+) => {
+  const query: Record<string, unknown> = { workspace: workspaceId };
+
+  if (filters.projectId) {
+    await findProjectOrThrow(workspaceId, filters.projectId);
+    query.project = filters.projectId;
+  }
+
+  if (filters.from || filters.to) {
+    query.date = toDateRangeQuery(filters.from, filters.to);
+  }
+
+  const milestones = await MilestoneModel.find(query)
+    .populate("project", "_id emoji name")
+    .sort({ date: 1 });
+
+  return { milestones };
+};
+
+export const updateMilestoneService = async (
+  workspaceId: string,
+  projectId: string,
+  milestoneId: string,
+  body: {
+    name?: string;
+    description?: string | null;
+    date?: string;
+  }
+) => {
+  const milestone = await findMilestoneOrThrow(
+    workspaceId,
+    projectId,
+    milestoneId
+  );
+  await assertProjectNotArchived(projectId);
+
+  if (body.name !== undefined) milestone.name = body.name;
+  if (body.description !== undefined) {
+    milestone.description = body.description || null;
+  }
+  if (body.date !== undefined) milestone.date = new Date(body.date);
+
+  await milestone.save();
+
+  return { milestone };
+};
+
+export const deleteMilestoneService = async (
+  workspaceId: string,
+  projectId: string,
+  milestoneId: string
+) => {
+  const milestone = await findMilestoneOrThrow(
+    workspaceId,
+    projectId,
+    milestoneId
+  );
+  await assertProjectNotArchived(projectId);
+
+  await milestone.deleteOne();
+
+  return { milestone };
+};
@@ -0,0 +1,85 @@
+import { NotificationTypeEnumType } from "../enums/notification.enum";
+import NotificationModel from "../models/notification.model";
+import { NotFoundException } from "../utils/appError";
+
+const NOTIFICATION_LIMIT = 30;
+
+export const createNotificationsService = async (
+  recipientIds: string[],
+  data: {
+    workspaceId: string;
+    actorId: string;
+    type: NotificationTypeEnumType;
+    taskId?: string | null;
+    commentId?: string | null;
+  }
+) => {
+  // Nobody is notified about their own actions.
+  const recipients = recipientIds.filter(
+    (id) => id.toString() !== data.actorId.toString()
+  );
+  if (!recipients.length) return;
+
+  await NotificationModel.insertMany(
+    recipients.map((recipient) => ({
+      recipient,
+      workspace: data.workspaceId,
+      actor: data.actorId,
+      type: data.type,
+      task: data.taskId ?? null,
+      comment: data.commentId ?? null,
+    }))
+  );
+};
+
+export const getNotificationsService = async (
+  workspaceId: string,
+  userId: string
+) => {
+  const query = { workspace: workspaceId, recipient: userId };
+
+  const [notifications, unreadCount] = await Promise.all([
+    NotificationModel.find(query)
+      .sort({ createdAt: -1 })
+      .limit(NOTIFICATION_LIMIT)
+      .populate("actor", "_id name profilePicture")
+      .populate("task", "_id taskCode title project")
+      .populate("comment", "_id body deletedAt"),
+    NotificationModel.countDocuments({ ...query, readAt: null }),
+  ]);
+
+  return { notifications, unreadCount };
+};
+
+export const markNotificationReadService = async (
+  workspaceId: string,
+  notificationId: string,
+  userId: string
+) => {
+  const notification = await NotificationModel.findOne({
+    _id: notificationId,
+    workspace: workspaceId,
+    recipient: userId,
+  });
+
+  if (!notification) {
+    throw new NotFoundException("Notification not found");
+  }
+
+  if (!notification.readAt) {
+    notification.readAt = new Date();
+    await notification.save();
+  }
+
+  return { notification };
+};
+
+export const markAllNotificationsReadService = async (
+  workspaceId: string,
+  userId: string
+) => {
+  await NotificationModel.updateMany(
+    { workspace: workspaceId, recipient: userId, readAt: null },
+    { $set: { readAt: new Date() } }
+  );
+};
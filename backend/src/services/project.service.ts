@@ -1,8 +1,49 @@
 import mongoose from "mongoose";
 import ProjectModel from "../models/project.model";
 import TaskModel from "../models/task.model";
-import { NotFoundException } from "../utils/appError";
-import { TaskStatusEnum } from "../enums/task.enum";
+import LabelModel from "../models/label.model";
+import NotificationModel from "../models/notification.model";
+import { BadRequestException, NotFoundException } from "../utils/appError";
+import { TaskStatusCategoryEnum } from "../enums/task.enum";
+import { AuditActionEnum } from "../enums/audit-log.enum";
+import { getWorkflowStatusKeysService } from "./workflow.service";
+import { getTimeByMemberService } from "./worklog.service";
+import { recordAuditLogService } from "./audit-log.service";
+import {
+  applyProjectTemplateService,
+  getTemplateByIdService,
+  resolveTemplateRoleAssigneesService,
+} from "./template.service";
+import { TemplateTypeEnum } from "../enums/template.enum";
+import { RoleType } from "../enums/role.enum";
+import { deriveProjectKey, makeUniqueProjectKey } from "../utils/project-key";
+
+const keyTakenError = (key: string) =>
+  new BadRequestException(
+    `The project key ${key} is already used in this workspace`
+  );
+
+// Keys of trashed projects stay reserved so their tasks keep unique codes.
+const getProjectKeyService = async (
+  workspaceId: string,
+  name: string,
+  requestedKey?: string
+) => {
+  const taken = new Set(
+    await ProjectModel.distinct<"key", string>("key", {
+      workspace: workspaceId,
+    }).setOptions({ withDeleted: true })
+  );
+
+  if (requestedKey) {
+    if (taken.has(requestedKey)) {
+      throw keyTakenError(requestedKey);
+    }
+    return requestedKey;
+  }
+
+  return makeUniqueProjectKey(deriveProjectKey(name), taken);
+};
 
 export const createProjectService = async (
   userId: string,
@@ -10,18 +51,56 @@ export const createProjectService = async (
   body: {
     emoji?: string;
     name: string;
+    key?: string;
     description?: string;
+    templateId?: string;
+    startDate?: string;
+    roleAssignees?: Partial<Record<RoleType, string>>;
   }
 ) => {
+  const template = body.templateId
+    ? await getTemplateByIdService(
+        workspaceId,
+        body.templateId,
+        TemplateTypeEnum.PROJECT
+      )
+    : null;
+
+  // Checked before saving so a bad member id leaves no project behind.
+  const assigneeByRole = template
+    ? await resolveTemplateRoleAssigneesService(
+        workspaceId,
+        template,
+        body.roleAssignees
+      )
+    : null;
+
+  const emoji = body.emoji || template?.projectEmoji;
+
   const project = new ProjectModel({
-    ...(body.emoji && { emoji: body.emoji }),
+    ...(emoji && { emoji }),
     name: body.name,
-    description: body.description,
+    key: await getProjectKeyService(workspaceId, body.name, body.key),
+    description: body.description || template?.projectDescription,
     workspace: workspaceId,
     createdBy: userId,
   });
 
-  await project.save();
+  // Another project may have claimed the key since it was checked.
+  await project.save().catch((error) => {
+    if (error?.code === 11000) throw keyTakenError(project.key);
+    throw error;
+  });
+
+  if (template && assigneeByRole) {
+    await applyProjectTemplateService(
+      workspaceId,
+      String(project._id),
+      userId,
+      template,
+      { startDate: body.startDate, assigneeByRole }
+    );
+  }
 
   return { project };
 };
@@ -29,19 +108,24 @@ export const createProjectService = async (
 export const getProjectsInWorkspaceService = async (
   workspaceId: string,
   pageSize: number,
-  pageNumber: number
+  pageNumber: number,
+  filters: { keyword?: string; includeArchived?: boolean } = {}
 ) => {
   // Step 1: Find all projects in the workspace
+  const query: Record<string, unknown> = { workspace: workspaceId };
 
-  const totalCount = await ProjectModel.countDocuments({
-    workspace: workspaceId,
-  });
+  // Archived projects are left out of listings but still turn up in searches.
+  if (filters.keyword) {
+    query.name = { $regex: filters.keyword, $options: "i" };
+  } else if (!filters.includeArchived) {
+    query.archivedAt = null;
+  }
+
+  const totalCount = await ProjectModel.countDocuments(query);
 
   const skip = (pageNumber - 1) * pageSize;
 
-  const projects = await ProjectModel.find({
-    workspace: workspaceId,
-  })
+  const projects = await ProjectModel.find(query)
     .skip(skip)
     .limit(pageSize)
     .populate("createdBy", "_id name profilePicture -password")
@@ -59,7 +143,7 @@ export const getProjectByIdAndWorkspaceIdService = async (
   const project = await ProjectModel.findOne({
     _id: projectId,
     workspace: workspaceId,
-  }).select("_id emoji name description");
+  }).select("_id emoji name key description archivedAt");
 
   if (!project) {
     throw new NotFoundException(
@@ -83,6 +167,10 @@ export const getProjectAnalyticsService = async (
   }
 
   const currentDate = new Date();
+  const doneStatuses = await getWorkflowStatusKeysService(
+    workspaceId,
+    TaskStatusCategoryEnum.DONE
+  );
 
   //USING Mongoose aggregate
   const taskAnalytics = await TaskModel.aggregate([
@@ -99,7 +187,7 @@ export const getProjectAnalyticsService = async (
             $match: {
               dueDate: { $lt: currentDate },
               status: {
-                $ne: TaskStatusEnum.DONE,
+                $nin: doneStatuses,
               },
             },
           },
@@ -110,11 +198,43 @@ export const getProjectAnalyticsService = async (
         completedTasks: [
           {
             $match: {
-              status: TaskStatusEnum.DONE,
+              status: { $in: doneStatuses },
             },
           },
           { $count: "count" },
         ],
+        tasksByLabel: [
+          { $unwind: "$labels" },
+          {
+            $group: {
+              _id: "$labels",
+              total: { $sum: 1 },
+              completed: {
+                $sum: { $cond: [{ $in: ["$status", doneStatuses] }, 1, 0] },
+              },
+            },
+          },
+          {
+            $lookup: {
+              from: LabelModel.collection.name,
+              localField: "_id",
+              foreignField: "_id",
+              as: "label",
+            },
+          },
+          { $unwind: "$label" },
+          {
+            $project: {
+              _id: 0,
+              labelId: "$_id",
+              name: "$label.name",
+              color: "$label.color",
+              total: 1,
+              completed: 1,
+            },
+          },
+          { $sort: { total: -1, name: 1 } },
+        ],
       },
     },
   ]);
@@ -127,8 +247,15 @@ export const getProjectAnalyticsService = async (
     completedTasks: _analytics.completedTasks[0]?.count || 0,
   };
 
+  const { timeByMember } = await getTimeByMemberService(
+    workspaceId,
+    projectId
+  );
+
   return {
     analytics,
+    labelBreakdown: _analytics.tasksByLabel,
+    timeByMember,
   };
 };
 
@@ -163,9 +290,14 @@ export const updateProjectService = async (
   return { project };
 };
 
+/**
+ * Moves a project and its remaining tasks to the trash; see trash.service
+ * for restore and purge.
+ */
 export const deleteProjectService = async (
   workspaceId: string,
-  projectId: string
+  projectId: string,
+  userId: string
 ) => {
   const project = await ProjectModel.findOne({
     _id: projectId,
@@ -178,11 +310,101 @@ export const deleteProjectService = async (
     );
   }
 
-  await project.deleteOne();
+  const deletedAt = new Date();
+  const taskIds = await TaskModel.distinct("_id", { project: project._id });
+
+  // Tasks take the project's timestamp so a restore brings back exactly
+  // these, and not the ones that were already in the trash.
+  const { modifiedCount: deletedTaskCount } = await TaskModel.updateMany(
+    { _id: { $in: taskIds }, deletedAt: null },
+    { deletedAt, deletedBy: userId }
+  );
+
+  project.deletedAt = deletedAt;
+  project.deletedBy = new mongoose.Types.ObjectId(userId);
+  await project.save();
 
-  await TaskModel.deleteMany({
-    project: project._id,
+  await NotificationModel.deleteMany({
+    task: { $in: taskIds },
   });
 
+  await recordAuditLogService(
+    workspaceId,
+    userId,
+    AuditActionEnum.PROJECT_DELETED,
+    {
+      targetId: projectId,
+      metadata: { name: project.name, deletedTaskCount },
+    }
+  );
+
   return project;
 };
+
+export const archiveProjectService = async (
+  workspaceId: string,
+  projectId: string,
+  userId: string
+) => {
+  const project = await ProjectModel.findOne({
+    _id: projectId,
+    workspace: workspaceId,
+  });
+
+  if (!project) {
+    throw new NotFoundException(
+      "Project not found or does not belong to the specified workspace"
+    );
+  }
+
+  if (project.archivedAt) {
+    throw new BadRequestException("Project is already archived");
+  }
+
+  project.archivedAt = new Date();
+  project.archivedBy = new mongoose.Types.ObjectId(userId);
+  await project.save();
+
+  await recordAuditLogService(
+    workspaceId,
+    userId,
+    AuditActionEnum.PROJECT_ARCHIVED,
+    { targetId: projectId, metadata: { name: project.name } }
+  );
+
+  return { project };
+};
+
+export const unarchiveProjectService = async (
+  workspaceId: string,
+  projectId: string,
+  userId: string
+) => {
+  const project = await ProjectModel.findOne({
+    _id: projectId,
+    workspace: workspaceId,
+  });
+
+  if (!project) {
+    throw new NotFoundException(
+      "Project not found or does not belong to the specified workspace"
+    );
+  }
+
+  if (!project.archivedAt) {
+    throw new BadRequestException("Project is not archived");
+  }
+
+  project.archivedAt = null;
+  project.archivedBy = null;
+  await project.save();
+
+  await recordAuditLogService(
+    workspaceId,
+    userId,
+    AuditActionEnum.PROJECT_UNARCHIVED,
+    { targetId: projectId, metadata: { name: project.name } }
+  );
+
+  return { project };
+};
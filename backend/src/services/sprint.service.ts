@@ -0,0 +1,356 @@
+import mongoose from "mongoose";
+import { SprintStatusEnum } from "../enums/sprint.enum";
+import { TaskStatusCategoryEnum } from "../enums/task.enum";
+import ProjectModel from "../models/project.model";
+import SprintModel, { SprintDocument } from "../models/sprint.model";
+import TaskModel from "../models/task.model";
+import { BadRequestException, NotFoundException } from "../utils/appError";
+import { getWorkflowStatusKeysService } from "./workflow.service";
+import { assertProjectNotArchived } from "./task.service";
+
+const findProjectOrThrow = async (workspaceId: string, projectId: string) => {
+  const project = await ProjectModel.findOne({
+    _id: projectId,
+    workspace: workspaceId,
+  });
+
+  if (!project) {
+    throw new NotFoundException(
+      "Project not found or does not belong to this workspace"
+    );
+  }
+
+  return project;
+};
+
+const findSprintOrThrow = async (
+  workspaceId: string,
+  projectId: string,
+  sprintId: string
+) => {
+  const sprint = mongoose.isValidObjectId(sprintId)
+    ? await SprintModel.findOne({
+        _id: sprintId,
+        project: projectId,
+        workspace: workspaceId,
+      })
+    : null;
+
+  if (!sprint) {
+    throw new NotFoundException(
+      "Sprint not found or does not belong to this project"
+    );
+  }
+
+  return sprint;
+};
+
+export const createSprintService = async (
+  workspaceId: string,
+  projectId: string,
+  userId: string,
+  body: {
+    name: string;
+    goal?: string | null;
+    startDate: string;
+    endDate: string;
+  }
+) => {
+  await findProjectOrThrow(workspaceId, projectId);
+  await assertProjectNotArchived(projectId);
+
+  const sprint = await SprintModel.create({
+    name: body.name,
+    goal: body.goal || null,
+    startDate: body.startDate,
+    endDate: body.endDate,
+    project: projectId,
+    workspace: workspaceId,
+    createdBy: userId,
+  });
+
+  return { sprint };
+};
+
+export const getSprintsService = async (
+  workspaceId: string,
+  projectId: string
+) => {
+  await findProjectOrThrow(workspaceId, projectId);
+
+  const sprints = await SprintModel.find({
+    project: projectId,
+    workspace: workspaceId,
+  })
+    .select("-committedTasks -addedTasks -completedTasks -carriedOverTasks")
+    .sort({ startDate: 1 });
+
+  return { sprints };
+};
+
+export const updateSprintService = async (
+  workspaceId: string,
+  projectId: string,
+  sprintId: string,
+  body: {
+    name?: string;
+    goal?: string | null;
+    startDate?: string;
+    endDate?: string;
+  }
+) => {
+  const sprint = await findSprintOrThrow(workspaceId, projectId, sprintId);
+  await assertProjectNotArchived(projectId);
+
+  if (sprint.status === SprintStatusEnum.CLOSED) {
+    throw new BadRequestException("Closed sprints cannot be edited");
+  }
+
+  if (body.name !== undefined) sprint.name = body.name;
+  if (body.goal !== undefined) sprint.goal = body.goal || null;
+  if (body.startDate !== undefined) sprint.startDate = new Date(body.startDate);
+  if (body.endDate !== undefined) sprint.endDate = new Date(body.endDate);
+
+  if (sprint.endDate <= sprint.startDate) {
+    throw new BadRequestException("End date must be after the start date");
+  }
+
+  await sprint.save();
+
+  return { sprint };
+};
+
+/**
+ * Only planned sprints can be deleted; their tasks return to the backlog.
+ * Started sprints are kept so their report stays available.
+ */
+export const deleteSprintService = async (
+  workspaceId: string,
+  projectId: string,
+  sprintId: string
+) => {
+  const sprint = await findSprintOrThrow(workspaceId, projectId, sprintId);
+  await assertProjectNotArchived(projectId);
+
+  if (sprint.status !== SprintStatusEnum.PLANNED) {
+    throw new BadRequestException("Only planned sprints can be deleted");
+  }
+
+  await sprint.deleteOne();
+
+  await TaskModel.updateMany({ sprint: sprint._id }, { sprint: null });
+
+  return { sprint };
+};
+
+/**
+ * Starts a planned sprint. Whatever is in the sprint at this point is its
+ * committed scope; a project runs one sprint at a time.
+ */
+export const startSprintService = async (
+  workspaceId: string,
+  projectId: string,
+  sprintId: string
+) => {
+  const sprint = await findSprintOrThrow(workspaceId, projectId, sprintId);
+  await assertProjectNotArchived(projectId);
+
+  if (sprint.status !== SprintStatusEnum.PLANNED) {
+    throw new BadRequestException("Only planned sprints can be started");
+  }
+
+  const activeSprint = await SprintModel.exists({
+    project: projectId,
+    status: SprintStatusEnum.ACTIVE,
+  });
+
+  if (activeSprint) {
+    throw new BadRequestException(
+      "Close the active sprint before starting another one"
+    );
+  }
+
+  const tasks = await TaskModel.find({ sprint: sprint._id }).select("_id");
+
+  sprint.committedTasks = tasks.map(
+    (task) => task._id as mongoose.Types.ObjectId
+  );
+  sprint.addedTasks = [];
+  sprint.status = SprintStatusEnum.ACTIVE;
+  sprint.startedAt = new Date();
+  await sprint.save();
+
+  return { sprint };
+};
+
+/**
+ * Closes the active sprint. Finished tasks stay in it, unfinished ones move
+ * to `carryOverTo` (a planned sprint of the same project) or the backlog.
+ */
+export const closeSprintService = async (
+  workspaceId: string,
+  projectId: string,
+  sprintId: string,
+  carryOverTo: string | null
+) => {
+  const sprint = await findSprintOrThrow(workspaceId, projectId, sprintId);
+  await assertProjectNotArchived(projectId);
+
+  if (sprint.status !== SprintStatusEnum.ACTIVE) {
+    throw new BadRequestException("Only the active sprint can be closed");
+  }
+
+  const nextSprint = carryOverTo
+    ? await findSprintOrThrow(workspaceId, projectId, carryOverTo)
+    : null;
+
+  if (nextSprint && nextSprint.status !== SprintStatusEnum.PLANNED) {
+    throw new BadRequestException(
+      "Unfinished tasks can only carry over to a planned sprint"
+    );
+  }
+
+  const doneStatuses = await getWorkflowStatusKeysService(
+    workspaceId,
+    TaskStatusCategoryEnum.DONE
+  );
+
+  const tasks = await TaskModel.find({ sprint: sprint._id }).select(
+    "_id status"
+  );
+  const taskIds = (done: boolean) =>
+    tasks
+      .filter((task) => doneStatuses.includes(task.status) === done)
+      .map((task) => task._id as mongoose.Types.ObjectId);
+  const unfinishedIds = taskIds(false);
+
+  await TaskModel.updateMany(
+    { _id: { $in: unfinishedIds } },
+    { sprint: nextSprint?._id || null }
+  );
+
+  sprint.completedTasks = taskIds(true);
+  sprint.carriedOverTasks = unfinishedIds;
+  sprint.carriedOverTo = nextSprint
+    ? (nextSprint._id as mongoose.Types.ObjectId)
+    : null;
+  sprint.status = SprintStatusEnum.CLOSED;
+  sprint.closedAt = new Date();
+  await sprint.save();
+
+  return { sprint };
+};
+
+/**
+ * Checks that a task may be put in the sprint and returns it. Null or an
+ * empty id means the backlog.
+ */
+export const resolveTaskSprintService = async (
+  workspaceId: string,
+  projectId: string,
+  sprintId: string | null | undefined
+) => {
+  if (!sprintId) return null;
+
+  const sprint = await findSprintOrThrow(workspaceId, projectId, sprintId);
+
+  if (sprint.status === SprintStatusEnum.CLOSED) {
+    throw new BadRequestException("Tasks cannot be added to a closed sprint");
+  }
+
+  return sprint;
+};
+
+// Tasks that join a running sprint count as scope added mid-sprint.
+export const recordSprintScopeChange = async (
+  sprint: SprintDocument | null,
+  taskId: mongoose.Types.ObjectId | string
+) => {
+  if (!sprint || sprint.status !== SprintStatusEnum.ACTIVE) return;
+
+  const isCommitted = sprint.committedTasks.some(
+    (id) => id.toString() === taskId.toString()
+  );
+  if (isCommitted) return;
+
+  await SprintModel.updateOne(
+    { _id: sprint._id },
+    { $addToSet: { addedTasks: taskId } }
+  );
+};
+
+/**
+ * Committed vs. completed, added mid-sprint and carried over. Closed sprints
+ * report their snapshots; open sprints are measured against their current
+ * tasks.
+ */
+export const getSprintReportService = async (
+  workspaceId: string,
+  projectId: string,
+  sprintId: string
+) => {
+  const sprint = await findSprintOrThrow(workspaceId, projectId, sprintId);
+
+  let committedIds = sprint.committedTasks;
+  let completedIds = sprint.completedTasks;
+  let remainingIds: mongoose.Types.ObjectId[] = [];
+
+  if (sprint.status !== SprintStatusEnum.CLOSED) {
+    const doneStatuses = await getWorkflowStatusKeysService(
+      workspaceId,
+      TaskStatusCategoryEnum.DONE
+    );
+    const tasks = await TaskModel.find({ sprint: sprint._id }).select(
+      "_id status"
+    );
+
+    if (sprint.status === SprintStatusEnum.PLANNED) {
+      committedIds = tasks.map((task) => task._id as mongoose.Types.ObjectId);
+    }
+    completedIds = tasks
+      .filter((task) => doneStatuses.includes(task.status))
+      .map((task) => task._id as mongoose.Types.ObjectId);
+    remainingIds = tasks
+      .filter((task) => !doneStatuses.includes(task.status))
+      .map((task) => task._id as mongoose.Types.ObjectId);
+  }
+
+  const reportIds = [
+    ...committedIds,
+    ...sprint.addedTasks,
+    ...completedIds,
+    ...sprint.carriedOverTasks,
+    ...remainingIds,
+  ];
+  const tasks = await TaskModel.find({ _id: { $in: reportIds } }).select(
+    "_id taskCode title status"
+  );
+  const tasksById = new Map(tasks.map((task) => [String(task._id), task]));
+  const pick = (ids: mongoose.Types.ObjectId[]) =>
+    ids
+      .map((id) => tasksById.get(id.toString()))
+      .filter((task) => task !== undefined);
+
+  const report = {
+    committed: pick(committedIds),
+    completed: pick(completedIds),
+    addedMidSprint: pick(sprint.addedTasks),
+    carriedOver: pick(sprint.carriedOverTasks),
+    remaining: pick(remainingIds),
+  };
+
+  return {
+    sprint: {
+      _id: sprint._id,
+      name: sprint.name,
+      goal: sprint.goal,
+      status: sprint.status,
+      startDate: sprint.startDate,
+      endDate: sprint.endDate,
+      startedAt: sprint.startedAt,
+      closedAt: sprint.closedAt,
+      carriedOverTo: sprint.carriedOverTo,
+    },
+    report,
+  };
+};
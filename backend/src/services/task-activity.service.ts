@@ -0,0 +1,118 @@
+import mongoose from "mongoose";
+import {
+  TaskActivityActionEnum,
+  TaskActivityActionEnumType,
+} from "../enums/task-activity.enum";
+import TaskActivityModel, {
+  TaskFieldChange,
+} from "../models/task-activity.model";
+import TaskModel, { TaskDocument } from "../models/task.model";
+import { NotFoundException } from "../utils/appError";
+
+// Board reordering moves a card around but does not change the task itself.
+const UNTRACKED_FIELDS = ["rank"];
+const DATE_FIELDS = ["startDate", "dueDate"];
+
+const toActivityValue = (field: string, value: unknown): unknown => {
+  if (value === undefined || value === null || value === "") return null;
+  if (DATE_FIELDS.includes(field)) {
+    return new Date(value as string | Date).toISOString();
+  }
+  if (value instanceof mongoose.Types.ObjectId) return value.toString();
+  // Id lists such as assignees and labels are compared as sets.
+  if (Array.isArray(value)) {
+    return value.map((item) => toActivityValue(field, item)).sort();
+  }
+  return value;
+};
+
+const readTaskField = (task: TaskDocument, field: string) =>
+  field.startsWith("customFields.")
+    ? task.customFields?.get(field.slice("customFields.".length))
+    : task.get(field);
+
+/**
+ * Compares an update against the stored task and returns one entry per field
+ * whose value actually changes. `unset` lists paths being cleared.
+ */
+export const getTaskFieldChanges = (
+  task: TaskDocument,
+  set: Record<string, unknown>,
+  unset: string[] = []
+): TaskFieldChange[] =>
+  [
+    ...Object.entries(set),
+    ...unset.map((field): [string, unknown] => [field, null]),
+  ]
+    .filter(([field]) => !UNTRACKED_FIELDS.includes(field))
+    .map(([field, value]) => ({
+      field,
+      oldValue: toActivityValue(field, readTaskField(task, field)),
+      newValue: toActivityValue(field, value),
+    }))
+    .filter(
+      (change) =>
+        JSON.stringify(change.oldValue) !== JSON.stringify(change.newValue)
+    );
+
+export const recordTaskActivityService = async (
+  task: TaskDocument,
+  actorId: string | null,
+  action: TaskActivityActionEnumType,
+  changes: TaskFieldChange[] = []
+) => {
+  if (action === TaskActivityActionEnum.UPDATED && !changes.length) return;
+
+  await TaskActivityModel.create({
+    task: task._id,
+    project: task.project,
+    workspace: task.workspace,
+    actor: actorId,
+    action,
+    changes,
+  });
+};
+
+export const getTaskActivityService = async (
+  workspaceId: string,
+  taskId: string,
+  pagination: {
+    pageSize: number;
+    pageNumber: number;
+  }
+) => {
+  const task = mongoose.isValidObjectId(taskId)
+    ? await TaskModel.exists({ _id: taskId, workspace: workspaceId })
+    : null;
+
+  if (!task) {
+    throw new NotFoundException(
+      "Task not found or does not belong to the specified workspace"
+    );
+  }
+
+  const { pageSize, pageNumber } = pagination;
+  const skip = (pageNumber - 1) * pageSize;
+
+  const [activities, totalCount] = await Promise.all([
+    TaskActivityModel.find({ task: taskId })
+      .sort({ createdAt: -1, _id: -1 })
+      .skip(skip)
+      .limit(pageSize)
+      .populate("actor", "_id name profilePicture"),
+    TaskActivityModel.countDocuments({ task: taskId }),
+  ]);
+
+  const totalPages = Math.ceil(totalCount / pageSize);
+
+  return {
+    activities,
+    pagination: {
+      pageSize,
+      pageNumber,
+      totalCount,
+      totalPages,
+      skip,
+    },
+  };
+};
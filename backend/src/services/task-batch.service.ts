@@ -0,0 +1,146 @@
+import mongoose from "mongoose";
+import { RoleType } from "../enums/role.enum";
+import TaskModel, { TaskDocument } from "../models/task.model";
+import { AppError } from "../utils/appError";
+import { deleteTaskService, updateTaskService } from "./task.service";
+import { moveTaskService } from "./task-transfer.service";
+
+export type BatchTaskOperation =
+  | {
+      action: "update";
+      changes: {
+        status?: string;
+        priority?: string;
+        assignees?: string[];
+        dueDate?: string;
+        addLabels?: string[];
+        removeLabels?: string[];
+      };
+    }
+  | { action: "move"; projectId: string }
+  | { action: "delete" };
+
+type BatchTaskResult = {
+  taskId: string;
+  taskCode: string | null;
+  success: boolean;
+  error?: string;
+};
+
+const applyBatchOperation = async (
+  workspaceId: string,
+  task: TaskDocument,
+  userId: string,
+  userRole: RoleType,
+  operation: BatchTaskOperation
+) => {
+  const taskId = String(task._id);
+
+  switch (operation.action) {
+    case "update": {
+      const { addLabels, removeLabels, ...changes } = operation.changes;
+      const labels =
+        addLabels || removeLabels
+          ? Array.from(
+              new Set([...task.labels.map(String), ...(addLabels ?? [])])
+            ).filter((labelId) => !removeLabels?.includes(labelId))
+          : undefined;
+
+      await updateTaskService(
+        workspaceId,
+        task.project.toString(),
+        taskId,
+        userId,
+        userRole,
+        { ...changes, labels }
+      );
+      return;
+    }
+    case "move":
+      await moveTaskService(workspaceId, taskId, userId, {
+        projectId: operation.projectId,
+      });
+      return;
+    case "delete":
+      await deleteTaskService(workspaceId, taskId, userId);
+      return;
+  }
+};
+
+/**
+ * Applies one operation to many tasks, one task at a time, through the same
+ * services as single-task edits so each task gets the usual permission
+ * checks. A failing task does not stop the rest; every task gets its own
+ * result.
+ */
+export const batchTasksService = async (
+  workspaceId: string,
+  userId: string,
+  userRole: RoleType,
+  body: { taskIds: string[]; operation: BatchTaskOperation }
+) => {
+  const taskIds = Array.from(new Set(body.taskIds));
+  const { operation } = body;
+
+  const tasks = await TaskModel.find({
+    _id: { $in: taskIds.filter((id) => mongoose.isValidObjectId(id)) },
+    workspace: workspaceId,
+  });
+
+  // Parents go first: moving or deleting one takes its subtasks along.
+  tasks.sort(
+    (a, b) => Number(Boolean(a.parentTask)) - Number(Boolean(b.parentTask))
+  );
+
+  const results = new Map<string, BatchTaskResult>();
+
+  for (const task of tasks) {
+    const taskId = String(task._id);
+    const parentResult = task.parentTask
+      ? results.get(task.parentTask.toString())
+      : undefined;
+
+    if (operation.action !== "update" && parentResult) {
+      results.set(taskId, {
+        ...parentResult,
+        taskId,
+        taskCode: task.taskCode,
+      });
+      continue;
+    }
+
+    try {
+      await applyBatchOperation(
+        workspaceId,
+        task,
+        userId,
+        userRole,
+        operation
+      );
+      results.set(taskId, { taskId, taskCode: task.taskCode, success: true });
+    } catch (error) {
+      if (!(error instanceof AppError)) {
+        console.error(`Batch ${operation.action} failed for ${taskId}`, error);
+      }
+      results.set(taskId, {
+        taskId,
+        taskCode: task.taskCode,
+        success: false,
+        error:
+          error instanceof AppError ? error.message : "Failed to update task",
+      });
+    }
+  }
+
+  return {
+    results: taskIds.map(
+      (taskId): BatchTaskResult =>
+        results.get(taskId) ?? {
+          taskId,
+          taskCode: null,
+          success: false,
+          error: "Task not found or does not belong to this workspace",
+        }
+    ),
+  };
+};
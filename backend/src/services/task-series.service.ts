@@ -0,0 +1,285 @@
+import { Roles, RoleType } from "../enums/role.enum";
+import { TaskStatusCategoryEnum } from "../enums/task.enum";
+import { TaskActivityActionEnum } from "../enums/task-activity.enum";
+import ProjectModel from "../models/project.model";
+import TaskModel, { TaskDocument } from "../models/task.model";
+import TaskSeriesModel, { RecurrenceRule } from "../models/task-series.model";
+import {
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from "../utils/appError";
+import { getNextOccurrenceDate } from "../utils/recurrence";
+import {
+  getWorkflowStatusKeysService,
+  getWorkspaceWorkflowService,
+} from "./workflow.service";
+import { validateWorkspaceMemberIdsService } from "./member.service";
+import {
+  getTaskFieldChanges,
+  recordTaskActivityService,
+} from "./task-activity.service";
+import { assertProjectNotArchived } from "./task.service";
+
+type RecurrenceRulePayload = {
+  frequency: string;
+  interval?: number;
+  weekdays?: number[];
+  dayOfMonth?: number | null;
+  endsAt?: string | null;
+};
+
+const toRecurrenceRule = (rule: RecurrenceRulePayload) =>
+  ({
+    frequency: rule.frequency,
+    interval: rule.interval || 1,
+    weekdays: rule.weekdays || [],
+    dayOfMonth: rule.dayOfMonth ?? null,
+    endsAt: rule.endsAt ? new Date(rule.endsAt) : null,
+  } as RecurrenceRule);
+
+export const createTaskSeriesService = async (
+  workspaceId: string,
+  projectId: string,
+  userId: string,
+  body: {
+    title: string;
+    description?: string;
+    priority: string;
+    assignees?: string[];
+    recurrence: RecurrenceRulePayload;
+  }
+) => {
+  const series = await TaskSeriesModel.create({
+    workspace: workspaceId,
+    project: projectId,
+    title: body.title,
+    description: body.description,
+    priority: body.priority,
+    assignees: body.assignees || [],
+    recurrence: toRecurrenceRule(body.recurrence),
+    createdBy: userId,
+  });
+
+  return { series };
+};
+
+export const spawnNextOccurrenceService = async (task: TaskDocument) => {
+  if (!task.series || task.nextOccurrenceCreated) return null;
+
+  const series = await TaskSeriesModel.findById(task.series);
+  if (!series || !series.isActive) return null;
+
+  // Claim the occurrence first so the scheduler and a status change racing
+  // each other cannot both generate the next task.
+  const claimed = await TaskModel.findOneAndUpdate(
+    { _id: task._id, nextOccurrenceCreated: false },
+    { nextOccurrenceCreated: true }
+  );
+  if (!claimed) return null;
+
+  const nextDueDate = getNextOccurrenceDate(
+    series.recurrence,
+    task.dueDate || new Date()
+  );
+
+  if (!nextDueDate) {
+    series.isActive = false;
+    await series.save();
+    return null;
+  }
+
+  // The next occurrence keeps the same lead time between start and due date.
+  const nextStartDate =
+    task.startDate && task.dueDate
+      ? new Date(
+          nextDueDate.getTime() -
+            (task.dueDate.getTime() - task.startDate.getTime())
+        )
+      : null;
+
+  const { workflow } = await getWorkspaceWorkflowService(
+    series.workspace.toString()
+  );
+
+  const nextTask = await TaskModel.create({
+    title: series.title,
+    description: series.description,
+    priority: series.priority,
+    assignees: series.assignees,
+    status: workflow.defaultStatus,
+    project: series.project,
+    workspace: series.workspace,
+    createdBy: series.createdBy,
+    startDate: nextStartDate,
+    dueDate: nextDueDate,
+    estimateMinutes: task.estimateMinutes,
+    series: series._id,
+    labels: task.labels,
+    customFields: task.customFields,
+  });
+
+  await recordTaskActivityService(
+    nextTask,
+    null,
+    TaskActivityActionEnum.CREATED
+  );
+
+  return nextTask;
+};
+
+export const generateScheduledOccurrencesService = async () => {
+  // Archived projects are read-only, so their series pause until unarchived.
+  const archivedProjectIds = await ProjectModel.distinct("_id", {
+    archivedAt: { $ne: null },
+  });
+
+  // Stopped series are left out rather than skipped, so they cannot fill
+  // every batch and starve the active ones.
+  const activeSeriesIds = await TaskSeriesModel.distinct("_id", {
+    isActive: true,
+  });
+
+  const dueTasks = await TaskModel.find({
+    project: { $nin: archivedProjectIds },
+    series: { $in: activeSeriesIds },
+    nextOccurrenceCreated: false,
+    dueDate: { $lte: new Date() },
+  })
+    .sort({ dueDate: 1 })
+    .limit(100);
+
+  let created = 0;
+  for (const task of dueTasks) {
+    const nextTask = await spawnNextOccurrenceService(task);
+    if (nextTask) created++;
+  }
+
+  return { created };
+};
+
+export const getTaskSeriesService = async (
+  workspaceId: string,
+  seriesId: string
+) => {
+  const series = await TaskSeriesModel.findOne({
+    _id: seriesId,
+    workspace: workspaceId,
+  }).populate("assignees", "_id name profilePicture");
+
+  if (!series) {
+    throw new NotFoundException("Recurring series not found");
+  }
+
+  return { series };
+};
+
+/**
+ * Applies an edit to the occurrence identified by `taskId` and to every open
+ * occurrence after it, and stores it on the series so future occurrences
+ * pick it up too. Passing `recurrence: null` stops the series.
+ */
+export const updateTaskSeriesService = async (
+  workspaceId: string,
+  taskId: string,
+  userId: string,
+  userRole: RoleType,
+  body: {
+    title?: string;
+    description?: string;
+    priority?: string;
+    assignees?: string[];
+    recurrence?: RecurrenceRulePayload | null;
+  }
+) => {
+  if (userRole !== Roles.OWNER && userRole !== Roles.ADMIN) {
+    throw new UnauthorizedException(
+      "Only admins can edit a recurring series"
+    );
+  }
+
+  const task = await TaskModel.findOne({ _id: taskId, workspace: workspaceId });
+  if (!task) {
+    throw new NotFoundException(
+      "Task not found or does not belong to this workspace"
+    );
+  }
+
+  if (!task.series) {
+    throw new BadRequestException("This task is not part of a recurring series");
+  }
+
+  const series = await TaskSeriesModel.findById(task.series);
+  if (!series) {
+    throw new NotFoundException("Recurring series not found");
+  }
+
+  await assertProjectNotArchived(task.project);
+
+  const occurrenceUpdate: Record<string, unknown> = {};
+
+  if (body.title !== undefined) {
+    series.title = body.title;
+    occurrenceUpdate.title = body.title;
+  }
+  if (body.description !== undefined) {
+    series.description = body.description;
+    occurrenceUpdate.description = body.description;
+  }
+  if (body.priority !== undefined) {
+    series.priority = body.priority as typeof series.priority;
+    occurrenceUpdate.priority = body.priority;
+  }
+  if (body.assignees !== undefined) {
+    const assignees = await validateWorkspaceMemberIdsService(
+      workspaceId,
+      body.assignees,
+      "One or more assignees are not members of this workspace"
+    );
+    series.set("assignees", assignees);
+    occurrenceUpdate.assignees = assignees;
+  }
+
+  if (body.recurrence === null) {
+    series.isActive = false;
+  } else if (body.recurrence) {
+    series.recurrence = toRecurrenceRule(body.recurrence);
+    series.isActive = true;
+  }
+
+  await series.save();
+
+  if (Object.keys(occurrenceUpdate).length) {
+    const doneStatuses = await getWorkflowStatusKeysService(
+      workspaceId,
+      TaskStatusCategoryEnum.DONE
+    );
+
+    const occurrences = await TaskModel.find({
+      series: series._id,
+      status: { $nin: doneStatuses },
+      $or: [
+        { _id: task._id },
+        ...(task.dueDate ? [{ dueDate: { $gte: task.dueDate } }] : []),
+      ],
+    });
+
+    await TaskModel.updateMany(
+      { _id: { $in: occurrences.map((occurrence) => occurrence._id) } },
+      occurrenceUpdate
+    );
+
+    await Promise.all(
+      occurrences.map((occurrence) =>
+        recordTaskActivityService(
+          occurrence,
+          userId,
+          TaskActivityActionEnum.UPDATED,
+          getTaskFieldChanges(occurrence, occurrenceUpdate)
+        )
+      )
+    );
+  }
+
+  return { series };
+};
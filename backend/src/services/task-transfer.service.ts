@@ -0,0 +1,451 @@
+import mongoose from "mongoose";
+import { AuditActionEnum } from "../enums/audit-log.enum";
+import { ClarificationStatusEnum } from "../enums/clarification.enum";
+import { TaskActivityActionEnum } from "../enums/task-activity.enum";
+import AttachmentModel from "../models/attachment.model";
+import CustomFieldModel from "../models/custom-field.model";
+import LabelModel from "../models/label.model";
+import MemberModel from "../models/member.model";
+import NotificationModel from "../models/notification.model";
+import ProjectModel from "../models/project.model";
+import TaskActivityModel from "../models/task-activity.model";
+import TaskClarificationModel from "../models/task-clarification.model";
+import TaskCommentModel from "../models/task-comment.model";
+import TaskSeriesModel from "../models/task-series.model";
+import TaskModel, { TaskDocument } from "../models/task.model";
+import WorklogModel from "../models/worklog.model";
+import WorkspaceModel from "../models/workspace.model";
+import { BadRequestException, NotFoundException } from "../utils/appError";
+import { recordAuditLogService } from "./audit-log.service";
+import { validateWorkspaceMemberIdsService } from "./member.service";
+import { recordTaskActivityService } from "./task-activity.service";
+import {
+  assertProjectNotArchived,
+  createTaskService,
+  syncParentTaskProgress,
+} from "./task.service";
+import { getWorkspaceWorkflowService } from "./workflow.service";
+
+// Keyed by the current assignee's user id; null unassigns them.
+type AssigneeMap = Record<string, string | null>;
+
+const findTaskInWorkspace = async (workspaceId: string, taskId: string) => {
+  const task = await TaskModel.findOne({ _id: taskId, workspace: workspaceId });
+
+  if (!task) {
+    throw new NotFoundException(
+      "Task not found or does not belong to this workspace"
+    );
+  }
+
+  return task;
+};
+
+/**
+ * Builds the lookups that carry workspace-scoped references over to another
+ * workspace. Labels are matched by name, statuses missing from the target
+ * workflow fall back to its default, and people who are not members of the
+ * target are swapped through `assigneeMap` or dropped.
+ */
+const getWorkspaceRemap = async (
+  targetWorkspaceId: string,
+  tasks: TaskDocument[],
+  assigneeMap: AssigneeMap
+) => {
+  await validateWorkspaceMemberIdsService(
+    targetWorkspaceId,
+    Object.values(assigneeMap).filter((id): id is string => Boolean(id)),
+    "Tasks can only be reassigned to members of the target workspace"
+  );
+
+  const memberIds = new Set(
+    (
+      await MemberModel.find({ workspaceId: targetWorkspaceId }).select(
+        "userId"
+      )
+    ).map((member) => member.userId.toString())
+  );
+
+  const [sourceLabels, targetLabels] = await Promise.all([
+    LabelModel.find({ _id: { $in: tasks.flatMap((task) => task.labels) } }),
+    LabelModel.find({ workspace: targetWorkspaceId }),
+  ]);
+  const targetLabelByName = new Map(
+    targetLabels.map((label) => [
+      label.name.toLowerCase(),
+      label._id as mongoose.Types.ObjectId,
+    ])
+  );
+  const labelMap = new Map(
+    sourceLabels.map((label) => [
+      String(label._id),
+      targetLabelByName.get(label.name.toLowerCase()),
+    ])
+  );
+
+  const { workflow } = await getWorkspaceWorkflowService(targetWorkspaceId);
+
+  const mapUser = (userId: mongoose.Types.ObjectId | null) => {
+    if (!userId) return null;
+    const id = userId.toString();
+    if (id in assigneeMap) return assigneeMap[id];
+    return memberIds.has(id) ? id : null;
+  };
+
+  return {
+    status: (status: string) =>
+      workflow.statuses.some((option) => option.key === status)
+        ? status
+        : workflow.defaultStatus,
+    labels: (labelIds: mongoose.Types.ObjectId[]) =>
+      labelIds
+        .map((id) => labelMap.get(id.toString()))
+        .filter((id): id is mongoose.Types.ObjectId => Boolean(id)),
+    assignees: (userIds: mongoose.Types.ObjectId[]) =>
+      Array.from(
+        new Set(
+          userIds.map(mapUser).filter((id): id is string => Boolean(id))
+        )
+      ),
+    watchers: (userIds: mongoose.Types.ObjectId[]) =>
+      userIds.filter((id) => memberIds.has(id.toString())),
+    user: mapUser,
+  };
+};
+
+// Lets the caller check permissions in the workspace a task is moving to.
+export const getProjectWorkspaceIdService = async (projectId: string) => {
+  const project = await ProjectModel.findById(projectId).select("workspace");
+
+  if (!project) {
+    throw new NotFoundException("Target project not found");
+  }
+
+  return { workspaceId: project.workspace.toString() };
+};
+
+/**
+ * Moves a task and its subtasks into another project, which may belong to a
+ * different workspace the user is a member of. Sprints are per project, so
+ * moved tasks always land in the backlog.
+ */
+export const moveTaskService = async (
+  workspaceId: string,
+  taskId: string,
+  userId: string,
+  body: { projectId: string; assigneeMap?: AssigneeMap }
+) => {
+  const task = await findTaskInWorkspace(workspaceId, taskId);
+
+  if (task.parentTask) {
+    throw new BadRequestException(
+      "Subtasks move together with their parent task"
+    );
+  }
+
+  const [sourceProject, targetProject] = await Promise.all([
+    ProjectModel.findById(task.project),
+    ProjectModel.findById(body.projectId),
+  ]);
+
+  if (!targetProject) {
+    throw new NotFoundException("Target project not found");
+  }
+
+  if (String(targetProject._id) === task.project.toString()) {
+    throw new BadRequestException("Task is already in this project");
+  }
+
+  await assertProjectNotArchived(task.project);
+  await assertProjectNotArchived(targetProject._id as mongoose.Types.ObjectId);
+
+  const targetWorkspaceId = targetProject.workspace.toString();
+  const isCrossWorkspace = targetWorkspaceId !== workspaceId.toString();
+
+  const subtasks = await TaskModel.find({ parentTask: task._id });
+  const movedTasks = [task, ...subtasks];
+  const movedIds = movedTasks.map((moved) => moved._id);
+  const movedIdSet = new Set(movedIds.map(String));
+
+  const remap = isCrossWorkspace
+    ? await getWorkspaceRemap(
+        targetWorkspaceId,
+        movedTasks,
+        body.assigneeMap ?? {}
+      )
+    : null;
+
+  // Fields scoped to the old project do not apply in the new one.
+  const droppedFieldIds = isCrossWorkspace
+    ? null
+    : new Set(
+        (
+          await CustomFieldModel.find({
+            workspace: workspaceId,
+            project: task.project,
+          }).select("_id")
+        ).map((field) => String(field._id))
+      );
+
+  const [sourceWorkspace, targetWorkspace] = isCrossWorkspace
+    ? await Promise.all([
+        WorkspaceModel.findById(workspaceId).select("name"),
+        WorkspaceModel.findById(targetWorkspaceId).select("name"),
+      ])
+    : [null, null];
+
+  const changes = [
+    {
+      field: "project",
+      oldValue: sourceProject?.name ?? null,
+      newValue: targetProject.name,
+    },
+    ...(isCrossWorkspace
+      ? [
+          {
+            field: "workspace",
+            oldValue: sourceWorkspace?.name ?? null,
+            newValue: targetWorkspace?.name ?? null,
+          },
+        ]
+      : []),
+  ];
+
+  const previousTaskCode = task.taskCode;
+
+  for (const moved of movedTasks) {
+    const previousCode = moved.taskCode;
+    moved.project = targetProject._id as mongoose.Types.ObjectId;
+    moved.sprint = null;
+
+    if (remap) {
+      moved.workspace = targetProject.workspace;
+      moved.status = remap.status(moved.status);
+      moved.labels = remap.labels(moved.labels);
+      moved.set("assignees", remap.assignees(moved.assignees));
+      moved.watchers = remap.watchers(moved.watchers);
+      // Dependencies only survive between tasks that move together.
+      moved.blockedBy = moved.blockedBy.filter((id) =>
+        movedIdSet.has(id.toString())
+      );
+      moved.series = null;
+      moved.checklist.forEach((item) => {
+        item.set("assignee", remap.user(item.assignee));
+      });
+      moved.customFields = new Map();
+    } else {
+      droppedFieldIds?.forEach((fieldId) => moved.customFields.delete(fieldId));
+    }
+
+    // Saving renumbers the task from the target project's counter.
+    await moved.save();
+
+    await recordTaskActivityService(
+      moved,
+      userId,
+      TaskActivityActionEnum.UPDATED,
+      [
+        ...changes,
+        { field: "taskCode", oldValue: previousCode, newValue: moved.taskCode },
+      ]
+    );
+  }
+
+  if (isCrossWorkspace) {
+    const related = { task: { $in: movedIds } };
+    const relocation = {
+      project: targetProject._id,
+      workspace: targetProject.workspace,
+    };
+
+    await Promise.all([
+      WorklogModel.updateMany(related, relocation),
+      TaskCommentModel.updateMany(related, relocation),
+      AttachmentModel.updateMany(related, relocation),
+      TaskActivityModel.updateMany(related, relocation),
+      TaskClarificationModel.updateMany(related, {
+        workspace: targetProject.workspace,
+      }),
+      // Recipients may not be members of the target workspace.
+      NotificationModel.deleteMany(related),
+      TaskModel.updateMany(
+        { workspace: workspaceId, blockedBy: { $in: movedIds } },
+        { $pull: { blockedBy: { $in: movedIds } } }
+      ),
+    ]);
+
+    if (subtasks.length) {
+      await syncParentTaskProgress(targetWorkspaceId, String(task._id));
+    }
+  } else {
+    const related = { task: { $in: movedIds } };
+    const relocation = { project: targetProject._id };
+
+    await Promise.all([
+      WorklogModel.updateMany(related, relocation),
+      TaskCommentModel.updateMany(related, relocation),
+      AttachmentModel.updateMany(related, relocation),
+      TaskActivityModel.updateMany(related, relocation),
+    ]);
+
+    // Later occurrences of a repeating task follow it into the new project.
+    if (task.series) {
+      await TaskSeriesModel.updateOne(
+        { _id: task.series },
+        { project: targetProject._id }
+      );
+    }
+  }
+
+  const metadata = {
+    taskCode: previousTaskCode,
+    newTaskCode: task.taskCode,
+    title: task.title,
+    fromProject: sourceProject?.name ?? null,
+    toProject: targetProject.name,
+    fromWorkspace: sourceWorkspace?.name ?? null,
+    toWorkspace: targetWorkspace?.name ?? null,
+    movedSubtaskCount: subtasks.length,
+  };
+
+  await recordAuditLogService(
+    workspaceId,
+    userId,
+    AuditActionEnum.TASK_MOVED,
+    { targetId: taskId, metadata }
+  );
+
+  if (isCrossWorkspace) {
+    await recordAuditLogService(
+      targetWorkspaceId,
+      userId,
+      AuditActionEnum.TASK_MOVED,
+      { targetId: taskId, metadata }
+    );
+  }
+
+  return { task };
+};
+
+const copyTask = async (
+  source: TaskDocument,
+  userId: string,
+  options: {
+    title: string;
+    description: boolean;
+    clarifications: boolean;
+    parentTask: string | null;
+  }
+) => {
+  // Assignees who have since left the workspace are dropped from the copy.
+  const memberIds = new Set(
+    (
+      await MemberModel.find({
+        workspaceId: source.workspace,
+        userId: { $in: source.assignees },
+      }).select("userId")
+    ).map((member) => member.userId.toString())
+  );
+
+  const { task } = await createTaskService(
+    source.workspace.toString(),
+    source.project.toString(),
+    userId,
+    {
+      title: options.title,
+      description: options.description
+        ? source.description ?? undefined
+        : undefined,
+      priority: source.priority,
+      assignees: source.assignees
+        .map(String)
+        .filter((id) => memberIds.has(id)),
+      startDate: source.startDate?.toISOString() ?? null,
+      dueDate: source.dueDate?.toISOString(),
+      estimateMinutes: source.estimateMinutes,
+      parentTask: options.parentTask,
+      labels: source.labels.map(String),
+      checklist: source.checklist.map((item) => item.title),
+    }
+  );
+
+  // Stored values are already validated, so they are copied over directly.
+  if (source.customFields.size) {
+    task.customFields = new Map(source.customFields);
+    await task.save();
+  }
+
+  if (options.clarifications) {
+    const clarifications = await TaskClarificationModel.find({
+      task: source._id,
+      status: { $ne: ClarificationStatusEnum.WITHDRAWN },
+    }).lean();
+
+    // Copies start over as open questions, so they add nothing to the
+    // response-time stats.
+    if (clarifications.length) {
+      await TaskClarificationModel.insertMany(
+        clarifications.map(
+          ({ _id, createdAt, updatedAt, ...clarification }) => ({
+            ...clarification,
+            task: task._id,
+            status: ClarificationStatusEnum.OPEN,
+            firstRespondedAt: null,
+            acceptedResponse: null,
+            resolvedAt: null,
+            resolvedBy: null,
+            reopenedAt: null,
+          })
+        )
+      );
+    }
+  }
+
+  return task;
+};
+
+/**
+ * Creates a copy of a task in the same project. The checklist is copied
+ * unchecked; description, clarifications and subtasks are copied on request.
+ */
+export const duplicateTaskService = async (
+  workspaceId: string,
+  taskId: string,
+  userId: string,
+  body: {
+    title?: string;
+    description: boolean;
+    clarifications: boolean;
+    subtasks: boolean;
+  }
+) => {
+  const source = await findTaskInWorkspace(workspaceId, taskId);
+
+  const task = await copyTask(source, userId, {
+    title: body.title || `${source.title} (copy)`,
+    description: body.description,
+    clarifications: body.clarifications,
+    parentTask: source.parentTask?.toString() ?? null,
+  });
+
+  const subtasks = [];
+
+  if (body.subtasks && !source.parentTask) {
+    const sourceSubtasks = await TaskModel.find({
+      parentTask: source._id,
+    }).sort({ createdAt: 1 });
+
+    for (const subtask of sourceSubtasks) {
+      subtasks.push(
+        await copyTask(subtask, userId, {
+          title: subtask.title,
+          description: body.description,
+          clarifications: body.clarifications,
+          parentTask: String(task._id),
+        })
+      );
+    }
+  }
+
+  return { task, subtasks };
+};
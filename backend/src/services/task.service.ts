@@ -1,14 +1,53 @@
-import { TaskPriorityEnum, TaskStatusEnum } from "../enums/task.enum";
+import mongoose from "mongoose";
+import {
+  TaskPriorityEnum,
+  TaskStatusCategoryEnum,
+} from "../enums/task.enum";
 import { Roles, RoleType } from "../enums/role.enum";
-import MemberModel from "../models/member.model";
 import ProjectModel from "../models/project.model";
 import TaskModel from "../models/task.model";
+import WorkspaceModel from "../models/workspace.model";
 import TaskClarificationModel from "../models/task-clarification.model";
+import NotificationModel from "../models/notification.model";
+import { SprintDocument } from "../models/sprint.model";
 import {
   BadRequestException,
   NotFoundException,
   UnauthorizedException,
 } from "../utils/appError";
+import { ErrorCodeEnum } from "../enums/error-code.enum";
+import { TaskActivityActionEnum } from "../enums/task-activity.enum";
+import { AuditActionEnum } from "../enums/audit-log.enum";
+import {
+  ClarificationResponsePolicyEnum,
+  ClarificationStatusEnum,
+} from "../enums/clarification.enum";
+import {
+  createTaskSeriesService,
+  spawnNextOccurrenceService,
+} from "./task-series.service";
+import {
+  getWorkflowStatusKeysService,
+  getWorkspaceWorkflowService,
+  validateTaskStatusService,
+} from "./workflow.service";
+import { getStatusKeysByCategory } from "../utils/workflow";
+import { toDateRangeQuery } from "../utils/date-range";
+import {
+  buildCustomFieldFilterQuery,
+  resolveCustomFieldValuesService,
+} from "./custom-field.service";
+import { validateLabelIdsService } from "./label.service";
+import { validateWorkspaceMemberIdsService } from "./member.service";
+import {
+  recordSprintScopeChange,
+  resolveTaskSprintService,
+} from "./sprint.service";
+import {
+  getTaskFieldChanges,
+  recordTaskActivityService,
+} from "./task-activity.service";
+import { recordAuditLogService } from "./audit-log.service";
 
 const verifyTaskBelongsToWorkspace = async (
   workspaceId: string,
@@ -28,6 +67,95 @@ const verifyTaskBelongsToWorkspace = async (
   return task;
 };
 
+/**
+ * Archived projects are read-only: their tasks cannot be created, edited,
+ * moved or deleted until the project is unarchived.
+ */
+export const assertProjectNotArchived = async (
+  projectId: string | mongoose.Types.ObjectId
+) => {
+  const isArchived = await ProjectModel.exists({
+    _id: projectId,
+    archivedAt: { $ne: null },
+  });
+
+  if (isArchived) {
+    throw new BadRequestException(
+      "This project is archived. Unarchive it to make changes.",
+      ErrorCodeEnum.PROJECT_ARCHIVED
+    );
+  }
+};
+
+export const syncParentTaskProgress = async (
+  workspaceId: string,
+  parentTaskId: string
+) => {
+  const doneStatuses = await getWorkflowStatusKeysService(
+    workspaceId,
+    TaskStatusCategoryEnum.DONE
+  );
+
+  const [total, completed] = await Promise.all([
+    TaskModel.countDocuments({ parentTask: parentTaskId }),
+    TaskModel.countDocuments({
+      parentTask: parentTaskId,
+      status: { $in: doneStatuses },
+    }),
+  ]);
+
+  await TaskModel.findByIdAndUpdate(parentTaskId, {
+    subtaskProgress: { total, completed },
+  });
+};
+
+const getOpenBlockers = async (
+  blockerIds: unknown[],
+  doneStatuses: string[]
+) => {
+  if (!blockerIds.length) return [];
+
+  return TaskModel.find({
+    _id: { $in: blockerIds },
+    status: { $nin: doneStatuses },
+  }).select("_id taskCode title status");
+};
+
+const assertStartNotAfterDue = (
+  startDate?: string | Date | null,
+  dueDate?: string | Date | null
+) => {
+  if (startDate && dueDate && new Date(startDate) > new Date(dueDate)) {
+    throw new BadRequestException("Start date cannot be after the due date");
+  }
+};
+
+// Walks the "blocked by" graph starting at `fromTaskId` and reports whether
+// `targetTaskId` is reachable, i.e. whether linking would close a loop.
+const isTaskReachableThroughBlockers = async (
+  fromTaskId: string,
+  targetTaskId: string
+) => {
+  const visited = new Set<string>();
+  let frontier = [fromTaskId];
+
+  while (frontier.length) {
+    if (frontier.includes(targetTaskId)) return true;
+
+    frontier.forEach((id) => visited.add(id));
+
+    const tasks = await TaskModel.find({ _id: { $in: frontier } }).select(
+      "blockedBy"
+    );
+
+    frontier = tasks
+      .flatMap((task) => task.blockedBy.map((id) => id.toString()))
+      .filter((id) => !visited.has(id));
+  }
+
+  return false;
+};
+
 export const createTaskService = async (
   workspaceId: string,
   projectId: string,
@@ -36,12 +164,41 @@ export const createTaskService = async (
     title: string;
     description?: string;
     priority: string;
-    status: string;
-    assignedTo?: string | null;
+    status?: string;
+    assignees?: string[];
+    startDate?: string | null;
     dueDate?: string;
+    estimateMinutes?: number | null;
+    parentTask?: string | null;
+    recurrence?: {
+      frequency: string;
+      interval?: number;
+      weekdays?: number[];
+      dayOfMonth?: number | null;
+      endsAt?: string | null;
+    };
+    customFields?: Record<string, unknown>;
+    labels?: string[];
+    sprint?: string | null;
+    checklist?: string[];
   }
 ) => {
-  const { title, description, priority, status, assignedTo, dueDate } = body;
+  const {
+    title,
+    description,
+    priority,
+    status,
+    assignees,
+    startDate,
+    dueDate,
+    estimateMinutes,
+    parentTask,
+    recurrence,
+    customFields,
+    labels,
+    sprint: sprintId,
+    checklist = [],
+  } = body;
 
   const project = await ProjectModel.findById(projectId);
 
@@ -50,40 +207,170 @@ export const createTaskService = async (
       "Project not found or does not belong to this workspace"
     );
   }
-  if (assignedTo) {
-    const isAssignedUserMember = await MemberModel.exists({
-      userId: assignedTo,
-      workspaceId,
+
+  await assertProjectNotArchived(projectId);
+  const assigneeIds = await validateWorkspaceMemberIdsService(
+    workspaceId,
+    assignees || [],
+    "One or more assignees are not members of this workspace"
+  );
+
+  if (parentTask) {
+    const parent = await TaskModel.findOne({
+      _id: parentTask,
+      workspace: workspaceId,
+      project: projectId,
     });
 
-    if (!isAssignedUserMember) {
-      throw new Error("Assigned user is not a member of this workspace.");
+    if (!parent) {
+      throw new NotFoundException(
+        "Parent task not found or does not belong to this project"
+      );
+    }
+
+    if (parent.parentTask) {
+      throw new BadRequestException("Subtasks cannot have their own subtasks");
     }
   }
+
+  if (recurrence && parentTask) {
+    throw new BadRequestException("Subtasks cannot repeat on a schedule");
+  }
+
+  assertStartNotAfterDue(startDate, dueDate);
+
+  const { workflow } = await getWorkspaceWorkflowService(workspaceId);
+  const initialStatus = status || workflow.defaultStatus;
+  validateTaskStatusService(workflow, initialStatus);
+
+  const customFieldValues = await resolveCustomFieldValuesService(
+    workspaceId,
+    projectId,
+    customFields || {}
+  );
+
+  const labelIds = await validateLabelIdsService(workspaceId, labels || []);
+  const sprint = await resolveTaskSprintService(
+    workspaceId,
+    projectId,
+    sprintId
+  );
+
+  const series = recurrence
+    ? (
+        await createTaskSeriesService(workspaceId, projectId, userId, {
+          title,
+          description,
+          priority: priority || TaskPriorityEnum.MEDIUM,
+          assignees: assigneeIds,
+          recurrence,
+        })
+      ).series
+    : null;
+
   const task = new TaskModel({
     title,
     description,
     priority: priority || TaskPriorityEnum.MEDIUM,
-    status: status || TaskStatusEnum.TODO,
-    assignedTo,
+    status: initialStatus,
+    assignees: assigneeIds,
     createdBy: userId,
     workspace: workspaceId,
     project: projectId,
+    startDate: startDate || null,
     dueDate,
+    estimateMinutes: estimateMinutes ?? null,
+    parentTask: parentTask || null,
+    series: series?._id || null,
+    sprint: sprint?._id || null,
+    labels: labelIds,
+    checklist: checklist.map((title) => ({ title })),
+    checklistProgress: { total: checklist.length, completed: 0 },
+    customFields: Object.fromEntries(
+      Object.entries(customFieldValues).filter(([, value]) => value !== null)
+    ),
   });
 
   await task.save();
 
+  await recordTaskActivityService(
+    task,
+    userId,
+    TaskActivityActionEnum.CREATED
+  );
+
+  await recordSprintScopeChange(
+    sprint,
+    task._id as mongoose.Types.ObjectId
+  );
+
+  if (task.parentTask) {
+    await syncParentTaskProgress(workspaceId, task.parentTask.toString());
+  }
+
   return { task };
 };
 
+export const createSubtaskService = async (
+  workspaceId: string,
+  parentTaskId: string,
+  userId: string,
+  body: {
+    title: string;
+    description?: string;
+    priority?: string;
+    status?: string;
+    assignees?: string[];
+    dueDate?: string;
+  }
+) => {
+  const parent = await verifyTaskBelongsToWorkspace(workspaceId, parentTaskId);
+
+  const { task } = await createTaskService(
+    workspaceId,
+    parent.project.toString(),
+    userId,
+    {
+      ...body,
+      priority: body.priority || parent.priority,
+      parentTask: parentTaskId,
+    }
+  );
+
+  return { task };
+};
+
+export const getSubtasksService = async (
+  workspaceId: string,
+  parentTaskId: string
+) => {
+  const parent = await verifyTaskBelongsToWorkspace(workspaceId, parentTaskId);
+
+  const subtasks = await TaskModel.find({
+    workspace: workspaceId,
+    parentTask: parentTaskId,
+  })
+    .sort({ createdAt: 1 })
+    .populate("assignees", "_id name profilePicture -password")
+    .populate("labels", "_id name color");
+
+  return { subtasks, progress: parent.subtaskProgress };
+};
+
 type UpdateTaskPayload = {
   title?: string;
   description?: string;
   priority?: string;
   status?: string;
-  assignedTo?: string | null;
+  assignees?: string[];
+  startDate?: string | null;
   dueDate?: string;
+  estimateMinutes?: number | null;
+  overrideBlockers?: boolean;
+  customFields?: Record<string, unknown>;
+  labels?: string[];
+  sprint?: string | null;
+  rank?: number;
 };
 
 export const updateTaskService = async (
@@ -102,6 +389,8 @@ export const updateTaskService = async (
     );
   }
 
+  await assertProjectNotArchived(projectId);
+
   const task = await TaskModel.findById(taskId);
 
   if (!task || task.project.toString() !== projectId.toString()) {
@@ -113,8 +402,9 @@ export const updateTaskService = async (
   const isOwnerOrAdmin =
     userRole === Roles.OWNER || userRole === Roles.ADMIN;
 
-  const isTaskAssignedToUser =
-    task.assignedTo && task.assignedTo.toString() === userId.toString();
+  const isTaskAssignedToUser = task.assignees.some(
+    (assignee) => assignee.toString() === userId.toString()
+  );
 
   if (!isOwnerOrAdmin && !isTaskAssignedToUser) {
     throw new UnauthorizedException(
@@ -122,28 +412,74 @@ export const updateTaskService = async (
     );
   }
 
-  const providedEntries = Object.entries(body).filter(
+  const { overrideBlockers, ...fields } = body;
+
+  const providedEntries = Object.entries(fields).filter(
     ([, value]) => value !== undefined
   );
 
   if (!isOwnerOrAdmin) {
+    if (overrideBlockers) {
+      throw new UnauthorizedException(
+        "Only admins can override blocking dependencies"
+      );
+    }
+
+    // Moving a card on the board changes its status and rank together.
     const invalidFields = providedEntries
       .map(([key]) => key)
-      .filter((key) => key !== "status");
+      .filter((key) => key !== "status" && key !== "rank");
 
     if (invalidFields.length > 0) {
       throw new UnauthorizedException(
-        "Members can only update the task status"
+        "Members can only update the task status and board position"
       );
     }
   }
 
   const updatePayload: Record<string, unknown> = {};
+  let newSprint: SprintDocument | null = null;
+
+  const { workflow } = await getWorkspaceWorkflowService(workspaceId);
+  const doneStatuses = getStatusKeysByCategory(
+    workflow,
+    TaskStatusCategoryEnum.DONE
+  );
 
   if (body.status !== undefined) {
+    validateTaskStatusService(workflow, body.status, task.status);
+
+    // Starting or finishing work requires every blocker to be done.
+    const blockableStatuses = getStatusKeysByCategory(
+      workflow,
+      TaskStatusCategoryEnum.ACTIVE,
+      TaskStatusCategoryEnum.DONE
+    );
+
+    if (
+      body.status !== task.status &&
+      blockableStatuses.includes(body.status) &&
+      !(isOwnerOrAdmin && overrideBlockers)
+    ) {
+      const openBlockers = await getOpenBlockers(task.blockedBy, doneStatuses);
+
+      if (openBlockers.length > 0) {
+        throw new BadRequestException(
+          `Task is blocked by ${openBlockers
+            .map((blocker) => blocker.taskCode)
+            .join(", ")}`,
+          ErrorCodeEnum.TASK_BLOCKED_BY_DEPENDENCY
+        );
+      }
+    }
+
     updatePayload.status = body.status;
   }
 
+  if (body.rank !== undefined) {
+    updatePayload.rank = body.rank;
+  }
+
   if (isOwnerOrAdmin) {
     if (body.title !== undefined) {
       updatePayload.title = body.title;
@@ -154,48 +490,110 @@ export const updateTaskService = async (
     if (body.priority !== undefined) {
       updatePayload.priority = body.priority;
     }
+    if (body.startDate !== undefined || body.dueDate !== undefined) {
+      const startDate =
+        body.startDate !== undefined ? body.startDate : task.startDate;
+      const dueDate = body.dueDate !== undefined ? body.dueDate : task.dueDate;
+      assertStartNotAfterDue(startDate, dueDate);
+    }
+    if (body.startDate !== undefined) {
+      updatePayload.startDate = body.startDate;
+    }
     if (body.dueDate !== undefined) {
       updatePayload.dueDate = body.dueDate;
     }
+    if (body.estimateMinutes !== undefined) {
+      updatePayload.estimateMinutes = body.estimateMinutes;
+    }
+    if (body.labels !== undefined) {
+      updatePayload.labels = await validateLabelIdsService(
+        workspaceId,
+        body.labels
+      );
+    }
 
-    if (Object.prototype.hasOwnProperty.call(body, "assignedTo")) {
-      const sanitizedAssignee =
-        body.assignedTo === undefined || body.assignedTo === ""
-          ? undefined
-          : body.assignedTo;
-
-      if (sanitizedAssignee) {
-        const isAssignedUserMember = await MemberModel.exists({
-          userId: sanitizedAssignee,
-          workspaceId,
-        });
-
-        if (!isAssignedUserMember) {
-          throw new BadRequestException(
-            "Assigned user is not a member of this workspace"
-          );
-        }
-        updatePayload.assignedTo = sanitizedAssignee;
-      } else if (body.assignedTo === null) {
-        updatePayload.assignedTo = null;
-      } else if (body.assignedTo === "") {
-        updatePayload.assignedTo = null;
-      }
+    if (
+      body.sprint !== undefined &&
+      String(body.sprint || "") !== String(task.sprint || "")
+    ) {
+      newSprint = await resolveTaskSprintService(
+        workspaceId,
+        projectId,
+        body.sprint
+      );
+      updatePayload.sprint = newSprint?._id || null;
+    }
+
+    if (body.assignees !== undefined) {
+      updatePayload.assignees = await validateWorkspaceMemberIdsService(
+        workspaceId,
+        body.assignees,
+        "One or more assignees are not members of this workspace"
+      );
     }
   }
 
-  if (!Object.keys(updatePayload).length) {
+  const unsetPayload: Record<string, ""> = {};
+
+  if (isOwnerOrAdmin && body.customFields) {
+    const customFieldValues = await resolveCustomFieldValuesService(
+      workspaceId,
+      projectId,
+      body.customFields
+    );
+
+    Object.entries(customFieldValues).forEach(([fieldId, value]) => {
+      if (value === null) {
+        unsetPayload[`customFields.${fieldId}`] = "";
+      } else {
+        updatePayload[`customFields.${fieldId}`] = value;
+      }
+    });
+  }
+
+  if (!Object.keys(updatePayload).length && !Object.keys(unsetPayload).length) {
     throw new BadRequestException("No updates were provided");
   }
 
-  const updatedTask = await TaskModel.findByIdAndUpdate(taskId, updatePayload, {
-    new: true,
-  });
+  const changes = getTaskFieldChanges(
+    task,
+    updatePayload,
+    Object.keys(unsetPayload)
+  );
+
+  const updatedTask = await TaskModel.findByIdAndUpdate(
+    taskId,
+    {
+      $set: updatePayload,
+      ...(Object.keys(unsetPayload).length && { $unset: unsetPayload }),
+    },
+    { new: true }
+  );
 
   if (!updatedTask) {
     throw new BadRequestException("Failed to update task");
   }
 
+  await recordTaskActivityService(
+    updatedTask,
+    userId,
+    TaskActivityActionEnum.UPDATED,
+    changes
+  );
+
+  await recordSprintScopeChange(newSprint, taskId);
+
+  if (updatedTask.parentTask && updatePayload.status !== undefined) {
+    await syncParentTaskProgress(
+      workspaceId,
+      updatedTask.parentTask.toString()
+    );
+  }
+
+  if (doneStatuses.includes(updatedTask.status)) {
+    await spawnNextOccurrenceService(updatedTask);
+  }
+
   return { updatedTask };
 };
 
@@ -206,8 +604,20 @@ export const getAllTasksService = async (
     status?: string[];
     priority?: string[];
     assignedTo?: string[];
+    watcherId?: string;
+    labels?: string[];
+    labelsMatch?: "any" | "all";
     keyword?: string;
-    dueDate?: string;
+    dueFrom?: string;
+    dueTo?: string;
+    level?: string;
+    parentTaskId?: string;
+    isBlocked?: boolean;
+    hasOpenClarifications?: boolean;
+    sprint?: string;
+    customFields?: Record<string, string>;
+    sortBy?: string;
+    sortOrder?: "asc" | "desc";
   },
   pagination: {
     pageSize: number;
@@ -230,20 +640,80 @@ export const getAllTasksService = async (
     query.priority = { $in: filters.priority };
   }
 
+  // Matches tasks where any of the given users is among the assignees.
   if (filters.assignedTo && filters.assignedTo?.length > 0) {
-    query.assignedTo = { $in: filters.assignedTo };
+    query.assignees = { $in: filters.assignedTo };
+  }
+
+  if (filters.watcherId) {
+    query.watchers = filters.watcherId;
+  }
+
+  if (filters.sprint) {
+    query.sprint = filters.sprint === "backlog" ? null : filters.sprint;
+  }
+
+  if (filters.labels && filters.labels.length > 0) {
+    query.labels =
+      filters.labelsMatch === "all"
+        ? { $all: filters.labels }
+        : { $in: filters.labels };
   }
 
   if (filters.keyword && filters.keyword !== undefined) {
     query.title = { $regex: filters.keyword, $options: "i" };
   }
 
-  if (filters.dueDate) {
-    query.dueDate = {
-      $eq: new Date(filters.dueDate),
-    };
+  if (filters.dueFrom || filters.dueTo) {
+    query.dueDate = toDateRangeQuery(filters.dueFrom, filters.dueTo);
+  }
+
+  if (filters.parentTaskId) {
+    query.parentTask = filters.parentTaskId;
+  } else if (filters.level === "top") {
+    query.parentTask = null;
+  } else if (filters.level === "child") {
+    query.parentTask = { $ne: null };
+  }
+
+  if (filters.isBlocked !== undefined) {
+    const doneStatuses = await getWorkflowStatusKeysService(
+      workspaceId,
+      TaskStatusCategoryEnum.DONE
+    );
+    const openTaskIds = await TaskModel.distinct("_id", {
+      workspace: workspaceId,
+      status: { $nin: doneStatuses },
+    });
+
+    query.blockedBy = filters.isBlocked
+      ? { $in: openTaskIds }
+      : { $nin: openTaskIds };
+  }
+
+  if (filters.hasOpenClarifications !== undefined) {
+    const clarifiedTaskIds = await TaskClarificationModel.distinct("task", {
+      workspace: workspaceId,
+      status: { $in: OPEN_CLARIFICATION_STATUSES },
+    });
+
+    query._id = filters.hasOpenClarifications
+      ? { $in: clarifiedTaskIds }
+      : { $nin: clarifiedTaskIds };
   }
 
+  if (filters.customFields) {
+    Object.assign(
+      query,
+      await buildCustomFieldFilterQuery(workspaceId, filters.customFields)
+    );
+  }
+
+  const sortField = filters.sortBy?.startsWith("cf.")
+    ? `customFields.${filters.sortBy.slice(3)}`
+    : filters.sortBy || "createdAt";
+  const sortDirection = (filters.sortOrder ?? "desc") === "asc" ? 1 : -1;
+
   //Pagination Setup
   const { pageSize, pageNumber } = pagination;
   const skip = (pageNumber - 1) * pageSize;
@@ -252,16 +722,27 @@ export const getAllTasksService = async (
     TaskModel.find(query)
       .skip(skip)
       .limit(pageSize)
-      .sort({ createdAt: -1 })
-      .populate("assignedTo", "_id name profilePicture -password")
-      .populate("project", "_id emoji name"),
+      .sort({ [sortField]: sortDirection, _id: sortDirection })
+      .populate("assignees", "_id name profilePicture -password")
+      .populate("project", "_id emoji name")
+      .populate("labels", "_id name color")
+      .populate("blockedBy", "_id taskCode title status")
+      .populate("series", "_id recurrence isActive"),
     TaskModel.countDocuments(query),
   ]);
 
+  const openClarificationCounts = await getOpenClarificationCountsService(
+    tasks.map((task) => task._id as mongoose.Types.ObjectId)
+  );
+
   const totalPages = Math.ceil(totalCount / pageSize);
 
   return {
-    tasks,
+    tasks: tasks.map((task) => ({
+      ...task.toObject(),
+      openClarificationCount:
+        openClarificationCounts.get(String(task._id)) ?? 0,
+    })),
     pagination: {
       pageSize,
       pageNumber,
@@ -289,7 +770,9 @@ export const getTaskByIdService = async (
     _id: taskId,
     workspace: workspaceId,
     project: projectId,
-  }).populate("assignedTo", "_id name profilePicture -password");
+  })
+    .populate("assignees", "_id name profilePicture -password")
+    .populate("labels", "_id name color");
 
   if (!task) {
     throw new NotFoundException("Task not found.");
@@ -298,6 +781,305 @@ export const getTaskByIdService = async (
   return task;
 };
 
+/**
+ * Finds a task by its code, e.g. WEB-123, as used in shareable links. Codes
+ * are matched as typed or upper-cased, so web-123 works too.
+ */
+export const getTaskByCodeService = async (
+  workspaceId: string,
+  taskCode: string
+) => {
+  const task = await TaskModel.findOne({
+    workspace: workspaceId,
+    taskCode: { $in: [taskCode, taskCode.toUpperCase()] },
+  })
+    .populate("assignees", "_id name profilePicture -password")
+    .populate("project", "_id emoji name")
+    .populate("labels", "_id name color")
+    .populate("blockedBy", "_id taskCode title status")
+    .populate("series", "_id recurrence isActive");
+
+  if (!task) {
+    throw new NotFoundException(
+      `Task ${taskCode} not found in this workspace`
+    );
+  }
+
+  const openClarificationCounts = await getOpenClarificationCountsService([
+    task._id as mongoose.Types.ObjectId,
+  ]);
+
+  return {
+    task: {
+      ...task.toObject(),
+      openClarificationCount:
+        openClarificationCounts.get(String(task._id)) ?? 0,
+    },
+  };
+};
+
+export const watchTaskService = async (
+  workspaceId: string,
+  taskId: string,
+  userId: string
+) => {
+  await verifyTaskBelongsToWorkspace(workspaceId, taskId);
+
+  const task = await TaskModel.findByIdAndUpdate(
+    taskId,
+    { $addToSet: { watchers: userId } },
+    { new: true }
+  ).select("_id watchers");
+
+  return { watchers: task?.watchers ?? [] };
+};
+
+export const unwatchTaskService = async (
+  workspaceId: string,
+  taskId: string,
+  userId: string
+) => {
+  await verifyTaskBelongsToWorkspace(workspaceId, taskId);
+
+  const task = await TaskModel.findByIdAndUpdate(
+    taskId,
+    { $pull: { watchers: userId } },
+    { new: true }
+  ).select("_id watchers");
+
+  return { watchers: task?.watchers ?? [] };
+};
+
+export const getTaskDependenciesService = async (
+  workspaceId: string,
+  taskId: string
+) => {
+  const task = await verifyTaskBelongsToWorkspace(workspaceId, taskId);
+
+  const [blockers, dependents] = await Promise.all([
+    TaskModel.find({ _id: { $in: task.blockedBy } }).select(
+      "_id taskCode title status project"
+    ),
+    TaskModel.find({ blockedBy: task._id }).select(
+      "_id taskCode title status project"
+    ),
+  ]);
+
+  return { blockers, dependents };
+};
+
+export const addTaskDependencyService = async (
+  workspaceId: string,
+  taskId: string,
+  blockerId: string,
+  userId: string,
+  userRole: RoleType
+) => {
+  if (userRole !== Roles.OWNER && userRole !== Roles.ADMIN) {
+    throw new UnauthorizedException(
+      "Only admins can manage task dependencies"
+    );
+  }
+
+  if (taskId === blockerId) {
+    throw new BadRequestException("A task cannot block itself");
+  }
+
+  const task = await verifyTaskBelongsToWorkspace(workspaceId, taskId);
+  await assertProjectNotArchived(task.project);
+  await verifyTaskBelongsToWorkspace(workspaceId, blockerId);
+
+  if (task.blockedBy.some((id) => id.toString() === blockerId)) {
+    throw new BadRequestException("This dependency already exists");
+  }
+
+  const createsCycle = await isTaskReachableThroughBlockers(blockerId, taskId);
+
+  if (createsCycle) {
+    throw new BadRequestException(
+      "This dependency would create a cycle",
+      ErrorCodeEnum.TASK_DEPENDENCY_CYCLE
+    );
+  }
+
+  const changes = getTaskFieldChanges(task, {
+    blockedBy: [...task.blockedBy, blockerId],
+  });
+
+  task.blockedBy.push(new mongoose.Types.ObjectId(blockerId));
+  await task.save();
+
+  await recordTaskActivityService(
+    task,
+    userId,
+    TaskActivityActionEnum.UPDATED,
+    changes
+  );
+
+  return getTaskDependenciesService(workspaceId, taskId);
+};
+
+export const removeTaskDependencyService = async (
+  workspaceId: string,
+  taskId: string,
+  blockerId: string,
+  userId: string,
+  userRole: RoleType
+) => {
+  if (userRole !== Roles.OWNER && userRole !== Roles.ADMIN) {
+    throw new UnauthorizedException(
+      "Only admins can manage task dependencies"
+    );
+  }
+
+  const task = await verifyTaskBelongsToWorkspace(workspaceId, taskId);
+  await assertProjectNotArchived(task.project);
+  const blockedBy = task.blockedBy.filter((id) => id.toString() !== blockerId);
+  const changes = getTaskFieldChanges(task, { blockedBy });
+
+  task.blockedBy = blockedBy;
+  await task.save();
+
+  await recordTaskActivityService(
+    task,
+    userId,
+    TaskActivityActionEnum.UPDATED,
+    changes
+  );
+
+  return getTaskDependenciesService(workspaceId, taskId);
+};
+
+const clarificationPopulate = [
+  { path: "askedBy", select: "_id name profilePicture" },
+  { path: "resolvedBy", select: "_id name profilePicture" },
+  { path: "responses.respondedBy", select: "_id name profilePicture" },
+];
+
+// Withdrawn and resolved questions no longer count as open.
+const OPEN_CLARIFICATION_STATUSES = [
+  ClarificationStatusEnum.OPEN,
+  ClarificationStatusEnum.ANSWERED,
+];
+
+const findTaskClarification = async (
+  workspaceId: string,
+  taskId: string,
+  clarificationId: string
+) => {
+  const task = await verifyTaskBelongsToWorkspace(workspaceId, taskId);
+  await assertProjectNotArchived(task.project);
+
+  const clarification = await TaskClarificationModel.findOne({
+    _id: clarificationId,
+    workspace: workspaceId,
+    task: taskId,
+  });
+
+  if (!clarification) {
+    throw new NotFoundException("Clarification not found for this task");
+  }
+
+  return { task, clarification };
+};
+
+// Only the person who asked, or an owner/admin, decides when a question is
+// settled.
+const assertCanSettleClarification = (
+  askedBy: mongoose.Types.ObjectId,
+  userId: string,
+  userRole: RoleType
+) => {
+  const isOwnerOrAdmin =
+    userRole === Roles.OWNER || userRole === Roles.ADMIN;
+
+  if (!isOwnerOrAdmin && askedBy.toString() !== userId.toString()) {
+    throw new UnauthorizedException(
+      "Only the person who asked or an admin can change this clarification",
+      ErrorCodeEnum.ACCESS_UNAUTHORIZED
+    );
+  }
+};
+
+// Unresolved clarifications (open or answered) per task.
+export const getOpenClarificationCountsService = async (
+  taskIds: mongoose.Types.ObjectId[]
+) => {
+  const counts = await TaskClarificationModel.aggregate<{
+    _id: mongoose.Types.ObjectId;
+    count: number;
+  }>([
+    {
+      $match: {
+        task: { $in: taskIds },
+        status: { $in: OPEN_CLARIFICATION_STATUSES },
+      },
+    },
+    { $group: { _id: "$task", count: { $sum: 1 } } },
+  ]);
+
+  return new Map(counts.map(({ _id, count }) => [_id.toString(), count]));
+};
+
+// Time to first response is measured from when the question was asked, so
+// reopened questions keep their original figure.
+export const getClarificationStatsService = async (workspaceId: string) => {
+  const workspace = new mongoose.Types.ObjectId(workspaceId);
+
+  const [responseTimes, statusCounts] = await Promise.all([
+    TaskClarificationModel.aggregate<{ minutes: number }>([
+      { $match: { workspace, firstRespondedAt: { $ne: null } } },
+      {
+        $project: {
+          _id: 0,
+          minutes: {
+            $divide: [
+              { $subtract: ["$firstRespondedAt", "$createdAt"] },
+              60000,
+            ],
+          },
+        },
+      },
+      { $sort: { minutes: 1 } },
+    ]),
+    TaskClarificationModel.aggregate<{ _id: string; count: number }>([
+      { $match: { workspace } },
+      { $group: { _id: "$status", count: { $sum: 1 } } },
+    ]),
+  ]);
+
+  const countOf = (status: string) =>
+    statusCounts.find((entry) => entry._id === status)?.count ?? 0;
+
+  const minutes = responseTimes.map((entry) => entry.minutes);
+  const middle = Math.floor(minutes.length / 2);
+  const medianResponseMinutes = !minutes.length
+    ? null
+    : minutes.length % 2
+      ? minutes[middle]
+      : (minutes[middle - 1] + minutes[middle]) / 2;
+  const averageResponseMinutes = minutes.length
+    ? minutes.reduce((sum, value) => sum + value, 0) / minutes.length
+    : null;
+
+  return {
+    clarificationStats: {
+      openCount: countOf(ClarificationStatusEnum.OPEN),
+      answeredCount: countOf(ClarificationStatusEnum.ANSWERED),
+      resolvedCount: countOf(ClarificationStatusEnum.RESOLVED),
+      respondedCount: minutes.length,
+      averageResponseMinutes:
+        averageResponseMinutes === null
+          ? null
+          : Math.round(averageResponseMinutes),
+      medianResponseMinutes:
+        medianResponseMinutes === null
+          ? null
+          : Math.round(medianResponseMinutes),
+    },
+  };
+};
+
 export const getTaskClarificationsService = async (
   workspaceId: string,
   taskId: string
@@ -309,8 +1091,7 @@ export const getTaskClarificationsService = async (
     task: taskId,
   })
     .sort({ createdAt: -1 })
-    .populate("askedBy", "_id name profilePicture")
-    .populate("responses.respondedBy", "_id name profilePicture");
+    .populate(clarificationPopulate);
 
   return { clarifications };
 };
@@ -321,7 +1102,8 @@ export const createTaskClarificationService = async (
   userId: string,
   question: string
 ) => {
-  await verifyTaskBelongsToWorkspace(workspaceId, taskId);
+  const task = await verifyTaskBelongsToWorkspace(workspaceId, taskId);
+  await assertProjectNotArchived(task.project);
 
   const clarification = await TaskClarificationModel.create({
     workspace: workspaceId,
@@ -340,42 +1122,241 @@ export const respondToTaskClarificationService = async (
   taskId: string,
   clarificationId: string,
   userId: string,
+  userRole: RoleType,
   message: string
 ) => {
-  await verifyTaskBelongsToWorkspace(workspaceId, taskId);
+  const { task, clarification } = await findTaskClarification(
+    workspaceId,
+    taskId,
+    clarificationId
+  );
 
-  const clarification = await TaskClarificationModel.findOneAndUpdate(
-    {
-      _id: clarificationId,
-      workspace: workspaceId,
-      task: taskId,
-    },
-    {
-      $push: {
-        responses: {
-          message,
-          respondedBy: userId,
-          createdAt: new Date(),
-        },
-      },
-    },
-    { new: true }
-  )
-    .populate("askedBy", "_id name profilePicture")
-    .populate("responses.respondedBy", "_id name profilePicture");
+  const workspace = await WorkspaceModel.findById(workspaceId).select(
+    "clarificationResponsePolicy"
+  );
+  const policy =
+    workspace?.clarificationResponsePolicy ??
+    ClarificationResponsePolicyEnum.ADMINS;
+  const isOwnerOrAdmin =
+    userRole === Roles.OWNER || userRole === Roles.ADMIN;
+  const isAssignee = task.assignees.some(
+    (assignee) => assignee.toString() === userId.toString()
+  );
+  const canRespond =
+    isOwnerOrAdmin ||
+    policy === ClarificationResponsePolicyEnum.ANY_MEMBER ||
+    (policy === ClarificationResponsePolicyEnum.ADMINS_AND_ASSIGNEES &&
+      isAssignee);
 
-  if (!clarification) {
-    throw new NotFoundException("Clarification not found for this task");
+  if (!canRespond) {
+    throw new UnauthorizedException(
+      "You are not allowed to answer clarifications on this task",
+      ErrorCodeEnum.ACCESS_UNAUTHORIZED
+    );
+  }
+
+  if (clarification.status === ClarificationStatusEnum.WITHDRAWN) {
+    throw new BadRequestException("This clarification was withdrawn");
+  }
+
+  if (clarification.status === ClarificationStatusEnum.RESOLVED) {
+    throw new BadRequestException(
+      "This clarification is resolved. Reopen it before responding"
+    );
+  }
+
+  const respondedAt = new Date();
+  clarification.responses.push({
+    message,
+    respondedBy: new mongoose.Types.ObjectId(userId),
+    createdAt: respondedAt,
+  } as (typeof clarification.responses)[number]);
+  clarification.status = ClarificationStatusEnum.ANSWERED;
+  clarification.firstRespondedAt ??= respondedAt;
+  await clarification.save();
+
+  await clarification.populate(clarificationPopulate);
+
+  return { clarification };
+};
+
+export const resolveTaskClarificationService = async (
+  workspaceId: string,
+  taskId: string,
+  clarificationId: string,
+  userId: string,
+  userRole: RoleType,
+  acceptedResponseId?: string
+) => {
+  const { clarification } = await findTaskClarification(
+    workspaceId,
+    taskId,
+    clarificationId
+  );
+
+  assertCanSettleClarification(clarification.askedBy, userId, userRole);
+
+  if (clarification.status === ClarificationStatusEnum.RESOLVED) {
+    throw new BadRequestException("Clarification is already resolved");
+  }
+
+  if (clarification.status === ClarificationStatusEnum.WITHDRAWN) {
+    throw new BadRequestException("This clarification was withdrawn");
+  }
+
+  if (
+    acceptedResponseId &&
+    !clarification.responses.some(
+      (response) => response._id.toString() === acceptedResponseId
+    )
+  ) {
+    throw new BadRequestException(
+      "The accepted answer must be a response to this clarification"
+    );
+  }
+
+  clarification.status = ClarificationStatusEnum.RESOLVED;
+  clarification.acceptedResponse = acceptedResponseId
+    ? new mongoose.Types.ObjectId(acceptedResponseId)
+    : null;
+  clarification.resolvedAt = new Date();
+  clarification.resolvedBy = new mongoose.Types.ObjectId(userId);
+  await clarification.save();
+
+  await clarification.populate(clarificationPopulate);
+
+  return { clarification };
+};
+
+export const reopenTaskClarificationService = async (
+  workspaceId: string,
+  taskId: string,
+  clarificationId: string,
+  userId: string,
+  userRole: RoleType
+) => {
+  const { clarification } = await findTaskClarification(
+    workspaceId,
+    taskId,
+    clarificationId
+  );
+
+  assertCanSettleClarification(clarification.askedBy, userId, userRole);
+
+  if (clarification.status !== ClarificationStatusEnum.RESOLVED) {
+    throw new BadRequestException(
+      "Only resolved clarifications can be reopened"
+    );
+  }
+
+  // A reopened question waits for a fresh response.
+  clarification.status = ClarificationStatusEnum.OPEN;
+  clarification.acceptedResponse = null;
+  clarification.resolvedAt = null;
+  clarification.resolvedBy = null;
+  clarification.reopenedAt = new Date();
+  await clarification.save();
+
+  await clarification.populate(clarificationPopulate);
+
+  return { clarification };
+};
+
+// The asker may reword or withdraw a question until someone responds to it.
+const findUnansweredOwnClarification = async (
+  workspaceId: string,
+  taskId: string,
+  clarificationId: string,
+  userId: string
+) => {
+  const { clarification } = await findTaskClarification(
+    workspaceId,
+    taskId,
+    clarificationId
+  );
+
+  if (clarification.askedBy.toString() !== userId.toString()) {
+    throw new UnauthorizedException(
+      "Only the person who asked can change this question",
+      ErrorCodeEnum.ACCESS_UNAUTHORIZED
+    );
   }
 
+  if (
+    clarification.status !== ClarificationStatusEnum.OPEN ||
+    clarification.responses.length > 0
+  ) {
+    throw new BadRequestException(
+      "Only unanswered questions can be edited or withdrawn"
+    );
+  }
+
+  return clarification;
+};
+
+export const updateTaskClarificationService = async (
+  workspaceId: string,
+  taskId: string,
+  clarificationId: string,
+  userId: string,
+  question: string
+) => {
+  const clarification = await findUnansweredOwnClarification(
+    workspaceId,
+    taskId,
+    clarificationId,
+    userId
+  );
+
+  if (clarification.question !== question) {
+    const editedAt = new Date();
+    clarification.questionHistory.push({
+      question: clarification.question,
+      editedAt,
+    });
+    clarification.question = question;
+    clarification.editedAt = editedAt;
+    await clarification.save();
+  }
+
+  await clarification.populate(clarificationPopulate);
+
   return { clarification };
 };
 
+export const withdrawTaskClarificationService = async (
+  workspaceId: string,
+  taskId: string,
+  clarificationId: string,
+  userId: string
+) => {
+  const clarification = await findUnansweredOwnClarification(
+    workspaceId,
+    taskId,
+    clarificationId,
+    userId
+  );
+
+  // Kept rather than deleted so the question and its edits stay on record.
+  clarification.status = ClarificationStatusEnum.WITHDRAWN;
+  clarification.withdrawnAt = new Date();
+  await clarification.save();
+
+  await clarification.populate(clarificationPopulate);
+
+  return { clarification };
+};
+
+/**
+ * Moves a task and its subtasks to the trash. Related data stays in place
+ * until the trash is purged, so a restore brings the task back whole.
+ */
 export const deleteTaskService = async (
   workspaceId: string,
-  taskId: string
+  taskId: string,
+  userId: string
 ) => {
-  const task = await TaskModel.findOneAndDelete({
+  const task = await TaskModel.findOne({
     _id: taskId,
     workspace: workspaceId,
   });
@@ -386,5 +1367,43 @@ export const deleteTaskService = async (
     );
   }
 
+  await assertProjectNotArchived(task.project);
+
+  const subtasks = await TaskModel.find({ parentTask: task._id });
+  const taskIds = [task._id, ...subtasks.map((subtask) => subtask._id)];
+
+  // Subtasks share the parent's timestamp, which is how a restore finds
+  // the ones that were trashed along with it.
+  await TaskModel.updateMany(
+    { _id: { $in: taskIds }, deletedAt: null },
+    { deletedAt: new Date(), deletedBy: userId }
+  );
+
+  await Promise.all(
+    [task, ...subtasks].map((deleted) =>
+      recordTaskActivityService(deleted, userId, TaskActivityActionEnum.DELETED)
+    )
+  );
+  await NotificationModel.deleteMany({ task: { $in: taskIds } });
+
+  await recordAuditLogService(
+    workspaceId,
+    userId,
+    AuditActionEnum.TASK_DELETED,
+    {
+      targetId: taskId,
+      metadata: {
+        taskCode: task.taskCode,
+        title: task.title,
+        project: task.project.toString(),
+        deletedSubtaskCount: subtasks.length,
+      },
+    }
+  );
+
+  if (task.parentTask) {
+    await syncParentTaskProgress(workspaceId, task.parentTask.toString());
+  }
+
   return;
 };
@@ -0,0 +1,296 @@
+import { Roles, RoleType } from "../enums/role.enum";
+import {
+  TemplateTypeEnum,
+  TemplateTypeEnumType,
+} from "../enums/template.enum";
+import LabelModel from "../models/label.model";
+import MemberModel from "../models/member.model";
+import ProjectModel from "../models/project.model";
+import TaskModel, { TaskDocument } from "../models/task.model";
+import TemplateModel, {
+  TemplateDocument,
+  TemplateTask,
+} from "../models/template.model";
+import { NotFoundException, UnauthorizedException } from "../utils/appError";
+import { validateWorkspaceMemberIdsService } from "./member.service";
+import { createTaskService } from "./task.service";
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+const startOfUTCDay = (date: Date) =>
+  Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+const toDayOffset = (anchor: Date, date: Date | null) =>
+  date
+    ? Math.round((startOfUTCDay(date) - startOfUTCDay(anchor)) / DAY_IN_MS)
+    : null;
+
+const fromDayOffset = (start: Date, offset: number | null) =>
+  offset === null
+    ? null
+    : new Date(startOfUTCDay(start) + offset * DAY_IN_MS).toISOString();
+
+const getMembersWithRoles = (workspaceId: string) =>
+  MemberModel.find({ workspaceId }).populate("role").sort({ joinedAt: 1 });
+
+// Assignees are stored by workspace role so the template stays usable after
+// the people who worked on the original have moved on.
+const toTemplateTask = (
+  task: TaskDocument,
+  anchor: Date,
+  roleByUserId: Map<string, RoleType>
+): TemplateTask => ({
+  title: task.title,
+  description: task.description,
+  priority: task.priority,
+  startOffsetDays: toDayOffset(anchor, task.startDate),
+  dueOffsetDays: toDayOffset(anchor, task.dueDate),
+  estimateMinutes: task.estimateMinutes,
+  checklist: task.checklist.map((item) => item.title),
+  assigneeRoles: Array.from(
+    new Set(
+      task.assignees
+        .map((assignee) => roleByUserId.get(assignee.toString()))
+        .filter((role): role is RoleType => Boolean(role))
+    )
+  ),
+  labels: task.labels,
+});
+
+const getRoleByUserId = async (workspaceId: string) => {
+  const members = await getMembersWithRoles(workspaceId);
+
+  return new Map(
+    members.map((member) => [
+      member.userId.toString(),
+      member.role?.name as RoleType,
+    ])
+  );
+};
+
+/**
+ * Picks the member filling each of the template's roles: the one chosen by the
+ * caller, or else the longest-standing member with that role. Throws when a
+ * chosen member is not in the workspace, so callers can run it before saving
+ * anything.
+ */
+export const resolveTemplateRoleAssigneesService = async (
+  workspaceId: string,
+  template: TemplateDocument,
+  picked: Partial<Record<RoleType, string>> = {}
+) => {
+  const roles = Array.from(
+    new Set(template.tasks.flatMap((task) => task.assigneeRoles))
+  );
+  const pickedIds = Object.values(picked).filter((id): id is string =>
+    Boolean(id)
+  );
+  await validateWorkspaceMemberIdsService(
+    workspaceId,
+    pickedIds,
+    "Template roles can only be filled by workspace members"
+  );
+
+  const members = await getMembersWithRoles(workspaceId);
+  const assigneeByRole = new Map<RoleType, string>();
+
+  roles.forEach((role) => {
+    const userId =
+      picked[role] ||
+      members.find((member) => member.role?.name === role)?.userId.toString();
+    if (userId) assigneeByRole.set(role, userId);
+  });
+
+  return assigneeByRole;
+};
+
+export const getTemplatesService = async (
+  workspaceId: string,
+  type?: string
+) => {
+  const templates = await TemplateModel.find({
+    workspace: workspaceId,
+    ...(type && { type }),
+  })
+    .sort({ name: 1 })
+    .populate("createdBy", "_id name profilePicture -password");
+
+  return { templates };
+};
+
+export const getTemplateByIdService = async (
+  workspaceId: string,
+  templateId: string,
+  type: TemplateTypeEnumType
+) => {
+  const template = await TemplateModel.findOne({
+    _id: templateId,
+    workspace: workspaceId,
+    type,
+  });
+
+  if (!template) {
+    throw new NotFoundException(
+      "Template not found or does not belong to this workspace"
+    );
+  }
+
+  return template;
+};
+
+// Due dates are kept as offsets from the day the project was created.
+export const createProjectTemplateService = async (
+  workspaceId: string,
+  projectId: string,
+  userId: string,
+  body: { name?: string; description?: string }
+) => {
+  const project = await ProjectModel.findOne({
+    _id: projectId,
+    workspace: workspaceId,
+  });
+
+  if (!project) {
+    throw new NotFoundException(
+      "Project not found or does not belong to this workspace"
+    );
+  }
+
+  const tasks = await TaskModel.find({
+    project: projectId,
+    parentTask: null,
+  }).sort({ rank: 1, createdAt: 1 });
+
+  const roleByUserId = await getRoleByUserId(workspaceId);
+
+  const template = await TemplateModel.create({
+    name: body.name || project.name,
+    description: body.description || null,
+    type: TemplateTypeEnum.PROJECT,
+    workspace: workspaceId,
+    projectEmoji: project.emoji,
+    projectDescription: project.description,
+    tasks: tasks.map((task) =>
+      toTemplateTask(task, project.createdAt, roleByUserId)
+    ),
+    createdBy: userId,
+  });
+
+  return { template };
+};
+
+// Due dates are kept as offsets from the day the task was created.
+export const createTaskTemplateService = async (
+  workspaceId: string,
+  taskId: string,
+  userId: string,
+  body: { name?: string; description?: string }
+) => {
+  const task = await TaskModel.findOne({ _id: taskId, workspace: workspaceId });
+
+  if (!task) {
+    throw new NotFoundException(
+      "Task not found or does not belong to this workspace"
+    );
+  }
+
+  const roleByUserId = await getRoleByUserId(workspaceId);
+
+  const template = await TemplateModel.create({
+    name: body.name || task.title,
+    description: body.description || null,
+    type: TemplateTypeEnum.TASK,
+    workspace: workspaceId,
+    tasks: [toTemplateTask(task, task.createdAt, roleByUserId)],
+    createdBy: userId,
+  });
+
+  return { template };
+};
+
+/**
+ * Creates the template's tasks in a freshly created project, dating them
+ * from `startDate` (today by default).
+ */
+export const applyProjectTemplateService = async (
+  workspaceId: string,
+  projectId: string,
+  userId: string,
+  template: TemplateDocument,
+  options: {
+    startDate?: string;
+    assigneeByRole: Map<RoleType, string>;
+  }
+) => {
+  const start = options.startDate ? new Date(options.startDate) : new Date();
+  const { assigneeByRole } = options;
+
+  // Labels deleted since the template was saved are skipped.
+  const existingLabelIds = new Set(
+    (
+      await LabelModel.find({
+        workspace: workspaceId,
+        _id: { $in: template.tasks.flatMap((task) => task.labels) },
+      }).select("_id")
+    ).map((label) => String(label._id))
+  );
+
+  const tasks = [];
+
+  for (const templateTask of template.tasks) {
+    const { task } = await createTaskService(
+      workspaceId,
+      projectId,
+      userId,
+      {
+        title: templateTask.title,
+        description: templateTask.description ?? undefined,
+        priority: templateTask.priority,
+        startDate: fromDayOffset(start, templateTask.startOffsetDays),
+        dueDate:
+          fromDayOffset(start, templateTask.dueOffsetDays) ?? undefined,
+        estimateMinutes: templateTask.estimateMinutes,
+        assignees: templateTask.assigneeRoles
+          .map((role) => assigneeByRole.get(role))
+          .filter((id): id is string => Boolean(id)),
+        labels: templateTask.labels
+          .map(String)
+          .filter((id) => existingLabelIds.has(id)),
+        checklist: templateTask.checklist,
+      }
+    );
+    tasks.push(task);
+  }
+
+  return { tasks };
+};
+
+export const deleteTemplateService = async (
+  workspaceId: string,
+  templateId: string,
+  userId: string,
+  userRole: RoleType
+) => {
+  const template = await TemplateModel.findOne({
+    _id: templateId,
+    workspace: workspaceId,
+  });
+
+  if (!template) {
+    throw new NotFoundException(
+      "Template not found or does not belong to this workspace"
+    );
+  }
+
+  const isOwnerOrAdmin = userRole === Roles.OWNER || userRole === Roles.ADMIN;
+
+  if (!isOwnerOrAdmin && template.createdBy.toString() !== userId.toString()) {
+    throw new UnauthorizedException(
+      "Only the template's creator or an admin can delete it"
+    );
+  }
+
+  await template.deleteOne();
+
+  return { template };
+};
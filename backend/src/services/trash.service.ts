@@ -0,0 +1,286 @@
+import { config } from "../config/app.config";
+import { AuditActionEnum } from "../enums/audit-log.enum";
+import { TaskActivityActionEnum } from "../enums/task-activity.enum";
+import CustomFieldModel from "../models/custom-field.model";
+import MilestoneModel from "../models/milestone.model";
+import NotificationModel from "../models/notification.model";
+import ProjectModel, { ProjectDocument } from "../models/project.model";
+import SprintModel from "../models/sprint.model";
+import TaskActivityModel from "../models/task-activity.model";
+import TaskClarificationModel from "../models/task-clarification.model";
+import TaskCommentModel from "../models/task-comment.model";
+import TaskModel from "../models/task.model";
+import WorklogModel from "../models/worklog.model";
+import { BadRequestException, NotFoundException } from "../utils/appError";
+import { removeAttachmentsService } from "./attachment.service";
+import { recordAuditLogService } from "./audit-log.service";
+import { recordTaskActivityService } from "./task-activity.service";
+import { syncParentTaskProgress } from "./task.service";
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+const getRetentionMs = () => config.TRASH_RETENTION_DAYS * DAY_IN_MS;
+
+const getPurgeAt = (deletedAt: Date | null) =>
+  deletedAt ? new Date(deletedAt.getTime() + getRetentionMs()) : null;
+
+const isSameMoment = (a: Date | null, b: Date | null) =>
+  Boolean(a && b && a.getTime() === b.getTime());
+
+/**
+ * Lists what can be restored. Tasks trashed together with their project or
+ * parent task are restored with it, so only the project or parent is listed.
+ */
+export const getTrashService = async (workspaceId: string) => {
+  const [projects, tasks] = await Promise.all([
+    ProjectModel.find({ workspace: workspaceId, deletedAt: { $ne: null } })
+      .sort({ deletedAt: -1 })
+      .populate("deletedBy", "_id name profilePicture"),
+    TaskModel.find({ workspace: workspaceId, deletedAt: { $ne: null } })
+      .sort({ deletedAt: -1 })
+      .select("_id taskCode title project parentTask deletedAt deletedBy")
+      .populate("deletedBy", "_id name profilePicture"),
+  ]);
+
+  const projectNames = new Map(
+    (
+      await ProjectModel.find({
+        _id: { $in: tasks.map((task) => task.project) },
+      })
+        .select("_id name emoji deletedAt")
+        .setOptions({ withDeleted: true })
+    ).map((project) => [String(project._id), project])
+  );
+  const trashedTaskById = new Map(
+    tasks.map((task) => [String(task._id), task])
+  );
+
+  const standaloneTasks = tasks.filter((task) => {
+    const project = projectNames.get(task.project.toString());
+    const parent = task.parentTask
+      ? trashedTaskById.get(task.parentTask.toString())
+      : undefined;
+
+    return (
+      !isSameMoment(task.deletedAt, project?.deletedAt ?? null) &&
+      !isSameMoment(task.deletedAt, parent?.deletedAt ?? null)
+    );
+  });
+
+  const countTrashedWith = (
+    deletedAt: Date | null,
+    matches: (task: (typeof tasks)[number]) => boolean
+  ) =>
+    tasks.filter(
+      (task) => isSameMoment(task.deletedAt, deletedAt) && matches(task)
+    ).length;
+
+  return {
+    retentionDays: config.TRASH_RETENTION_DAYS,
+    projects: projects.map((project) => ({
+      _id: project._id,
+      name: project.name,
+      emoji: project.emoji,
+      deletedAt: project.deletedAt,
+      deletedBy: project.deletedBy,
+      purgeAt: getPurgeAt(project.deletedAt),
+      taskCount: countTrashedWith(
+        project.deletedAt,
+        (task) => task.project.toString() === String(project._id)
+      ),
+    })),
+    tasks: standaloneTasks.map((task) => {
+      const project = projectNames.get(task.project.toString());
+      return {
+        _id: task._id,
+        taskCode: task.taskCode,
+        title: task.title,
+        project: project
+          ? { _id: project._id, name: project.name, emoji: project.emoji }
+          : null,
+        // Restoring needs the project back first.
+        isProjectDeleted: Boolean(project?.deletedAt),
+        deletedAt: task.deletedAt,
+        deletedBy: task.deletedBy,
+        purgeAt: getPurgeAt(task.deletedAt),
+        subtaskCount: countTrashedWith(
+          task.deletedAt,
+          (subtask) => subtask.parentTask?.toString() === String(task._id)
+        ),
+      };
+    }),
+  };
+};
+
+export const restoreTaskService = async (
+  workspaceId: string,
+  taskId: string,
+  userId: string
+) => {
+  const task = await TaskModel.findOne({
+    _id: taskId,
+    workspace: workspaceId,
+    deletedAt: { $ne: null },
+  });
+
+  if (!task) {
+    throw new NotFoundException("Task not found in this workspace's trash");
+  }
+
+  if (!(await ProjectModel.exists({ _id: task.project }))) {
+    throw new BadRequestException(
+      "Restore the task's project before restoring the task"
+    );
+  }
+
+  if (task.parentTask && !(await TaskModel.exists({ _id: task.parentTask }))) {
+    throw new BadRequestException(
+      "Restore the parent task before restoring its subtask"
+    );
+  }
+
+  const restored = await TaskModel.find({
+    $or: [{ _id: task._id }, { parentTask: task._id }],
+    deletedAt: task.deletedAt,
+  });
+
+  await TaskModel.updateMany(
+    { _id: { $in: restored.map((item) => item._id) } },
+    { deletedAt: null, deletedBy: null }
+  );
+
+  await Promise.all(
+    restored.map((item) =>
+      recordTaskActivityService(item, userId, TaskActivityActionEnum.RESTORED)
+    )
+  );
+
+  await syncParentTaskProgress(
+    workspaceId,
+    String(task.parentTask ?? task._id)
+  );
+
+  await recordAuditLogService(
+    workspaceId,
+    userId,
+    AuditActionEnum.TASK_RESTORED,
+    {
+      targetId: taskId,
+      metadata: {
+        taskCode: task.taskCode,
+        title: task.title,
+        restoredSubtaskCount: restored.length - 1,
+      },
+    }
+  );
+
+  return { task };
+};
+
+export const restoreProjectService = async (
+  workspaceId: string,
+  projectId: string,
+  userId: string
+) => {
+  const project = await ProjectModel.findOne({
+    _id: projectId,
+    workspace: workspaceId,
+    deletedAt: { $ne: null },
+  });
+
+  if (!project) {
+    throw new NotFoundException("Project not found in this workspace's trash");
+  }
+
+  const restored = await TaskModel.find({
+    project: project._id,
+    deletedAt: project.deletedAt,
+  });
+
+  await TaskModel.updateMany(
+    { _id: { $in: restored.map((item) => item._id) } },
+    { deletedAt: null, deletedBy: null }
+  );
+
+  project.deletedAt = null;
+  project.deletedBy = null;
+  await project.save();
+
+  await Promise.all(
+    restored.map((item) =>
+      recordTaskActivityService(item, userId, TaskActivityActionEnum.RESTORED)
+    )
+  );
+
+  await recordAuditLogService(
+    workspaceId,
+    userId,
+    AuditActionEnum.PROJECT_RESTORED,
+    {
+      targetId: projectId,
+      metadata: { name: project.name, restoredTaskCount: restored.length },
+    }
+  );
+
+  return { project };
+};
+
+// Task activity is kept so deletions stay traceable after a purge.
+const purgeTasks = async (taskIds: unknown[]) => {
+  if (!taskIds.length) return;
+
+  const related = { task: { $in: taskIds } };
+
+  await TaskModel.deleteMany({ _id: { $in: taskIds } });
+  await WorklogModel.deleteMany(related);
+  await TaskCommentModel.deleteMany(related);
+  await NotificationModel.deleteMany(related);
+  await TaskClarificationModel.deleteMany(related);
+  await removeAttachmentsService(related);
+
+  await TaskModel.updateMany(
+    { blockedBy: { $in: taskIds } },
+    { $pull: { blockedBy: { $in: taskIds } } }
+  );
+};
+
+const purgeProject = async (project: ProjectDocument) => {
+  const taskIds = await TaskModel.distinct("_id", {
+    project: project._id,
+  }).setOptions({ withDeleted: true });
+
+  await purgeTasks(taskIds);
+
+  await CustomFieldModel.deleteMany({ project: project._id });
+  await WorklogModel.deleteMany({ project: project._id });
+  await SprintModel.deleteMany({ project: project._id });
+  await MilestoneModel.deleteMany({ project: project._id });
+  await TaskActivityModel.deleteMany({ project: project._id });
+  await TaskCommentModel.deleteMany({ project: project._id });
+  await removeAttachmentsService({ project: project._id });
+
+  await project.deleteOne();
+};
+
+/**
+ * Permanently removes projects and tasks that have been in the trash for
+ * longer than TRASH_RETENTION_DAYS. Runs on a timer from index.ts.
+ */
+export const purgeExpiredTrashService = async () => {
+  const cutoff = new Date(Date.now() - getRetentionMs());
+
+  const projects = await ProjectModel.find({ deletedAt: { $lte: cutoff } });
+  for (const project of projects) {
+    await purgeProject(project);
+  }
+
+  const taskIds = await TaskModel.distinct("_id", {
+    deletedAt: { $lte: cutoff },
+  });
+  await purgeTasks(taskIds);
+
+  return {
+    purgedProjectCount: projects.length,
+    purgedTaskCount: taskIds.length,
+  };
+};
@@ -0,0 +1,113 @@
+import { ErrorCodeEnum } from "../enums/error-code.enum";
+import { TaskStatusCategoryEnumType } from "../enums/task.enum";
+import TaskModel from "../models/task.model";
+import WorkspaceModel from "../models/workspace.model";
+import { BadRequestException, NotFoundException } from "../utils/appError";
+import {
+  getDefaultTaskWorkflow,
+  getStatusKeysByCategory,
+  isStatusTransitionAllowed,
+  isWorkflowStatus,
+  TaskWorkflow,
+} from "../utils/workflow";
+
+export const getWorkspaceWorkflowService = async (workspaceId: string) => {
+  const workspace = await WorkspaceModel.findById(workspaceId).select(
+    "workflow"
+  );
+
+  if (!workspace) {
+    throw new NotFoundException("Workspace not found");
+  }
+
+  // Workspaces created before workflows existed fall back to the default.
+  const workflow: TaskWorkflow = workspace.workflow?.statuses?.length
+    ? workspace.workflow
+    : getDefaultTaskWorkflow();
+
+  return { workflow };
+};
+
+export const getWorkflowStatusKeysService = async (
+  workspaceId: string,
+  ...categories: TaskStatusCategoryEnumType[]
+) => {
+  const { workflow } = await getWorkspaceWorkflowService(workspaceId);
+  return getStatusKeysByCategory(workflow, ...categories);
+};
+
+export const validateTaskStatusService = (
+  workflow: TaskWorkflow,
+  status: string,
+  currentStatus?: string
+) => {
+  if (!isWorkflowStatus(workflow, status)) {
+    throw new BadRequestException(
+      `"${status}" is not a status in this workspace's workflow`,
+      ErrorCodeEnum.TASK_INVALID_STATUS
+    );
+  }
+
+  if (
+    currentStatus !== undefined &&
+    !isStatusTransitionAllowed(workflow, currentStatus, status)
+  ) {
+    throw new BadRequestException(
+      `Tasks cannot move from ${currentStatus} to ${status} in this workflow`,
+      ErrorCodeEnum.TASK_STATUS_TRANSITION_NOT_ALLOWED
+    );
+  }
+};
+
+export const updateWorkspaceWorkflowService = async (
+  workspaceId: string,
+  body: {
+    statuses: {
+      key: string;
+      name: string;
+      category: string;
+      color?: string | null;
+    }[];
+    transitions: { from: string; to: string }[];
+    defaultStatus: string;
+  }
+) => {
+  const workspace = await WorkspaceModel.findById(workspaceId);
+
+  if (!workspace) {
+    throw new NotFoundException("Workspace not found");
+  }
+
+  const keys = body.statuses.map((status) => status.key);
+
+  // Refuse to drop a status that tasks are still sitting in. Trashed tasks
+  // count too, since restoring them would bring the status back.
+  const orphanedStatuses = await TaskModel.distinct("status", {
+    workspace: workspaceId,
+    status: { $nin: keys },
+  }).setOptions({ withDeleted: true });
+
+  if (orphanedStatuses.length > 0) {
+    throw new BadRequestException(
+      `Move tasks, including those in the trash, out of ${orphanedStatuses.join(
+        ", "
+      )} before removing these statuses`
+    );
+  }
+
+  workspace.workflow = {
+    statuses: body.statuses.map((status) => ({
+      key: status.key,
+      name: status.name,
+      category: status.category as TaskStatusCategoryEnumType,
+      color: status.color || null,
+    })),
+    transitions: body.transitions.filter(
+      (transition) => transition.from !== transition.to
+    ),
+    defaultStatus: body.defaultStatus,
+  };
+  await workspace.save();
+
+  return { workflow: workspace.workflow };
+};
@@ -0,0 +1,333 @@
+import mongoose from "mongoose";
+import { Roles, RoleType } from "../enums/role.enum";
+import { WorklogSourceEnum } from "../enums/worklog.enum";
+import TaskModel from "../models/task.model";
+import UserModel from "../models/user.model";
+import WorklogModel, { WorklogDocument } from "../models/worklog.model";
+import {
+  BadRequestException,
+  NotFoundException,
+  UnauthorizedException,
+} from "../utils/appError";
+import { toCsv } from "../utils/csv";
+import { toDateRangeQuery } from "../utils/date-range";
+import { assertProjectNotArchived } from "./task.service";
+
+const findTaskOrThrow = async (workspaceId: string, taskId: string) => {
+  const task = await TaskModel.findOne({ _id: taskId, workspace: workspaceId });
+
+  if (!task) {
+    throw new NotFoundException(
+      "Task not found or does not belong to this workspace"
+    );
+  }
+
+  return task;
+};
+
+// Timer entries are rounded to whole minutes, with at least one minute.
+const finishTimer = async (worklog: WorklogDocument, endedAt = new Date()) => {
+  worklog.endedAt = endedAt;
+  worklog.durationMinutes = Math.max(
+    1,
+    Math.round((endedAt.getTime() - worklog.startedAt.getTime()) / 60000)
+  );
+  await worklog.save();
+
+  await TaskModel.findByIdAndUpdate(worklog.task, {
+    $inc: { loggedMinutes: worklog.durationMinutes },
+  });
+
+  return worklog;
+};
+
+const findRunningTimer = (workspaceId: string, userId: string) =>
+  WorklogModel.findOne({
+    workspace: workspaceId,
+    user: userId,
+    endedAt: null,
+  });
+
+export const getActiveTimerService = async (
+  workspaceId: string,
+  userId: string
+) => {
+  const timer = await findRunningTimer(workspaceId, userId).populate(
+    "task",
+    "_id taskCode title project"
+  );
+
+  return { timer };
+};
+
+/**
+ * Starts a timer on the task for the current user. A user has at most one
+ * running timer per workspace, so any other running timer is stopped first.
+ */
+export const startTimerService = async (
+  workspaceId: string,
+  taskId: string,
+  userId: string,
+  note?: string
+) => {
+  const task = await findTaskOrThrow(workspaceId, taskId);
+  await assertProjectNotArchived(task.project);
+
+  const running = await findRunningTimer(workspaceId, userId);
+  if (running) {
+    if (running.task.toString() === taskId.toString()) {
+      throw new BadRequestException("A timer is already running on this task");
+    }
+    await finishTimer(running);
+  }
+
+  const timer = await WorklogModel.create({
+    task: task._id,
+    project: task.project,
+    workspace: workspaceId,
+    user: userId,
+    source: WorklogSourceEnum.TIMER,
+    note: note || null,
+    startedAt: new Date(),
+  });
+
+  return { timer };
+};
+
+// A timer left running when its project was archived can still be stopped.
+export const stopTimerService = async (workspaceId: string, userId: string) => {
+  const running = await findRunningTimer(workspaceId, userId);
+
+  if (!running) {
+    throw new BadRequestException("You have no running timer");
+  }
+
+  const worklog = await finishTimer(running);
+
+  return { worklog };
+};
+
+export const createWorklogService = async (
+  workspaceId: string,
+  taskId: string,
+  userId: string,
+  body: { durationMinutes: number; note?: string; startedAt?: string }
+) => {
+  const task = await findTaskOrThrow(workspaceId, taskId);
+  await assertProjectNotArchived(task.project);
+
+  const startedAt = body.startedAt ? new Date(body.startedAt) : new Date();
+
+  const worklog = await WorklogModel.create({
+    task: task._id,
+    project: task.project,
+    workspace: workspaceId,
+    user: userId,
+    source: WorklogSourceEnum.MANUAL,
+    note: body.note || null,
+    startedAt,
+    endedAt: new Date(startedAt.getTime() + body.durationMinutes * 60000),
+    durationMinutes: body.durationMinutes,
+  });
+
+  await TaskModel.findByIdAndUpdate(task._id, {
+    $inc: { loggedMinutes: body.durationMinutes },
+  });
+
+  return { worklog };
+};
+
+export const getTaskWorklogsService = async (
+  workspaceId: string,
+  taskId: string
+) => {
+  const task = await findTaskOrThrow(workspaceId, taskId);
+
+  const worklogs = await WorklogModel.find({
+    task: task._id,
+    endedAt: { $ne: null },
+  })
+    .sort({ startedAt: -1 })
+    .populate("user", "_id name profilePicture");
+
+  return {
+    worklogs,
+    estimateMinutes: task.estimateMinutes,
+    loggedMinutes: task.loggedMinutes,
+  };
+};
+
+export const deleteWorklogService = async (
+  workspaceId: string,
+  worklogId: string,
+  userId: string,
+  userRole: RoleType
+) => {
+  const worklog = await WorklogModel.findOne({
+    _id: worklogId,
+    workspace: workspaceId,
+  });
+
+  if (!worklog) {
+    throw new NotFoundException("Worklog not found");
+  }
+
+  await assertProjectNotArchived(worklog.project);
+
+  const isOwnerOrAdmin = userRole === Roles.OWNER || userRole === Roles.ADMIN;
+  if (!isOwnerOrAdmin && worklog.user.toString() !== userId.toString()) {
+    throw new UnauthorizedException("You can only delete your own worklogs");
+  }
+
+  await worklog.deleteOne();
+
+  if (worklog.endedAt) {
+    await TaskModel.findByIdAndUpdate(worklog.task, {
+      $inc: { loggedMinutes: -worklog.durationMinutes },
+    });
+  }
+
+  return { worklog };
+};
+
+/**
+ * Estimated vs. logged minutes per member. A task's estimate is split evenly
+ * between its assignees; logged time counts finished worklogs only.
+ */
+export const getTimeByMemberService = async (
+  workspaceId: string,
+  projectId?: string,
+  excludedProjectIds: mongoose.Types.ObjectId[] = []
+) => {
+  const match: Record<string, unknown> = {
+    workspace: new mongoose.Types.ObjectId(workspaceId),
+  };
+  if (projectId) {
+    match.project = new mongoose.Types.ObjectId(projectId);
+  } else if (excludedProjectIds.length) {
+    match.project = { $nin: excludedProjectIds };
+  }
+
+  const [estimates, logged] = await Promise.all([
+    TaskModel.aggregate<{ _id: mongoose.Types.ObjectId; minutes: number }>([
+      {
+        $match: {
+          ...match,
+          estimateMinutes: { $gt: 0 },
+          "assignees.0": { $exists: true },
+        },
+      },
+      {
+        $project: {
+          assignees: 1,
+          share: { $divide: ["$estimateMinutes", { $size: "$assignees" }] },
+        },
+      },
+      { $unwind: "$assignees" },
+      { $group: { _id: "$assignees", minutes: { $sum: "$share" } } },
+    ]),
+    WorklogModel.aggregate<{ _id: mongoose.Types.ObjectId; minutes: number }>([
+      { $match: { ...match, endedAt: { $ne: null } } },
+      { $group: { _id: "$user", minutes: { $sum: "$durationMinutes" } } },
+    ]),
+  ]);
+
+  const byUser = new Map<
+    string,
+    { estimatedMinutes: number; loggedMinutes: number }
+  >();
+  const entryFor = (id: mongoose.Types.ObjectId) => {
+    const key = id.toString();
+    if (!byUser.has(key)) {
+      byUser.set(key, { estimatedMinutes: 0, loggedMinutes: 0 });
+    }
+    return byUser.get(key)!;
+  };
+
+  estimates.forEach((item) => {
+    entryFor(item._id).estimatedMinutes = Math.round(item.minutes);
+  });
+  logged.forEach((item) => {
+    entryFor(item._id).loggedMinutes = item.minutes;
+  });
+
+  const users = await UserModel.find({
+    _id: { $in: Array.from(byUser.keys()) },
+  }).select("_id name profilePicture");
+
+  const timeByMember = users
+    .map((user) => ({
+      userId: user._id,
+      name: user.name,
+      profilePicture: user.profilePicture,
+      ...byUser.get(String(user._id))!,
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return { timeByMember };
+};
+
+/**
+ * Finished worklogs in the range as CSV. Owners and admins export everyone's
+ * time, other members only their own.
+ */
+export const exportWorklogsCsvService = async (
+  workspaceId: string,
+  userId: string,
+  userRole: RoleType,
+  filters: { from?: string; to?: string; projectId?: string }
+) => {
+  const query: Record<string, unknown> = {
+    workspace: workspaceId,
+    endedAt: { $ne: null },
+  };
+
+  if (filters.projectId) query.project = filters.projectId;
+  if (filters.from || filters.to) {
+    query.startedAt = toDateRangeQuery(filters.from, filters.to);
+  }
+  if (userRole !== Roles.OWNER && userRole !== Roles.ADMIN) {
+    query.user = userId;
+  }
+
+  const worklogs = await WorklogModel.find(query)
+    .sort({ startedAt: 1 })
+    .populate<{ user: { name: string; email: string } | null }>(
+      "user",
+      "name email"
+    )
+    .populate<{ task: { taskCode: string; title: string } | null }>(
+      "task",
+      "taskCode title"
+    )
+    .populate<{ project: { name: string } | null }>("project", "name");
+
+  const csv = toCsv(
+    [
+      "Date",
+      "Member",
+      "Email",
+      "Project",
+      "Task",
+      "Title",
+      "Minutes",
+      "Hours",
+      "Source",
+      "Note",
+    ],
+    worklogs.map((worklog) => [
+      worklog.startedAt.toISOString(),
+      worklog.user?.name,
+      worklog.user?.email,
+      worklog.project?.name,
+      worklog.task?.taskCode,
+      worklog.task?.title,
+      worklog.durationMinutes,
+      (worklog.durationMinutes / 60).toFixed(2),
+      worklog.source,
+      worklog.note,
+    ])
+  );
+
+  return { csv };
+};
@@ -1,13 +1,32 @@
 import mongoose from "mongoose";
 import { Roles } from "../enums/role.enum";
+import { AuditActionEnum } from "../enums/audit-log.enum";
 import MemberModel from "../models/member.model";
 import RoleModel from "../models/roles-permission.model";
 import UserModel from "../models/user.model";
 import WorkspaceModel from "../models/workspace.model";
 import { BadRequestException, NotFoundException } from "../utils/appError";
 import TaskModel from "../models/task.model";
-import { TaskStatusEnum } from "../enums/task.enum";
+import { TaskStatusCategoryEnum } from "../enums/task.enum";
 import ProjectModel from "../models/project.model";
+import CustomFieldModel from "../models/custom-field.model";
+import LabelModel from "../models/label.model";
+import WorklogModel from "../models/worklog.model";
+import SprintModel from "../models/sprint.model";
+import MilestoneModel from "../models/milestone.model";
+import TaskActivityModel from "../models/task-activity.model";
+import AuditLogModel from "../models/audit-log.model";
+import TaskCommentModel from "../models/task-comment.model";
+import NotificationModel from "../models/notification.model";
+import TaskClarificationModel from "../models/task-clarification.model";
+import TemplateModel from "../models/template.model";
+import TaskSeriesModel from "../models/task-series.model";
+import { getWorkflowStatusKeysService } from "./workflow.service";
+import { getTimeByMemberService } from "./worklog.service";
+import { getClarificationStatsService } from "./task.service";
+import { ClarificationResponsePolicyEnumType } from "../enums/clarification.enum";
+import { recordAuditLogService } from "./audit-log.service";
+import { removeAttachmentsService } from "./attachment.service";
 
 //********************************
 // CREATE NEW WORKSPACE
@@ -114,22 +133,39 @@ export const getWorkspaceMembersService = async (workspaceId: string) => {
   return { members, roles };
 };
 
-export const getWorkspaceAnalyticsService = async (workspaceId: string) => {
+// Tasks in archived projects are left out unless asked for.
+export const getWorkspaceAnalyticsService = async (
+  workspaceId: string,
+  includeArchived = false
+) => {
   const currentDate = new Date();
-
-  const totalTasks = await TaskModel.countDocuments({
+  const doneStatuses = await getWorkflowStatusKeysService(
+    workspaceId,
+    TaskStatusCategoryEnum.DONE
+  );
+
+  const archivedProjectIds = includeArchived
+    ? []
+    : ((await ProjectModel.distinct("_id", {
+        workspace: workspaceId,
+        archivedAt: { $ne: null },
+      })) as mongoose.Types.ObjectId[]);
+  const taskQuery = {
     workspace: workspaceId,
-  });
+    project: { $nin: archivedProjectIds },
+  };
+
+  const totalTasks = await TaskModel.countDocuments(taskQuery);
 
   const overdueTasks = await TaskModel.countDocuments({
-    workspace: workspaceId,
+    ...taskQuery,
     dueDate: { $lt: currentDate },
-    status: { $ne: TaskStatusEnum.DONE },
+    status: { $nin: doneStatuses },
   });
 
   const completedTasks = await TaskModel.countDocuments({
-    workspace: workspaceId,
-    status: TaskStatusEnum.DONE,
+    ...taskQuery,
+    status: { $in: doneStatuses },
   });
 
   const analytics = {
@@ -138,13 +174,23 @@ export const getWorkspaceAnalyticsService = async (workspaceId: string) => {
     completedTasks,
   };
 
-  return { analytics };
+  const { timeByMember } = await getTimeByMemberService(
+    workspaceId,
+    undefined,
+    archivedProjectIds
+  );
+  const { clarificationStats } = await getClarificationStatsService(
+    workspaceId
+  );
+
+  return { analytics, timeByMember, clarificationStats };
 };
 
 export const changeMemberRoleService = async (
   workspaceId: string,
   memberId: string,
-  roleId: string
+  roleId: string,
+  actorId: string
 ) => {
   const workspace = await WorkspaceModel.findById(workspaceId);
   if (!workspace) {
@@ -165,9 +211,26 @@ export const changeMemberRoleService = async (
     throw new Error("Member not found in the workspace");
   }
 
+  const previousRole = await RoleModel.findById(member.role);
+
   member.role = role;
   await member.save();
 
+  if (previousRole?.name !== role.name) {
+    await recordAuditLogService(
+      workspaceId,
+      actorId,
+      AuditActionEnum.MEMBER_ROLE_CHANGED,
+      {
+        targetId: memberId,
+        metadata: {
+          previousRole: previousRole?.name ?? null,
+          role: role.name,
+        },
+      }
+    );
+  }
+
   return {
     member,
   };
@@ -178,6 +241,7 @@ export const changeMemberRoleService = async (
 //**************** **************/
 export const updateWorkspaceByIdService = async (
   workspaceId: string,
+  actorId: string,
   name: string,
   description?: string
 ) => {
@@ -186,16 +250,76 @@ export const updateWorkspaceByIdService = async (
     throw new NotFoundException("Workspace not found");
   }
 
+  const previous = {
+    name: workspace.name,
+    description: workspace.description ?? null,
+  };
+
   // Update the workspace details
   workspace.name = name || workspace.name;
   workspace.description = description || workspace.description;
   await workspace.save();
 
+  const changes = (["name", "description"] as const)
+    .filter((field) => (workspace[field] ?? null) !== previous[field])
+    .map((field) => ({
+      field,
+      oldValue: previous[field],
+      newValue: workspace[field] ?? null,
+    }));
+
+  if (changes.length) {
+    await recordAuditLogService(
+      workspaceId,
+      actorId,
+      AuditActionEnum.WORKSPACE_UPDATED,
+      { targetId: workspaceId, metadata: { changes } }
+    );
+  }
+
   return {
     workspace,
   };
 };
 
+export const updateClarificationPolicyService = async (
+  workspaceId: string,
+  actorId: string,
+  clarificationResponsePolicy: ClarificationResponsePolicyEnumType
+) => {
+  const workspace = await WorkspaceModel.findById(workspaceId);
+  if (!workspace) {
+    throw new NotFoundException("Workspace not found");
+  }
+
+  const previousPolicy = workspace.clarificationResponsePolicy;
+
+  if (previousPolicy !== clarificationResponsePolicy) {
+    workspace.clarificationResponsePolicy = clarificationResponsePolicy;
+    await workspace.save();
+
+    await recordAuditLogService(
+      workspaceId,
+      actorId,
+      AuditActionEnum.WORKSPACE_UPDATED,
+      {
+        targetId: workspaceId,
+        metadata: {
+          changes: [
+            {
+              field: "clarificationResponsePolicy",
+              oldValue: previousPolicy,
+              newValue: clarificationResponsePolicy,
+            },
+          ],
+        },
+      }
+    );
+  }
+
+  return { workspace };
+};
+
 export const deleteWorkspaceService = async (
   workspaceId: string,
   userId: string
@@ -227,6 +351,40 @@ export const deleteWorkspaceService = async (
       session
     );
     await TaskModel.deleteMany({ workspace: workspace._id }).session(session);
+    await TaskSeriesModel.deleteMany({ workspace: workspace._id }).session(
+      session
+    );
+    await CustomFieldModel.deleteMany({ workspace: workspace._id }).session(
+      session
+    );
+    await LabelModel.deleteMany({ workspace: workspace._id }).session(session);
+    await WorklogModel.deleteMany({ workspace: workspace._id }).session(
+      session
+    );
+    await SprintModel.deleteMany({ workspace: workspace._id }).session(
+      session
+    );
+    await MilestoneModel.deleteMany({ workspace: workspace._id }).session(
+      session
+    );
+    await TaskActivityModel.deleteMany({ workspace: workspace._id }).session(
+      session
+    );
+    await AuditLogModel.deleteMany({ workspace: workspace._id }).session(
+      session
+    );
+    await TaskCommentModel.deleteMany({ workspace: workspace._id }).session(
+      session
+    );
+    await NotificationModel.deleteMany({ workspace: workspace._id }).session(
+      session
+    );
+    await TaskClarificationModel.deleteMany({
+      workspace: workspace._id,
+    }).session(session);
+    await TemplateModel.deleteMany({ workspace: workspace._id }).session(
+      session
+    );
 
     await MemberModel.deleteMany({
       workspaceId: workspace._id,
@@ -251,6 +409,9 @@ export const deleteWorkspaceService = async (
 
     session.endSession();
 
+    // Stored files cannot take part in the transaction, so they go last.
+    await removeAttachmentsService({ workspace: workspaceId });
+
     return {
       currentWorkspace: user.currentWorkspace,
     };
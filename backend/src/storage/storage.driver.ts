@@ -0,0 +1,30 @@
+import { Readable } from "stream";
+import { config } from "../config/app.config";
+import { createLocalStorageDriver } from "./local.driver";
+
+// Where attachment bytes live. Keys are opaque paths generated by the
+// attachment service, never user input.
+export interface StorageDriver {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Readable>;
+  remove(key: string): Promise<void>;
+}
+
+const drivers: Record<string, () => StorageDriver> = {
+  local: () => createLocalStorageDriver(config.ATTACHMENT_LOCAL_DIR),
+};
+
+let storageDriver: StorageDriver | null = null;
+
+export const getStorageDriver = () => {
+  if (!storageDriver) {
+    const createDriver = drivers[config.ATTACHMENT_STORAGE_DRIVER];
+    if (!createDriver) {
+      throw new Error(
+        `Unknown attachment storage driver "${config.ATTACHMENT_STORAGE_DRIVER}"`
+      );
+    }
+    storageDriver = createDriver();
+  }
+  return storageDriver;
+};
@@ -0,0 +1,27 @@
+// Uploads are typed by extension rather than the client's Content-Type so
+// the stored MIME type is always one we chose.
+export const ALLOWED_ATTACHMENT_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  pdf: "application/pdf",
+  txt: "text/plain",
+  log: "text/plain",
+  md: "text/markdown",
+  csv: "text/csv",
+  json: "application/json",
+  zip: "application/zip",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export const getAttachmentMimeType = (fileName: string) => {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return fileName.includes(".")
+    ? ALLOWED_ATTACHMENT_TYPES[extension] ?? null
+    : null;
+};
@@ -0,0 +1,14 @@
+/**
+ * Builds a `$gte`/`$lt` range from optional bounds. A bare `YYYY-MM-DD` upper
+ * bound includes that whole day.
+ */
+export const toDateRangeQuery = (from?: string, to?: string) => {
+  const range: Record<string, Date> = {};
+  if (from) range.$gte = new Date(from);
+  if (to) {
+    const end = new Date(to);
+    if (/^\d{4}-\d{2}-\d{2}$/.test(to)) end.setUTCDate(end.getUTCDate() + 1);
+    range.$lt = end;
+  }
+  return range;
+};
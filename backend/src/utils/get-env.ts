@@ -8,3 +8,18 @@ export const getEnv = (key: string, defaultValue: string = ""): string => {
   }
   return value;
 };
+
+export const getPositiveNumberEnv = (
+  key: string,
+  defaultValue: number
+): number => {
+  const raw = process.env[key];
+  if (raw === undefined || raw.trim() === "") {
+    return defaultValue;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`Enviroment variable ${key} must be a positive number`);
+  }
+  return value;
+};
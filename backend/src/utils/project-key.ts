@@ -0,0 +1,35 @@
+export const PROJECT_KEY_PATTERN = /^[A-Z][A-Z0-9]{1,9}$/;
+
+const FALLBACK_PROJECT_KEY = "PRJ";
+
+/**
+ * Suggests a key from a project name: the initials of a multi-word name
+ * ("Website Redesign" → "WR") or the start of a single word
+ * ("Marketing" → "MAR").
+ */
+export const deriveProjectKey = (name: string) => {
+  const words = name
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, " ")
+    .split(" ")
+    .filter((word) => /^[A-Z]/.test(word));
+
+  const key =
+    words.length > 1
+      ? words
+          .map((word) => word[0])
+          .join("")
+          .slice(0, 4)
+      : (words[0] ?? "").slice(0, 3);
+
+  return PROJECT_KEY_PATTERN.test(key) ? key : FALLBACK_PROJECT_KEY;
+};
+
+// Appends a number until the key is free, e.g. WEB, WEB2, WEB3.
+export const makeUniqueProjectKey = (base: string, taken: Set<string>) => {
+  let key = base;
+  for (let suffix = 2; taken.has(key); suffix++) {
+    key = `${base.slice(0, 10 - String(suffix).length)}${suffix}`;
+  }
+  return key;
+};
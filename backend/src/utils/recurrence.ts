@@ -0,0 +1,87 @@
+import { RecurrenceFrequencyEnum } from "../enums/task.enum";
+import { RecurrenceRule } from "../models/task-series.model";
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getTime() + days * DAY_IN_MS);
+
+const startOfUTCWeek = (date: Date) => {
+  const start = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+  return addDays(start, -start.getUTCDay());
+};
+
+const daysInUTCMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const getNextWeeklyDate = (rule: RecurrenceRule, from: Date) => {
+  const weekdays = rule.weekdays.length ? rule.weekdays : [from.getUTCDay()];
+  const interval = rule.interval || 1;
+  const baseWeek = startOfUTCWeek(from).getTime();
+
+  // Look ahead at most `interval` full weeks plus the remainder of this one.
+  for (let offset = 1; offset <= 7 * (interval + 1); offset++) {
+    const candidate = addDays(from, offset);
+    const weeksApart = Math.round(
+      (startOfUTCWeek(candidate).getTime() - baseWeek) / (7 * DAY_IN_MS)
+    );
+
+    if (
+      weeksApart % interval === 0 &&
+      weekdays.includes(candidate.getUTCDay())
+    ) {
+      return candidate;
+    }
+  }
+
+  return addDays(from, 7 * interval);
+};
+
+const getNextMonthlyDate = (rule: RecurrenceRule, from: Date) => {
+  const interval = rule.interval || 1;
+  const dayOfMonth = rule.dayOfMonth || from.getUTCDate();
+
+  const targetMonth = from.getUTCMonth() + interval;
+  const year = from.getUTCFullYear() + Math.floor(targetMonth / 12);
+  const month = targetMonth % 12;
+
+  const next = new Date(from);
+  next.setUTCFullYear(year, month, 1);
+  next.setUTCDate(Math.min(dayOfMonth, daysInUTCMonth(year, month)));
+  return next;
+};
+
+/**
+ * Returns the date of the occurrence that follows `from` according to `rule`,
+ * or null once the series has passed its end date.
+ */
+export const getNextOccurrenceDate = (
+  rule: RecurrenceRule,
+  from: Date
+): Date | null => {
+  let next: Date;
+
+  switch (rule.frequency) {
+    case RecurrenceFrequencyEnum.DAILY:
+      next = addDays(from, 1);
+      break;
+    case RecurrenceFrequencyEnum.WEEKLY:
+      next = getNextWeeklyDate(rule, from);
+      break;
+    case RecurrenceFrequencyEnum.MONTHLY:
+      next = getNextMonthlyDate(rule, from);
+      break;
+    case RecurrenceFrequencyEnum.EVERY_N_DAYS:
+    default:
+      next = addDays(from, rule.interval || 1);
+      break;
+  }
+
+  if (rule.endsAt && next.getTime() > new Date(rule.endsAt).getTime()) {
+    return null;
+  }
+
+  return next;
+};
@@ -0,0 +1,23 @@
+import { Schema } from "mongoose";
+
+/**
+ * Hides trashed documents (those with `deletedAt` set) from reads. Queries
+ * that filter on `deletedAt` themselves, or pass the `withDeleted` option,
+ * see everything. Bulk updates and deletes are left alone so purges and
+ * workspace cleanup still reach the trash.
+ */
+export const softDeletePlugin = (schema: Schema) => {
+  schema.pre(
+    ["find", "findOne", "countDocuments", "distinct", "findOneAndUpdate"],
+    function () {
+      if (this.getOptions().withDeleted || "deletedAt" in this.getFilter()) {
+        return;
+      }
+      this.where({ deletedAt: null });
+    }
+  );
+
+  schema.pre("aggregate", function () {
+    this.pipeline().unshift({ $match: { deletedAt: null } });
+  });
+};
@@ -5,5 +5,9 @@ export function generateInviteCode() {
 }
 
 export function generateTaskCode() {
-  return `task-${uuidv4().replace(/-/g, "").substring(0, 3)}`;
+  return `task-${uuidv4().replace(/-/g, "").substring(0, 8)}`;
+}
+
+export function generateStorageKey(...segments: string[]) {
+  return [...segments, uuidv4()].join("/");
 }
@@ -0,0 +1,86 @@
+import {
+  TaskStatusCategoryEnum,
+  TaskStatusCategoryEnumType,
+  TaskStatusEnum,
+} from "../enums/task.enum";
+
+export type WorkflowStatus = {
+  key: string;
+  name: string;
+  category: TaskStatusCategoryEnumType;
+  color: string | null;
+};
+
+export type WorkflowTransition = {
+  from: string;
+  to: string;
+};
+
+export type TaskWorkflow = {
+  statuses: WorkflowStatus[];
+  transitions: WorkflowTransition[];
+  defaultStatus: string;
+};
+
+export const getDefaultTaskWorkflow = (): TaskWorkflow => ({
+  statuses: [
+    {
+      key: TaskStatusEnum.BACKLOG,
+      name: "Backlog",
+      category: TaskStatusCategoryEnum.NOT_STARTED,
+      color: null,
+    },
+    {
+      key: TaskStatusEnum.TODO,
+      name: "Todo",
+      category: TaskStatusCategoryEnum.NOT_STARTED,
+      color: null,
+    },
+    {
+      key: TaskStatusEnum.IN_PROGRESS,
+      name: "In Progress",
+      category: TaskStatusCategoryEnum.ACTIVE,
+      color: null,
+    },
+    {
+      key: TaskStatusEnum.IN_REVIEW,
+      name: "In Review",
+      category: TaskStatusCategoryEnum.ACTIVE,
+      color: null,
+    },
+    {
+      key: TaskStatusEnum.DONE,
+      name: "Done",
+      category: TaskStatusCategoryEnum.DONE,
+      color: null,
+    },
+  ],
+  transitions: [],
+  defaultStatus: TaskStatusEnum.TODO,
+});
+
+export const getStatusKeysByCategory = (
+  workflow: TaskWorkflow,
+  ...categories: TaskStatusCategoryEnumType[]
+) =>
+  workflow.statuses
+    .filter((status) => categories.includes(status.category))
+    .map((status) => status.key);
+
+export const isWorkflowStatus = (workflow: TaskWorkflow, key: string) =>
+  workflow.statuses.some((status) => status.key === key);
+
+/**
+ * A workflow without transitions lets tasks move between any two statuses;
+ * once transitions are defined only the listed moves are allowed.
+ */
+export const isStatusTransitionAllowed = (
+  workflow: TaskWorkflow,
+  from: string,
+  to: string
+) =>
+  from === to ||
+  !workflow.transitions.length ||
+  workflow.transitions.some(
+    (transition) => transition.from === from && transition.to === to
+  );
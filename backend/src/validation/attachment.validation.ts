@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+export const attachmentIdSchema = z.string().trim().min(1);
+
+export const uploadAttachmentQuerySchema = z
+  .object({
+    fileName: z
+      .string()
+      .trim()
+      .min(1, { message: "File name is required" })
+      .max(255, { message: "File name should not exceed 255 characters" })
+      .refine((name) => !/[\\/\x00-\x1f]/.test(name), {
+        message: "File name contains invalid characters",
+      }),
+    clarificationId: z.string().trim().min(1).optional(),
+    responseId: z.string().trim().min(1).optional(),
+  })
+  .refine((query) => !query.clarificationId === !query.responseId, {
+    message: "clarificationId and responseId must be provided together",
+    path: ["responseId"],
+  });
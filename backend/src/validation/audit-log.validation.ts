@@ -0,0 +1,26 @@
+import { z } from "zod";
+import {
+  AuditActionEnum,
+  AuditActionEnumType,
+} from "../enums/audit-log.enum";
+
+const auditDateSchema = z
+  .string()
+  .trim()
+  .refine((val) => !isNaN(Date.parse(val)), {
+    message: "Invalid date format",
+  });
+
+export const auditLogFilterSchema = z.object({
+  action: z
+    .enum(
+      Object.values(AuditActionEnum) as [
+        AuditActionEnumType,
+        ...AuditActionEnumType[]
+      ]
+    )
+    .optional(),
+  actorId: z.string().trim().min(1).optional(),
+  from: auditDateSchema.optional(),
+  to: auditDateSchema.optional(),
+});
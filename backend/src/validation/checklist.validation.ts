@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+export const checklistItemIdSchema = z.string().trim().min(1);
+
+export const checklistTitleSchema = z
+  .string()
+  .trim()
+  .min(1, { message: "Checklist item cannot be empty" })
+  .max(500, { message: "Checklist item should not exceed 500 characters" });
+
+export const createChecklistItemSchema = z.object({
+  title: checklistTitleSchema,
+  assignee: z.string().trim().min(1).nullable().optional(),
+});
+
+export const updateChecklistItemSchema = z
+  .object({
+    title: checklistTitleSchema,
+    completed: z.boolean(),
+    assignee: z.string().trim().min(1).nullable(),
+  })
+  .partial();
+
+export const reorderChecklistSchema = z.object({
+  itemIds: z.array(checklistItemIdSchema).min(1).max(200),
+});
@@ -0,0 +1,18 @@
+import { z } from "zod";
+
+export const commentIdSchema = z.string().trim().min(1);
+
+const commentBodySchema = z
+  .string()
+  .trim()
+  .min(1, { message: "Comment cannot be empty" })
+  .max(5000, { message: "Comment should not exceed 5000 characters" });
+
+export const createCommentSchema = z.object({
+  body: commentBodySchema,
+  parentCommentId: commentIdSchema.optional(),
+});
+
+export const updateCommentSchema = z.object({
+  body: commentBodySchema,
+});
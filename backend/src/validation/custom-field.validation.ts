@@ -0,0 +1,85 @@
+import { z } from "zod";
+import {
+  CustomFieldTypeEnum,
+  CustomFieldTypeEnumType,
+} from "../enums/custom-field.enum";
+
+export const customFieldIdSchema = z.string().trim().min(1);
+
+export const customFieldTypeSchema = z.enum(
+  Object.values(CustomFieldTypeEnum) as [string, ...string[]]
+);
+
+const optionsSchema = z
+  .array(z.string().trim().min(1).max(100))
+  .max(50)
+  .refine((options) => new Set(options).size === options.length, {
+    message: "Options must be unique",
+  });
+
+const SELECT_TYPES: string[] = [
+  CustomFieldTypeEnum.SINGLE_SELECT,
+  CustomFieldTypeEnum.MULTI_SELECT,
+];
+
+export const createCustomFieldSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    type: customFieldTypeSchema,
+    options: optionsSchema.optional(),
+    projectId: z.string().trim().min(1).nullable().optional(),
+  })
+  .refine(
+    (field) => !SELECT_TYPES.includes(field.type) || !!field.options?.length,
+    {
+      message: "Select fields need at least one option",
+      path: ["options"],
+    }
+  );
+
+export const updateCustomFieldSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100),
+    options: optionsSchema,
+  })
+  .partial();
+
+export const customFieldValueSchema = z.union([
+  z.string().max(1000),
+  z.number(),
+  z.boolean(),
+  z.array(z.string().max(100)).max(50),
+  z.null(),
+]);
+
+export const customFieldValuesSchema = z.record(
+  z.string().trim().min(1),
+  customFieldValueSchema
+);
+
+/**
+ * Narrows a raw value to what a field of the given type accepts. Membership
+ * checks (select options, workspace users) happen in the service.
+ */
+export const getCustomFieldValueSchema = (type: CustomFieldTypeEnumType) => {
+  switch (type) {
+    case CustomFieldTypeEnum.NUMBER:
+      return z.number().finite();
+    case CustomFieldTypeEnum.CHECKBOX:
+      return z.boolean();
+    case CustomFieldTypeEnum.MULTI_SELECT:
+      return z.array(z.string().trim().min(1));
+    case CustomFieldTypeEnum.DATE:
+      return z
+        .string()
+        .trim()
+        .refine((val) => !isNaN(Date.parse(val)), {
+          message: "Invalid date format",
+        });
+    case CustomFieldTypeEnum.TEXT:
+    case CustomFieldTypeEnum.SINGLE_SELECT:
+    case CustomFieldTypeEnum.USER:
+    default:
+      return z.string().trim().min(1);
+  }
+};
@@ -0,0 +1,37 @@
+import { z } from "zod";
+
+export const labelIdSchema = z.string().trim().min(1);
+
+export const labelNameSchema = z.string().trim().min(1).max(50);
+
+export const labelColorSchema = z
+  .string()
+  .trim()
+  .regex(/^#[0-9a-fA-F]{6}$/, { message: "Invalid color" });
+
+export const labelIdsSchema = z.array(labelIdSchema).max(20);
+
+export const createLabelSchema = z.object({
+  name: labelNameSchema,
+  color: labelColorSchema,
+});
+
+export const updateLabelSchema = z
+  .object({
+    name: labelNameSchema,
+    color: labelColorSchema,
+  })
+  .partial();
+
+export const bulkTaskLabelsSchema = z
+  .object({
+    taskIds: z.array(z.string().trim().min(1)).min(1).max(100),
+    add: labelIdsSchema.default([]),
+    remove: labelIdsSchema.default([]),
+  })
+  .refine((body) => body.add.length > 0 || body.remove.length > 0, {
+    message: "Pick at least one label to add or remove",
+    path: ["add"],
+  });
+
+export const labelMatchSchema = z.enum(["any", "all"]).optional();
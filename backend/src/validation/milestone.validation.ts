@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+export const milestoneIdSchema = z.string().trim().min(1);
+
+const milestoneDateSchema = z
+  .string()
+  .trim()
+  .refine((val) => !isNaN(Date.parse(val)), {
+    message: "Invalid date format",
+  });
+
+const milestoneFields = {
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).nullable(),
+  date: milestoneDateSchema,
+};
+
+export const createMilestoneSchema = z.object({
+  ...milestoneFields,
+  description: milestoneFields.description.optional(),
+});
+
+export const updateMilestoneSchema = z.object(milestoneFields).partial();
+
+export const milestoneFilterSchema = z.object({
+  projectId: z.string().trim().min(1).optional(),
+  from: milestoneDateSchema.optional(),
+  to: milestoneDateSchema.optional(),
+});
@@ -0,0 +1,3 @@
+import { z } from "zod";
+
+export const notificationIdSchema = z.string().trim().min(1);
@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { projectTemplateOptionsSchema } from "./template.validation";
+import { PROJECT_KEY_PATTERN } from "../utils/project-key";
 
 export const emojiSchema = z.string().trim().optional();
 export const nameSchema = z.string().trim().min(1).max(255);
@@ -6,10 +8,30 @@ export const descriptionSchema = z.string().trim().optional();
 
 export const projectIdSchema = z.string().trim().min(1);
 
-export const createProjectSchema = z.object({
-  emoji: emojiSchema,
-  name: nameSchema,
-  description: descriptionSchema,
+export const projectKeySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(
+    PROJECT_KEY_PATTERN,
+    "Project key must be 2 to 10 letters or digits and start with a letter"
+  );
+
+export const createProjectSchema = z
+  .object({
+    emoji: emojiSchema,
+    name: nameSchema,
+    key: projectKeySchema.optional(),
+    description: descriptionSchema,
+  })
+  .merge(projectTemplateOptionsSchema);
+
+export const projectListFilterSchema = z.object({
+  keyword: z.string().trim().optional(),
+  includeArchived: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((val) => val === "true"),
 });
 
 export const updateProjectSchema = z.object({
@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+export const sprintIdSchema = z.string().trim().min(1);
+
+const sprintDateSchema = z
+  .string()
+  .trim()
+  .refine((val) => !isNaN(Date.parse(val)), {
+    message: "Invalid date format",
+  });
+
+const sprintFields = {
+  name: z.string().trim().min(1).max(100),
+  goal: z.string().trim().max(500).nullable(),
+  startDate: sprintDateSchema,
+  endDate: sprintDateSchema,
+};
+
+const endsAfterStart = (sprint: { startDate?: string; endDate?: string }) =>
+  !sprint.startDate ||
+  !sprint.endDate ||
+  new Date(sprint.endDate) > new Date(sprint.startDate);
+
+const endsAfterStartMessage = {
+  message: "End date must be after the start date",
+  path: ["endDate"],
+};
+
+export const createSprintSchema = z
+  .object({ ...sprintFields, goal: sprintFields.goal.optional() })
+  .refine(endsAfterStart, endsAfterStartMessage);
+
+export const updateSprintSchema = z
+  .object(sprintFields)
+  .partial()
+  .refine(endsAfterStart, endsAfterStartMessage);
+
+export const closeSprintSchema = z.object({
+  // Sprint that receives unfinished tasks; null sends them to the backlog.
+  carryOverTo: sprintIdSchema.nullable(),
+});
+
+// A sprint id or "backlog" for tasks outside any sprint.
+export const sprintFilterSchema = z.string().trim().min(1).optional();
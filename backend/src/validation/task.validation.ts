@@ -1,18 +1,25 @@
 import { z } from "zod";
-import { TaskPriorityEnum, TaskStatusEnum } from "../enums/task.enum";
+import {
+  RecurrenceFrequencyEnum,
+  TaskPriorityEnum,
+} from "../enums/task.enum";
+import { customFieldValuesSchema } from "./custom-field.validation";
+import { labelIdsSchema } from "./label.validation";
+import { minutesSchema } from "./worklog.validation";
+import { checklistTitleSchema } from "./checklist.validation";
 
 export const titleSchema = z.string().trim().min(1).max(255);
 export const descriptionSchema = z.string().trim().optional();
 
-export const assignedToSchema = z.string().trim().min(1).nullable().optional();
+export const assigneesSchema = z.array(z.string().trim().min(1)).max(20);
 
 export const prioritySchema = z.enum(
   Object.values(TaskPriorityEnum) as [string, ...string[]]
 );
 
-export const statusSchema = z.enum(
-  Object.values(TaskStatusEnum) as [string, ...string[]]
-);
+// Statuses are defined per workspace, so the key is checked against the
+// workspace workflow in the service layer.
+export const statusSchema = z.string().trim().min(1).max(50);
 
 export const dueDateSchema = z
   .string()
@@ -27,7 +34,37 @@ export const dueDateSchema = z
     }
   );
 
+export const recurrenceSchema = z
+  .object({
+    frequency: z.enum(
+      Object.values(RecurrenceFrequencyEnum) as [string, ...string[]]
+    ),
+    interval: z.number().int().min(1).max(365).optional(),
+    weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+    dayOfMonth: z.number().int().min(1).max(31).nullable().optional(),
+    endsAt: dueDateSchema.nullable(),
+  })
+  .refine(
+    (rule) =>
+      rule.frequency !== RecurrenceFrequencyEnum.WEEKLY ||
+      (rule.weekdays && rule.weekdays.length > 0),
+    {
+      message: "Pick at least one weekday for a weekly schedule",
+      path: ["weekdays"],
+    }
+  )
+  .refine(
+    (rule) =>
+      rule.frequency !== RecurrenceFrequencyEnum.MONTHLY || !!rule.dayOfMonth,
+    {
+      message: "Pick a day of the month for a monthly schedule",
+      path: ["dayOfMonth"],
+    }
+  );
+
 export const taskIdSchema = z.string().trim().min(1);
+
+export const taskCodeSchema = z.string().trim().min(1).max(50);
 export const clarificationIdSchema = z.string().trim().min(1);
 
 export const createTaskSchema = z.object({
@@ -35,8 +72,52 @@ export const createTaskSchema = z.object({
   description: descriptionSchema,
   priority: prioritySchema,
   status: statusSchema,
-  assignedTo: assignedToSchema,
+  assignees: assigneesSchema.optional(),
+  startDate: dueDateSchema.nullable(),
   dueDate: dueDateSchema,
+  estimateMinutes: minutesSchema.nullable().optional(),
+  recurrence: recurrenceSchema.optional(),
+  customFields: customFieldValuesSchema.optional(),
+  labels: labelIdsSchema.optional(),
+  sprint: z.string().trim().nullable().optional(),
+  checklist: z.array(checklistTitleSchema).max(200).optional(),
+});
+
+export const createSubtaskSchema = z.object({
+  title: titleSchema,
+  description: descriptionSchema,
+  priority: prioritySchema.optional(),
+  status: statusSchema.optional(),
+  assignees: assigneesSchema.optional(),
+  dueDate: dueDateSchema,
+});
+
+export const watchingFilterSchema = z.enum(["true"]).optional();
+
+export const taskLevelSchema = z.enum(["top", "child"]).optional();
+
+export const isBlockedFilterSchema = z
+  .enum(["true", "false"])
+  .optional()
+  .transform((val) => (val === undefined ? undefined : val === "true"));
+
+export const hasOpenClarificationsFilterSchema = z
+  .enum(["true", "false"])
+  .optional()
+  .transform((val) => (val === undefined ? undefined : val === "true"));
+
+// Built-in fields plus `cf.<fieldId>` for custom fields.
+export const taskSortBySchema = z
+  .union([
+    z.enum(["title", "dueDate", "status", "createdAt", "rank"]),
+    z.string().regex(/^cf\.[0-9a-fA-F]{24}$/),
+  ])
+  .optional();
+
+export const taskSortOrderSchema = z.enum(["asc", "desc"]).optional();
+
+export const addDependencySchema = z.object({
+  blockerId: taskIdSchema,
 });
 
 export const updateTaskSchema = z
@@ -45,17 +126,40 @@ export const updateTaskSchema = z
     description: descriptionSchema,
     priority: prioritySchema,
     status: statusSchema,
-    assignedTo: assignedToSchema,
+    assignees: assigneesSchema,
+    startDate: dueDateSchema.nullable(),
     dueDate: dueDateSchema,
+    estimateMinutes: minutesSchema.nullable(),
+    overrideBlockers: z.boolean(),
+    customFields: customFieldValuesSchema,
+    labels: labelIdsSchema,
+    sprint: z.string().trim().nullable(),
+    rank: z.number().finite(),
   })
   .partial();
 
+export const updateTaskSeriesSchema = z
+  .object({
+    title: titleSchema,
+    description: descriptionSchema,
+    priority: prioritySchema,
+    assignees: assigneesSchema,
+    recurrence: recurrenceSchema.nullable(),
+  })
+  .partial();
+
+export const clarificationQuestionSchema = z
+  .string()
+  .trim()
+  .min(5, { message: "Question should be at least 5 characters long" })
+  .max(1000, { message: "Question should not exceed 1000 characters" });
+
 export const createClarificationSchema = z.object({
-  question: z
-    .string()
-    .trim()
-    .min(5, { message: "Question should be at least 5 characters long" })
-    .max(1000, { message: "Question should not exceed 1000 characters" }),
+  question: clarificationQuestionSchema,
+});
+
+export const updateClarificationSchema = z.object({
+  question: clarificationQuestionSchema,
 });
 
 export const respondClarificationSchema = z.object({
@@ -65,3 +169,54 @@ export const respondClarificationSchema = z.object({
     .min(1, { message: "Response cannot be empty" })
     .max(1000, { message: "Response should not exceed 1000 characters" }),
 });
+
+export const resolveClarificationSchema = z.object({
+  acceptedResponseId: z.string().trim().min(1).optional(),
+});
+
+export const moveTaskSchema = z.object({
+  projectId: z.string().trim().min(1),
+  assigneeMap: z
+    .record(z.string().trim().min(1), z.string().trim().min(1).nullable())
+    .optional(),
+});
+
+export const duplicateTaskSchema = z.object({
+  title: titleSchema.optional(),
+  description: z.boolean().default(true),
+  clarifications: z.boolean().default(false),
+  subtasks: z.boolean().default(false),
+});
+
+export const batchTaskOperationSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("update"),
+    changes: z
+      .object({
+        status: statusSchema,
+        priority: prioritySchema,
+        assignees: assigneesSchema,
+        dueDate: dueDateSchema,
+        addLabels: labelIdsSchema,
+        removeLabels: labelIdsSchema,
+      })
+      .partial()
+      .refine(
+        (changes) =>
+          Object.values(changes).some((value) => value !== undefined),
+        { message: "Pick at least one change to apply" }
+      ),
+  }),
+  z.object({
+    action: z.literal("move"),
+    projectId: z.string().trim().min(1),
+  }),
+  z.object({
+    action: z.literal("delete"),
+  }),
+]);
+
+export const batchTasksSchema = z.object({
+  taskIds: z.array(taskIdSchema).min(1).max(500),
+  operation: batchTaskOperationSchema,
+});
@@ -0,0 +1,28 @@
+import { z } from "zod";
+import { Roles } from "../enums/role.enum";
+import { TemplateTypeEnum } from "../enums/template.enum";
+import { dueDateSchema } from "./task.validation";
+
+export const templateIdSchema = z.string().trim().min(1);
+
+export const templateTypeSchema = z
+  .enum(Object.values(TemplateTypeEnum) as [string, ...string[]])
+  .optional();
+
+export const createTemplateSchema = z.object({
+  // Defaults to the name of the project or task being saved.
+  name: z.string().trim().min(1).max(255).optional(),
+  description: z.string().trim().max(1000).optional(),
+});
+
+// Picks the member who fills each template role, e.g. { ADMIN: "<userId>" }.
+export const roleAssigneesSchema = z.record(
+  z.enum(Object.values(Roles) as [string, ...string[]]),
+  z.string().trim().min(1)
+);
+
+export const projectTemplateOptionsSchema = z.object({
+  templateId: templateIdSchema.optional(),
+  startDate: dueDateSchema,
+  roleAssignees: roleAssigneesSchema.optional(),
+});
@@ -0,0 +1,29 @@
+import { z } from "zod";
+
+// Durations and estimates are whole minutes; 10,000 hours is a sanity cap.
+export const minutesSchema = z.number().int().min(0).max(600000);
+
+export const worklogIdSchema = z.string().trim().min(1);
+
+const dateStringSchema = z
+  .string()
+  .trim()
+  .refine((val) => !isNaN(Date.parse(val)), {
+    message: "Invalid date format",
+  });
+
+export const createWorklogSchema = z.object({
+  durationMinutes: minutesSchema.min(1),
+  note: z.string().trim().max(500).optional(),
+  startedAt: dateStringSchema.optional(),
+});
+
+export const timerNoteSchema = z.object({
+  note: z.string().trim().max(500).optional(),
+});
+
+export const worklogRangeSchema = z.object({
+  from: dateStringSchema.optional(),
+  to: dateStringSchema.optional(),
+  projectId: z.string().trim().min(1).optional(),
+});
@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { TaskStatusCategoryEnum } from "../enums/task.enum";
+import { ClarificationResponsePolicyEnum } from "../enums/clarification.enum";
 
 export const nameSchema = z
   .string()
@@ -27,3 +29,97 @@ export const updateWorkspaceSchema = z.object({
   name: nameSchema,
   description: descriptionSchema,
 });
+
+export const clarificationPolicySchema = z.object({
+  clarificationResponsePolicy: z.enum(
+    Object.values(ClarificationResponsePolicyEnum) as [string, ...string[]]
+  ),
+});
+
+export const workflowStatusKeySchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(50)
+  .regex(/^[A-Z0-9_]+$/, {
+    message: "Status keys may only contain A-Z, 0-9 and underscores",
+  });
+
+export const updateWorkflowSchema = z
+  .object({
+    statuses: z
+      .array(
+        z.object({
+          key: workflowStatusKeySchema,
+          name: z.string().trim().min(1).max(50),
+          category: z.enum(
+            Object.values(TaskStatusCategoryEnum) as [string, ...string[]]
+          ),
+          color: z
+            .string()
+            .trim()
+            .regex(/^#[0-9a-fA-F]{6}$/, { message: "Invalid color" })
+            .nullable()
+            .optional(),
+        })
+      )
+      .min(2)
+      .max(20),
+    transitions: z
+      .array(
+        z.object({
+          from: workflowStatusKeySchema,
+          to: workflowStatusKeySchema,
+        })
+      )
+      .default([]),
+    defaultStatus: workflowStatusKeySchema,
+  })
+  .superRefine((workflow, ctx) => {
+    const keys = workflow.statuses.map((status) => status.key);
+    const categories = workflow.statuses.map((status) => status.category);
+
+    if (new Set(keys).size !== keys.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Status keys must be unique",
+        path: ["statuses"],
+      });
+    }
+
+    [TaskStatusCategoryEnum.NOT_STARTED, TaskStatusCategoryEnum.DONE].forEach(
+      (category) => {
+        if (!categories.includes(category)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: `The workflow needs at least one ${category} status`,
+            path: ["statuses"],
+          });
+        }
+      }
+    );
+
+    const defaultStatus = workflow.statuses.find(
+      (status) => status.key === workflow.defaultStatus
+    );
+    if (
+      !defaultStatus ||
+      defaultStatus.category !== TaskStatusCategoryEnum.NOT_STARTED
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "The default status must be a not-started status",
+        path: ["defaultStatus"],
+      });
+    }
+
+    workflow.transitions.forEach((transition, index) => {
+      if (!keys.includes(transition.from) || !keys.includes(transition.to)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Transitions must reference statuses in this workflow",
+          path: ["transitions", index],
+        });
+      }
+    });
+  });
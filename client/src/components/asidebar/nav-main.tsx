@@ -6,6 +6,7 @@ import {
   Users,
   CheckCircle,
   LayoutDashboard,
+  Trash2,
 } from "lucide-react";
 import {
   SidebarGroup,
@@ -52,6 +53,11 @@ export function NavMain() {
       url: `/workspace/${workspaceId}/members`,
       icon: Users,
     },
+    {
+      title: "Trash",
+      url: `/workspace/${workspaceId}/trash`,
+      icon: Trash2,
+    },
 
     ...(canManageSettings
       ? [
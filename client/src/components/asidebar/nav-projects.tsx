@@ -1,4 +1,5 @@
 import {
+  Archive,
   ArrowRight,
   Folder,
   Loader,
@@ -17,6 +18,7 @@ import {
 import {
   SidebarGroup,
   SidebarGroupLabel,
+  SidebarInput,
   SidebarMenu,
   SidebarMenuAction,
   SidebarMenuButton,
@@ -51,6 +53,8 @@ export function NavProjects() {
 
   const [pageNumber] = useState(1);
   const [pageSize, setPageSize] = useState(5);
+  // Searching also matches archived projects, which are otherwise hidden.
+  const [keyword, setKeyword] = useState("");
 
   const { mutate, isPending: isLoading } = useMutation({
     mutationFn: deleteProjectMutationFn,
@@ -61,6 +65,7 @@ export function NavProjects() {
       workspaceId,
       pageSize,
       pageNumber,
+      keyword: keyword.trim(),
     });
 
   const projects = data?.projects || [];
@@ -119,6 +124,12 @@ export function NavProjects() {
             </button>
           </PermissionsGuard>
         </SidebarGroupLabel>
+        <SidebarInput
+          placeholder="Search projects"
+          className="mb-1 h-7"
+          value={keyword}
+          onChange={(event) => setKeyword(event.target.value)}
+        />
         <SidebarMenu className="h-[320px] scrollbar overflow-y-auto pb-2">
           {isError ? <div>Error occured</div> : null}
           {isPending ? (
@@ -129,7 +140,11 @@ export function NavProjects() {
             />
           ) : null}
 
-          {!isPending && projects?.length === 0 ? (
+          {!isPending && projects?.length === 0 && keyword.trim() ? (
+            <p className="pl-3 text-xs text-muted-foreground">
+              No projects match your search.
+            </p>
+          ) : !isPending && projects?.length === 0 ? (
             <div className="pl-3">
               <p className="text-xs text-muted-foreground">
                 There is no projects in this Workspace yet. Projects you create
@@ -157,6 +172,9 @@ export function NavProjects() {
                     <Link to={projectUrl}>
                       {item.emoji}
                       <span>{item.name}</span>
+                      {item.archivedAt && (
+                        <Archive className="ml-auto text-muted-foreground" />
+                      )}
                     </Link>
                   </SidebarMenuButton>
                   <DropdownMenu>
@@ -220,7 +238,7 @@ export function NavProjects() {
         title="Delete Project"
         description={`Are you sure you want to delete ${
           context?.name || "this item"
-        }? This action cannot be undone.`}
+        }? It can be restored from the trash.`}
         confirmText="Delete"
         cancelText="Cancel"
       />
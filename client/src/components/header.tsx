@@ -10,6 +10,7 @@ import {
 import { Separator } from "./ui/separator";
 import { Link, useLocation } from "react-router-dom";
 import useWorkspaceId from "@/hooks/use-workspace-id";
+import NotificationBell from "./workspace/notification/notification-bell";
 
 const Header = () => {
   const location = useLocation();
@@ -57,6 +58,9 @@ const Header = () => {
             )}
           </BreadcrumbList>
         </Breadcrumb>
+        <div className="ml-auto">
+          <NotificationBell />
+        </div>
       </div>
     </header>
   );
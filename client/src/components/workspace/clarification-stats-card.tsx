@@ -0,0 +1,55 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatDuration } from "@/lib/helper";
+import { ClarificationStatsType } from "@/types/api.type";
+
+const ClarificationStatsCard = ({
+  stats,
+}: {
+  stats?: ClarificationStatsType;
+}) => {
+  const items = [
+    {
+      label: "Median first response",
+      value:
+        stats?.medianResponseMinutes != null
+          ? formatDuration(stats.medianResponseMinutes)
+          : "—",
+    },
+    {
+      label: "Average first response",
+      value:
+        stats?.averageResponseMinutes != null
+          ? formatDuration(stats.averageResponseMinutes)
+          : "—",
+    },
+    { label: "Awaiting a response", value: stats?.openCount ?? 0 },
+    { label: "Answered, not resolved", value: stats?.answeredCount ?? 0 },
+    { label: "Resolved", value: stats?.resolvedCount ?? 0 },
+  ];
+
+  return (
+    <Card className="shadow-none w-full">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium">
+          Clarification Response Time
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-5">
+          {items.map((item) => (
+            <div key={item.label} className="space-y-1">
+              <p className="text-xs text-muted-foreground">{item.label}</p>
+              <p className="text-xl font-semibold">{item.value}</p>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Measured from when a question is asked to its first response, across{" "}
+          {stats?.respondedCount ?? 0} answered clarification(s).
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ClarificationStatsCard;
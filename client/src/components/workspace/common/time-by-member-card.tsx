@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { Download, Loader } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import { exportWorklogsFn } from "@/lib/api";
+import { downloadBlob, formatDuration } from "@/lib/helper";
+import { TimeByMemberType } from "@/types/api.type";
+
+const TimeByMemberCard = ({
+  timeByMember,
+  projectId,
+}: {
+  timeByMember: TimeByMemberType[];
+  projectId?: string;
+}) => {
+  const workspaceId = useWorkspaceId();
+
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const { mutate: exportWorklogs, isPending } = useMutation({
+    mutationFn: exportWorklogsFn,
+    onSuccess: (blob) => {
+      const range = [from, to].filter(Boolean).join("_to_");
+      downloadBlob(blob, `worklogs${range ? `-${range}` : ""}.csv`);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const maxMinutes = Math.max(
+    1,
+    ...timeByMember.map((item) =>
+      Math.max(item.estimatedMinutes, item.loggedMinutes)
+    )
+  );
+
+  return (
+    <Card className="shadow-none w-full">
+      <CardHeader className="flex flex-col gap-2 space-y-0 pb-2 sm:flex-row sm:items-center sm:justify-between">
+        <CardTitle className="text-sm font-medium">
+          Estimated vs. Logged Time
+        </CardTitle>
+        <div className="flex flex-wrap items-center gap-2">
+          <Input
+            type="date"
+            aria-label="From"
+            className="h-8 w-[140px]"
+            value={from}
+            onChange={(event) => setFrom(event.target.value)}
+          />
+          <Input
+            type="date"
+            aria-label="To"
+            className="h-8 w-[140px]"
+            value={to}
+            onChange={(event) => setTo(event.target.value)}
+          />
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={isPending}
+            onClick={() =>
+              exportWorklogs({
+                workspaceId,
+                projectId,
+                from: from || undefined,
+                to: to || undefined,
+              })
+            }
+          >
+            {isPending ? (
+              <Loader className="h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4" />
+            )}
+            Export CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {timeByMember.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No estimates or logged time yet.
+          </p>
+        ) : (
+          timeByMember.map((item) => (
+            <div key={item.userId} className="flex items-center gap-3">
+              <span className="w-[140px] shrink-0 truncate text-sm">
+                {item.name}
+              </span>
+              <div className="flex-1 space-y-1">
+                <div className="h-2 rounded-full bg-muted">
+                  <div
+                    className="h-2 rounded-full bg-muted-foreground/40"
+                    style={{
+                      width: `${(item.estimatedMinutes / maxMinutes) * 100}%`,
+                    }}
+                  />
+                </div>
+                <div className="h-2 rounded-full bg-muted">
+                  <div
+                    className={`h-2 rounded-full ${
+                      item.loggedMinutes > item.estimatedMinutes
+                        ? "bg-destructive"
+                        : "bg-primary"
+                    }`}
+                    style={{
+                      width: `${(item.loggedMinutes / maxMinutes) * 100}%`,
+                    }}
+                  />
+                </div>
+              </div>
+              <span className="w-[130px] shrink-0 text-right text-sm text-muted-foreground">
+                {formatDuration(item.loggedMinutes)} /{" "}
+                {formatDuration(item.estimatedMinutes)}
+              </span>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TimeByMemberCard;
@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Bell } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import useNotifications from "@/hooks/api/use-notifications";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import {
+  markAllNotificationsReadMutationFn,
+  markNotificationReadMutationFn,
+} from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { NotificationType } from "@/types/api.type";
+
+const describeNotification = (notification: NotificationType) => {
+  const actorName = notification.actor?.name ?? "Someone";
+  const taskLabel = notification.task
+    ? `${notification.task.taskCode}: ${notification.task.title}`
+    : "a deleted task";
+
+  switch (notification.type) {
+    case "COMMENT_MENTION":
+      return `${actorName} mentioned you on ${taskLabel}`;
+    default:
+      return actorName;
+  }
+};
+
+const NotificationBell = () => {
+  const workspaceId = useWorkspaceId();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [open, setOpen] = useState(false);
+
+  const { data } = useNotifications(workspaceId);
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const onSuccess = () =>
+    queryClient.invalidateQueries({
+      queryKey: ["notifications", workspaceId],
+    });
+
+  const { mutate: markRead } = useMutation({
+    mutationFn: markNotificationReadMutationFn,
+    onSuccess,
+  });
+  const { mutate: markAllRead, isPending: isMarkingAll } = useMutation({
+    mutationFn: markAllNotificationsReadMutationFn,
+    onSuccess,
+  });
+
+  const handleOpenNotification = (notification: NotificationType) => {
+    if (!notification.readAt) {
+      markRead({ workspaceId, notificationId: notification._id });
+    }
+    if (notification.task) {
+      setOpen(false);
+      navigate(
+        `/workspace/${workspaceId}/project/${notification.task.project}`
+      );
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative h-8 w-8"
+          aria-label="Notifications"
+        >
+          <Bell className="h-4 w-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-white">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <span className="text-sm font-semibold">Notifications</span>
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              className="text-xs text-muted-foreground hover:text-foreground"
+              disabled={isMarkingAll}
+              onClick={() => markAllRead(workspaceId)}
+            >
+              Mark all as read
+            </button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-3 py-6 text-center text-sm text-muted-foreground">
+            You're all caught up.
+          </p>
+        ) : (
+          <ul className="max-h-[360px] overflow-y-auto scrollbar">
+            {notifications.map((notification) => (
+              <li key={notification._id}>
+                <button
+                  type="button"
+                  className={cn(
+                    "flex w-full flex-col gap-0.5 border-b px-3 py-2 text-left last:border-0 hover:bg-accent",
+                    !notification.readAt && "bg-primary/5"
+                  )}
+                  onClick={() => handleOpenNotification(notification)}
+                >
+                  <span className="text-sm">
+                    {describeNotification(notification)}
+                  </span>
+                  {notification.comment && !notification.comment.deletedAt && (
+                    <span className="line-clamp-2 text-xs text-muted-foreground">
+                      {notification.comment.body}
+                    </span>
+                  )}
+                  <span className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(notification.createdAt), {
+                      addSuffix: true,
+                    })}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { Archive, ArchiveRestore, Loader } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/resuable/confirm-dialog";
+import { toast } from "@/hooks/use-toast";
+import {
+  archiveProjectMutationFn,
+  unarchiveProjectMutationFn,
+} from "@/lib/api";
+
+const ArchiveProjectButton = ({
+  workspaceId,
+  projectId,
+  isArchived,
+}: {
+  workspaceId: string;
+  projectId: string;
+  isArchived: boolean;
+}) => {
+  const queryClient = useQueryClient();
+  const [openDialog, setOpenDialog] = useState(false);
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: isArchived
+      ? unarchiveProjectMutationFn
+      : archiveProjectMutationFn,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["singleProject", projectId] });
+      queryClient.invalidateQueries({ queryKey: ["allprojects", workspaceId] });
+      queryClient.invalidateQueries({
+        queryKey: ["workspace-analytics", workspaceId],
+      });
+      toast({
+        title: "Success",
+        description: data.message,
+        variant: "success",
+      });
+      setOpenDialog(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isArchived) {
+    return (
+      <Button
+        type="button"
+        variant="outline"
+        disabled={isPending}
+        onClick={() => mutate({ workspaceId, projectId })}
+      >
+        {isPending ? <Loader className="animate-spin" /> : <ArchiveRestore />}
+        Unarchive
+      </Button>
+    );
+  }
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        disabled={isPending}
+        onClick={() => setOpenDialog(true)}
+      >
+        <Archive />
+        Archive
+      </Button>
+      <ConfirmDialog
+        isOpen={openDialog}
+        isLoading={isPending}
+        onClose={() => setOpenDialog(false)}
+        onConfirm={() => mutate({ workspaceId, projectId })}
+        title="Archive Project"
+        description="The project will be hidden from project lists and left out of workspace analytics, and its tasks become read-only until it is unarchived. It can still be found by searching."
+        confirmText="Archive"
+        cancelText="Cancel"
+      />
+    </>
+  );
+};
+
+export default ArchiveProjectButton;
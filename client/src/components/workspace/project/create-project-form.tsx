@@ -1,9 +1,11 @@
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
+import { format } from "date-fns";
 import { z } from "zod";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -25,6 +27,9 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { createProjectMutationFn } from "@/lib/api";
 import { toast } from "@/hooks/use-toast";
 import { Loader } from "lucide-react";
+import useTemplates from "@/hooks/api/use-templates";
+import { TemplateType } from "@/types/api.type";
+import ProjectTemplateFields from "./project-template-fields";
 
 export default function CreateProjectForm({
   onClose,
@@ -36,6 +41,14 @@ export default function CreateProjectForm({
   const workspaceId = useWorkspaceId();
 
   const [emoji, setEmoji] = useState("📊");
+  const [template, setTemplate] = useState<TemplateType | null>(null);
+  const [startDate, setStartDate] = useState(() => new Date());
+  const [roleAssignees, setRoleAssignees] = useState<Record<string, string>>(
+    {}
+  );
+
+  const { data: templateData } = useTemplates(workspaceId, "PROJECT");
+  const templates = templateData?.templates ?? [];
 
   const { mutate, isPending } = useMutation({
     mutationFn: createProjectMutationFn,
@@ -45,6 +58,13 @@ export default function CreateProjectForm({
     name: z.string().trim().min(1, {
       message: "Project title is required",
     }),
+    key: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(/^([A-Z][A-Z0-9]{1,9})?$/, {
+        message: "Use 2 to 10 letters or digits, starting with a letter",
+      }),
     description: z.string().trim(),
   });
 
@@ -52,6 +72,7 @@ export default function CreateProjectForm({
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: "",
+      key: "",
       description: "",
     },
   });
@@ -60,13 +81,28 @@ export default function CreateProjectForm({
     setEmoji(emoji);
   };
 
-  const onSubmit = (values: z.infer<typeof formSchema>) => {
+  const handleTemplateChange = (selected: TemplateType | null) => {
+    setTemplate(selected);
+    setRoleAssignees({});
+    if (selected?.projectEmoji) setEmoji(selected.projectEmoji);
+    if (selected?.projectDescription && !form.getValues("description")) {
+      form.setValue("description", selected.projectDescription);
+    }
+  };
+
+  const onSubmit = ({ key, ...values }: z.infer<typeof formSchema>) => {
     if (isPending) return;
     const payload = {
       workspaceId,
       data: {
         emoji,
         ...values,
+        ...(key && { key }),
+        ...(template && {
+          templateId: template._id,
+          startDate: format(startDate, "yyyy-MM-dd"),
+          roleAssignees,
+        }),
       },
     };
     mutate(payload, {
@@ -75,6 +111,11 @@ export default function CreateProjectForm({
         queryClient.invalidateQueries({
           queryKey: ["allprojects", workspaceId],
         });
+        if (template) {
+          queryClient.invalidateQueries({
+            queryKey: ["all-tasks", workspaceId],
+          });
+        }
 
         toast({
           title: "Success",
@@ -111,6 +152,20 @@ export default function CreateProjectForm({
         </div>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)}>
+            {templates.length > 0 && (
+              <div className="mb-4">
+                <ProjectTemplateFields
+                  workspaceId={workspaceId}
+                  templates={templates}
+                  template={template}
+                  onTemplateChange={handleTemplateChange}
+                  startDate={startDate}
+                  onStartDateChange={setStartDate}
+                  roleAssignees={roleAssignees}
+                  onRoleAssigneesChange={setRoleAssignees}
+                />
+              </div>
+            )}
             <div className="mb-4">
               <label className="block text-sm font-medium text-gray-700">
                 Select Emoji
@@ -150,6 +205,32 @@ export default function CreateProjectForm({
                 )}
               />
             </div>
+            <div className="mb-4">
+              <FormField
+                control={form.control}
+                name="key"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="dark:text-[#f1f7feb5] text-sm">
+                      Project key
+                    </FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="WEB"
+                        className="!h-[48px] uppercase"
+                        maxLength={10}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Prefix for task codes such as WEB-123. Leave empty to
+                      derive one from the title.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
             <div className="mb-4">
               <FormField
                 control={form.control}
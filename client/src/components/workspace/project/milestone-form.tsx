@@ -0,0 +1,193 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Loader } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import {
+  createMilestoneMutationFn,
+  deleteMilestoneMutationFn,
+  updateMilestoneMutationFn,
+} from "@/lib/api";
+import { MilestoneType } from "@/types/api.type";
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, { message: "Milestone name is required" }),
+  description: z.string().trim(),
+  date: z.string().min(1, { message: "Date is required" }),
+});
+
+export default function MilestoneForm(props: {
+  projectId: string;
+  milestone?: MilestoneType;
+  onClose: () => void;
+}) {
+  const { projectId, milestone, onClose } = props;
+  const workspaceId = useWorkspaceId();
+  const queryClient = useQueryClient();
+
+  const { mutate: createMilestone, isPending: isCreating } = useMutation({
+    mutationFn: createMilestoneMutationFn,
+  });
+  const { mutate: updateMilestone, isPending: isUpdating } = useMutation({
+    mutationFn: updateMilestoneMutationFn,
+  });
+  const { mutate: deleteMilestone, isPending: isDeleting } = useMutation({
+    mutationFn: deleteMilestoneMutationFn,
+  });
+  const isPending = isCreating || isUpdating || isDeleting;
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: milestone?.name ?? "",
+      description: milestone?.description ?? "",
+      date: milestone ? format(new Date(milestone.date), "yyyy-MM-dd") : "",
+    },
+  });
+
+  const callbacks = {
+    onSuccess: (data: { message: string }) => {
+      queryClient.invalidateQueries({
+        queryKey: ["milestones", workspaceId],
+      });
+      toast({
+        title: "Success",
+        description: data.message,
+        variant: "success",
+      });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  };
+
+  const onSubmit = (values: z.infer<typeof formSchema>) => {
+    if (isPending) return;
+
+    const data = {
+      name: values.name,
+      description: values.description || null,
+      date: new Date(values.date).toISOString(),
+    };
+
+    if (milestone) {
+      updateMilestone(
+        { workspaceId, projectId, milestoneId: milestone._id, data },
+        callbacks
+      );
+    } else {
+      createMilestone({ workspaceId, projectId, data }, callbacks);
+    }
+  };
+
+  return (
+    <div className="w-full h-auto max-w-full">
+      <div className="h-full">
+        <div className="mb-5 pb-2 border-b">
+          <h1
+            className="text-xl tracking-[-0.16px] dark:text-[#fcfdffef] font-semibold mb-1
+           text-center sm:text-left"
+          >
+            {milestone ? "Edit Milestone" : "New Milestone"}
+          </h1>
+          <p className="text-muted-foreground text-sm leading-tight">
+            Mark a key date for this project on the timeline
+          </p>
+        </div>
+        <Form {...form}>
+          <form className="space-y-4" onSubmit={form.handleSubmit(onSubmit)}>
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Milestone name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Beta release" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    Description
+                    <span className="text-xs font-extralight ml-2">
+                      Optional
+                    </span>
+                  </FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="flex items-center justify-end gap-2">
+              {milestone && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={isPending}
+                  className="h-[40px]"
+                  onClick={() =>
+                    deleteMilestone(
+                      { workspaceId, projectId, milestoneId: milestone._id },
+                      callbacks
+                    )
+                  }
+                >
+                  Delete
+                </Button>
+              )}
+              <Button
+                disabled={isPending}
+                className="h-[40px] font-semibold"
+                type="submit"
+              >
+                {isPending && <Loader className="animate-spin" />}
+                {milestone ? "Update" : "Create"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </div>
+    </div>
+  );
+}
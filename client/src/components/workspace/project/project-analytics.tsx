@@ -3,6 +3,8 @@ import AnalyticsCard from "../common/analytics-card";
 import useWorkspaceId from "@/hooks/use-workspace-id";
 import { useQuery } from "@tanstack/react-query";
 import { getProjectAnalyticsQueryFn } from "@/lib/api";
+import ProjectLabelBreakdown from "./project-label-breakdown";
+import TimeByMemberCard from "../common/time-by-member-card";
 
 const ProjectAnalytics = () => {
   const param = useParams();
@@ -20,21 +22,28 @@ const ProjectAnalytics = () => {
   const analytics = data?.analytics;
 
   return (
-    <div className="grid gap-4 md:gap-5 lg:grid-cols-2 xl:grid-cols-3">
-      <AnalyticsCard
-        isLoading={isPending}
-        title="Total Task"
-        value={analytics?.totalTasks || 0}
-      />
-      <AnalyticsCard
-        isLoading={isPending}
-        title="Overdue Task"
-        value={analytics?.overdueTasks || 0}
-      />
-      <AnalyticsCard
-        isLoading={isPending}
-        title="Completed Task"
-        value={analytics?.completedTasks || 0}
+    <div className="space-y-4 md:space-y-5">
+      <div className="grid gap-4 md:gap-5 lg:grid-cols-2 xl:grid-cols-3">
+        <AnalyticsCard
+          isLoading={isPending}
+          title="Total Task"
+          value={analytics?.totalTasks || 0}
+        />
+        <AnalyticsCard
+          isLoading={isPending}
+          title="Overdue Task"
+          value={analytics?.overdueTasks || 0}
+        />
+        <AnalyticsCard
+          isLoading={isPending}
+          title="Completed Task"
+          value={analytics?.completedTasks || 0}
+        />
+      </div>
+      <ProjectLabelBreakdown breakdown={data?.labelBreakdown ?? []} />
+      <TimeByMemberCard
+        timeByMember={data?.timeByMember ?? []}
+        projectId={projectId}
       />
     </div>
   );
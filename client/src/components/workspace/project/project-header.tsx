@@ -7,6 +7,9 @@ import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { getProjectByIdQueryFn } from "@/lib/api";
 import PermissionsGuard from "@/components/resuable/permission-guard";
 import { Permissions } from "@/constant";
+import SaveProjectTemplateButton from "./save-project-template-button";
+import ArchiveProjectButton from "./archive-project-button";
+import { Badge } from "@/components/ui/badge";
 
 const ProjectHeader = () => {
   const param = useParams();
@@ -27,6 +30,7 @@ const ProjectHeader = () => {
   });
 
   const project = data?.project;
+  const isArchived = Boolean(project?.archivedAt);
 
   // Fallback if no project data is found
   const projectEmoji = project?.emoji || "📊";
@@ -39,6 +43,11 @@ const ProjectHeader = () => {
       <>
         <span>{projectEmoji}</span>
         {projectName}
+        {project?.key && (
+          <span className="text-sm font-normal text-muted-foreground">
+            {project.key}
+          </span>
+        )}
       </>
     );
   };
@@ -48,11 +57,29 @@ const ProjectHeader = () => {
         <h2 className="flex items-center gap-3 text-xl font-medium truncate tracking-tight">
           {renderContent()}
         </h2>
+        {isArchived && <Badge variant="secondary">Archived</Badge>}
         <PermissionsGuard requiredPermission={Permissions.EDIT_PROJECT}>
           <EditProjectDialog project={project} />
         </PermissionsGuard>
       </div>
-      <CreateTaskDialog projectId={projectId} />
+      <div className="flex items-center gap-2">
+        <PermissionsGuard requiredPermission={Permissions.EDIT_PROJECT}>
+          {project && (
+            <ArchiveProjectButton
+              workspaceId={workspaceId}
+              projectId={projectId}
+              isArchived={isArchived}
+            />
+          )}
+        </PermissionsGuard>
+        <PermissionsGuard requiredPermission={Permissions.CREATE_PROJECT}>
+          <SaveProjectTemplateButton
+            workspaceId={workspaceId}
+            projectId={projectId}
+          />
+        </PermissionsGuard>
+        {!isArchived && <CreateTaskDialog projectId={projectId} />}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,44 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { LabelBreakdownType } from "@/types/api.type";
+import { LabelBadge } from "../task/task-labels";
+
+const ProjectLabelBreakdown = ({
+  breakdown,
+}: {
+  breakdown: LabelBreakdownType[];
+}) => {
+  if (!breakdown.length) return null;
+
+  const maxTotal = Math.max(...breakdown.map((item) => item.total));
+
+  return (
+    <Card className="shadow-none w-full">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium">Tasks by Label</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {breakdown.map((item) => (
+          <div key={item.labelId} className="flex items-center gap-3">
+            <div className="w-[140px] shrink-0 truncate">
+              <LabelBadge label={item} />
+            </div>
+            <div className="h-2 flex-1 rounded-full bg-muted">
+              <div
+                className="h-2 rounded-full"
+                style={{
+                  width: `${(item.total / maxTotal) * 100}%`,
+                  backgroundColor: item.color,
+                }}
+              />
+            </div>
+            <span className="w-[90px] shrink-0 text-right text-sm text-muted-foreground">
+              {item.completed}/{item.total} done
+            </span>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProjectLabelBreakdown;
@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { useParams } from "react-router-dom";
+import { Pencil, Play, Plus, Square, Trash2 } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ConfirmDialog } from "@/components/resuable/confirm-dialog";
+import { Permissions } from "@/constant";
+import { useAuthContext } from "@/context/auth-provider";
+import useSprints from "@/hooks/api/use-sprints";
+import useTaskTableFilter from "@/hooks/use-task-table-filter";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import {
+  closeSprintMutationFn,
+  deleteSprintMutationFn,
+  startSprintMutationFn,
+} from "@/lib/api";
+import { SprintStatusType } from "@/types/api.type";
+import SprintForm from "./sprint-form";
+import SprintReport from "./sprint-report";
+
+const ALL_TASKS_VALUE = "__all__";
+const BACKLOG_VALUE = "backlog";
+
+const sprintStatusLabels: Record<SprintStatusType, string> = {
+  PLANNED: "Planned",
+  ACTIVE: "Active",
+  CLOSED: "Closed",
+};
+
+const ProjectSprints = () => {
+  const param = useParams();
+  const projectId = param.projectId as string;
+  const workspaceId = useWorkspaceId();
+  const queryClient = useQueryClient();
+  const { hasPermission } = useAuthContext();
+  const canManage = hasPermission(Permissions.EDIT_PROJECT);
+
+  const [filters, setFilters] = useTaskTableFilter();
+  const [formOpen, setFormOpen] = useState<"create" | "edit" | null>(null);
+  const [confirm, setConfirm] = useState<"close" | "delete" | null>(null);
+  const [carryOverTo, setCarryOverTo] = useState(BACKLOG_VALUE);
+
+  const { data } = useSprints({ workspaceId, projectId });
+  const sprints = data?.sprints ?? [];
+  const selectedSprint = sprints.find((sprint) => sprint._id === filters.sprint);
+  const plannedSprints = sprints.filter(
+    (sprint) => sprint.status === "PLANNED" && sprint._id !== filters.sprint
+  );
+
+  const onSuccess = (data: { message: string }) => {
+    setConfirm(null);
+    queryClient.invalidateQueries({
+      queryKey: ["sprints", projectId],
+    });
+    queryClient.invalidateQueries({
+      queryKey: ["sprint-report", projectId],
+    });
+    queryClient.invalidateQueries({
+      queryKey: ["all-tasks", workspaceId],
+    });
+    toast({ title: "Success", description: data.message, variant: "success" });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const { mutate: startSprint, isPending: isStarting } = useMutation({
+    mutationFn: startSprintMutationFn,
+    onSuccess,
+    onError,
+  });
+
+  const { mutate: closeSprint, isPending: isClosing } = useMutation({
+    mutationFn: closeSprintMutationFn,
+    onSuccess,
+    onError,
+  });
+
+  const { mutate: deleteSprint, isPending: isDeleting } = useMutation({
+    mutationFn: deleteSprintMutationFn,
+    onSuccess: (data) => {
+      setFilters({ sprint: null });
+      onSuccess(data);
+    },
+    onError,
+  });
+
+  const sprintAction = selectedSprint && {
+    workspaceId,
+    projectId,
+    sprintId: selectedSprint._id,
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={filters.sprint ?? ALL_TASKS_VALUE}
+          onValueChange={(value) =>
+            setFilters({ sprint: value === ALL_TASKS_VALUE ? null : value })
+          }
+        >
+          <SelectTrigger className="h-8 w-[240px]">
+            <SelectValue placeholder="Select a sprint" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_TASKS_VALUE}>All tasks</SelectItem>
+            <SelectItem value={BACKLOG_VALUE}>Backlog</SelectItem>
+            {sprints.map((sprint) => (
+              <SelectItem key={sprint._id} value={sprint._id}>
+                {sprint.name} · {sprintStatusLabels[sprint.status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {selectedSprint && (
+          <Badge variant="outline">
+            {sprintStatusLabels[selectedSprint.status]}
+          </Badge>
+        )}
+
+        {canManage && (
+          <div className="flex flex-wrap items-center gap-2 sm:ml-auto">
+            {selectedSprint?.status === "PLANNED" && (
+              <Button
+                size="sm"
+                disabled={isStarting}
+                onClick={() => sprintAction && startSprint(sprintAction)}
+              >
+                <Play className="h-4 w-4" />
+                Start sprint
+              </Button>
+            )}
+            {selectedSprint?.status === "ACTIVE" && (
+              <Button size="sm" onClick={() => setConfirm("close")}>
+                <Square className="h-4 w-4" />
+                Close sprint
+              </Button>
+            )}
+            {selectedSprint && selectedSprint.status !== "CLOSED" && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setFormOpen("edit")}
+              >
+                <Pencil className="h-4 w-4" />
+                Edit
+              </Button>
+            )}
+            {selectedSprint?.status === "PLANNED" && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setConfirm("delete")}
+              >
+                <Trash2 className="h-4 w-4" />
+                Delete
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setFormOpen("create")}
+            >
+              <Plus className="h-4 w-4" />
+              New sprint
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {selectedSprint && (
+        <SprintReport projectId={projectId} sprintId={selectedSprint._id} />
+      )}
+
+      <Dialog
+        modal={true}
+        open={formOpen !== null}
+        onOpenChange={(open) => !open && setFormOpen(null)}
+      >
+        <DialogContent className="sm:max-w-lg border-0">
+          <SprintForm
+            projectId={projectId}
+            sprint={formOpen === "edit" ? selectedSprint : undefined}
+            onClose={() => setFormOpen(null)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        isOpen={confirm === "close"}
+        isLoading={isClosing}
+        onClose={() => setConfirm(null)}
+        onConfirm={() =>
+          sprintAction &&
+          closeSprint({
+            ...sprintAction,
+            carryOverTo: carryOverTo === BACKLOG_VALUE ? null : carryOverTo,
+          })
+        }
+        title="Close Sprint"
+        description="Finished tasks stay in this sprint. Where should unfinished tasks go?"
+        confirmText="Close sprint"
+      >
+        <Select value={carryOverTo} onValueChange={setCarryOverTo}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={BACKLOG_VALUE}>Backlog</SelectItem>
+            {plannedSprints.map((sprint) => (
+              <SelectItem key={sprint._id} value={sprint._id}>
+                {sprint.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </ConfirmDialog>
+
+      <ConfirmDialog
+        isOpen={confirm === "delete"}
+        isLoading={isDeleting}
+        onClose={() => setConfirm(null)}
+        onConfirm={() => sprintAction && deleteSprint(sprintAction)}
+        title="Delete Sprint"
+        description={`Delete ${selectedSprint?.name}? Its tasks move back to the backlog.`}
+        confirmText="Delete"
+      />
+    </div>
+  );
+};
+
+export default ProjectSprints;
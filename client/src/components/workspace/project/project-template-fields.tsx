@@ -0,0 +1,144 @@
+import { format } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import useGetWorkspaceMembers from "@/hooks/api/use-get-workspace-members";
+import { findMemberForRole } from "@/lib/helper";
+import { TemplateType } from "@/types/api.type";
+
+const BLANK_VALUE = "__blank__";
+
+type ProjectTemplateFieldsProps = {
+  workspaceId: string;
+  templates: TemplateType[];
+  template: TemplateType | null;
+  onTemplateChange: (template: TemplateType | null) => void;
+  startDate: Date;
+  onStartDateChange: (date: Date) => void;
+  roleAssignees: Record<string, string>;
+  onRoleAssigneesChange: (roleAssignees: Record<string, string>) => void;
+};
+
+const ProjectTemplateFields = ({
+  workspaceId,
+  templates,
+  template,
+  onTemplateChange,
+  startDate,
+  onStartDateChange,
+  roleAssignees,
+  onRoleAssigneesChange,
+}: ProjectTemplateFieldsProps) => {
+  const { data: memberData } = useGetWorkspaceMembers(workspaceId);
+  const members = memberData?.members ?? [];
+
+  const roles = Array.from(
+    new Set(template?.tasks.flatMap((task) => task.assigneeRoles) ?? [])
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label className="text-sm">
+          Template
+          <span className="text-xs font-extralight ml-2">Optional</span>
+        </Label>
+        <Select
+          value={template?._id ?? BLANK_VALUE}
+          onValueChange={(value) =>
+            onTemplateChange(
+              templates.find((option) => option._id === value) ?? null
+            )
+          }
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Blank project" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={BLANK_VALUE}>Blank project</SelectItem>
+            {templates.map((option) => (
+              <SelectItem key={option._id} value={option._id}>
+                {option.projectEmoji} {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {template && (
+          <p className="text-xs text-muted-foreground">
+            Creates {template.tasks.length} task
+            {template.tasks.length === 1 ? "" : "s"} dated from the start date.
+          </p>
+        )}
+      </div>
+
+      {template && (
+        <div className="space-y-2">
+          <Label className="text-sm">Start date</Label>
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full flex-1 pl-3 text-left font-normal"
+              >
+                {format(startDate, "PPP")}
+                <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={startDate}
+                onSelect={(date) => date && onStartDateChange(date)}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+        </div>
+      )}
+
+      {roles.map((role) => {
+        const fallback = findMemberForRole(members, role);
+        return (
+          <div key={role} className="space-y-2">
+            <Label className="text-sm">
+              {role.charAt(0) + role.slice(1).toLowerCase()} tasks assigned to
+            </Label>
+            <Select
+              value={roleAssignees[role] ?? fallback?.userId._id ?? ""}
+              onValueChange={(userId) =>
+                onRoleAssigneesChange({ ...roleAssignees, [role]: userId })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Unassigned" />
+              </SelectTrigger>
+              <SelectContent>
+                {members.map((member) => (
+                  <SelectItem key={member.userId._id} value={member.userId._id}>
+                    {member.userId.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ProjectTemplateFields;
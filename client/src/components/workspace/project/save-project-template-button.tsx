@@ -0,0 +1,48 @@
+import { LayoutTemplate, Loader } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { createProjectTemplateMutationFn } from "@/lib/api";
+
+const SaveProjectTemplateButton = ({
+  workspaceId,
+  projectId,
+}: {
+  workspaceId: string;
+  projectId: string;
+}) => {
+  const queryClient = useQueryClient();
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: createProjectTemplateMutationFn,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["templates", workspaceId] });
+      toast({
+        title: "Success",
+        description: `Saved "${data.template.name}" as a project template`,
+        variant: "success",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      disabled={isPending}
+      onClick={() => mutate({ workspaceId, projectId })}
+    >
+      {isPending ? <Loader className="animate-spin" /> : <LayoutTemplate />}
+      Save as template
+    </Button>
+  );
+};
+
+export default SaveProjectTemplateButton;
@@ -0,0 +1,196 @@
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Loader } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import { createSprintMutationFn, updateSprintMutationFn } from "@/lib/api";
+import { SprintType } from "@/types/api.type";
+
+const formSchema = z
+  .object({
+    name: z.string().trim().min(1, { message: "Sprint name is required" }),
+    goal: z.string().trim(),
+    startDate: z.string().min(1, { message: "Start date is required" }),
+    endDate: z.string().min(1, { message: "End date is required" }),
+  })
+  .refine((values) => values.endDate > values.startDate, {
+    message: "End date must be after the start date",
+    path: ["endDate"],
+  });
+
+const toDateInput = (date?: string) =>
+  date ? format(new Date(date), "yyyy-MM-dd") : "";
+
+export default function SprintForm(props: {
+  projectId: string;
+  sprint?: SprintType;
+  onClose: () => void;
+}) {
+  const { projectId, sprint, onClose } = props;
+  const workspaceId = useWorkspaceId();
+  const queryClient = useQueryClient();
+
+  const { mutate: createSprint, isPending: isCreating } = useMutation({
+    mutationFn: createSprintMutationFn,
+  });
+  const { mutate: updateSprint, isPending: isUpdating } = useMutation({
+    mutationFn: updateSprintMutationFn,
+  });
+  const isPending = isCreating || isUpdating;
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: sprint?.name ?? "",
+      goal: sprint?.goal ?? "",
+      startDate: toDateInput(sprint?.startDate),
+      endDate: toDateInput(sprint?.endDate),
+    },
+  });
+
+  const onSubmit = (values: z.infer<typeof formSchema>) => {
+    if (isPending) return;
+
+    const data = {
+      name: values.name,
+      goal: values.goal || null,
+      startDate: new Date(values.startDate).toISOString(),
+      endDate: new Date(values.endDate).toISOString(),
+    };
+    const callbacks = {
+      onSuccess: (data: { message: string }) => {
+        queryClient.invalidateQueries({
+          queryKey: ["sprints", projectId],
+        });
+        queryClient.invalidateQueries({
+          queryKey: ["sprint-report", projectId],
+        });
+        toast({
+          title: "Success",
+          description: data.message,
+          variant: "success",
+        });
+        onClose();
+      },
+      onError: (error: Error) => {
+        toast({
+          title: "Error",
+          description: error.message,
+          variant: "destructive",
+        });
+      },
+    };
+
+    if (sprint) {
+      updateSprint(
+        { workspaceId, projectId, sprintId: sprint._id, data },
+        callbacks
+      );
+    } else {
+      createSprint({ workspaceId, projectId, data }, callbacks);
+    }
+  };
+
+  return (
+    <div className="w-full h-auto max-w-full">
+      <div className="h-full">
+        <div className="mb-5 pb-2 border-b">
+          <h1
+            className="text-xl tracking-[-0.16px] dark:text-[#fcfdffef] font-semibold mb-1
+           text-center sm:text-left"
+          >
+            {sprint ? "Edit Sprint" : "New Sprint"}
+          </h1>
+          <p className="text-muted-foreground text-sm leading-tight">
+            Time-box the work the team commits to in this project
+          </p>
+        </div>
+        <Form {...form}>
+          <form className="space-y-4" onSubmit={form.handleSubmit(onSubmit)}>
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Sprint name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Sprint 12" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="goal"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>
+                    Goal
+                    <span className="text-xs font-extralight ml-2">
+                      Optional
+                    </span>
+                  </FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Start date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="endDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>End date</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <Button
+              disabled={isPending}
+              className="flex place-self-end h-[40px] font-semibold"
+              type="submit"
+            >
+              {isPending && <Loader className="animate-spin" />}
+              {sprint ? "Update" : "Create"}
+            </Button>
+          </form>
+        </Form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { format } from "date-fns";
+import { Loader } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { getSprintReportQueryFn } from "@/lib/api";
+import { SprintReportTaskType } from "@/types/api.type";
+import TaskStatusBadge from "../task/task-status-badge";
+
+const ReportSection = ({
+  title,
+  tasks,
+}: {
+  title: string;
+  tasks: SprintReportTaskType[];
+}) => (
+  <div className="rounded-md border p-3">
+    <div className="flex items-baseline justify-between">
+      <span className="text-sm text-muted-foreground">{title}</span>
+      <span className="text-2xl font-semibold">{tasks.length}</span>
+    </div>
+    {tasks.length > 0 && (
+      <ul className="mt-2 max-h-[160px] space-y-1 overflow-y-auto scrollbar">
+        {tasks.map((task) => (
+          <li key={task._id} className="flex items-center gap-2 text-sm">
+            <span className="shrink-0 font-medium">{task.taskCode}</span>
+            <span className="flex-1 truncate">{task.title}</span>
+            <TaskStatusBadge status={task.status} />
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const SprintReport = ({
+  projectId,
+  sprintId,
+}: {
+  projectId: string;
+  sprintId: string;
+}) => {
+  const workspaceId = useWorkspaceId();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["sprint-report", projectId, sprintId],
+    queryFn: () => getSprintReportQueryFn({ workspaceId, projectId, sprintId }),
+    staleTime: 0,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!data) return null;
+
+  const { sprint, report } = data;
+  const isClosed = sprint.status === "CLOSED";
+
+  return (
+    <Card className="shadow-none w-full">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium">
+          {sprint.name} · {format(sprint.startDate, "PP")} –{" "}
+          {format(sprint.endDate, "PP")}
+        </CardTitle>
+        {sprint.goal && (
+          <p className="text-sm text-muted-foreground">{sprint.goal}</p>
+        )}
+      </CardHeader>
+      <CardContent className="grid gap-3 md:grid-cols-2 xl:grid-cols-4">
+        <ReportSection
+          title={sprint.status === "PLANNED" ? "Planned" : "Committed"}
+          tasks={report.committed}
+        />
+        <ReportSection title="Completed" tasks={report.completed} />
+        <ReportSection title="Added mid-sprint" tasks={report.addedMidSprint} />
+        <ReportSection
+          title={isClosed ? "Carried over" : "Remaining"}
+          tasks={isClosed ? report.carriedOver : report.remaining}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SprintReport;
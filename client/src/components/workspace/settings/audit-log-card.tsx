@@ -0,0 +1,39 @@
+import { Link } from "react-router-dom";
+import { ScrollText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+
+const AuditLogCard = () => {
+  const workspaceId = useWorkspaceId();
+
+  return (
+    <div className="w-full">
+      <div className="mb-5 border-b">
+        <h1
+          className="text-[17px] tracking-[-0.16px] dark:text-[#fcfdffef] font-semibold mb-1.5
+           text-center sm:text-left"
+        >
+          Audit Log
+        </h1>
+      </div>
+      <div className="flex flex-col items-start justify-between py-0">
+        <p className="flex-1 mb-2">
+          Review sign-ins, member joins, role changes, workspace edits and
+          project or task deletions, or export them as CSV.
+        </p>
+        <Button
+          asChild
+          variant="outline"
+          className="shrink-0 flex place-self-end h-[40px]"
+        >
+          <Link to={`/workspace/${workspaceId}/settings/audit-log`}>
+            <ScrollText />
+            View audit log
+          </Link>
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default AuditLogCard;
@@ -0,0 +1,336 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Download, Loader, ShieldCheck } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import useAuditLogs from "@/hooks/api/use-audit-logs";
+import useGetWorkspaceMembers from "@/hooks/api/use-get-workspace-members";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import { exportAuditLogsFn, verifyAuditLogMutationFn } from "@/lib/api";
+import { downloadBlob } from "@/lib/helper";
+import { AuditActionType, AuditLogType } from "@/types/api.type";
+
+const AUDIT_PAGE_SIZE = 20;
+const ALL = "all";
+
+type AuditFieldChangeType = {
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+};
+
+const actionLabels: Record<AuditActionType, string> = {
+  USER_LOGGED_IN: "Signed in",
+  MEMBER_JOINED: "Member joined",
+  MEMBER_ROLE_CHANGED: "Role changed",
+  WORKSPACE_UPDATED: "Workspace edited",
+  PROJECT_DELETED: "Project deleted",
+  PROJECT_RESTORED: "Project restored",
+  TASK_DELETED: "Task deleted",
+  TASK_RESTORED: "Task restored",
+  PROJECT_ARCHIVED: "Project archived",
+  PROJECT_UNARCHIVED: "Project unarchived",
+  TASK_MOVED: "Task moved",
+};
+
+const AuditLogTable = () => {
+  const workspaceId = useWorkspaceId();
+
+  const [action, setAction] = useState<AuditActionType | undefined>();
+  const [actorId, setActorId] = useState<string | undefined>();
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [pageNumber, setPageNumber] = useState(1);
+
+  const filters = {
+    workspaceId,
+    action,
+    actorId,
+    from: from || undefined,
+    to: to || undefined,
+  };
+
+  const { data, isLoading, isFetching } = useAuditLogs({
+    ...filters,
+    pageNumber,
+    pageSize: AUDIT_PAGE_SIZE,
+  });
+  const { data: memberData } = useGetWorkspaceMembers(workspaceId);
+
+  const logs = data?.logs ?? [];
+  const totalPages = data?.pagination.totalPages ?? 0;
+  const members = memberData?.members ?? [];
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const { mutate: exportLogs, isPending: isExporting } = useMutation({
+    mutationFn: exportAuditLogsFn,
+    onSuccess: (blob) => downloadBlob(blob, "audit-log.csv"),
+    onError,
+  });
+
+  const { mutate: verifyLog, isPending: isVerifying } = useMutation({
+    mutationFn: verifyAuditLogMutationFn,
+    onSuccess: ({ message, verification }) => {
+      toast({
+        title: message,
+        description: verification.valid
+          ? `${verification.checkedCount} entries checked.`
+          : `The chain breaks at entry #${verification.brokenAtSequence}.`,
+        variant: verification.valid ? "success" : "destructive",
+      });
+    },
+    onError,
+  });
+
+  // Filters change the result set, so paging restarts from the first page.
+  const withPageReset = (setter: (value: string) => void) => {
+    return (value: string) => {
+      setter(value);
+      setPageNumber(1);
+    };
+  };
+
+  const memberName = (userId: string | null) =>
+    members.find((member) => member.userId._id === userId)?.userId.name ??
+    "a former member";
+
+  const describe = (log: AuditLogType) => {
+    const { metadata } = log;
+    switch (log.action) {
+      case "USER_LOGGED_IN":
+        return [
+          `Signed in with ${String(metadata.provider).toLowerCase()}`,
+          metadata.ipAddress ? `from ${metadata.ipAddress}` : null,
+        ]
+          .filter(Boolean)
+          .join(" ");
+      case "MEMBER_JOINED":
+        return `Joined by invite link as ${metadata.role}`;
+      case "MEMBER_ROLE_CHANGED":
+        return `${memberName(log.targetId)}: ${
+          metadata.previousRole ?? "none"
+        } → ${metadata.role}`;
+      case "WORKSPACE_UPDATED":
+        return (metadata.changes as AuditFieldChangeType[])
+          .map(
+            (change) =>
+              `${change.field}: "${change.oldValue ?? ""}" → "${
+                change.newValue ?? ""
+              }"`
+          )
+          .join(", ");
+      case "PROJECT_DELETED":
+        return `"${metadata.name}" with ${metadata.deletedTaskCount} tasks`;
+      case "PROJECT_ARCHIVED":
+      case "PROJECT_UNARCHIVED":
+        return `"${metadata.name}"`;
+      case "PROJECT_RESTORED":
+        return `"${metadata.name}" with ${metadata.restoredTaskCount} tasks`;
+      case "TASK_DELETED":
+      case "TASK_RESTORED":
+        return `${metadata.taskCode} "${metadata.title}"`;
+      case "TASK_MOVED":
+        return `${metadata.taskCode} "${metadata.title}": ${
+          metadata.fromWorkspace
+            ? `${metadata.fromWorkspace} / ${metadata.fromProject}`
+            : metadata.fromProject
+        } → ${
+          metadata.toWorkspace
+            ? `${metadata.toWorkspace} / ${metadata.toProject}`
+            : metadata.toProject
+        }${metadata.newTaskCode ? ` as ${metadata.newTaskCode}` : ""}`;
+      default:
+        return "";
+    }
+  };
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={action ?? ALL}
+          onValueChange={withPageReset((value) =>
+            setAction(value === ALL ? undefined : (value as AuditActionType))
+          )}
+        >
+          <SelectTrigger className="h-8 w-[170px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All actions</SelectItem>
+            {Object.entries(actionLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={actorId ?? ALL}
+          onValueChange={withPageReset((value) =>
+            setActorId(value === ALL ? undefined : value)
+          )}
+        >
+          <SelectTrigger className="h-8 w-[170px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All members</SelectItem>
+            {members.map((member) => (
+              <SelectItem key={member.userId._id} value={member.userId._id}>
+                {member.userId.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          aria-label="From"
+          className="h-8 w-[140px]"
+          value={from}
+          onChange={(event) => withPageReset(setFrom)(event.target.value)}
+        />
+        <Input
+          type="date"
+          aria-label="To"
+          className="h-8 w-[140px]"
+          value={to}
+          onChange={(event) => withPageReset(setTo)(event.target.value)}
+        />
+        <div className="flex gap-2 lg:ml-auto">
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={isVerifying}
+            onClick={() => verifyLog(workspaceId)}
+          >
+            {isVerifying ? (
+              <Loader className="h-4 w-4 animate-spin" />
+            ) : (
+              <ShieldCheck className="h-4 w-4" />
+            )}
+            Verify integrity
+          </Button>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={isExporting}
+            onClick={() => exportLogs(filters)}
+          >
+            {isExporting ? (
+              <Loader className="h-4 w-4 animate-spin" />
+            ) : (
+              <Download className="h-4 w-4" />
+            )}
+            Export CSV
+          </Button>
+        </div>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-[170px]">Date</TableHead>
+              <TableHead>Member</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={4} className="h-24 text-center">
+                  <Loader className="mx-auto h-5 w-5 animate-spin" />
+                </TableCell>
+              </TableRow>
+            ) : logs.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={4}
+                  className="h-24 text-center text-muted-foreground"
+                >
+                  No audit entries match these filters.
+                </TableCell>
+              </TableRow>
+            ) : (
+              logs.map((log) => (
+                <TableRow key={log._id}>
+                  <TableCell className="whitespace-nowrap text-muted-foreground">
+                    {format(new Date(log.createdAt), "PP p")}
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">
+                      {log.actor?.name ?? "Deleted user"}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {log.actor?.email}
+                    </div>
+                  </TableCell>
+                  <TableCell className="whitespace-nowrap">
+                    {actionLabels[log.action]}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {describe(log)}
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="flex items-center justify-end gap-2 text-sm">
+          <span className="text-muted-foreground">
+            Page {pageNumber} of {totalPages}
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={pageNumber <= 1 || isFetching}
+            onClick={() => setPageNumber((page) => page - 1)}
+          >
+            Previous
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={pageNumber >= totalPages || isFetching}
+            onClick={() => setPageNumber((page) => page + 1)}
+          >
+            Next
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogTable;
@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { Loader } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { useAuthContext } from "@/context/auth-provider";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import { updateClarificationPolicyMutationFn } from "@/lib/api";
+import type { ClarificationResponsePolicyType } from "@/types/api.type";
+
+const policyOptions: {
+  value: ClarificationResponsePolicyType;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "ADMINS",
+    label: "Admins only",
+    description: "Only the workspace owner and admins can answer.",
+  },
+  {
+    value: "ADMINS_AND_ASSIGNEES",
+    label: "Admins and assignees",
+    description: "Assignees can also answer questions about their own tasks.",
+  },
+  {
+    value: "ANY_MEMBER",
+    label: "Any member",
+    description: "Every workspace member can answer.",
+  },
+];
+
+const ClarificationPolicyCard = () => {
+  const queryClient = useQueryClient();
+  const workspaceId = useWorkspaceId();
+  const { workspace } = useAuthContext();
+
+  const currentPolicy = workspace?.clarificationResponsePolicy ?? "ADMINS";
+  const [policy, setPolicy] =
+    useState<ClarificationResponsePolicyType>(currentPolicy);
+
+  useEffect(() => {
+    setPolicy(currentPolicy);
+  }, [currentPolicy]);
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: updateClarificationPolicyMutationFn,
+  });
+
+  const handleSave = () => {
+    if (isPending) return;
+
+    mutate(
+      { workspaceId, clarificationResponsePolicy: policy },
+      {
+        onSuccess: () => {
+          queryClient.invalidateQueries({
+            queryKey: ["workspace", workspaceId],
+          });
+          toast({
+            title: "Success",
+            description: "Clarification policy updated successfully",
+            variant: "success",
+          });
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="w-full">
+      <div className="mb-5 border-b">
+        <h1
+          className="text-[17px] tracking-[-0.16px] dark:text-[#fcfdffef] font-semibold mb-1.5
+           text-center sm:text-left"
+        >
+          Clarifications
+        </h1>
+      </div>
+      <div className="space-y-3">
+        <p className="text-sm">Who can answer clarification questions?</p>
+        <Select
+          value={policy}
+          onValueChange={(value) =>
+            setPolicy(value as ClarificationResponsePolicyType)
+          }
+        >
+          <SelectTrigger className="w-full sm:w-[280px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {policyOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {policyOptions.find((option) => option.value === policy)?.description}
+        </p>
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            disabled={isPending || policy === currentPolicy}
+            onClick={handleSave}
+          >
+            {isPending && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+            Save policy
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ClarificationPolicyCard;
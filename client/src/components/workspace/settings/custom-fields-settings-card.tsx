@@ -0,0 +1,329 @@
+import { useState } from "react";
+import { Loader, Pencil, Trash2, X } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { CustomFieldTypeEnum, CustomFieldTypeEnumType } from "@/constant";
+import useCustomFields from "@/hooks/api/use-custom-fields";
+import useGetProjectsInWorkspaceQuery from "@/hooks/api/use-get-projects";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import {
+  createCustomFieldMutationFn,
+  deleteCustomFieldMutationFn,
+  updateCustomFieldMutationFn,
+} from "@/lib/api";
+import { transformOptions } from "@/lib/helper";
+import type { CustomFieldType } from "@/types/api.type";
+
+const WORKSPACE_SCOPE_VALUE = "__workspace__";
+
+const fieldTypeOptions = transformOptions(Object.values(CustomFieldTypeEnum));
+
+const isSelectType = (type: string) =>
+  type === CustomFieldTypeEnum.SINGLE_SELECT ||
+  type === CustomFieldTypeEnum.MULTI_SELECT;
+
+const parseOptions = (value: string) =>
+  Array.from(
+    new Set(
+      value
+        .split(",")
+        .map((option) => option.trim())
+        .filter(Boolean)
+    )
+  );
+
+const CustomFieldsSettingsCard = () => {
+  const queryClient = useQueryClient();
+  const workspaceId = useWorkspaceId();
+
+  const [name, setName] = useState("");
+  const [type, setType] = useState<CustomFieldTypeEnumType>(
+    CustomFieldTypeEnum.TEXT
+  );
+  const [options, setOptions] = useState("");
+  const [scope, setScope] = useState(WORKSPACE_SCOPE_VALUE);
+  const [editing, setEditing] = useState<{
+    fieldId: string;
+    name: string;
+    options: string;
+  } | null>(null);
+
+  const { data, isLoading } = useCustomFields(workspaceId);
+  const fields = data?.fields ?? [];
+
+  const { data: projectData } = useGetProjectsInWorkspaceQuery({
+    workspaceId,
+  });
+  const projects = projectData?.projects ?? [];
+
+  const onSuccess = (description: string) => {
+    queryClient.invalidateQueries({
+      queryKey: ["custom-fields", workspaceId],
+    });
+    queryClient.invalidateQueries({
+      queryKey: ["all-tasks", workspaceId],
+    });
+    toast({ title: "Success", description, variant: "success" });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const { mutate: createField, isPending: isCreating } = useMutation({
+    mutationFn: createCustomFieldMutationFn,
+    onSuccess: () => {
+      setName("");
+      setOptions("");
+      onSuccess("Custom field created successfully");
+    },
+    onError,
+  });
+
+  const { mutate: updateField, isPending: isUpdating } = useMutation({
+    mutationFn: updateCustomFieldMutationFn,
+    onSuccess: () => {
+      setEditing(null);
+      onSuccess("Custom field updated successfully");
+    },
+    onError,
+  });
+
+  const { mutate: deleteField, isPending: isDeleting } = useMutation({
+    mutationFn: deleteCustomFieldMutationFn,
+    onSuccess: () => onSuccess("Custom field deleted successfully"),
+    onError,
+  });
+
+  const handleCreate = () => {
+    if (!name.trim() || isCreating) return;
+
+    createField({
+      workspaceId,
+      data: {
+        name: name.trim(),
+        type,
+        ...(isSelectType(type) && { options: parseOptions(options) }),
+        projectId: scope === WORKSPACE_SCOPE_VALUE ? null : scope,
+      },
+    });
+  };
+
+  const handleUpdate = (field: CustomFieldType) => {
+    if (!editing || isUpdating) return;
+
+    updateField({
+      workspaceId,
+      fieldId: field._id,
+      data: {
+        name: editing.name.trim(),
+        ...(isSelectType(field.type) && {
+          options: parseOptions(editing.options),
+        }),
+      },
+    });
+  };
+
+  const getScopeLabel = (field: CustomFieldType) =>
+    field.project
+      ? projects.find((project) => project._id === field.project)?.name ??
+        "Project"
+      : "Workspace";
+
+  return (
+    <div className="w-full">
+      <div className="mb-5 border-b">
+        <h1
+          className="text-[17px] tracking-[-0.16px] dark:text-[#fcfdffef] font-semibold mb-1.5
+           text-center sm:text-left"
+        >
+          Custom Fields
+        </h1>
+      </div>
+
+      <div className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : fields.length === 0 ? (
+          <p className="text-sm text-muted-foreground border rounded-md px-3 py-4">
+            No custom fields yet.
+          </p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {fields.map((field) => (
+              <li key={field._id} className="space-y-2 px-3 py-2">
+                {editing?.fieldId === field._id ? (
+                  <div className="flex flex-col gap-2">
+                    <Input
+                      className="h-8"
+                      value={editing.name}
+                      onChange={(event) =>
+                        setEditing({ ...editing, name: event.target.value })
+                      }
+                    />
+                    {isSelectType(field.type) && (
+                      <Input
+                        className="h-8"
+                        placeholder="Options, separated by commas"
+                        value={editing.options}
+                        onChange={(event) =>
+                          setEditing({
+                            ...editing,
+                            options: event.target.value,
+                          })
+                        }
+                      />
+                    )}
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditing(null)}
+                      >
+                        <X className="h-4 w-4" />
+                        Cancel
+                      </Button>
+                      <Button
+                        type="button"
+                        size="sm"
+                        disabled={isUpdating}
+                        onClick={() => handleUpdate(field)}
+                      >
+                        {isUpdating && (
+                          <Loader className="mr-2 h-4 w-4 animate-spin" />
+                        )}
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-medium">{field.name}</span>
+                      <Badge variant="outline" className="capitalize">
+                        {field.type.replace(/_/g, " ").toLowerCase()}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {getScopeLabel(field)}
+                      </span>
+                      {field.options.length > 0 && (
+                        <span className="text-xs text-muted-foreground">
+                          {field.options.join(", ")}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() =>
+                          setEditing({
+                            fieldId: field._id,
+                            name: field.name,
+                            options: field.options.join(", "),
+                          })
+                        }
+                      >
+                        <Pencil className="h-4 w-4" />
+                        <span className="sr-only">Edit field</span>
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={isDeleting}
+                        onClick={() =>
+                          deleteField({ workspaceId, fieldId: field._id })
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete field</span>
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-2 rounded-md border p-3">
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Input
+              placeholder="Field name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+            <Select
+              value={type}
+              onValueChange={(value) =>
+                setType(value as CustomFieldTypeEnumType)
+              }
+            >
+              <SelectTrigger className="sm:w-[170px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {fieldTypeOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger className="sm:w-[170px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={WORKSPACE_SCOPE_VALUE}>
+                  All projects
+                </SelectItem>
+                {projects.map((project) => (
+                  <SelectItem key={project._id} value={project._id}>
+                    {project.emoji} {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {isSelectType(type) && (
+            <Input
+              placeholder="Options, separated by commas"
+              value={options}
+              onChange={(event) => setOptions(event.target.value)}
+            />
+          )}
+          <div className="flex justify-end">
+            <Button type="button" disabled={isCreating} onClick={handleCreate}>
+              {isCreating && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+              Add field
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomFieldsSettingsCard;
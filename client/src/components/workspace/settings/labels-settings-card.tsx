@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { Loader, Pencil, Trash2, X } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import useLabels from "@/hooks/api/use-labels";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import {
+  createLabelMutationFn,
+  deleteLabelMutationFn,
+  updateLabelMutationFn,
+} from "@/lib/api";
+import { LabelBadge } from "../task/task-labels";
+
+const DEFAULT_LABEL_COLOR = "#3b82f6";
+
+const ColorInput = ({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (color: string) => void;
+}) => (
+  <input
+    type="color"
+    aria-label="Label color"
+    className="h-8 w-8 shrink-0 cursor-pointer rounded border bg-transparent"
+    value={value}
+    onChange={(event) => onChange(event.target.value)}
+  />
+);
+
+const LabelsSettingsCard = () => {
+  const queryClient = useQueryClient();
+  const workspaceId = useWorkspaceId();
+
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(DEFAULT_LABEL_COLOR);
+  const [editing, setEditing] = useState<{
+    labelId: string;
+    name: string;
+    color: string;
+  } | null>(null);
+
+  const { data, isLoading } = useLabels(workspaceId);
+  const labels = data?.labels ?? [];
+
+  const onSuccess = (description: string) => {
+    queryClient.invalidateQueries({
+      queryKey: ["labels", workspaceId],
+    });
+    queryClient.invalidateQueries({
+      queryKey: ["all-tasks", workspaceId],
+    });
+    toast({ title: "Success", description, variant: "success" });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const { mutate: createLabel, isPending: isCreating } = useMutation({
+    mutationFn: createLabelMutationFn,
+    onSuccess: () => {
+      setName("");
+      onSuccess("Label created successfully");
+    },
+    onError,
+  });
+
+  const { mutate: updateLabel, isPending: isUpdating } = useMutation({
+    mutationFn: updateLabelMutationFn,
+    onSuccess: () => {
+      setEditing(null);
+      onSuccess("Label updated successfully");
+    },
+    onError,
+  });
+
+  const { mutate: deleteLabel, isPending: isDeleting } = useMutation({
+    mutationFn: deleteLabelMutationFn,
+    onSuccess: () => onSuccess("Label deleted successfully"),
+    onError,
+  });
+
+  const handleCreate = () => {
+    if (!name.trim() || isCreating) return;
+
+    createLabel({ workspaceId, data: { name: name.trim(), color } });
+  };
+
+  const handleUpdate = () => {
+    if (!editing || !editing.name.trim() || isUpdating) return;
+
+    updateLabel({
+      workspaceId,
+      labelId: editing.labelId,
+      data: { name: editing.name.trim(), color: editing.color },
+    });
+  };
+
+  return (
+    <div className="w-full">
+      <div className="mb-5 border-b">
+        <h1
+          className="text-[17px] tracking-[-0.16px] dark:text-[#fcfdffef] font-semibold mb-1.5
+           text-center sm:text-left"
+        >
+          Labels
+        </h1>
+      </div>
+
+      <div className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : labels.length === 0 ? (
+          <p className="text-sm text-muted-foreground border rounded-md px-3 py-4">
+            No labels yet.
+          </p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {labels.map((label) => (
+              <li key={label._id} className="px-3 py-2">
+                {editing?.labelId === label._id ? (
+                  <div className="flex items-center gap-2">
+                    <ColorInput
+                      value={editing.color}
+                      onChange={(value) =>
+                        setEditing({ ...editing, color: value })
+                      }
+                    />
+                    <Input
+                      className="h-8"
+                      value={editing.name}
+                      onChange={(event) =>
+                        setEditing({ ...editing, name: event.target.value })
+                      }
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0"
+                      onClick={() => setEditing(null)}
+                    >
+                      <X className="h-4 w-4" />
+                      <span className="sr-only">Cancel</span>
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      disabled={isUpdating}
+                      onClick={handleUpdate}
+                    >
+                      {isUpdating && (
+                        <Loader className="mr-2 h-4 w-4 animate-spin" />
+                      )}
+                      Save
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between gap-2">
+                    <LabelBadge label={label} />
+                    <div className="flex items-center">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() =>
+                          setEditing({
+                            labelId: label._id,
+                            name: label.name,
+                            color: label.color,
+                          })
+                        }
+                      >
+                        <Pencil className="h-4 w-4" />
+                        <span className="sr-only">Edit label</span>
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={isDeleting}
+                        onClick={() =>
+                          deleteLabel({ workspaceId, labelId: label._id })
+                        }
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete label</span>
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex items-center gap-2 rounded-md border p-3">
+          <ColorInput value={color} onChange={setColor} />
+          <Input
+            placeholder="Label name"
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") handleCreate();
+            }}
+          />
+          <Button type="button" disabled={isCreating} onClick={handleCreate}>
+            {isCreating && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+            Add label
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LabelsSettingsCard;
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Loader, Trash2 } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ConfirmDialog } from "@/components/resuable/confirm-dialog";
+import useTemplates from "@/hooks/api/use-templates";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import { deleteTemplateMutationFn } from "@/lib/api";
+import { TemplateType } from "@/types/api.type";
+
+const TemplatesSettingsCard = () => {
+  const queryClient = useQueryClient();
+  const workspaceId = useWorkspaceId();
+  const [deleting, setDeleting] = useState<TemplateType | null>(null);
+
+  const { data, isLoading } = useTemplates(workspaceId);
+  const templates = data?.templates ?? [];
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: deleteTemplateMutationFn,
+    onSuccess: () => {
+      setDeleting(null);
+      queryClient.invalidateQueries({ queryKey: ["templates", workspaceId] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="w-full">
+      <div className="mb-5 border-b">
+        <h1
+          className="text-[17px] tracking-[-0.16px] dark:text-[#fcfdffef] font-semibold mb-1.5
+           text-center sm:text-left"
+        >
+          Templates
+        </h1>
+        <p className="text-sm text-muted-foreground mb-3">
+          Save a project from its header, or a task from its row menu, to reuse
+          it here.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : templates.length === 0 ? (
+        <p className="text-sm text-muted-foreground border rounded-md px-3 py-4">
+          No templates yet.
+        </p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {templates.map((template) => (
+            <li
+              key={template._id}
+              className="flex items-center justify-between gap-2 px-3 py-2"
+            >
+              <div className="flex min-w-0 flex-col">
+                <span className="truncate text-sm font-medium">
+                  {template.projectEmoji} {template.name}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {template.type === "PROJECT"
+                    ? `${template.tasks.length} tasks`
+                    : `${template.tasks[0]?.checklist.length ?? 0} checklist items`}
+                  {template.createdBy && ` · by ${template.createdBy.name}`}
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className="capitalize">
+                  {template.type.toLowerCase()}
+                </Badge>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  aria-label={`Delete ${template.name}`}
+                  onClick={() => setDeleting(template)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <ConfirmDialog
+        isOpen={Boolean(deleting)}
+        isLoading={isPending}
+        onClose={() => setDeleting(null)}
+        onConfirm={() =>
+          deleting && mutate({ workspaceId, templateId: deleting._id })
+        }
+        title="Delete template"
+        description={`Are you sure you want to delete "${deleting?.name}"? Projects and tasks created from it are kept.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+      />
+    </div>
+  );
+};
+
+export default TemplatesSettingsCard;
@@ -0,0 +1,342 @@
+import { useEffect, useState } from "react";
+import { ArrowDown, ArrowUp, Loader, Trash2 } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { TaskStatusCategoryEnum, TaskStatusCategoryEnumType } from "@/constant";
+import useWorkspaceWorkflow from "@/hooks/api/use-workspace-workflow";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import { updateWorkspaceWorkflowMutationFn } from "@/lib/api";
+import { formatStatusToEnum, transformOptions } from "@/lib/helper";
+import type { TaskWorkflowType, WorkflowStatusType } from "@/types/api.type";
+
+const categoryOptions = transformOptions(Object.values(TaskStatusCategoryEnum));
+
+const WorkflowSettingsCard = () => {
+  const queryClient = useQueryClient();
+  const workspaceId = useWorkspaceId();
+  const { workflow, isLoading } = useWorkspaceWorkflow();
+
+  const [draft, setDraft] = useState<TaskWorkflowType>(workflow);
+  const [restrictTransitions, setRestrictTransitions] = useState(false);
+  const [newStatusName, setNewStatusName] = useState("");
+
+  useEffect(() => {
+    setDraft(workflow);
+    setRestrictTransitions(workflow.transitions.length > 0);
+  }, [workflow]);
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: updateWorkspaceWorkflowMutationFn,
+  });
+
+  const updateStatus = (key: string, changes: Partial<WorkflowStatusType>) => {
+    setDraft((prev) => ({
+      ...prev,
+      statuses: prev.statuses.map((status) =>
+        status.key === key ? { ...status, ...changes } : status
+      ),
+    }));
+  };
+
+  const moveStatus = (index: number, offset: number) => {
+    setDraft((prev) => {
+      const statuses = [...prev.statuses];
+      const target = index + offset;
+      if (target < 0 || target >= statuses.length) return prev;
+      [statuses[index], statuses[target]] = [statuses[target], statuses[index]];
+      return { ...prev, statuses };
+    });
+  };
+
+  const removeStatus = (key: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      statuses: prev.statuses.filter((status) => status.key !== key),
+      transitions: prev.transitions.filter(
+        (transition) => transition.from !== key && transition.to !== key
+      ),
+    }));
+  };
+
+  const addStatus = () => {
+    const name = newStatusName.trim();
+    const key = formatStatusToEnum(name).replace(/[^A-Z0-9_]/g, "");
+    if (!key) return;
+
+    if (draft.statuses.some((status) => status.key === key)) {
+      toast({
+        title: "Error",
+        description: `A status with the key ${key} already exists`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setDraft((prev) => ({
+      ...prev,
+      statuses: [
+        ...prev.statuses,
+        { key, name, category: TaskStatusCategoryEnum.ACTIVE },
+      ],
+    }));
+    setNewStatusName("");
+  };
+
+  const isTransitionEnabled = (from: string, to: string) =>
+    draft.transitions.some(
+      (transition) => transition.from === from && transition.to === to
+    );
+
+  const toggleTransition = (from: string, to: string) => {
+    setDraft((prev) => ({
+      ...prev,
+      transitions: isTransitionEnabled(from, to)
+        ? prev.transitions.filter(
+            (transition) => !(transition.from === from && transition.to === to)
+          )
+        : [...prev.transitions, { from, to }],
+    }));
+  };
+
+  const handleSave = () => {
+    if (isPending) return;
+
+    mutate(
+      {
+        workspaceId,
+        data: {
+          ...draft,
+          transitions: restrictTransitions ? draft.transitions : [],
+        },
+      },
+      {
+        onSuccess: () => {
+          queryClient.invalidateQueries({
+            queryKey: ["workspace-workflow", workspaceId],
+          });
+          queryClient.invalidateQueries({
+            queryKey: ["all-tasks", workspaceId],
+          });
+          toast({
+            title: "Success",
+            description: "Workflow updated successfully",
+            variant: "success",
+          });
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const notStartedStatuses = draft.statuses.filter(
+    (status) => status.category === TaskStatusCategoryEnum.NOT_STARTED
+  );
+
+  return (
+    <div className="w-full">
+      <div className="mb-5 border-b">
+        <h1
+          className="text-[17px] tracking-[-0.16px] dark:text-[#fcfdffef] font-semibold mb-1.5
+           text-center sm:text-left"
+        >
+          Task Workflow
+        </h1>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="space-y-5">
+          <ul className="divide-y rounded-md border">
+            {draft.statuses.map((status, index) => (
+              <li key={status.key} className="flex items-center gap-2 px-3 py-2">
+                <input
+                  type="color"
+                  aria-label="Status color"
+                  className="h-8 w-8 shrink-0 cursor-pointer rounded border bg-transparent"
+                  value={status.color || "#64748b"}
+                  onChange={(event) =>
+                    updateStatus(status.key, { color: event.target.value })
+                  }
+                />
+                <Input
+                  className="h-8"
+                  value={status.name}
+                  onChange={(event) =>
+                    updateStatus(status.key, { name: event.target.value })
+                  }
+                />
+                <Select
+                  value={status.category}
+                  onValueChange={(value) =>
+                    updateStatus(status.key, {
+                      category: value as TaskStatusCategoryEnumType,
+                    })
+                  }
+                >
+                  <SelectTrigger className="h-8 w-[150px] shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categoryOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  disabled={index === 0}
+                  onClick={() => moveStatus(index, -1)}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                  <span className="sr-only">Move up</span>
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  disabled={index === draft.statuses.length - 1}
+                  onClick={() => moveStatus(index, 1)}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                  <span className="sr-only">Move down</span>
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  disabled={status.key === draft.defaultStatus}
+                  onClick={() => removeStatus(status.key)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span className="sr-only">Remove status</span>
+                </Button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex items-center gap-2">
+            <Input
+              placeholder="New status name"
+              value={newStatusName}
+              onChange={(event) => setNewStatusName(event.target.value)}
+            />
+            <Button type="button" variant="outline" onClick={addStatus}>
+              Add status
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Default status for new tasks</Label>
+            <Select
+              value={draft.defaultStatus}
+              onValueChange={(value) =>
+                setDraft((prev) => ({ ...prev, defaultStatus: value }))
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a default status" />
+              </SelectTrigger>
+              <SelectContent>
+                {notStartedStatuses.map((status) => (
+                  <SelectItem key={status.key} value={status.key}>
+                    {status.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="restrict-transitions"
+                checked={restrictTransitions}
+                onCheckedChange={(checked) =>
+                  setRestrictTransitions(checked === true)
+                }
+              />
+              <Label htmlFor="restrict-transitions">
+                Only allow selected status transitions
+              </Label>
+            </div>
+
+            {restrictTransitions && (
+              <div className="overflow-x-auto rounded-md border">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="px-2 py-2 text-left font-medium">
+                        From \ To
+                      </th>
+                      {draft.statuses.map((to) => (
+                        <th key={to.key} className="px-2 py-2 font-medium">
+                          {to.name}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {draft.statuses.map((from) => (
+                      <tr key={from.key} className="border-b last:border-0">
+                        <td className="px-2 py-2 font-medium">{from.name}</td>
+                        {draft.statuses.map((to) => (
+                          <td key={to.key} className="px-2 py-2 text-center">
+                            {from.key !== to.key && (
+                              <Checkbox
+                                aria-label={`${from.name} to ${to.name}`}
+                                checked={isTransitionEnabled(from.key, to.key)}
+                                onCheckedChange={() =>
+                                  toggleTransition(from.key, to.key)
+                                }
+                              />
+                            )}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="button" disabled={isPending} onClick={handleSave}>
+              {isPending && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+              Save workflow
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorkflowSettingsCard;
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Download, FileText, Loader, Trash2 } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ConfirmDialog } from "@/components/resuable/confirm-dialog";
+import { useAuthContext } from "@/context/auth-provider";
+import { toast } from "@/hooks/use-toast";
+import { deleteAttachmentMutationFn, downloadAttachmentFn } from "@/lib/api";
+import { downloadBlob, formatFileSize } from "@/lib/helper";
+import { TaskAttachmentType } from "@/types/api.type";
+
+type AttachmentListProps = {
+  workspaceId: string;
+  taskId: string;
+  attachments: TaskAttachmentType[];
+  isOwnerOrAdmin: boolean;
+  compact?: boolean;
+};
+
+const AttachmentList = ({
+  workspaceId,
+  taskId,
+  attachments,
+  isOwnerOrAdmin,
+  compact,
+}: AttachmentListProps) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuthContext();
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const { mutate: download } = useMutation({
+    mutationFn: downloadAttachmentFn,
+    onMutate: ({ attachmentId }) => setDownloadingId(attachmentId),
+    onSettled: () => setDownloadingId(null),
+    onError,
+  });
+
+  const { mutate: deleteAttachment, isPending: isDeleting } = useMutation({
+    mutationFn: deleteAttachmentMutationFn,
+    onSuccess: () => {
+      setDeletingId(null);
+      queryClient.invalidateQueries({
+        queryKey: ["task-attachments", workspaceId, taskId],
+      });
+    },
+    onError,
+  });
+
+  const handleDownload = (attachment: TaskAttachmentType) =>
+    download(
+      { workspaceId, attachmentId: attachment._id },
+      { onSuccess: (blob) => downloadBlob(blob, attachment.fileName) }
+    );
+
+  if (attachments.length === 0) return null;
+
+  return (
+    <>
+      <ul className={compact ? "space-y-1" : "divide-y rounded-md border"}>
+        {attachments.map((attachment) => {
+          const canDelete =
+            isOwnerOrAdmin || attachment.uploadedBy?._id === user?._id;
+          return (
+            <li
+              key={attachment._id}
+              className={
+                compact
+                  ? "flex items-center gap-2 text-xs"
+                  : "flex items-center gap-3 px-3 py-2 text-sm"
+              }
+            >
+              <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <div className="min-w-0 flex-1">
+                <button
+                  type="button"
+                  className="block max-w-full truncate text-left font-medium hover:underline"
+                  disabled={downloadingId === attachment._id}
+                  onClick={() => handleDownload(attachment)}
+                >
+                  {attachment.fileName}
+                </button>
+                {!compact && (
+                  <p className="text-xs text-muted-foreground">
+                    {formatFileSize(attachment.size)} ·{" "}
+                    {attachment.uploadedBy?.name ?? "Former member"} ·{" "}
+                    {formatDistanceToNow(new Date(attachment.createdAt), {
+                      addSuffix: true,
+                    })}
+                  </p>
+                )}
+              </div>
+              {downloadingId === attachment._id ? (
+                <Loader className="h-4 w-4 animate-spin text-muted-foreground" />
+              ) : (
+                !compact && (
+                  <button
+                    type="button"
+                    aria-label={`Download ${attachment.fileName}`}
+                    className="text-muted-foreground hover:text-foreground"
+                    onClick={() => handleDownload(attachment)}
+                  >
+                    <Download className="h-4 w-4" />
+                  </button>
+                )
+              )}
+              {canDelete && (
+                <button
+                  type="button"
+                  aria-label={`Delete ${attachment.fileName}`}
+                  className="text-muted-foreground hover:text-destructive"
+                  onClick={() => setDeletingId(attachment._id)}
+                >
+                  <Trash2 className={compact ? "h-3.5 w-3.5" : "h-4 w-4"} />
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <ConfirmDialog
+        isOpen={Boolean(deletingId)}
+        isLoading={isDeleting}
+        onClose={() => setDeletingId(null)}
+        onConfirm={() =>
+          deletingId &&
+          deleteAttachment({ workspaceId, attachmentId: deletingId })
+        }
+        title="Delete attachment"
+        description="Are you sure you want to delete this file?"
+        confirmText="Delete"
+        cancelText="Cancel"
+      />
+    </>
+  );
+};
+
+export default AttachmentList;
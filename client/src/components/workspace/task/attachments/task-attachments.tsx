@@ -0,0 +1,107 @@
+import { ChangeEvent, useRef } from "react";
+import { Loader, Paperclip } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import useTaskAttachments from "@/hooks/api/use-task-attachments";
+import { toast } from "@/hooks/use-toast";
+import { uploadAttachmentMutationFn } from "@/lib/api";
+import { ATTACHMENT_ACCEPT } from "@/constant";
+import AttachmentList from "./attachment-list";
+
+type TaskAttachmentsProps = {
+  workspaceId: string;
+  taskId: string;
+  canUpload: boolean;
+  isOwnerOrAdmin: boolean;
+};
+
+const TaskAttachments = ({
+  workspaceId,
+  taskId,
+  canUpload,
+  isOwnerOrAdmin,
+}: TaskAttachmentsProps) => {
+  const queryClient = useQueryClient();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const { data, isLoading } = useTaskAttachments(workspaceId, taskId);
+  // Files on clarification responses are listed with those responses.
+  const attachments = (data?.attachments ?? []).filter(
+    (attachment) => !attachment.clarification
+  );
+
+  const { mutate: upload, isPending: isUploading } = useMutation({
+    mutationFn: uploadAttachmentMutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["task-attachments", workspaceId, taskId],
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Upload failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    files.forEach((file) => upload({ workspaceId, taskId, file }));
+    event.target.value = "";
+  };
+
+  return (
+    <div className="space-y-4">
+      {canUpload && (
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">
+            Images, PDFs, documents, logs and archives.
+          </p>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            accept={ATTACHMENT_ACCEPT}
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            disabled={isUploading}
+            onClick={() => inputRef.current?.click()}
+          >
+            {isUploading ? (
+              <Loader className="h-4 w-4 animate-spin" />
+            ) : (
+              <Paperclip className="h-4 w-4" />
+            )}
+            Attach files
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : attachments.length === 0 ? (
+        <p className="py-4 text-center text-sm text-muted-foreground">
+          No files attached to this task yet.
+        </p>
+      ) : (
+        <AttachmentList
+          workspaceId={workspaceId}
+          taskId={taskId}
+          attachments={attachments}
+          isOwnerOrAdmin={isOwnerOrAdmin}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TaskAttachments;
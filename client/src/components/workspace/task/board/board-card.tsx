@@ -0,0 +1,78 @@
+import { DragEvent } from "react";
+import { format } from "date-fns";
+import { Lock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { isDoneStatus } from "@/lib/helper";
+import useWorkspaceWorkflow from "@/hooks/api/use-workspace-workflow";
+import { TaskType } from "@/types/api.type";
+import { priorities } from "../table/data";
+import TaskAssignees from "../task-assignees";
+import TaskLabels from "../task-labels";
+
+type BoardCardProps = {
+  task: TaskType;
+  isDragging: boolean;
+  onClick: () => void;
+  onDragStart: (event: DragEvent<HTMLDivElement>) => void;
+  onDragEnd: () => void;
+  onDragOver: (event: DragEvent<HTMLDivElement>) => void;
+};
+
+const BoardCard = ({
+  task,
+  isDragging,
+  onClick,
+  onDragStart,
+  onDragEnd,
+  onDragOver,
+}: BoardCardProps) => {
+  const { workflow } = useWorkspaceWorkflow();
+  const priority = priorities.find((item) => item.value === task.priority);
+  const PriorityIcon = priority?.icon;
+  const isBlocked = task.blockedBy?.some(
+    (blocker) => !isDoneStatus(workflow, blocker.status)
+  );
+
+  return (
+    <div
+      draggable
+      role="button"
+      tabIndex={0}
+      onClick={onClick}
+      onKeyDown={(event) => {
+        if (event.key === "Enter") onClick();
+      }}
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      onDragOver={onDragOver}
+      className={cn(
+        "cursor-grab space-y-2 rounded-md border bg-background p-3 text-sm shadow-sm active:cursor-grabbing",
+        isDragging && "opacity-40"
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-medium text-muted-foreground">
+          {task.taskCode}
+        </span>
+        <div className="flex items-center gap-1 text-muted-foreground">
+          {isBlocked && <Lock className="h-3.5 w-3.5" />}
+          {PriorityIcon && (
+            <PriorityIcon className="h-4 w-4" aria-label={priority.label} />
+          )}
+        </div>
+      </div>
+      <p className="line-clamp-2 font-medium">{task.title}</p>
+      <TaskLabels labels={task.labels} />
+      <div className="flex items-center justify-between gap-2">
+        <TaskAssignees assignees={task.assignees} showName={false} />
+        {task.dueDate && (
+          <span className="text-xs text-muted-foreground">
+            {format(task.dueDate, "MMM d")}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BoardCard;
@@ -0,0 +1,432 @@
+import { DragEvent, ReactNode, useState } from "react";
+import { useParams } from "react-router-dom";
+import { Loader } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import useTaskTableFilter from "@/hooks/use-task-table-filter";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import useWorkspaceWorkflow from "@/hooks/api/use-workspace-workflow";
+import useCustomFields from "@/hooks/api/use-custom-fields";
+import { toast } from "@/hooks/use-toast";
+import { editTaskMutationFn, getAllTasksQueryFn } from "@/lib/api";
+import {
+  AllTaskResponseType,
+  EditTaskPayloadType,
+  TaskType,
+} from "@/types/api.type";
+import { CustomError } from "@/types/custom-error.type";
+import { priorities } from "../table/data";
+import { DataTableFilterToolbar } from "../task-table";
+import TaskAssignees from "../task-assignees";
+import EditTaskDialog from "../edit-task-dialog";
+import BoardCard from "./board-card";
+
+// The board loads one large page; beyond this the table view is the better fit.
+const BOARD_PAGE_SIZE = 200;
+const RANK_GAP = 1000;
+const UNASSIGNED_LANE = "__unassigned__";
+
+type SwimlaneType = "none" | "assignee" | "priority";
+
+type LaneType = {
+  id: string;
+  title: ReactNode;
+  tasks: TaskType[];
+};
+
+type DropTargetType = {
+  laneId: string;
+  status: string;
+  index: number;
+};
+
+// Tasks created before board ordering existed fall back to creation time.
+const getRank = (task: TaskType) =>
+  task.rank ?? new Date(task.createdAt ?? 0).getTime();
+
+const getLanes = (tasks: TaskType[], swimlane: SwimlaneType): LaneType[] => {
+  if (swimlane === "priority") {
+    return [...priorities].reverse().map((priority) => ({
+      id: priority.value,
+      title: priority.label,
+      tasks: tasks.filter((task) => task.priority === priority.value),
+    }));
+  }
+
+  if (swimlane === "assignee") {
+    const lanes = new Map<string, LaneType>();
+    tasks.forEach((task) => {
+      task.assignees.forEach((assignee) => {
+        const lane: LaneType = lanes.get(assignee._id) ?? {
+          id: assignee._id,
+          title: <TaskAssignees assignees={[assignee]} />,
+          tasks: [],
+        };
+        lane.tasks.push(task);
+        lanes.set(assignee._id, lane);
+      });
+    });
+    const sorted = [...lanes.values()].sort((a, b) => {
+      const nameOf = (lane: LaneType) =>
+        lane.tasks[0].assignees.find((a) => a._id === lane.id)?.name ?? "";
+      return nameOf(a).localeCompare(nameOf(b));
+    });
+    const unassigned = tasks.filter((task) => !task.assignees.length);
+    return unassigned.length
+      ? [
+          ...sorted,
+          { id: UNASSIGNED_LANE, title: "Unassigned", tasks: unassigned },
+        ]
+      : sorted;
+  }
+
+  return [{ id: "all", title: null, tasks }];
+};
+
+const TaskBoard = () => {
+  const param = useParams();
+  const projectId = param.projectId as string;
+
+  const workspaceId = useWorkspaceId();
+  const queryClient = useQueryClient();
+  const [filters, setFilters] = useTaskTableFilter();
+  const { workflow } = useWorkspaceWorkflow();
+  const { data: customFieldData } = useCustomFields(workspaceId, projectId);
+  const customFields = customFieldData?.fields ?? [];
+
+  const [swimlane, setSwimlane] = useState<SwimlaneType>("none");
+  const [dragging, setDragging] = useState<{
+    taskId: string;
+    laneId: string;
+  } | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTargetType | null>(null);
+  const [editingTask, setEditingTask] = useState<TaskType | null>(null);
+
+  const queryKey = ["all-tasks", workspaceId, "board", filters, projectId];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: () =>
+      getAllTasksQueryFn({
+        workspaceId,
+        keyword: filters.keyword,
+        priority: filters.priority,
+        status: filters.status,
+        projectId: projectId || filters.projectId,
+        assignedTo: filters.assigneeId,
+        watching: filters.watching === "true",
+        labels: filters.labels,
+        labelsMatch: filters.labelsMatch,
+        level: filters.level,
+        isBlocked: filters.isBlocked,
+        hasOpenClarifications: filters.hasOpenClarifications,
+        sprint: projectId ? filters.sprint : null,
+        customFieldFilters: filters.customFields,
+        sortBy: "rank",
+        sortOrder: "asc",
+        pageNumber: 1,
+        pageSize: BOARD_PAGE_SIZE,
+      }),
+    staleTime: 0,
+  });
+
+  const tasks = [...(data?.tasks || [])].sort(
+    (a, b) => getRank(a) - getRank(b)
+  );
+  const totalCount = data?.pagination.totalCount || 0;
+
+  const statusFilter = filters.status?.split(",");
+  const statuses = workflow.statuses.filter(
+    (status) => !statusFilter || statusFilter.includes(status.key)
+  );
+  const lanes = getLanes(tasks, swimlane);
+
+  const { mutate: moveTask } = useMutation({
+    mutationFn: editTaskMutationFn,
+    onMutate: async ({ taskId, data }: EditTaskPayloadType) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<AllTaskResponseType>(queryKey);
+      queryClient.setQueryData<AllTaskResponseType>(queryKey, (old) =>
+        old
+          ? {
+              ...old,
+              tasks: old.tasks.map((task) =>
+                task._id === taskId
+                  ? {
+                      ...task,
+                      status: data.status ?? task.status,
+                      rank: data.rank ?? task.rank,
+                    }
+                  : task
+              ),
+            }
+          : old
+      );
+      return { previous };
+    },
+    onError: (error: CustomError, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+      toast({
+        title: "Error",
+        description:
+          error.errorCode === "ACCESS_UNAUTHORIZED"
+            ? "You can only move tasks assigned to you"
+            : error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["all-tasks", workspaceId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["project-analytics", projectId],
+      });
+    },
+  });
+
+  const getCell = (lane: LaneType, status: string) =>
+    lane.tasks.filter((task) => task.status === status);
+
+  const resetDrag = () => {
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  const handleDragOver = (
+    event: DragEvent<HTMLDivElement>,
+    lane: LaneType,
+    status: string,
+    index: number
+  ) => {
+    // Swimlanes are read-only groupings, so cards only move between columns.
+    if (!dragging || dragging.laneId !== lane.id) return;
+    event.preventDefault();
+    event.stopPropagation();
+    if (
+      dropTarget?.laneId !== lane.id ||
+      dropTarget.status !== status ||
+      dropTarget.index !== index
+    ) {
+      setDropTarget({ laneId: lane.id, status, index });
+    }
+  };
+
+  const handleDrop = (lane: LaneType) => {
+    const task = tasks.find((task) => task._id === dragging?.taskId);
+    if (!task || !dropTarget || dropTarget.laneId !== lane.id) {
+      resetDrag();
+      return;
+    }
+    const { status, index } = dropTarget;
+    resetDrag();
+
+    const originalIndex = getCell(lane, status).findIndex(
+      (item) => item._id === task._id
+    );
+    const cell = getCell(lane, status).filter((item) => item._id !== task._id);
+    if (task.status === status && originalIndex === index) return;
+
+    const prev = cell[index - 1];
+    const next = cell[index];
+    const rank =
+      prev && next
+        ? (getRank(prev) + getRank(next)) / 2
+        : prev
+          ? getRank(prev) + RANK_GAP
+          : next
+            ? getRank(next) - RANK_GAP
+            : Date.now();
+
+    moveTask({
+      workspaceId,
+      projectId: task.project?._id as string,
+      taskId: task._id,
+      data: {
+        ...(task.status !== status && { status }),
+        rank,
+      },
+    });
+  };
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="flex flex-col gap-2 lg:flex-row lg:items-center">
+        <DataTableFilterToolbar
+          isLoading={isLoading}
+          projectId={projectId}
+          filters={filters}
+          setFilters={setFilters}
+          customFields={customFields}
+        />
+        <Select
+          value={swimlane}
+          onValueChange={(value) => setSwimlane(value as SwimlaneType)}
+        >
+          <SelectTrigger className="h-8 w-full lg:ml-auto lg:w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No swimlanes</SelectItem>
+            <SelectItem value="assignee">By assignee</SelectItem>
+            <SelectItem value="priority">By priority</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {totalCount > BOARD_PAGE_SIZE && (
+        <p className="text-sm text-muted-foreground">
+          Showing the first {BOARD_PAGE_SIZE} of {totalCount} tasks. Narrow the
+          filters or use the table view to see the rest.
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-10">
+          <Loader className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="overflow-x-auto pb-2 scrollbar">
+          <div className="inline-flex min-w-full flex-col gap-4">
+            <div className="flex gap-3">
+              {statuses.map((status) => (
+                <div
+                  key={status.key}
+                  className="flex w-[280px] shrink-0 items-center gap-2 px-1 text-sm font-medium"
+                >
+                  {status.color && (
+                    <span
+                      className="h-2.5 w-2.5 rounded-full"
+                      style={{ backgroundColor: status.color }}
+                    />
+                  )}
+                  {status.name}
+                  <span className="text-muted-foreground">
+                    {tasks.filter((task) => task.status === status.key).length}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {lanes.map((lane) => (
+              <div key={lane.id} className="space-y-2">
+                {lane.title && (
+                  <div className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                    {lane.title}
+                    <span>{lane.tasks.length}</span>
+                  </div>
+                )}
+                <div className="flex gap-3">
+                  {statuses.map((status) => {
+                    const cell = getCell(lane, status.key);
+                    const visible = cell.filter(
+                      (task) => task._id !== dragging?.taskId
+                    );
+                    const isTarget =
+                      dropTarget?.laneId === lane.id &&
+                      dropTarget.status === status.key;
+
+                    return (
+                      <div
+                        key={status.key}
+                        onDragOver={(event) =>
+                          handleDragOver(
+                            event,
+                            lane,
+                            status.key,
+                            visible.length
+                          )
+                        }
+                        onDrop={(event) => {
+                          event.preventDefault();
+                          handleDrop(lane);
+                        }}
+                        className={cn(
+                          "flex min-h-[120px] w-[280px] shrink-0 flex-col gap-2 rounded-md bg-muted/50 p-2",
+                          isTarget && "ring-1 ring-primary/40"
+                        )}
+                      >
+                        {cell.map((task) => {
+                          // Hovering the dragged card keeps its current slot.
+                          const isDragged = dragging?.taskId === task._id;
+                          const position = isDragged
+                            ? cell.indexOf(task)
+                            : visible.indexOf(task);
+                          return (
+                            <div key={task._id}>
+                              {isTarget &&
+                                !isDragged &&
+                                dropTarget.index === position && (
+                                <div className="mb-2 h-0.5 rounded bg-primary" />
+                              )}
+                              <BoardCard
+                                task={task}
+                                isDragging={isDragged}
+                                onClick={() => setEditingTask(task)}
+                                onDragStart={(event) => {
+                                  event.dataTransfer.effectAllowed = "move";
+                                  setDragging({
+                                    taskId: task._id,
+                                    laneId: lane.id,
+                                  });
+                                }}
+                                onDragEnd={resetDrag}
+                                onDragOver={(event) => {
+                                  if (isDragged) {
+                                    handleDragOver(
+                                      event,
+                                      lane,
+                                      status.key,
+                                      position
+                                    );
+                                    return;
+                                  }
+                                  const rect =
+                                    event.currentTarget.getBoundingClientRect();
+                                  const after =
+                                    event.clientY > rect.top + rect.height / 2;
+                                  handleDragOver(
+                                    event,
+                                    lane,
+                                    status.key,
+                                    position + (after ? 1 : 0)
+                                  );
+                                }}
+                              />
+                            </div>
+                          );
+                        })}
+                        {isTarget && dropTarget.index === visible.length && (
+                          <div className="h-0.5 rounded bg-primary" />
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {editingTask && (
+        <EditTaskDialog
+          task={editingTask}
+          isOpen={!!editingTask}
+          onClose={() => setEditingTask(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TaskBoard;
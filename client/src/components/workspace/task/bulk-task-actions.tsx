@@ -0,0 +1,292 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { CalendarIcon, Loader, Pencil, Trash2 } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { ConfirmDialog } from "@/components/resuable/confirm-dialog";
+import { TaskPriorityEnum } from "@/constant";
+import useGetProjectsInWorkspaceQuery from "@/hooks/api/use-get-projects";
+import useGetWorkspaceMembers from "@/hooks/api/use-get-workspace-members";
+import useLabels from "@/hooks/api/use-labels";
+import useWorkspaceWorkflow from "@/hooks/api/use-workspace-workflow";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import { batchTasksMutationFn } from "@/lib/api";
+import { transformStatusEnum } from "@/lib/helper";
+import { BatchTaskOperationType } from "@/types/api.type";
+import { LabelBadge } from "./task-labels";
+
+type BulkTaskActionsProps = {
+  taskIds: string[];
+  // Owners and admins can change every field; members only the status.
+  canEditAll: boolean;
+  canDelete: boolean;
+  onDone: () => void;
+};
+
+const BulkTaskActions = ({
+  taskIds,
+  canEditAll,
+  canDelete,
+  onDone,
+}: BulkTaskActionsProps) => {
+  const queryClient = useQueryClient();
+  const workspaceId = useWorkspaceId();
+  const [openDeleteDialog, setOpenDeleteDialog] = useState(false);
+
+  const { workflow } = useWorkspaceWorkflow();
+  const { data: labelData } = useLabels(workspaceId);
+  const { data: memberData } = useGetWorkspaceMembers(workspaceId);
+  const { data: projectData } = useGetProjectsInWorkspaceQuery({
+    workspaceId,
+    skip: !canDelete,
+  });
+
+  const labels = labelData?.labels ?? [];
+  const members = memberData?.members ?? [];
+  const projects = projectData?.projects ?? [];
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: batchTasksMutationFn,
+  });
+
+  const runOperation = (operation: BatchTaskOperationType) => {
+    if (isPending) return;
+
+    mutate(
+      { workspaceId, data: { taskIds, operation } },
+      {
+        onSuccess: (data) => {
+          queryClient.invalidateQueries({
+            queryKey: ["all-tasks", workspaceId],
+          });
+          queryClient.invalidateQueries({
+            queryKey: ["project-analytics"],
+          });
+
+          const failures = data.results.filter((result) => !result.success);
+          toast({
+            title: failures.length ? "Some tasks were skipped" : "Success",
+            description: [
+              data.message,
+              ...failures
+                .slice(0, 3)
+                .map((failure) => `${failure.taskCode}: ${failure.error}`),
+              failures.length > 3 ? `and ${failures.length - 3} more` : null,
+            ]
+              .filter(Boolean)
+              .join("; "),
+            variant: failures.length ? "destructive" : "success",
+          });
+          setOpenDeleteDialog(false);
+          onDone();
+        },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error.message,
+            variant: "destructive",
+          });
+        },
+      }
+    );
+  };
+
+  const update = (
+    changes: Extract<BatchTaskOperationType, { action: "update" }>["changes"]
+  ) => runOperation({ action: "update", changes });
+
+  return (
+    <div className="flex items-center gap-2 rounded-md border bg-muted/40 px-3 py-1.5 text-sm">
+      <span className="font-medium">{taskIds.length} selected</span>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7"
+            disabled={isPending}
+          >
+            {isPending ? (
+              <Loader className="h-4 w-4 animate-spin" />
+            ) : (
+              <Pencil className="h-4 w-4" />
+            )}
+            Edit
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-[200px]">
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Status</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {workflow.statuses.map((status) => (
+                <DropdownMenuItem
+                  key={status.key}
+                  onSelect={() => update({ status: status.key })}
+                >
+                  {status.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          {canEditAll && (
+            <>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>Priority</DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {Object.values(TaskPriorityEnum).map((priority) => (
+                    <DropdownMenuItem
+                      key={priority}
+                      onSelect={() => update({ priority })}
+                    >
+                      {transformStatusEnum(priority)}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>Assign to</DropdownMenuSubTrigger>
+                <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+                  <DropdownMenuItem onSelect={() => update({ assignees: [] })}>
+                    Nobody
+                  </DropdownMenuItem>
+                  {members.map((member) => (
+                    <DropdownMenuItem
+                      key={member.userId._id}
+                      onSelect={() =>
+                        update({ assignees: [member.userId._id] })
+                      }
+                    >
+                      {member.userId.name}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger disabled={!labels.length}>
+                  Add label
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {labels.map((label) => (
+                    <DropdownMenuItem
+                      key={label._id}
+                      onSelect={() => update({ addLabels: [label._id] })}
+                    >
+                      <LabelBadge label={label} />
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger disabled={!labels.length}>
+                  Remove label
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {labels.map((label) => (
+                    <DropdownMenuItem
+                      key={label._id}
+                      onSelect={() => update({ removeLabels: [label._id] })}
+                    >
+                      <LabelBadge label={label} />
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            </>
+          )}
+          {canDelete && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>Move to project</DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {projects.map((project) => (
+                    <DropdownMenuItem
+                      key={project._id}
+                      onSelect={() =>
+                        runOperation({
+                          action: "move",
+                          projectId: project._id,
+                        })
+                      }
+                    >
+                      {project.emoji} {project.name}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {canEditAll && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7"
+              disabled={isPending}
+            >
+              <CalendarIcon className="h-4 w-4" />
+              Due date
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              onSelect={(date) =>
+                date && update({ dueDate: format(date, "yyyy-MM-dd") })
+              }
+              initialFocus
+            />
+          </PopoverContent>
+        </Popover>
+      )}
+      {canDelete && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-destructive"
+          disabled={isPending}
+          onClick={() => setOpenDeleteDialog(true)}
+        >
+          <Trash2 className="h-4 w-4" />
+          Delete
+        </Button>
+      )}
+      <Button variant="ghost" size="sm" className="h-7" onClick={onDone}>
+        Clear
+      </Button>
+
+      <ConfirmDialog
+        isOpen={openDeleteDialog}
+        isLoading={isPending}
+        onClose={() => setOpenDeleteDialog(false)}
+        onConfirm={() => runOperation({ action: "delete" })}
+        title="Delete Tasks"
+        description={`Are you sure you want to delete ${taskIds.length} task(s) and their subtasks? They can be restored from the trash.`}
+        confirmText="Delete"
+        cancelText="Cancel"
+      />
+    </div>
+  );
+};
+
+export default BulkTaskActions;
@@ -0,0 +1,350 @@
+import { useState } from "react";
+import { useParams } from "react-router-dom";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { ChevronLeft, ChevronRight, Loader } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { isDoneStatus } from "@/lib/helper";
+import { useAuthContext } from "@/context/auth-provider";
+import useTaskTableFilter from "@/hooks/use-task-table-filter";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import useWorkspaceWorkflow from "@/hooks/api/use-workspace-workflow";
+import useCustomFields from "@/hooks/api/use-custom-fields";
+import { toast } from "@/hooks/use-toast";
+import { editTaskMutationFn, getAllTasksQueryFn } from "@/lib/api";
+import {
+  AllTaskResponseType,
+  EditTaskPayloadType,
+  TaskType,
+} from "@/types/api.type";
+import { DataTableFilterToolbar } from "../task-table";
+import EditTaskDialog from "../edit-task-dialog";
+
+const CALENDAR_PAGE_SIZE = 500;
+const MAX_TASKS_PER_DAY = 3;
+
+type CalendarModeType = "month" | "week";
+
+const TaskCalendar = () => {
+  const param = useParams();
+  const projectId = param.projectId as string;
+
+  const workspaceId = useWorkspaceId();
+  const queryClient = useQueryClient();
+  const { user, workspace } = useAuthContext();
+  const [filters, setFilters] = useTaskTableFilter();
+  const { workflow } = useWorkspaceWorkflow();
+  const { data: customFieldData } = useCustomFields(workspaceId, projectId);
+  const customFields = customFieldData?.fields ?? [];
+
+  const [mode, setMode] = useState<CalendarModeType>("month");
+  const [cursor, setCursor] = useState(() => new Date());
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropDay, setDropDay] = useState<Date | null>(null);
+  const [editingTask, setEditingTask] = useState<TaskType | null>(null);
+
+  // Rescheduling edits the due date, which only owners and admins may change.
+  const roleName = workspace?.members.find(
+    (member) => member.userId === user?._id
+  )?.role?.name;
+  const canReschedule = roleName === "OWNER" || roleName === "ADMIN";
+
+  const rangeStart =
+    mode === "month" ? startOfWeek(startOfMonth(cursor)) : startOfWeek(cursor);
+  const rangeEnd =
+    mode === "month" ? endOfWeek(endOfMonth(cursor)) : endOfWeek(cursor);
+  const days = eachDayOfInterval({ start: rangeStart, end: rangeEnd });
+  const dueFrom = rangeStart.toISOString();
+  const dueTo = startOfDay(addDays(rangeEnd, 1)).toISOString();
+
+  const queryKey = [
+    "all-tasks",
+    workspaceId,
+    "calendar",
+    filters,
+    projectId,
+    dueFrom,
+    dueTo,
+  ];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: () =>
+      getAllTasksQueryFn({
+        workspaceId,
+        keyword: filters.keyword,
+        priority: filters.priority,
+        status: filters.status,
+        projectId: projectId || filters.projectId,
+        assignedTo: filters.assigneeId,
+        watching: filters.watching === "true",
+        labels: filters.labels,
+        labelsMatch: filters.labelsMatch,
+        level: filters.level,
+        isBlocked: filters.isBlocked,
+        hasOpenClarifications: filters.hasOpenClarifications,
+        sprint: projectId ? filters.sprint : null,
+        customFieldFilters: filters.customFields,
+        dueFrom,
+        dueTo,
+        sortBy: "dueDate",
+        sortOrder: "asc",
+        pageNumber: 1,
+        pageSize: CALENDAR_PAGE_SIZE,
+      }),
+    staleTime: 0,
+  });
+
+  const tasks = data?.tasks || [];
+  const totalCount = data?.pagination.totalCount || 0;
+
+  const { mutate: rescheduleTask } = useMutation({
+    mutationFn: editTaskMutationFn,
+    onMutate: async ({ taskId, data }: EditTaskPayloadType) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<AllTaskResponseType>(queryKey);
+      queryClient.setQueryData<AllTaskResponseType>(queryKey, (old) =>
+        old
+          ? {
+              ...old,
+              tasks: old.tasks.map((task) =>
+                task._id === taskId
+                  ? { ...task, dueDate: data.dueDate ?? task.dueDate }
+                  : task
+              ),
+            }
+          : old
+      );
+      return { previous };
+    },
+    onError: (error: Error, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["all-tasks", workspaceId],
+      });
+    },
+  });
+
+  const handleDrop = (day: Date) => {
+    const task = tasks.find((task) => task._id === draggingId);
+    setDraggingId(null);
+    setDropDay(null);
+    if (!task || isSameDay(new Date(task.dueDate), day)) return;
+
+    // Keep the time of day so only the date moves.
+    const current = new Date(task.dueDate);
+    const dueDate = new Date(day);
+    dueDate.setHours(
+      current.getHours(),
+      current.getMinutes(),
+      current.getSeconds(),
+      current.getMilliseconds()
+    );
+
+    rescheduleTask({
+      workspaceId,
+      projectId: task.project?._id as string,
+      taskId: task._id,
+      data: { dueDate: dueDate.toISOString() },
+    });
+  };
+
+  const step = (amount: number) =>
+    setCursor((date) =>
+      mode === "month" ? addMonths(date, amount) : addWeeks(date, amount)
+    );
+
+  const title =
+    mode === "month"
+      ? format(cursor, "MMMM yyyy")
+      : `${format(rangeStart, "MMM d")} – ${format(rangeEnd, "MMM d, yyyy")}`;
+
+  return (
+    <div className="w-full space-y-4">
+      <DataTableFilterToolbar
+        isLoading={isLoading}
+        projectId={projectId}
+        filters={filters}
+        setFilters={setFilters}
+        customFields={customFields}
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => step(-1)}>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setCursor(new Date())}
+        >
+          Today
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => step(1)}>
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <h3 className="ml-2 text-lg font-semibold">{title}</h3>
+        <div className="ml-auto flex gap-1">
+          {(["month", "week"] as const).map((value) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={mode === value ? "secondary" : "ghost"}
+              onClick={() => setMode(value)}
+              className="capitalize"
+            >
+              {value}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {totalCount > CALENDAR_PAGE_SIZE && (
+        <p className="text-sm text-muted-foreground">
+          Showing the first {CALENDAR_PAGE_SIZE} of {totalCount} tasks due in
+          this range. Narrow the filters to see the rest.
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-10">
+          <Loader className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="grid grid-cols-7 overflow-hidden rounded-md border">
+          {days.slice(0, 7).map((day) => (
+            <div
+              key={day.toISOString()}
+              className="border-b bg-muted/50 px-2 py-1 text-xs font-medium text-muted-foreground"
+            >
+              {format(day, "EEE")}
+            </div>
+          ))}
+          {days.map((day) => {
+            const dayTasks = tasks.filter((task) =>
+              isSameDay(new Date(task.dueDate), day)
+            );
+            const visible =
+              mode === "month"
+                ? dayTasks.slice(0, MAX_TASKS_PER_DAY)
+                : dayTasks;
+            const hiddenCount = dayTasks.length - visible.length;
+
+            return (
+              <div
+                key={day.toISOString()}
+                onDragOver={(event) => {
+                  if (!draggingId) return;
+                  event.preventDefault();
+                  if (!dropDay || !isSameDay(dropDay, day)) setDropDay(day);
+                }}
+                onDrop={(event) => {
+                  event.preventDefault();
+                  handleDrop(day);
+                }}
+                className={cn(
+                  "space-y-1 border-b border-r p-1.5",
+                  mode === "month" ? "min-h-[110px]" : "min-h-[320px]",
+                  mode === "month" &&
+                    !isSameMonth(day, cursor) &&
+                    "bg-muted/30 text-muted-foreground",
+                  dropDay && isSameDay(dropDay, day) && "bg-primary/10"
+                )}
+              >
+                <div
+                  className={cn(
+                    "flex h-6 w-6 items-center justify-center rounded-full text-xs",
+                    isToday(day) && "bg-primary text-primary-foreground"
+                  )}
+                >
+                  {format(day, "d")}
+                </div>
+                {visible.map((task) => {
+                  const color = workflow.statuses.find(
+                    (status) => status.key === task.status
+                  )?.color;
+                  return (
+                    <button
+                      key={task._id}
+                      type="button"
+                      draggable={canReschedule}
+                      onDragStart={(event) => {
+                        event.dataTransfer.effectAllowed = "move";
+                        setDraggingId(task._id);
+                      }}
+                      onDragEnd={() => {
+                        setDraggingId(null);
+                        setDropDay(null);
+                      }}
+                      onClick={() => setEditingTask(task)}
+                      title={`${task.taskCode} ${task.title}`}
+                      className={cn(
+                        "flex w-full items-center gap-1.5 rounded border bg-background px-1.5 py-0.5 text-left text-xs",
+                        canReschedule && "cursor-grab",
+                        isDoneStatus(workflow, task.status) &&
+                          "text-muted-foreground line-through",
+                        draggingId === task._id && "opacity-40"
+                      )}
+                    >
+                      <span
+                        className="h-2 w-2 shrink-0 rounded-full bg-muted-foreground"
+                        style={color ? { backgroundColor: color } : undefined}
+                      />
+                      <span className="truncate">{task.title}</span>
+                    </button>
+                  );
+                })}
+                {hiddenCount > 0 && (
+                  <button
+                    type="button"
+                    className="px-1.5 text-xs text-muted-foreground hover:underline"
+                    onClick={() => {
+                      setCursor(day);
+                      setMode("week");
+                    }}
+                  >
+                    +{hiddenCount} more
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {editingTask && (
+        <EditTaskDialog
+          task={editingTask}
+          isOpen={!!editingTask}
+          onClose={() => setEditingTask(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TaskCalendar;
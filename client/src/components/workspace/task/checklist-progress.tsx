@@ -0,0 +1,32 @@
+import { ListChecks } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { SubtaskProgressType } from "@/types/api.type";
+
+// Compact "3/7" badge; renders nothing for tasks without a checklist.
+const ChecklistProgress = ({
+  progress,
+  className,
+}: {
+  progress?: SubtaskProgressType;
+  className?: string;
+}) => {
+  if (!progress?.total) return null;
+
+  const isComplete = progress.completed === progress.total;
+
+  return (
+    <span
+      className={cn(
+        "flex items-center gap-0.5 text-xs shrink-0",
+        isComplete ? "text-green-600" : "text-muted-foreground",
+        className
+      )}
+      title="Checklist progress"
+    >
+      <ListChecks className="h-3.5 w-3.5" />
+      {progress.completed}/{progress.total}
+    </span>
+  );
+};
+
+export default ChecklistProgress;
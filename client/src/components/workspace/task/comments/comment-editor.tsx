@@ -0,0 +1,201 @@
+import { KeyboardEvent, useRef, useState } from "react";
+import { Loader } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { cn } from "@/lib/utils";
+import { getAvatarColor, getAvatarFallbackText } from "@/lib/helper";
+import { TaskAssigneeType } from "@/types/api.type";
+
+const MAX_SUGGESTIONS = 6;
+
+type CommentEditorProps = {
+  members: TaskAssigneeType[];
+  initialValue?: string;
+  placeholder?: string;
+  submitLabel: string;
+  isPending: boolean;
+  autoFocus?: boolean;
+  // `clear` empties the editor, e.g. once the comment has been saved.
+  onSubmit: (body: string, clear: () => void) => void;
+  onCancel?: () => void;
+};
+
+// Finds an `@query` being typed right before the caret.
+const getMentionQuery = (text: string, caret: number) => {
+  const match = text.slice(0, caret).match(/(^|\s)@([^@\n]{0,30})$/);
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+};
+
+const CommentEditor = ({
+  members,
+  initialValue = "",
+  placeholder = "Write a comment…",
+  submitLabel,
+  isPending,
+  autoFocus,
+  onSubmit,
+  onCancel,
+}: CommentEditorProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [value, setValue] = useState(initialValue);
+  const [mention, setMention] = useState<{
+    query: string;
+    start: number;
+  } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = mention
+    ? members
+        .filter((member) =>
+          member.name.toLowerCase().startsWith(mention.query.toLowerCase())
+        )
+        .slice(0, MAX_SUGGESTIONS)
+    : [];
+
+  const updateMention = (text: string, caret: number) => {
+    setMention(getMentionQuery(text, caret));
+    setHighlighted(0);
+  };
+
+  const insertMention = (member: TaskAssigneeType) => {
+    if (!mention) return;
+    const caret = mention.start + mention.query.length + 1;
+    const inserted = `@${member.name} `;
+    const next = value.slice(0, mention.start) + inserted + value.slice(caret);
+
+    setValue(next);
+    setMention(null);
+
+    const position = mention.start + inserted.length;
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const submit = () => {
+    const body = value.trim();
+    if (!body || isPending) return;
+    onSubmit(body, () => setValue(""));
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length) {
+      if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+        event.preventDefault();
+        const step = event.key === "ArrowDown" ? 1 : -1;
+        setHighlighted(
+          (current) =>
+            (current + step + suggestions.length) % suggestions.length
+        );
+        return;
+      }
+      if (event.key === "Enter" || event.key === "Tab") {
+        event.preventDefault();
+        insertMention(suggestions[highlighted]);
+        return;
+      }
+      if (event.key === "Escape") {
+        event.preventDefault();
+        setMention(null);
+        return;
+      }
+    }
+
+    if (event.key === "Enter" && (event.metaKey || event.ctrlKey)) {
+      event.preventDefault();
+      submit();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          rows={3}
+          value={value}
+          autoFocus={autoFocus}
+          placeholder={placeholder}
+          disabled={isPending}
+          onChange={(event) => {
+            setValue(event.target.value);
+            updateMention(event.target.value, event.target.selectionStart);
+          }}
+          onClick={(event) =>
+            updateMention(value, event.currentTarget.selectionStart)
+          }
+          onKeyDown={handleKeyDown}
+          onBlur={() => setMention(null)}
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute left-2 top-full z-50 mt-1 w-60 rounded-md border bg-popover p-1 shadow-md">
+            {suggestions.map((member, index) => {
+              const initials = getAvatarFallbackText(member.name);
+              return (
+                <li
+                  key={member._id}
+                  className={cn(
+                    "flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm",
+                    index === highlighted && "bg-accent"
+                  )}
+                  onMouseEnter={() => setHighlighted(index)}
+                  // Keeps the textarea focused so the blur handler does not
+                  // close the list before the click lands.
+                  onMouseDown={(event) => {
+                    event.preventDefault();
+                    insertMention(member);
+                  }}
+                >
+                  <Avatar className="h-5 w-5">
+                    <AvatarImage
+                      src={member.profilePicture || ""}
+                      alt={member.name}
+                    />
+                    <AvatarFallback
+                      className={cn("text-[10px]", getAvatarColor(initials))}
+                    >
+                      {initials}
+                    </AvatarFallback>
+                  </Avatar>
+                  <span className="truncate">{member.name}</span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-muted-foreground">
+          Markdown supported · type @ to mention someone
+        </span>
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              disabled={isPending}
+              onClick={onCancel}
+            >
+              Cancel
+            </Button>
+          )}
+          <Button
+            type="button"
+            size="sm"
+            disabled={isPending || !value.trim()}
+            onClick={submit}
+          >
+            {isPending && <Loader className="animate-spin" />}
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CommentEditor;
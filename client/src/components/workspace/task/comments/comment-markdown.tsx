@@ -0,0 +1,208 @@
+import { ReactNode } from "react";
+
+// A small markdown subset rendered straight to React elements, so comment
+// text is never injected as HTML.
+const SAFE_URL = /^(https?:\/\/|mailto:)/i;
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const renderInline = (
+  text: string,
+  mentionNames: string[],
+  keyPrefix: string
+): ReactNode[] => {
+  const tokens = [
+    "`[^`]+`",
+    "\\*\\*[^*]+\\*\\*",
+    "\\*[^*\\s][^*]*\\*",
+    "_[^_\\s][^_]*_",
+    "\\[[^\\]]+\\]\\([^)\\s]+\\)",
+    "https?:\\/\\/[^\\s<]+[^\\s<.,:;!?)]",
+  ];
+  if (mentionNames.length) {
+    tokens.push(`@(?:${mentionNames.map(escapeRegExp).join("|")})(?!\\w)`);
+  }
+
+  const parts = text.split(new RegExp(`(${tokens.join("|")})`, "gi"));
+
+  return parts.map((part, index) => {
+    const key = `${keyPrefix}-${index}`;
+    // Odd entries are the captured tokens, even ones plain text.
+    if (index % 2 === 0) return part;
+
+    if (part.startsWith("`")) {
+      return (
+        <code key={key} className="rounded bg-muted px-1 py-0.5 text-[13px]">
+          {part.slice(1, -1)}
+        </code>
+      );
+    }
+    if (part.startsWith("**")) {
+      return (
+        <strong key={key}>
+          {renderInline(part.slice(2, -2), mentionNames, key)}
+        </strong>
+      );
+    }
+    if (part.startsWith("*") || part.startsWith("_")) {
+      return (
+        <em key={key}>{renderInline(part.slice(1, -1), mentionNames, key)}</em>
+      );
+    }
+    if (part.startsWith("@")) {
+      return (
+        <span
+          key={key}
+          className="rounded bg-primary/10 px-0.5 font-medium text-primary"
+        >
+          {part}
+        </span>
+      );
+    }
+
+    const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    const [label, href] = link ? [link[1], link[2]] : [part, part];
+    if (!SAFE_URL.test(href)) return part;
+
+    return (
+      <a
+        key={key}
+        href={href}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-primary underline underline-offset-2"
+      >
+        {link ? renderInline(label, mentionNames, key) : label}
+      </a>
+    );
+  });
+};
+
+const CommentMarkdown = ({
+  body,
+  mentionNames = [],
+}: {
+  body: string;
+  mentionNames?: string[];
+}) => {
+  const lines = body.replace(/\r\n/g, "\n").split("\n");
+  const blocks: ReactNode[] = [];
+  const inline = (text: string, key: string) =>
+    renderInline(text, mentionNames, key);
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+    const key = `block-${index}`;
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    if (line.trim().startsWith("```")) {
+      const code: string[] = [];
+      index++;
+      while (index < lines.length && !lines[index].trim().startsWith("```")) {
+        code.push(lines[index]);
+        index++;
+      }
+      index++;
+      blocks.push(
+        <pre
+          key={key}
+          className="overflow-x-auto rounded-md bg-muted p-2 text-[13px]"
+        >
+          <code>{code.join("\n")}</code>
+        </pre>
+      );
+      continue;
+    }
+
+    const listMatch = (value: string) =>
+      value.match(/^\s*(?:[-*]|(\d+)\.)\s+(.*)$/);
+    if (listMatch(line)) {
+      const ordered = Boolean(listMatch(line)?.[1]);
+      const items: ReactNode[] = [];
+      while (index < lines.length) {
+        const match = listMatch(lines[index]);
+        if (!match || Boolean(match[1]) !== ordered) break;
+        items.push(<li key={index}>{inline(match[2], `li-${index}`)}</li>);
+        index++;
+      }
+      blocks.push(
+        ordered ? (
+          <ol key={key} className="list-decimal space-y-0.5 pl-5">
+            {items}
+          </ol>
+        ) : (
+          <ul key={key} className="list-disc space-y-0.5 pl-5">
+            {items}
+          </ul>
+        )
+      );
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      const quoted: string[] = [];
+      while (index < lines.length && lines[index].startsWith(">")) {
+        quoted.push(lines[index].replace(/^>\s?/, ""));
+        index++;
+      }
+      blocks.push(
+        <blockquote
+          key={key}
+          className="border-l-2 pl-3 text-muted-foreground"
+        >
+          {inline(quoted.join(" "), key)}
+        </blockquote>
+      );
+      continue;
+    }
+
+    const heading = line.match(/^#{1,3}\s+(.*)$/);
+    if (heading) {
+      blocks.push(
+        <p key={key} className="font-semibold">
+          {inline(heading[1], key)}
+        </p>
+      );
+      index++;
+      continue;
+    }
+
+    // Consecutive plain lines form one paragraph with line breaks kept.
+    const paragraph: string[] = [];
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      !lines[index].trim().startsWith("```") &&
+      !listMatch(lines[index]) &&
+      !lines[index].startsWith(">") &&
+      !/^#{1,3}\s/.test(lines[index])
+    ) {
+      paragraph.push(lines[index]);
+      index++;
+    }
+    blocks.push(
+      <p key={key}>
+        {paragraph.map((text, lineIndex) => (
+          <span key={lineIndex}>
+            {lineIndex > 0 && <br />}
+            {inline(text, `${key}-${lineIndex}`)}
+          </span>
+        ))}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2 break-words text-sm leading-relaxed">
+      {blocks}
+    </div>
+  );
+};
+
+export default CommentMarkdown;
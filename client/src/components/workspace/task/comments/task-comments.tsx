@@ -0,0 +1,272 @@
+import { useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { Loader } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ConfirmDialog } from "@/components/resuable/confirm-dialog";
+import { useAuthContext } from "@/context/auth-provider";
+import useTaskComments from "@/hooks/api/use-task-comments";
+import useGetWorkspaceMembers from "@/hooks/api/use-get-workspace-members";
+import { toast } from "@/hooks/use-toast";
+import {
+  createTaskCommentMutationFn,
+  deleteTaskCommentMutationFn,
+  updateTaskCommentMutationFn,
+} from "@/lib/api";
+import { getAvatarColor, getAvatarFallbackText } from "@/lib/helper";
+import { TaskCommentType } from "@/types/api.type";
+import CommentEditor from "./comment-editor";
+import CommentMarkdown from "./comment-markdown";
+
+type TaskCommentsProps = {
+  workspaceId: string;
+  taskId: string;
+  isOwnerOrAdmin: boolean;
+};
+
+const TaskComments = ({
+  workspaceId,
+  taskId,
+  isOwnerOrAdmin,
+}: TaskCommentsProps) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuthContext();
+
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const { data, isLoading } = useTaskComments(workspaceId, taskId);
+  const { data: memberData } = useGetWorkspaceMembers(workspaceId);
+
+  const comments = data?.comments ?? [];
+  const members = (memberData?.members ?? []).map((member) => member.userId);
+  const threads = comments.filter((comment) => !comment.parentComment);
+  const repliesOf = (commentId: string) =>
+    comments.filter((comment) => comment.parentComment === commentId);
+
+  const onSuccess = () =>
+    queryClient.invalidateQueries({
+      queryKey: ["task-comments", workspaceId, taskId],
+    });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const { mutate: createComment, isPending: isCreating } = useMutation({
+    mutationFn: createTaskCommentMutationFn,
+    onError,
+  });
+  const { mutate: updateComment, isPending: isUpdating } = useMutation({
+    mutationFn: updateTaskCommentMutationFn,
+    onError,
+  });
+  const { mutate: deleteComment, isPending: isDeleting } = useMutation({
+    mutationFn: deleteTaskCommentMutationFn,
+    onError,
+  });
+
+  const handleCreate = (
+    body: string,
+    clear: () => void,
+    parentCommentId?: string
+  ) =>
+    createComment(
+      { workspaceId, taskId, data: { body, parentCommentId } },
+      {
+        onSuccess: () => {
+          clear();
+          setReplyingTo(null);
+          onSuccess();
+        },
+      }
+    );
+
+  const handleUpdate = (commentId: string, body: string) =>
+    updateComment(
+      { workspaceId, commentId, data: { body } },
+      {
+        onSuccess: () => {
+          setEditingId(null);
+          onSuccess();
+        },
+      }
+    );
+
+  const handleDelete = () => {
+    if (!deletingId) return;
+    deleteComment(
+      { workspaceId, commentId: deletingId },
+      {
+        onSuccess: () => {
+          setDeletingId(null);
+          onSuccess();
+        },
+      }
+    );
+  };
+
+  const renderComment = (comment: TaskCommentType, threadId: string) => {
+    const authorName = comment.author?.name ?? "Former member";
+    const initials = getAvatarFallbackText(authorName);
+    const isAuthor = comment.author?._id === user?._id;
+
+    if (comment.deletedAt) {
+      return (
+        <p className="py-1 text-sm italic text-muted-foreground">
+          This comment was deleted.
+        </p>
+      );
+    }
+
+    return (
+      <div className="flex gap-3">
+        <Avatar className="h-7 w-7">
+          <AvatarImage
+            src={comment.author?.profilePicture || ""}
+            alt={authorName}
+          />
+          <AvatarFallback className={getAvatarColor(initials)}>
+            {initials}
+          </AvatarFallback>
+        </Avatar>
+        <div className="min-w-0 flex-1 space-y-1">
+          <p className="text-sm">
+            <span className="font-medium">{authorName}</span>
+            <span
+              className="ml-2 text-xs text-muted-foreground"
+              title={format(new Date(comment.createdAt), "PPpp")}
+            >
+              {formatDistanceToNow(new Date(comment.createdAt), {
+                addSuffix: true,
+              })}
+            </span>
+            {comment.editedAt && (
+              <span
+                className="ml-1 text-xs text-muted-foreground"
+                title={`Edited ${format(new Date(comment.editedAt), "PPpp")}`}
+              >
+                (edited)
+              </span>
+            )}
+          </p>
+          {editingId === comment._id ? (
+            <CommentEditor
+              members={members}
+              initialValue={comment.body}
+              submitLabel="Save"
+              isPending={isUpdating}
+              autoFocus
+              onSubmit={(body) => handleUpdate(comment._id, body)}
+              onCancel={() => setEditingId(null)}
+            />
+          ) : (
+            <>
+              <CommentMarkdown
+                body={comment.body}
+                mentionNames={comment.mentions.map((mention) => mention.name)}
+              />
+              <div className="flex gap-3 text-xs text-muted-foreground">
+                <button
+                  type="button"
+                  className="hover:text-foreground"
+                  onClick={() => setReplyingTo(threadId)}
+                >
+                  Reply
+                </button>
+                {isAuthor && (
+                  <button
+                    type="button"
+                    className="hover:text-foreground"
+                    onClick={() => setEditingId(comment._id)}
+                  >
+                    Edit
+                  </button>
+                )}
+                {(isAuthor || isOwnerOrAdmin) && (
+                  <button
+                    type="button"
+                    className="hover:text-destructive"
+                    onClick={() => setDeletingId(comment._id)}
+                  >
+                    Delete
+                  </button>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : threads.length === 0 ? (
+        <p className="py-4 text-center text-sm text-muted-foreground">
+          No comments yet. Start the discussion below.
+        </p>
+      ) : (
+        <ul className="max-h-[420px] space-y-4 overflow-y-auto pr-1 scrollbar">
+          {threads.map((thread) => (
+            <li key={thread._id} className="space-y-3">
+              {renderComment(thread, thread._id)}
+              {(repliesOf(thread._id).length > 0 ||
+                replyingTo === thread._id) && (
+                <ul className="ml-10 space-y-3 border-l pl-4">
+                  {repliesOf(thread._id).map((reply) => (
+                    <li key={reply._id}>{renderComment(reply, thread._id)}</li>
+                  ))}
+                  {replyingTo === thread._id && (
+                    <li>
+                      <CommentEditor
+                        members={members}
+                        placeholder="Write a reply…"
+                        submitLabel="Reply"
+                        isPending={isCreating}
+                        autoFocus
+                        onSubmit={(body, clear) =>
+                          handleCreate(body, clear, thread._id)
+                        }
+                        onCancel={() => setReplyingTo(null)}
+                      />
+                    </li>
+                  )}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <CommentEditor
+        members={members}
+        submitLabel="Comment"
+        isPending={isCreating && !replyingTo}
+        onSubmit={(body, clear) => handleCreate(body, clear)}
+      />
+
+      <ConfirmDialog
+        isOpen={Boolean(deletingId)}
+        isLoading={isDeleting}
+        onClose={() => setDeletingId(null)}
+        onConfirm={handleDelete}
+        title="Delete comment"
+        description="Are you sure you want to delete this comment?"
+        confirmText="Delete"
+        cancelText="Cancel"
+      />
+    </div>
+  );
+};
+
+export default TaskComments;
@@ -1,5 +1,6 @@
+import { useState } from "react";
 import { z } from "zod";
-import { format } from "date-fns";
+import { addDays, format, startOfToday } from "date-fns";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { CalendarIcon, Loader } from "lucide-react";
@@ -29,18 +30,32 @@ import { Textarea } from "../../ui/textarea";
 import { cn } from "@/lib/utils";
 import { Calendar } from "@/components/ui/calendar";
 import {
-  getAvatarColor,
-  getAvatarFallbackText,
+  findMemberForRole,
+  formatDuration,
+  parseDuration,
   transformOptions,
 } from "@/lib/helper";
 import useWorkspaceId from "@/hooks/use-workspace-id";
-import { TaskPriorityEnum, TaskStatusEnum } from "@/constant";
+import { TaskPriorityEnum } from "@/constant";
+import useWorkspaceWorkflow from "@/hooks/api/use-workspace-workflow";
 import useGetProjectsInWorkspaceQuery from "@/hooks/api/use-get-projects";
-import useGetWorkspaceMembers from "@/hooks/api/use-get-workspace-members";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { createTaskMutationFn } from "@/lib/api";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "@/hooks/use-toast";
+import {
+  CustomFieldValuesType,
+  TaskRecurrenceType,
+  TemplateType,
+} from "@/types/api.type";
+import RecurrenceFields from "./recurrence-fields";
+import useCustomFields from "@/hooks/api/use-custom-fields";
+import CustomFieldInputs from "./custom-field-inputs";
+import TaskLabelPicker from "./task-label-picker";
+import TaskSprintSelect from "./task-sprint-select";
+import TaskAssigneePicker from "./task-assignee-picker";
+import { Label } from "@/components/ui/label";
+import useTemplates from "@/hooks/api/use-templates";
+import useGetWorkspaceMembers from "@/hooks/api/use-get-workspace-members";
 
 export default function CreateTaskForm(props: {
   projectId?: string;
@@ -50,6 +65,20 @@ export default function CreateTaskForm(props: {
 
   const queryClient = useQueryClient();
   const workspaceId = useWorkspaceId();
+  const { workflow } = useWorkspaceWorkflow();
+  const [recurrence, setRecurrence] = useState<TaskRecurrenceType | null>(
+    null
+  );
+  const [customFieldValues, setCustomFieldValues] =
+    useState<CustomFieldValuesType>({});
+  const [labelIds, setLabelIds] = useState<string[]>([]);
+  const [sprintId, setSprintId] = useState<string | null>(null);
+  const [templateId, setTemplateId] = useState<string>("");
+  const [checklist, setChecklist] = useState<string[]>([]);
+
+  const { data: templateData } = useTemplates(workspaceId, "TASK");
+  const templates = templateData?.templates ?? [];
+  const { data: memberData } = useGetWorkspaceMembers(workspaceId);
 
   const { mutate, isPending } = useMutation({
     mutationFn: createTaskMutationFn,
@@ -60,10 +89,7 @@ export default function CreateTaskForm(props: {
     skip: !!projectId,
   });
 
-  const { data: memberData } = useGetWorkspaceMembers(workspaceId);
-
   const projects = data?.projects || [];
-  const members = memberData?.members || [];
 
   //Workspace Projects
   const projectOptions = projects?.map((project) => {
@@ -78,53 +104,45 @@ export default function CreateTaskForm(props: {
     };
   });
 
-  // Workspace Memebers
-  const membersOptions = members?.map((member) => {
-    const name = member.userId?.name || "Unknown";
-    const initials = getAvatarFallbackText(name);
-    const avatarColor = getAvatarColor(name);
-
-    return {
-      label: (
-        <div className="flex items-center space-x-2">
-          <Avatar className="h-7 w-7">
-            <AvatarImage src={member.userId?.profilePicture || ""} alt={name} />
-            <AvatarFallback className={avatarColor}>{initials}</AvatarFallback>
-          </Avatar>
-          <span>{name}</span>
-        </div>
+  const formSchema = z
+    .object({
+      title: z.string().trim().min(1, {
+        message: "Title is required",
+      }),
+      description: z.string().trim(),
+      projectId: z.string().trim().min(1, {
+        message: "Project is required",
+      }),
+      status: z.string({ required_error: "Status is required" }).min(1, {
+        message: "Status is required",
+      }),
+      priority: z.enum(
+        Object.values(TaskPriorityEnum) as [keyof typeof TaskPriorityEnum],
+        {
+          required_error: "Priority is required",
+        }
       ),
-      value: member.userId._id,
-    };
-  });
-
-  const formSchema = z.object({
-    title: z.string().trim().min(1, {
-      message: "Title is required",
-    }),
-    description: z.string().trim(),
-    projectId: z.string().trim().min(1, {
-      message: "Project is required",
-    }),
-    status: z.enum(
-      Object.values(TaskStatusEnum) as [keyof typeof TaskStatusEnum],
+      assignees: z.array(z.string()).min(1, {
+        message: "Pick at least one assignee",
+      }),
+      startDate: z.date().optional(),
+      dueDate: z.date({
+        required_error: "A date of birth is required.",
+      }),
+      estimate: z
+        .string()
+        .trim()
+        .refine((value) => !value || parseDuration(value) !== null, {
+          message: 'Use a duration like "2h 30m"',
+        }),
+    })
+    .refine(
+      (values) => !values.startDate || values.startDate <= values.dueDate,
       {
-        required_error: "Status is required",
+        message: "Start date cannot be after the due date",
+        path: ["startDate"],
       }
-    ),
-    priority: z.enum(
-      Object.values(TaskPriorityEnum) as [keyof typeof TaskPriorityEnum],
-      {
-        required_error: "Priority is required",
-      }
-    ),
-    assignedTo: z.string().trim().min(1, {
-      message: "AssignedTo is required",
-    }),
-    dueDate: z.date({
-      required_error: "A date of birth is required.",
-    }),
-  });
+    );
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -132,23 +150,83 @@ export default function CreateTaskForm(props: {
       title: "",
       description: "",
       projectId: projectId ? projectId : "",
+      assignees: [],
+      estimate: "",
     },
   });
 
-  const taskStatusList = Object.values(TaskStatusEnum);
+  // Project-level fields only show up once a project is picked.
+  const selectedProjectId = form.watch("projectId");
+  const { data: customFieldData } = useCustomFields(
+    workspaceId,
+    selectedProjectId || undefined
+  );
+  const customFields = (customFieldData?.fields ?? []).filter(
+    (field) => !field.project || field.project === selectedProjectId
+  );
+
+  // Dates in a template are offsets from today; past offsets land on today.
+  const applyTemplate = (template: TemplateType) => {
+    const [templateTask] = template.tasks;
+    if (!templateTask) return;
+
+    const fromToday = (offset: number | null) =>
+      offset === null ? undefined : addDays(startOfToday(), Math.max(0, offset));
+
+    setTemplateId(template._id);
+    form.setValue("title", templateTask.title);
+    form.setValue("description", templateTask.description ?? "");
+    form.setValue("priority", templateTask.priority);
+    form.setValue("startDate", fromToday(templateTask.startOffsetDays));
+    const dueDate = fromToday(templateTask.dueOffsetDays);
+    if (dueDate) form.setValue("dueDate", dueDate);
+    form.setValue(
+      "estimate",
+      templateTask.estimateMinutes
+        ? formatDuration(templateTask.estimateMinutes)
+        : ""
+    );
+    form.setValue(
+      "assignees",
+      templateTask.assigneeRoles
+        .map(
+          (role) =>
+            findMemberForRole(memberData?.members ?? [], role)?.userId._id
+        )
+        .filter((id): id is string => Boolean(id))
+    );
+    setLabelIds(templateTask.labels);
+    setChecklist(templateTask.checklist);
+  };
+
   const taskPriorityList = Object.values(TaskPriorityEnum); // ["LOW", "MEDIUM", "HIGH", "URGENT"]
 
-  const statusOptions = transformOptions(taskStatusList);
+  const statusOptions = workflow.statuses.map((status) => ({
+    label: status.name,
+    value: status.key,
+  }));
   const priorityOptions = transformOptions(taskPriorityList);
 
   const onSubmit = (values: z.infer<typeof formSchema>) => {
     if (isPending) return;
+    const { estimate, ...taskValues } = values;
     const payload = {
       workspaceId,
       projectId: values.projectId,
       data: {
-        ...values,
+        ...taskValues,
+        startDate: values.startDate?.toISOString() ?? null,
         dueDate: values.dueDate.toISOString(),
+        ...(estimate && { estimateMinutes: parseDuration(estimate) }),
+        ...(recurrence && { recurrence }),
+        labels: labelIds,
+        sprint: sprintId,
+        ...(checklist.length && { checklist }),
+        customFields: Object.fromEntries(
+          customFields
+            .filter((field) => customFieldValues[field._id] != null)
+            .map((field) => [field._id, customFieldValues[field._id]])
+        ),
       },
     };
 
@@ -162,6 +240,10 @@ export default function CreateTaskForm(props: {
           queryKey: ["all-tasks", workspaceId],
         });
 
+        queryClient.invalidateQueries({
+          queryKey: ["sprint-report", values.projectId],
+        });
+
         toast({
           title: "Success",
           description: "Task created successfully",
@@ -195,6 +277,43 @@ export default function CreateTaskForm(props: {
         </div>
         <Form {...form}>
           <form className="space-y-3" onSubmit={form.handleSubmit(onSubmit)}>
+            {templates.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">
+                  Template
+                  <span className="text-xs font-extralight ml-2">
+                    Optional
+                  </span>
+                </Label>
+                <Select
+                  value={templateId}
+                  onValueChange={(value) => {
+                    const template = templates.find(
+                      (option) => option._id === value
+                    );
+                    if (template) applyTemplate(template);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Start from a template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem key={template._id} value={template._id}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {checklist.length > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Adds a {checklist.length}-item checklist from the
+                    template.
+                  </p>
+                )}
+              </div>
+            )}
+
             <div>
               <FormField
                 control={form.control}
@@ -288,42 +407,68 @@ export default function CreateTaskForm(props: {
               </div>
             )}
 
-            {/* {Members AssigneeTo} */}
+            {/* {Members Assignees} */}
 
             <div>
               <FormField
                 control={form.control}
-                name="assignedTo"
+                name="assignees"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Assigned To</FormLabel>
-                    <Select
-                      onValueChange={field.onChange}
-                      defaultValue={field.value}
-                    >
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue placeholder="Select a assignee" />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <div
-                          className="w-full max-h-[200px]
-                           overflow-y-auto scrollbar
-                          "
-                        >
-                          {membersOptions?.map((option) => (
-                            <SelectItem
-                              className="cursor-pointer"
-                              key={option.value}
-                              value={option.value}
-                            >
-                              {option.label}
-                            </SelectItem>
-                          ))}
-                        </div>
-                      </SelectContent>
-                    </Select>
+                    <FormLabel>Assignees</FormLabel>
+                    <FormControl>
+                      <TaskAssigneePicker
+                        value={field.value}
+                        onChange={field.onChange}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* {Start Date} */}
+            <div className="!mt-2">
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>
+                      Start Date
+                      <span className="text-xs font-extralight ml-2">
+                        Optional
+                      </span>
+                    </FormLabel>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <FormControl>
+                          <Button
+                            variant={"outline"}
+                            className={cn(
+                              "w-full flex-1 pl-3 text-left font-normal",
+                              !field.value && "text-muted-foreground"
+                            )}
+                          >
+                            {field.value ? (
+                              format(field.value, "PPP")
+                            ) : (
+                              <span>Pick a date</span>
+                            )}
+                            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                          </Button>
+                        </FormControl>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="start">
+                        <Calendar
+                          mode="single"
+                          selected={field.value}
+                          onSelect={field.onChange}
+                          initialFocus
+                        />
+                      </PopoverContent>
+                    </Popover>
                     <FormMessage />
                   </FormItem>
                 )}
@@ -380,6 +525,32 @@ export default function CreateTaskForm(props: {
               />
             </div>
 
+            {/* {Estimate} */}
+            <div>
+              <FormField
+                control={form.control}
+                name="estimate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Original Estimate</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. 2h 30m" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {/* {Recurrence} */}
+            <div className="space-y-2">
+              <p className="text-sm font-medium">
+                Repeat
+                <span className="text-xs font-extralight ml-2">Optional</span>
+              </p>
+              <RecurrenceFields value={recurrence} onChange={setRecurrence} />
+            </div>
+
             {/* {Status} */}
 
             <div>
@@ -429,7 +600,7 @@ export default function CreateTaskForm(props: {
                     <FormLabel>Priority</FormLabel>
                     <Select
                       onValueChange={field.onChange}
-                      defaultValue={field.value}
+                      value={field.value}
                     >
                       <FormControl>
                         <SelectTrigger>
@@ -454,6 +625,31 @@ export default function CreateTaskForm(props: {
               />
             </div>
 
+            {/* {Labels} */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Labels</Label>
+              <TaskLabelPicker value={labelIds} onChange={setLabelIds} />
+            </div>
+
+            {/* {Sprint} */}
+            {selectedProjectId && (
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Sprint</Label>
+                <TaskSprintSelect
+                  projectId={selectedProjectId}
+                  value={sprintId}
+                  onChange={setSprintId}
+                />
+              </div>
+            )}
+
+            {/* {Custom fields} */}
+            <CustomFieldInputs
+              fields={customFields}
+              values={customFieldValues}
+              onChange={setCustomFieldValues}
+            />
+
             <Button
               className="flex place-self-end  h-[40px] text-white font-semibold"
               type="submit"
@@ -0,0 +1,204 @@
+import { format } from "date-fns";
+import { CalendarIcon } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { CustomFieldTypeEnum } from "@/constant";
+import useGetWorkspaceMembers from "@/hooks/api/use-get-workspace-members";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import type {
+  CustomFieldType,
+  CustomFieldValuesType,
+  CustomFieldValueType,
+} from "@/types/api.type";
+
+const EMPTY_OPTION_VALUE = "__none__";
+
+type CustomFieldInputProps = {
+  field: CustomFieldType;
+  value: CustomFieldValueType | undefined;
+  onChange: (value: CustomFieldValueType) => void;
+  disabled?: boolean;
+};
+
+const CustomFieldInput = ({
+  field,
+  value,
+  onChange,
+  disabled,
+}: CustomFieldInputProps) => {
+  const workspaceId = useWorkspaceId();
+  const { data: memberData } = useGetWorkspaceMembers(workspaceId);
+  const members = memberData?.members || [];
+
+  switch (field.type) {
+    case CustomFieldTypeEnum.NUMBER:
+      return (
+        <Input
+          type="number"
+          disabled={disabled}
+          value={typeof value === "number" ? value : ""}
+          onChange={(event) =>
+            onChange(
+              event.target.value === "" ? null : Number(event.target.value)
+            )
+          }
+        />
+      );
+    case CustomFieldTypeEnum.CHECKBOX:
+      return (
+        <Checkbox
+          disabled={disabled}
+          checked={value === true}
+          onCheckedChange={(checked) => onChange(checked === true)}
+        />
+      );
+    case CustomFieldTypeEnum.DATE: {
+      const date = typeof value === "string" && value ? new Date(value) : null;
+      return (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={disabled}
+              className="w-full justify-start font-normal"
+            >
+              {date ? format(date, "PPP") : "Pick a date"}
+              <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-auto p-0" align="start">
+            <Calendar
+              mode="single"
+              selected={date ?? undefined}
+              onSelect={(selected) =>
+                onChange(selected ? selected.toISOString() : null)
+              }
+            />
+          </PopoverContent>
+        </Popover>
+      );
+    }
+    case CustomFieldTypeEnum.SINGLE_SELECT:
+    case CustomFieldTypeEnum.USER: {
+      const options =
+        field.type === CustomFieldTypeEnum.USER
+          ? members.map((member) => ({
+              label: member.userId?.name || "Unknown",
+              value: member.userId?._id,
+            }))
+          : field.options.map((option) => ({ label: option, value: option }));
+
+      return (
+        <Select
+          disabled={disabled}
+          value={typeof value === "string" && value ? value : EMPTY_OPTION_VALUE}
+          onValueChange={(selected) =>
+            onChange(selected === EMPTY_OPTION_VALUE ? null : selected)
+          }
+        >
+          <SelectTrigger>
+            <SelectValue placeholder={`Select ${field.name}`} />
+          </SelectTrigger>
+          <SelectContent>
+            <div className="w-full max-h-[200px] overflow-y-auto scrollbar">
+              <SelectItem value={EMPTY_OPTION_VALUE}>None</SelectItem>
+              {options.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </div>
+          </SelectContent>
+        </Select>
+      );
+    }
+    case CustomFieldTypeEnum.MULTI_SELECT: {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="flex flex-wrap gap-1">
+          {field.options.map((option) => {
+            const isSelected = selected.includes(option);
+            return (
+              <Button
+                key={option}
+                type="button"
+                size="sm"
+                disabled={disabled}
+                variant={isSelected ? "default" : "outline"}
+                className="h-7"
+                onClick={() =>
+                  onChange(
+                    isSelected
+                      ? selected.filter((item) => item !== option)
+                      : [...selected, option]
+                  )
+                }
+              >
+                {option}
+              </Button>
+            );
+          })}
+        </div>
+      );
+    }
+    case CustomFieldTypeEnum.TEXT:
+    default:
+      return (
+        <Input
+          disabled={disabled}
+          value={typeof value === "string" ? value : ""}
+          onChange={(event) => onChange(event.target.value || null)}
+        />
+      );
+  }
+};
+
+type CustomFieldInputsProps = {
+  fields: CustomFieldType[];
+  values: CustomFieldValuesType;
+  onChange: (values: CustomFieldValuesType) => void;
+  disabled?: boolean;
+};
+
+const CustomFieldInputs = ({
+  fields,
+  values,
+  onChange,
+  disabled,
+}: CustomFieldInputsProps) => {
+  if (!fields.length) return null;
+
+  return (
+    <div className="space-y-3">
+      {fields.map((field) => (
+        <div key={field._id} className="space-y-2">
+          <Label className="text-sm font-medium">{field.name}</Label>
+          <CustomFieldInput
+            field={field}
+            value={values[field._id]}
+            disabled={disabled}
+            onChange={(value) => onChange({ ...values, [field._id]: value })}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CustomFieldInputs;
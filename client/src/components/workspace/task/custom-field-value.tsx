@@ -0,0 +1,58 @@
+import { format } from "date-fns";
+import { Check } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { CustomFieldTypeEnum } from "@/constant";
+import useGetWorkspaceMembers from "@/hooks/api/use-get-workspace-members";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import type {
+  CustomFieldType,
+  CustomFieldValueType,
+} from "@/types/api.type";
+
+const CustomFieldValue = ({
+  field,
+  value,
+}: {
+  field: CustomFieldType;
+  value: CustomFieldValueType | undefined;
+}) => {
+  const workspaceId = useWorkspaceId();
+  const { data: memberData } = useGetWorkspaceMembers(workspaceId);
+
+  if (value === null || value === undefined || value === "") return null;
+
+  switch (field.type) {
+    case CustomFieldTypeEnum.CHECKBOX:
+      return value ? <Check className="h-4 w-4" /> : null;
+    case CustomFieldTypeEnum.DATE:
+      return <span className="text-sm">{format(String(value), "PPP")}</span>;
+    case CustomFieldTypeEnum.USER: {
+      const member = memberData?.members.find(
+        (member) => member.userId?._id === value
+      );
+      return (
+        <span className="block w-[120px] truncate text-sm">
+          {member?.userId?.name ?? "Unknown"}
+        </span>
+      );
+    }
+    case CustomFieldTypeEnum.MULTI_SELECT:
+      return (
+        <div className="flex flex-wrap gap-1">
+          {(Array.isArray(value) ? value : []).map((option) => (
+            <Badge key={option} variant="outline">
+              {option}
+            </Badge>
+          ))}
+        </div>
+      );
+    default:
+      return (
+        <span className="block max-w-[160px] truncate text-sm">
+          {String(value)}
+        </span>
+      );
+  }
+};
+
+export default CustomFieldValue;
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ConfirmDialog } from "@/components/resuable/confirm-dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/hooks/use-toast";
+import { duplicateTaskMutationFn } from "@/lib/api";
+import { TaskType } from "@/types/api.type";
+
+type DuplicateTaskDialogProps = {
+  workspaceId: string;
+  task: TaskType;
+  isOpen: boolean;
+  onClose: () => void;
+};
+
+const DuplicateTaskDialog = ({
+  workspaceId,
+  task,
+  isOpen,
+  onClose,
+}: DuplicateTaskDialogProps) => {
+  const queryClient = useQueryClient();
+  const [title, setTitle] = useState(`${task.title} (copy)`);
+  const [options, setOptions] = useState({
+    description: true,
+    clarifications: false,
+    subtasks: false,
+  });
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: duplicateTaskMutationFn,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["all-tasks", workspaceId] });
+      if (task.parentTask) {
+        queryClient.invalidateQueries({
+          queryKey: ["subtasks", workspaceId, task.parentTask],
+        });
+      }
+      toast({
+        title: "Success",
+        description: `Created ${data.task.taskCode}`,
+        variant: "success",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const choices: { key: keyof typeof options; label: string }[] = [
+    { key: "description", label: "Description" },
+    { key: "clarifications", label: "Clarifications" },
+    ...(task.parentTask
+      ? []
+      : [{ key: "subtasks" as const, label: "Subtasks" }]),
+  ];
+
+  return (
+    <ConfirmDialog
+      isOpen={isOpen}
+      isLoading={isPending}
+      onClose={onClose}
+      onConfirm={() =>
+        mutate({
+          workspaceId,
+          taskId: task._id,
+          data: { title: title.trim() || undefined, ...options },
+        })
+      }
+      title="Duplicate Task"
+      description="Fields, labels and the checklist are always copied."
+      confirmText="Duplicate"
+      cancelText="Cancel"
+    >
+      <div className="space-y-3">
+        <div className="space-y-2">
+          <Label className="text-sm">Title</Label>
+          <Input
+            value={title}
+            onChange={(event) => setTitle(event.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-sm">Also copy</Label>
+          {choices.map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={options[key]}
+                onCheckedChange={(checked) =>
+                  setOptions({ ...options, [key]: checked === true })
+                }
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      </div>
+    </ConfirmDialog>
+  );
+};
+
+export default DuplicateTaskDialog;
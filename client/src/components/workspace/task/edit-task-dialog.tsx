@@ -5,7 +5,7 @@ import { TaskType } from "@/types/api.type";
 const EditTaskDialog = ({ task, isOpen, onClose }: { task: TaskType; isOpen: boolean; onClose: () => void }) => {
   return (
     <Dialog modal={true} open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto my-5 border-0">
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto my-5 border-0">
         <EditTaskForm task={task} onClose={onClose} />
       </DialogContent>
     </Dialog>
@@ -3,7 +3,14 @@ import { z } from "zod";
 import { format, formatDistanceToNow } from "date-fns";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
-import { CalendarIcon, Loader, ShieldAlert } from "lucide-react";
+import {
+  CalendarIcon,
+  CheckCircle2,
+  Loader,
+  Paperclip,
+  RotateCcw,
+  ShieldAlert,
+} from "lucide-react";
 import {
   Form,
   FormControl,
@@ -30,44 +37,92 @@ import { Textarea } from "@/components/ui/textarea";
 import { Calendar } from "@/components/ui/calendar";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
 import useWorkspaceId from "@/hooks/use-workspace-id";
 import {
+  ATTACHMENT_ACCEPT,
+  Permissions,
   TaskPriorityEnum,
-  TaskStatusEnum,
-} from "@/constant";
-import type {
-  TaskPriorityEnumType,
-  TaskStatusEnumType,
 } from "@/constant";
-import useGetWorkspaceMembers from "@/hooks/api/use-get-workspace-members";
+import type { TaskPriorityEnumType } from "@/constant";
 import useTaskClarifications from "@/hooks/api/use-task-clarifications";
+import useTaskAttachments from "@/hooks/api/use-task-attachments";
+import useWorkspaceWorkflow from "@/hooks/api/use-workspace-workflow";
+import {
+  formatDuration,
+  getAllowedNextStatuses,
+  isDoneStatus,
+  parseDuration,
+} from "@/lib/helper";
 import {
   createTaskClarificationMutationFn,
   editTaskMutationFn,
+  reopenTaskClarificationMutationFn,
+  resolveTaskClarificationMutationFn,
   respondTaskClarificationMutationFn,
+  updateTaskClarificationMutationFn,
+  updateTaskSeriesMutationFn,
+  uploadAttachmentMutationFn,
+  withdrawTaskClarificationMutationFn,
 } from "@/lib/api";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "@/hooks/use-toast";
 import type {
+  ClarificationStatusType,
+  CustomFieldValuesType,
+  ResolveTaskClarificationPayloadType,
   RespondTaskClarificationPayloadType,
+  TaskAttachmentType,
   TaskClarificationResponseType,
+  UpdateTaskClarificationPayloadType,
   TaskType,
 } from "@/types/api.type";
 import { useAuthContext } from "@/context/auth-provider";
-const UNASSIGNED_OPTION_VALUE = "__unassigned__";
-
-const formSchema = z.object({
-  title: z.string().trim().min(1, { message: "Title is required" }),
-  description: z.string().trim(),
-  status: z.enum(
-    Object.values(TaskStatusEnum) as [keyof typeof TaskStatusEnum]
-  ),
-  priority: z.enum(
-    Object.values(TaskPriorityEnum) as [keyof typeof TaskPriorityEnum]
-  ),
-  assignedTo: z.string().trim().optional(),
-  dueDate: z.date({ required_error: "A due date is required." }),
-});
+import TaskSubtasks from "./task-subtasks";
+import TaskChecklist from "./task-checklist";
+import TaskDependencies from "./task-dependencies";
+import TaskRecurrence from "./task-recurrence";
+import CustomFieldInputs from "./custom-field-inputs";
+import TaskLabelPicker from "./task-label-picker";
+import TaskSprintSelect from "./task-sprint-select";
+import TaskAssigneePicker from "./task-assignee-picker";
+import TaskWatchButton from "./task-watch-button";
+import TaskTimeTracking from "./task-time-tracking";
+import TaskActivity from "./task-activity";
+import TaskComments from "./comments/task-comments";
+import TaskAttachments from "./attachments/task-attachments";
+import AttachmentList from "./attachments/attachment-list";
+import { Label } from "@/components/ui/label";
+import useCustomFields from "@/hooks/api/use-custom-fields";
+
+const formSchema = z
+  .object({
+    title: z.string().trim().min(1, { message: "Title is required" }),
+    description: z.string().trim(),
+    status: z.string().trim().min(1, { message: "Status is required" }),
+    priority: z.enum(
+      Object.values(TaskPriorityEnum) as [keyof typeof TaskPriorityEnum]
+    ),
+    assignees: z.array(z.string()),
+    startDate: z.date().optional(),
+    dueDate: z.date({ required_error: "A due date is required." }),
+    estimate: z
+      .string()
+      .trim()
+      .refine((value) => !value || parseDuration(value) !== null, {
+        message: 'Use a duration like "2h 30m"',
+      }),
+    overrideBlockers: z.boolean().optional(),
+    applyToSeries: z.boolean().optional(),
+  })
+  .refine(
+    (values) => !values.startDate || values.startDate <= values.dueDate,
+    {
+      message: "Start date cannot be after the due date",
+      path: ["startDate"],
+    }
+  );
 
 export default function EditTaskForm({
   task,
@@ -78,16 +133,39 @@ export default function EditTaskForm({
 }) {
   const queryClient = useQueryClient();
   const workspaceId = useWorkspaceId();
-  const { user, workspace } = useAuthContext();
-  const [activeTab, setActiveTab] = useState<"details" | "clarifications">(
-    "details"
-  );
+  const { user, workspace, hasPermission } = useAuthContext();
+  const [activeTab, setActiveTab] = useState<
+    | "details"
+    | "subtasks"
+    | "checklist"
+    | "dependencies"
+    | "time"
+    | "clarifications"
+    | "comments"
+    | "files"
+    | "activity"
+  >("details");
   const { mutate: updateTask, isPending: isUpdatingTask } = useMutation({
     mutationFn: editTaskMutationFn,
   });
 
-  const { data: memberData } = useGetWorkspaceMembers(workspaceId);
-  const members = memberData?.members || [];
+  const { mutateAsync: updateSeries, isPending: isUpdatingSeries } =
+    useMutation({
+      mutationFn: updateTaskSeriesMutationFn,
+    });
+
+  const { workflow } = useWorkspaceWorkflow();
+  const { data: customFieldData } = useCustomFields(
+    workspaceId,
+    task.project?._id
+  );
+  const customFields = customFieldData?.fields ?? [];
+  const [customFieldValues, setCustomFieldValues] =
+    useState<CustomFieldValuesType>(task.customFields ?? {});
+  const [labelIds, setLabelIds] = useState<string[]>(
+    task.labels?.map((label) => label._id) ?? []
+  );
+  const [sprintId, setSprintId] = useState<string | null>(task.sprint ?? null);
 
   const memberRecord = workspace?.members.find(
     (member) => member.userId === user?._id
@@ -95,38 +173,40 @@ export default function EditTaskForm({
 
   const roleName = memberRecord?.role?.name;
   const isOwnerOrAdmin = roleName === "OWNER" || roleName === "ADMIN";
-  const isTaskAssignee = task.assignedTo?._id === user?._id;
+  const isTaskAssignee = task.assignees.some(
+    (assignee) => assignee._id === user?._id
+  );
   const canUpdateStatus = isOwnerOrAdmin || isTaskAssignee;
+  const openBlockers =
+    task.blockedBy?.filter(
+      (blocker) => !isDoneStatus(workflow, blocker.status)
+    ) ?? [];
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       title: task?.title ?? "",
       description: task?.description ?? "",
-      status: task?.status ?? "TODO",
+      status: task?.status ?? workflow.defaultStatus,
       priority: task?.priority ?? "MEDIUM",
-      assignedTo: task.assignedTo?._id ?? UNASSIGNED_OPTION_VALUE,
+      assignees: task.assignees.map((assignee) => assignee._id),
+      startDate: task.startDate ? new Date(task.startDate) : undefined,
       dueDate: task?.dueDate ? new Date(task.dueDate) : new Date(),
+      estimate: task.estimateMinutes
+        ? formatDuration(task.estimateMinutes)
+        : "",
+      overrideBlockers: false,
+      applyToSeries: false,
     },
   });
 
-  const membersOptions = members
-    .map((member) => {
-      const id = member.userId?._id;
-      if (!id) {
-        return null;
-      }
-      return {
-        label: member.userId?.name || "Unknown",
-        value: id,
-      };
+  // Only offer the moves the workspace workflow allows from the current status.
+  const statusOptions = getAllowedNextStatuses(workflow, task.status).map(
+    (status) => ({
+      label: status.name,
+      value: status.key,
     })
-    .filter(Boolean) as Array<{ label: string; value: string }>;
-
-  const statusOptions = Object.values(TaskStatusEnum).map((status) => ({
-    label: status.charAt(0) + status.slice(1).toLowerCase(),
-    value: status,
-  }));
+  );
 
   const priorityOptions = Object.values(TaskPriorityEnum).map((priority) => ({
     label: priority.charAt(0) + priority.slice(1).toLowerCase(),
@@ -139,10 +219,16 @@ export default function EditTaskForm({
     const payloadData: Partial<{
       title: string;
       description: string;
-      status: TaskStatusEnumType;
+      status: string;
       priority: TaskPriorityEnumType;
-      assignedTo: string | null;
+      assignees: string[];
+      startDate: string | null;
       dueDate: string;
+      estimateMinutes: number | null;
+      overrideBlockers: boolean;
+      customFields: CustomFieldValuesType;
+      labels: string[];
+      sprint: string | null;
     }> = {
       status: values.status,
     };
@@ -151,13 +237,27 @@ export default function EditTaskForm({
       payloadData.title = values.title;
       payloadData.description = values.description;
       payloadData.priority = values.priority;
-      payloadData.assignedTo =
-        values.assignedTo && values.assignedTo !== UNASSIGNED_OPTION_VALUE
-          ? values.assignedTo
-          : null;
+      payloadData.assignees = values.assignees;
+      payloadData.startDate = values.startDate?.toISOString() ?? null;
       payloadData.dueDate = values.dueDate
         ? values.dueDate.toISOString()
         : undefined;
+      payloadData.estimateMinutes = values.estimate
+        ? parseDuration(values.estimate)
+        : null;
+      payloadData.labels = labelIds;
+      payloadData.sprint = sprintId;
+      if (values.overrideBlockers) {
+        payloadData.overrideBlockers = true;
+      }
+      if (customFields.length) {
+        payloadData.customFields = Object.fromEntries(
+          customFields.map((field) => [
+            field._id,
+            customFieldValues[field._id] ?? null,
+          ])
+        );
+      }
     }
 
     const payload = {
@@ -168,10 +268,35 @@ export default function EditTaskForm({
     };
 
     updateTask(payload, {
-      onSuccess: () => {
+      onSuccess: async () => {
+        if (isOwnerOrAdmin && task.series && values.applyToSeries) {
+          await updateSeries({
+            workspaceId,
+            taskId: task._id,
+            data: {
+              title: payloadData.title,
+              description: payloadData.description,
+              priority: payloadData.priority,
+              assignees: payloadData.assignees,
+            },
+          }).catch(() =>
+            toast({
+              title: "Error",
+              description: "Failed to update the following occurrences",
+              variant: "destructive",
+            })
+          );
+        }
+
         queryClient.invalidateQueries({
           queryKey: ["all-tasks", workspaceId],
         });
+        queryClient.invalidateQueries({
+          queryKey: ["subtasks", workspaceId],
+        });
+        queryClient.invalidateQueries({
+          queryKey: ["sprint-report", task.project?._id],
+        });
         toast({
           title: "Success",
           description: "Task updated successfully",
@@ -195,18 +320,26 @@ export default function EditTaskForm({
   return (
     <div className="w-full h-auto max-w-full">
       <div className="h-full">
-        <div className="mb-5 pb-2 border-b">
+        <div className="mb-5 pb-2 border-b flex items-center justify-between gap-2">
           <h1 className="text-xl font-semibold text-center sm:text-left">
             Edit Task
           </h1>
+          <TaskWatchButton task={task} />
         </div>
         <Tabs
           value={activeTab}
           onValueChange={(value) => setActiveTab(value as typeof activeTab)}
         >
-          <TabsList className="grid grid-cols-2">
+          <TabsList className="grid grid-cols-9">
             <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="subtasks">Subtasks</TabsTrigger>
+            <TabsTrigger value="checklist">Checklist</TabsTrigger>
+            <TabsTrigger value="dependencies">Dependencies</TabsTrigger>
+            <TabsTrigger value="time">Time</TabsTrigger>
             <TabsTrigger value="clarifications">Clarifications</TabsTrigger>
+            <TabsTrigger value="comments">Comments</TabsTrigger>
+            <TabsTrigger value="files">Files</TabsTrigger>
+            <TabsTrigger value="activity">Activity</TabsTrigger>
           </TabsList>
           <TabsContent value="details">
             <Form {...form}>
@@ -255,36 +388,48 @@ export default function EditTaskForm({
 
                 <FormField
                   control={form.control}
-                  name="assignedTo"
+                  name="assignees"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Assigned To</FormLabel>
-                      <Select
-                        onValueChange={field.onChange}
-                        value={field.value}
-                        defaultValue={field.value}
-                        disabled={!isOwnerOrAdmin}
-                      >
-                        <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select an assignee" />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          <div className="w-full max-h-[200px] overflow-y-auto scrollbar">
-                            {isOwnerOrAdmin && (
-                              <SelectItem value={UNASSIGNED_OPTION_VALUE}>
-                                Unassigned
-                              </SelectItem>
-                            )}
-                            {membersOptions.map((option) => (
-                              <SelectItem key={option.value} value={option.value}>
-                                {option.label}
-                              </SelectItem>
-                            ))}
-                          </div>
-                        </SelectContent>
-                      </Select>
+                      <FormLabel>Assignees</FormLabel>
+                      <FormControl>
+                        <TaskAssigneePicker
+                          value={field.value}
+                          onChange={field.onChange}
+                          disabled={!isOwnerOrAdmin}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="startDate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Start Date</FormLabel>
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <FormControl>
+                            <Button variant="outline" disabled={!isOwnerOrAdmin}>
+                              {field.value
+                                ? format(field.value, "PPP")
+                                : "Pick a date"}
+                              <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                            </Button>
+                          </FormControl>
+                        </PopoverTrigger>
+                        <PopoverContent>
+                          <Calendar
+                            mode="single"
+                            selected={field.value}
+                            onSelect={field.onChange}
+                            disabled={!isOwnerOrAdmin ? () => true : undefined}
+                          />
+                        </PopoverContent>
+                      </Popover>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -321,6 +466,24 @@ export default function EditTaskForm({
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="estimate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Original Estimate</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          placeholder="e.g. 2h 30m"
+                          disabled={!isOwnerOrAdmin}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="status"
@@ -380,6 +543,87 @@ export default function EditTaskForm({
                   )}
                 />
 
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Labels</Label>
+                  <TaskLabelPicker
+                    value={labelIds}
+                    onChange={setLabelIds}
+                    disabled={!isOwnerOrAdmin}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Sprint</Label>
+                  <TaskSprintSelect
+                    projectId={task.project?._id}
+                    value={sprintId}
+                    onChange={setSprintId}
+                    disabled={!isOwnerOrAdmin}
+                  />
+                </div>
+
+                <CustomFieldInputs
+                  fields={customFields}
+                  values={customFieldValues}
+                  onChange={setCustomFieldValues}
+                  disabled={!isOwnerOrAdmin}
+                />
+
+                {openBlockers.length > 0 && (
+                  <div className="rounded-md border border-yellow-200 bg-yellow-50 px-3 py-2 text-sm text-yellow-800 space-y-2">
+                    <p>
+                      Blocked by{" "}
+                      {openBlockers.map((blocker) => blocker.taskCode).join(", ")}
+                      . The task cannot move to In Progress or Done until these
+                      are completed.
+                    </p>
+                    {isOwnerOrAdmin && (
+                      <FormField
+                        control={form.control}
+                        name="overrideBlockers"
+                        render={({ field }) => (
+                          <FormItem className="flex items-center gap-2 space-y-0">
+                            <FormControl>
+                              <Checkbox
+                                checked={field.value}
+                                onCheckedChange={(value) =>
+                                  field.onChange(value === true)
+                                }
+                              />
+                            </FormControl>
+                            <FormLabel className="font-normal">
+                              Override blocking dependencies
+                            </FormLabel>
+                          </FormItem>
+                        )}
+                      />
+                    )}
+                  </div>
+                )}
+
+                {isOwnerOrAdmin && task.series && (
+                  <FormField
+                    control={form.control}
+                    name="applyToSeries"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center gap-2 space-y-0">
+                        <FormControl>
+                          <Checkbox
+                            checked={field.value}
+                            onCheckedChange={(value) =>
+                              field.onChange(value === true)
+                            }
+                          />
+                        </FormControl>
+                        <FormLabel className="font-normal">
+                          Apply title, description, priority and assignee to
+                          this and following occurrences
+                        </FormLabel>
+                      </FormItem>
+                    )}
+                  />
+                )}
+
                 {!isOwnerOrAdmin && (
                   <div className="rounded-md bg-muted/40 border px-3 py-2 text-sm text-muted-foreground flex items-center gap-2">
                     <ShieldAlert className="h-4 w-4" />
@@ -392,15 +636,58 @@ export default function EditTaskForm({
                 <Button
                   type="submit"
                   className="w-full"
-                  disabled={isUpdatingTask || !canUpdateStatus}
+                  disabled={
+                    isUpdatingTask || isUpdatingSeries || !canUpdateStatus
+                  }
                 >
-                  {isUpdatingTask && (
+                  {(isUpdatingTask || isUpdatingSeries) && (
                     <Loader className="mr-2 h-4 w-4 animate-spin" />
                   )}
                   Save Changes
                 </Button>
               </form>
             </Form>
+            <div className="mt-4">
+              <TaskRecurrence
+                workspaceId={workspaceId}
+                task={task}
+                canEdit={isOwnerOrAdmin}
+              />
+            </div>
+          </TabsContent>
+          <TabsContent value="subtasks">
+            <TaskSubtasks
+              workspaceId={workspaceId}
+              taskId={task._id}
+              canCreate={
+                !task.parentTask && hasPermission(Permissions.CREATE_TASK)
+              }
+            />
+          </TabsContent>
+          <TabsContent value="checklist">
+            <TaskChecklist
+              workspaceId={workspaceId}
+              taskId={task._id}
+              canEdit={canUpdateStatus}
+              canConvert={
+                !task.parentTask && hasPermission(Permissions.CREATE_TASK)
+              }
+            />
+          </TabsContent>
+          <TabsContent value="dependencies">
+            <TaskDependencies
+              workspaceId={workspaceId}
+              taskId={task._id}
+              canManage={isOwnerOrAdmin}
+            />
+          </TabsContent>
+          <TabsContent value="time">
+            <TaskTimeTracking
+              workspaceId={workspaceId}
+              taskId={task._id}
+              canLog={hasPermission(Permissions.EDIT_TASK)}
+              isOwnerOrAdmin={isOwnerOrAdmin}
+            />
           </TabsContent>
           <TabsContent value="clarifications">
             <ClarificationSection
@@ -408,6 +695,36 @@ export default function EditTaskForm({
               taskId={task._id}
               canAsk={Boolean(roleName)}
               isOwnerOrAdmin={isOwnerOrAdmin}
+              canRespond={
+                isOwnerOrAdmin ||
+                workspace?.clarificationResponsePolicy === "ANY_MEMBER" ||
+                (workspace?.clarificationResponsePolicy ===
+                  "ADMINS_AND_ASSIGNEES" &&
+                  isTaskAssignee)
+              }
+              currentUserId={user?._id}
+            />
+          </TabsContent>
+          <TabsContent value="comments">
+            <TaskComments
+              workspaceId={workspaceId}
+              taskId={task._id}
+              isOwnerOrAdmin={isOwnerOrAdmin}
+            />
+          </TabsContent>
+          <TabsContent value="files">
+            <TaskAttachments
+              workspaceId={workspaceId}
+              taskId={task._id}
+              canUpload={hasPermission(Permissions.EDIT_TASK)}
+              isOwnerOrAdmin={isOwnerOrAdmin}
+            />
+          </TabsContent>
+          <TabsContent value="activity">
+            <TaskActivity
+              workspaceId={workspaceId}
+              taskId={task._id}
+              projectId={task.project?._id}
             />
           </TabsContent>
         </Tabs>
@@ -421,6 +738,9 @@ type ClarificationSectionProps = {
   taskId: string;
   canAsk: boolean;
   isOwnerOrAdmin: boolean;
+  // Follows the workspace's clarification response policy.
+  canRespond: boolean;
+  currentUserId?: string;
 };
 
 const ClarificationSection = ({
@@ -428,6 +748,8 @@ const ClarificationSection = ({
   taskId,
   canAsk,
   isOwnerOrAdmin,
+  canRespond,
+  currentUserId,
 }: ClarificationSectionProps) => {
   const queryClient = useQueryClient();
   const [question, setQuestion] = useState("");
@@ -439,6 +761,10 @@ const ClarificationSection = ({
     taskId
   );
   const clarifications = data?.clarifications ?? [];
+  const { data: attachmentData } = useTaskAttachments(workspaceId, taskId);
+  const responseAttachments = (attachmentData?.attachments ?? []).filter(
+    (attachment) => attachment.clarificationResponse
+  );
 
   const { mutate: submitClarification, isPending: isSubmittingQuestion } =
     useMutation<
@@ -509,6 +835,77 @@ const ClarificationSection = ({
       },
     });
 
+  const onLifecycleSuccess = () => {
+    queryClient.invalidateQueries({
+      queryKey: ["task-clarifications", workspaceId, taskId],
+    });
+    queryClient.invalidateQueries({ queryKey: ["all-tasks", workspaceId] });
+  };
+
+  const onLifecycleError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description:
+        error instanceof Error
+          ? error.message
+          : "Failed to update the clarification",
+      variant: "destructive",
+    });
+  };
+
+  const { mutate: resolveClarification, isPending: isResolving } =
+    useMutation<
+      { message: string; clarification: TaskClarificationResponseType },
+      unknown,
+      ResolveTaskClarificationPayloadType
+    >({
+      mutationFn: resolveTaskClarificationMutationFn,
+      onSuccess: onLifecycleSuccess,
+      onError: onLifecycleError,
+    });
+
+  const { mutate: updateClarification, isPending: isUpdatingQuestion } =
+    useMutation<
+      { message: string; clarification: TaskClarificationResponseType },
+      unknown,
+      UpdateTaskClarificationPayloadType
+    >({
+      mutationFn: updateTaskClarificationMutationFn,
+      onSuccess: onLifecycleSuccess,
+      onError: onLifecycleError,
+    });
+
+  const { mutate: withdrawClarification, isPending: isWithdrawing } =
+    useMutation<
+      { message: string; clarification: TaskClarificationResponseType },
+      unknown,
+      { workspaceId: string; taskId: string; clarificationId: string }
+    >({
+      mutationFn: withdrawTaskClarificationMutationFn,
+      onSuccess: onLifecycleSuccess,
+      onError: onLifecycleError,
+    });
+
+  const { mutate: uploadResponseFile, isPending: isAttaching } = useMutation({
+    mutationFn: uploadAttachmentMutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["task-attachments", workspaceId, taskId],
+      });
+    },
+    onError: onLifecycleError,
+  });
+
+  const { mutate: reopenClarification, isPending: isReopening } = useMutation<
+    { message: string; clarification: TaskClarificationResponseType },
+    unknown,
+    { workspaceId: string; taskId: string; clarificationId: string }
+  >({
+    mutationFn: reopenTaskClarificationMutationFn,
+    onSuccess: onLifecycleSuccess,
+    onError: onLifecycleError,
+  });
+
   const handleAsk = () => {
     const trimmed = question.trim();
     if (trimmed.length < 5) {
@@ -549,7 +946,8 @@ const ClarificationSection = ({
           <div>
             <h2 className="text-sm font-semibold">Need clarification?</h2>
             <p className="text-xs text-muted-foreground">
-              Ask a question for the workspace admins or owner to review.
+              Ask a question about this task. You can edit or withdraw it
+              until someone responds.
             </p>
           </div>
           <Textarea
@@ -611,10 +1009,72 @@ const ClarificationSection = ({
                     }))
                   }
                   onRespond={() => handleRespond(clarification._id)}
+                  canRespond={canRespond}
+                  isAsker={clarification.askedBy?._id === currentUserId}
+                  workspaceId={workspaceId}
+                  taskId={taskId}
                   isOwnerOrAdmin={isOwnerOrAdmin}
+                  currentUserId={currentUserId}
+                  attachments={responseAttachments.filter(
+                    (attachment) =>
+                      attachment.clarification === clarification._id
+                  )}
+                  isAttaching={isAttaching}
+                  onAttach={(responseId, file) =>
+                    uploadResponseFile({
+                      workspaceId,
+                      taskId,
+                      file,
+                      clarificationId: clarification._id,
+                      responseId,
+                    })
+                  }
                   isSubmitting={
                     isSubmittingResponse && activeResponseId === clarification._id
                   }
+                  canSettle={
+                    isOwnerOrAdmin ||
+                    clarification.askedBy?._id === currentUserId
+                  }
+                  isSettling={
+                    isResolving ||
+                    isReopening ||
+                    isUpdatingQuestion ||
+                    isWithdrawing
+                  }
+                  onEditQuestion={(question, done) =>
+                    updateClarification(
+                      {
+                        workspaceId,
+                        taskId,
+                        clarificationId: clarification._id,
+                        question,
+                      },
+                      { onSuccess: done }
+                    )
+                  }
+                  onWithdraw={() =>
+                    withdrawClarification({
+                      workspaceId,
+                      taskId,
+                      clarificationId: clarification._id,
+                    })
+                  }
+                  onResolve={(acceptedResponseId) =>
+                    resolveClarification({
+                      workspaceId,
+                      taskId,
+                      clarificationId: clarification._id,
+                      acceptedResponseId,
+                    })
+                  }
+                  onReopen={() =>
+                    reopenClarification({
+                      workspaceId,
+                      taskId,
+                      clarificationId: clarification._id,
+                    })
+                  }
                 />
               ))}
             </div>
@@ -630,8 +1090,46 @@ type ClarificationCardProps = {
   answerDraft: string;
   onDraftChange: (value: string) => void;
   onRespond: () => void;
+  canRespond: boolean;
+  isAsker: boolean;
+  workspaceId: string;
+  taskId: string;
   isOwnerOrAdmin: boolean;
+  currentUserId?: string;
+  // Files attached to this clarification's responses.
+  attachments: TaskAttachmentType[];
+  isAttaching: boolean;
+  onAttach: (responseId: string, file: File) => void;
   isSubmitting: boolean;
+  // The asker or an owner/admin may resolve, accept an answer and reopen.
+  canSettle: boolean;
+  isSettling: boolean;
+  onResolve: (acceptedResponseId?: string) => void;
+  onReopen: () => void;
+  onEditQuestion: (question: string, done: () => void) => void;
+  onWithdraw: () => void;
+};
+
+const clarificationStatusStyles: Record<
+  ClarificationStatusType,
+  { label: string; className: string }
+> = {
+  OPEN: {
+    label: "Open",
+    className: "border-amber-200 bg-amber-50 text-amber-700",
+  },
+  ANSWERED: {
+    label: "Answered",
+    className: "border-blue-200 bg-blue-50 text-blue-700",
+  },
+  RESOLVED: {
+    label: "Resolved",
+    className: "border-green-200 bg-green-50 text-green-700",
+  },
+  WITHDRAWN: {
+    label: "Withdrawn",
+    className: "border-muted bg-muted text-muted-foreground",
+  },
 };
 
 const ClarificationCard = ({
@@ -639,9 +1137,38 @@ const ClarificationCard = ({
   answerDraft,
   onDraftChange,
   onRespond,
+  canRespond,
+  isAsker,
+  workspaceId,
+  taskId,
   isOwnerOrAdmin,
+  currentUserId,
+  attachments,
+  isAttaching,
+  onAttach,
   isSubmitting,
+  canSettle,
+  isSettling,
+  onResolve,
+  onReopen,
+  onEditQuestion,
+  onWithdraw,
 }: ClarificationCardProps) => {
+  const [questionDraft, setQuestionDraft] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const status =
+    clarificationStatusStyles[clarification.status] ??
+    clarificationStatusStyles.OPEN;
+  const isResolved = clarification.status === "RESOLVED";
+  const isWithdrawn = clarification.status === "WITHDRAWN";
+  // Mirrors the API: only an unanswered question can be reworded or withdrawn.
+  const canChangeQuestion =
+    isAsker &&
+    clarification.status === "OPEN" &&
+    clarification.responses.length === 0;
+  const history = clarification.questionHistory ?? [];
+
   return (
     <div className="space-y-3 rounded-md border p-4">
       <div className="flex items-start justify-between gap-2">
@@ -653,34 +1180,236 @@ const ClarificationCard = ({
             Asked {formatDistanceToNow(new Date(clarification.createdAt), {
               addSuffix: true,
             })}
+            {clarification.reopenedAt && !isResolved && " · reopened"}
           </p>
         </div>
+        <div className="flex items-center gap-2">
+          <Badge variant="outline" className={status.className}>
+            {status.label}
+          </Badge>
+          {canSettle &&
+            !isWithdrawn &&
+            (isResolved ? (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2"
+                disabled={isSettling}
+                onClick={onReopen}
+              >
+                <RotateCcw className="h-3.5 w-3.5" />
+                Reopen
+              </Button>
+            ) : (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2"
+                disabled={isSettling}
+                onClick={() => onResolve()}
+              >
+                <CheckCircle2 className="h-3.5 w-3.5" />
+                Resolve
+              </Button>
+            ))}
+        </div>
       </div>
-      <p className="text-sm text-foreground">{clarification.question}</p>
+      {questionDraft !== null ? (
+        <div className="space-y-2">
+          <Textarea
+            value={questionDraft}
+            onChange={(event) => setQuestionDraft(event.target.value)}
+            rows={3}
+          />
+          <div className="flex items-center justify-end gap-2">
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              disabled={isSettling}
+              onClick={() => setQuestionDraft(null)}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              disabled={isSettling || questionDraft.trim().length < 5}
+              onClick={() =>
+                onEditQuestion(questionDraft.trim(), () =>
+                  setQuestionDraft(null)
+                )
+              }
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p
+          className={
+            isWithdrawn
+              ? "text-sm text-muted-foreground line-through"
+              : "text-sm text-foreground"
+          }
+        >
+          {clarification.question}
+        </p>
+      )}
+
+      {(history.length > 0 || canChangeQuestion) && questionDraft === null && (
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+          {history.length > 0 && (
+            <button
+              type="button"
+              className="hover:text-foreground"
+              onClick={() => setShowHistory((prev) => !prev)}
+            >
+              Edited {history.length} time{history.length === 1 ? "" : "s"}
+            </button>
+          )}
+          {canChangeQuestion && (
+            <>
+              <button
+                type="button"
+                className="hover:text-foreground"
+                disabled={isSettling}
+                onClick={() => setQuestionDraft(clarification.question)}
+              >
+                Edit question
+              </button>
+              <button
+                type="button"
+                className="hover:text-destructive"
+                disabled={isSettling}
+                onClick={onWithdraw}
+              >
+                Withdraw
+              </button>
+            </>
+          )}
+        </div>
+      )}
+
+      {showHistory && history.length > 0 && (
+        <ul className="space-y-1 border-l pl-3 text-xs text-muted-foreground">
+          {[...history].reverse().map((revision) => (
+            <li key={revision.editedAt}>
+              <span className="line-through">{revision.question}</span>{" "}
+              <span title={format(new Date(revision.editedAt), "PPpp")}>
+                (replaced{" "}
+                {formatDistanceToNow(new Date(revision.editedAt), {
+                  addSuffix: true,
+                })}
+                )
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
 
       <div className="space-y-2">
         {clarification.responses.length === 0 ? (
           <p className="text-xs text-muted-foreground">No responses yet.</p>
         ) : (
-          clarification.responses.map((response) => (
-            <div key={response._id} className="rounded-md bg-muted/40 p-3">
-              <div className="flex items-start justify-between gap-2">
-                <span className="text-xs font-semibold text-muted-foreground">
-                  {response.respondedBy?.name ?? "Workspace admin"}
-                </span>
-                <span className="text-[11px] text-muted-foreground">
-                  {formatDistanceToNow(new Date(response.createdAt), {
-                    addSuffix: true,
-                  })}
-                </span>
+          clarification.responses.map((response) => {
+            const isAccepted = clarification.acceptedResponse === response._id;
+            return (
+              <div
+                key={response._id}
+                className={
+                  isAccepted
+                    ? "rounded-md border border-green-200 bg-green-50/60 p-3"
+                    : "rounded-md bg-muted/40 p-3"
+                }
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <span className="flex items-center gap-1.5 text-xs font-semibold text-muted-foreground">
+                    {response.respondedBy?.name ?? "Workspace admin"}
+                    {isAccepted && (
+                      <span className="flex items-center gap-0.5 text-green-700">
+                        <CheckCircle2 className="h-3.5 w-3.5" />
+                        Accepted answer
+                      </span>
+                    )}
+                  </span>
+                  <span className="text-[11px] text-muted-foreground">
+                    {formatDistanceToNow(new Date(response.createdAt), {
+                      addSuffix: true,
+                    })}
+                  </span>
+                </div>
+                <p className="mt-1 text-sm text-foreground">{response.message}</p>
+                <div className="mt-2">
+                  <AttachmentList
+                    workspaceId={workspaceId}
+                    taskId={taskId}
+                    attachments={attachments.filter(
+                      (attachment) =>
+                        attachment.clarificationResponse === response._id
+                    )}
+                    isOwnerOrAdmin={isOwnerOrAdmin}
+                    compact
+                  />
+                </div>
+                {response.respondedBy?._id === currentUserId && (
+                  <label className="mt-1 inline-flex cursor-pointer items-center gap-1 text-xs text-muted-foreground hover:text-foreground">
+                    {isAttaching ? (
+                      <Loader className="h-3 w-3 animate-spin" />
+                    ) : (
+                      <Paperclip className="h-3 w-3" />
+                    )}
+                    Attach file
+                    <input
+                      type="file"
+                      accept={ATTACHMENT_ACCEPT}
+                      className="hidden"
+                      disabled={isAttaching}
+                      onChange={(event) => {
+                        const file = event.target.files?.[0];
+                        if (file) onAttach(response._id, file);
+                        event.target.value = "";
+                      }}
+                    />
+                  </label>
+                )}
+                {canSettle && !isResolved && (
+                  <button
+                    type="button"
+                    className="mt-1 text-xs text-muted-foreground hover:text-foreground"
+                    disabled={isSettling}
+                    onClick={() => onResolve(response._id)}
+                  >
+                    Accept as answer
+                  </button>
+                )}
               </div>
-              <p className="mt-1 text-sm text-foreground">{response.message}</p>
-            </div>
-          ))
+            );
+          })
         )}
       </div>
 
-      {isOwnerOrAdmin && (
+      {isResolved && clarification.resolvedAt && (
+        <p className="text-xs text-muted-foreground">
+          Resolved by {clarification.resolvedBy?.name ?? "a workspace member"}{" "}
+          {formatDistanceToNow(new Date(clarification.resolvedAt), {
+            addSuffix: true,
+          })}
+        </p>
+      )}
+
+      {isWithdrawn && clarification.withdrawnAt && (
+        <p className="text-xs text-muted-foreground">
+          Withdrawn{" "}
+          {formatDistanceToNow(new Date(clarification.withdrawnAt), {
+            addSuffix: true,
+          })}
+        </p>
+      )}
+
+      {canRespond && !isResolved && !isWithdrawn && (
         <div className="space-y-2 border-t pt-2">
           <Textarea
             value={answerDraft}
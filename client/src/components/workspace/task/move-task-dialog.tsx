@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ConfirmDialog } from "@/components/resuable/confirm-dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import useGetProjectsInWorkspaceQuery from "@/hooks/api/use-get-projects";
+import useGetWorkspaceMembers from "@/hooks/api/use-get-workspace-members";
+import { toast } from "@/hooks/use-toast";
+import {
+  getAllWorkspacesUserIsMemberQueryFn,
+  moveTaskMutationFn,
+} from "@/lib/api";
+import { TaskType } from "@/types/api.type";
+
+const UNASSIGN_VALUE = "__unassign__";
+
+type MoveTaskDialogProps = {
+  workspaceId: string;
+  task: TaskType;
+  isOpen: boolean;
+  onClose: () => void;
+};
+
+const MoveTaskDialog = ({
+  workspaceId,
+  task,
+  isOpen,
+  onClose,
+}: MoveTaskDialogProps) => {
+  const queryClient = useQueryClient();
+  const [targetWorkspaceId, setTargetWorkspaceId] = useState(workspaceId);
+  const [projectId, setProjectId] = useState("");
+  const [assigneeMap, setAssigneeMap] = useState<Record<string, string>>({});
+
+  const isCrossWorkspace = targetWorkspaceId !== workspaceId;
+
+  const { data: workspaceData } = useQuery({
+    queryKey: ["userWorkspaces"],
+    queryFn: getAllWorkspacesUserIsMemberQueryFn,
+    enabled: isOpen,
+  });
+  const { data: projectData } = useGetProjectsInWorkspaceQuery({
+    workspaceId: targetWorkspaceId,
+    skip: !isOpen,
+  });
+  const { data: memberData } = useGetWorkspaceMembers(targetWorkspaceId);
+
+  const workspaces = workspaceData?.workspaces ?? [];
+  const projects = (projectData?.projects ?? []).filter(
+    (project) => project._id !== task.project?._id
+  );
+  const targetMembers = memberData?.members ?? [];
+
+  // Only assignees who are not members of the target need a decision.
+  const displacedAssignees = isCrossWorkspace
+    ? task.assignees.filter(
+        (assignee) =>
+          !targetMembers.some((member) => member.userId._id === assignee._id)
+      )
+    : [];
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: moveTaskMutationFn,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["all-tasks"] });
+      toast({
+        title: "Success",
+        description: data.message,
+        variant: "success",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleConfirm = () => {
+    if (!projectId) {
+      toast({
+        title: "Error",
+        description: "Pick the project to move the task to",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    mutate({
+      workspaceId,
+      taskId: task._id,
+      data: {
+        projectId,
+        assigneeMap: Object.fromEntries(
+          displacedAssignees.map((assignee) => {
+            const replacement = assigneeMap[assignee._id];
+            return [
+              assignee._id,
+              replacement && replacement !== UNASSIGN_VALUE
+                ? replacement
+                : null,
+            ];
+          })
+        ),
+      },
+    });
+  };
+
+  return (
+    <ConfirmDialog
+      isOpen={isOpen}
+      isLoading={isPending}
+      onClose={onClose}
+      onConfirm={handleConfirm}
+      title="Move Task"
+      description={`Move ${task.taskCode} and its subtasks to another project.`}
+      confirmText="Move"
+      cancelText="Cancel"
+    >
+      <div className="space-y-3">
+        <div className="space-y-2">
+          <Label className="text-sm">Workspace</Label>
+          <Select
+            value={targetWorkspaceId}
+            onValueChange={(value) => {
+              setTargetWorkspaceId(value);
+              setProjectId("");
+              setAssigneeMap({});
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {workspaces.map((workspace) => (
+                <SelectItem key={workspace._id} value={workspace._id}>
+                  {workspace.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label className="text-sm">Project</Label>
+          <Select value={projectId} onValueChange={setProjectId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a project" />
+            </SelectTrigger>
+            <SelectContent>
+              {projects.map((project) => (
+                <SelectItem key={project._id} value={project._id}>
+                  {project.emoji} {project.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isCrossWorkspace && (
+          <p className="text-xs text-muted-foreground">
+            Labels are matched by name, and the sprint, dependencies and custom
+            field values stay behind.
+          </p>
+        )}
+
+        {displacedAssignees.map((assignee) => (
+          <div key={assignee._id} className="space-y-2">
+            <Label className="text-sm">
+              {assignee.name} is not in that workspace. Reassign to
+            </Label>
+            <Select
+              value={assigneeMap[assignee._id] ?? UNASSIGN_VALUE}
+              onValueChange={(value) =>
+                setAssigneeMap({ ...assigneeMap, [assignee._id]: value })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNASSIGN_VALUE}>Nobody</SelectItem>
+                {targetMembers.map((member) => (
+                  <SelectItem key={member.userId._id} value={member.userId._id}>
+                    {member.userId.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+    </ConfirmDialog>
+  );
+};
+
+export default MoveTaskDialog;
@@ -1,17 +1,15 @@
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { TaskPriorityEnum, TaskStatusEnum } from "@/constant";
+import { TaskPriorityEnum } from "@/constant";
 import useWorkspaceId from "@/hooks/use-workspace-id";
 import { getAllTasksQueryFn } from "@/lib/api";
-import {
-  getAvatarColor,
-  getAvatarFallbackText,
-  transformStatusEnum,
-} from "@/lib/helper";
+import { transformStatusEnum } from "@/lib/helper";
 import { TaskType } from "@/types/api.type";
 import { useQuery } from "@tanstack/react-query";
 import { format } from "date-fns";
 import { Loader } from "lucide-react";
+import TaskStatusBadge from "./task-status-badge";
+import TaskAssignees from "./task-assignees";
+import ChecklistProgress from "./checklist-progress";
 
 const RecentTasks = () => {
   const workspaceId = useWorkspaceId();
@@ -51,9 +49,6 @@ const RecentTasks = () => {
 
       <ul role="list" className="divide-y divide-gray-200">
         {tasks.map((task) => {
-          const name = task?.assignedTo?.name || "";
-          const initials = getAvatarFallbackText(name);
-          const avatarColor = getAvatarColor(name);
           return (
             <li
               key={task._id}
@@ -67,19 +62,17 @@ const RecentTasks = () => {
                 <p className="text-md font-semibold text-gray-800 truncate">
                   {task.title}
                 </p>
-                <span className="text-sm text-gray-500">
-                  Due: {task.dueDate ? format(task.dueDate, "PPP") : null}
-                </span>
+                <div className="flex items-center gap-3">
+                  <span className="text-sm text-gray-500">
+                    Due: {task.dueDate ? format(task.dueDate, "PPP") : null}
+                  </span>
+                  <ChecklistProgress progress={task.checklistProgress} />
+                </div>
               </div>
 
               {/* Task Status */}
               <div className="text-sm font-medium ">
-                <Badge
-                  variant={TaskStatusEnum[task.status]}
-                  className="flex w-auto p-1 px-2 gap-1 font-medium shadow-sm uppercase border-0"
-                >
-                  <span>{transformStatusEnum(task.status)}</span>
-                </Badge>
+                <TaskStatusBadge status={task.status} />
               </div>
 
               {/* Task Priority */}
@@ -94,15 +87,7 @@ const RecentTasks = () => {
 
               {/* Assignee */}
               <div className="flex items-center space-x-2 ml-2">
-                <Avatar className="h-8 w-8">
-                  <AvatarImage
-                    src={task.assignedTo?.profilePicture || ""}
-                    alt={task.assignedTo?.name}
-                  />
-                  <AvatarFallback className={avatarColor}>
-                    {initials}
-                  </AvatarFallback>
-                </Avatar>
+                <TaskAssignees assignees={task.assignees} showName={false} />
               </div>
             </li>
           );
@@ -0,0 +1,135 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { RecurrenceFrequencyEnum, RecurrenceFrequencyEnumType } from "@/constant";
+import { transformOptions } from "@/lib/helper";
+import { TaskRecurrenceType } from "@/types/api.type";
+
+const NO_REPEAT_VALUE = "__none__";
+const WEEKDAYS = ["S", "M", "T", "W", "T", "F", "S"];
+
+const frequencyOptions = transformOptions(
+  Object.values(RecurrenceFrequencyEnum)
+);
+
+type RecurrenceFieldsProps = {
+  value: TaskRecurrenceType | null;
+  onChange: (value: TaskRecurrenceType | null) => void;
+  disabled?: boolean;
+};
+
+const RecurrenceFields = ({
+  value,
+  onChange,
+  disabled,
+}: RecurrenceFieldsProps) => {
+  const handleFrequencyChange = (frequency: string) => {
+    if (frequency === NO_REPEAT_VALUE) {
+      onChange(null);
+      return;
+    }
+
+    onChange({
+      frequency: frequency as RecurrenceFrequencyEnumType,
+      interval: value?.interval || 1,
+      weekdays: value?.weekdays?.length ? value.weekdays : [new Date().getDay()],
+      dayOfMonth: value?.dayOfMonth || new Date().getDate(),
+      endsAt: value?.endsAt ?? null,
+    });
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!value) return;
+    const weekdays = value.weekdays || [];
+    onChange({
+      ...value,
+      weekdays: weekdays.includes(day)
+        ? weekdays.filter((d) => d !== day)
+        : [...weekdays, day].sort((a, b) => a - b),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Select
+        value={value?.frequency ?? NO_REPEAT_VALUE}
+        onValueChange={handleFrequencyChange}
+        disabled={disabled}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Does not repeat" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_REPEAT_VALUE}>Does not repeat</SelectItem>
+          {frequencyOptions.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {value?.frequency === RecurrenceFrequencyEnum.WEEKLY && (
+        <div className="flex items-center gap-1">
+          {WEEKDAYS.map((label, day) => (
+            <Button
+              key={day}
+              type="button"
+              size="sm"
+              disabled={disabled}
+              variant={value.weekdays?.includes(day) ? "default" : "outline"}
+              className="h-8 w-8 p-0"
+              onClick={() => toggleWeekday(day)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {value?.frequency === RecurrenceFrequencyEnum.MONTHLY && (
+        <div className="flex items-center gap-2 text-sm">
+          <span>On day</span>
+          <Input
+            type="number"
+            min={1}
+            max={31}
+            className="h-8 w-20"
+            disabled={disabled}
+            value={value.dayOfMonth ?? ""}
+            onChange={(event) =>
+              onChange({ ...value, dayOfMonth: Number(event.target.value) })
+            }
+          />
+          <span>of the month</span>
+        </div>
+      )}
+
+      {value?.frequency === RecurrenceFrequencyEnum.EVERY_N_DAYS && (
+        <div className="flex items-center gap-2 text-sm">
+          <span>Every</span>
+          <Input
+            type="number"
+            min={1}
+            max={365}
+            className="h-8 w-20"
+            disabled={disabled}
+            value={value.interval ?? 1}
+            onChange={(event) =>
+              onChange({ ...value, interval: Number(event.target.value) })
+            }
+          />
+          <span>days</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceFields;
@@ -1,26 +1,37 @@
 import { Column, ColumnDef, Row } from "@tanstack/react-table";
 import { format } from "date-fns";
+import { Lock, MessageCircleQuestion } from "lucide-react";
 
 import { DataTableColumnHeader } from "./table-column-header";
 import { DataTableRowActions } from "./table-row-actions";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
+import { TaskPriorityEnum, TaskPriorityEnumType } from "@/constant";
 import {
-  TaskPriorityEnum,
-  TaskPriorityEnumType,
-  TaskStatusEnum,
-  TaskStatusEnumType,
-} from "@/constant";
-import {
+  DEFAULT_TASK_WORKFLOW,
+  formatDuration,
   formatStatusToEnum,
-  getAvatarColor,
-  getAvatarFallbackText,
+  isDoneStatus,
 } from "@/lib/helper";
-import { priorities, statuses } from "./data";
-import { TaskType } from "@/types/api.type";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { priorities } from "./data";
+import {
+  CustomFieldType,
+  TaskType,
+  TaskWorkflowType,
+} from "@/types/api.type";
+import TaskStatusBadge from "../task-status-badge";
+import CustomFieldValue from "../custom-field-value";
+import TaskLabels from "../task-labels";
+import TaskAssignees from "../task-assignees";
+import ChecklistProgress from "../checklist-progress";
+
+export const getCustomFieldColumnId = (fieldId: string) => `cf.${fieldId}`;
 
-export const getColumns = (projectId?: string): ColumnDef<TaskType>[] => {
+export const getColumns = (
+  projectId?: string,
+  workflow: TaskWorkflowType = DEFAULT_TASK_WORKFLOW,
+  customFields: CustomFieldType[] = []
+): ColumnDef<TaskType>[] => {
   const columns: ColumnDef<TaskType>[] = [
     {
       id: "_id",
@@ -52,14 +63,40 @@ export const getColumns = (projectId?: string): ColumnDef<TaskType>[] => {
         <DataTableColumnHeader column={column} title="Title" />
       ),
       cell: ({ row }) => {
+        const isBlocked = row.original.blockedBy?.some(
+          (blocker) => !isDoneStatus(workflow, blocker.status)
+        );
+
         return (
           <div className="flex flex-wrap space-x-2">
             <Badge variant="outline" className="capitalize shrink-0 h-[25px]">
               {row.original.taskCode}
             </Badge>
+            {isBlocked && (
+              <Lock
+                className="h-4 w-4 shrink-0 self-center text-muted-foreground"
+                aria-label="Blocked"
+              />
+            )}
             <span className="block lg:max-w-[220px] max-w-[200px] font-medium">
               {row.original.title}
             </span>
+            {row.original.subtaskProgress?.total ? (
+              <span className="text-xs text-muted-foreground shrink-0">
+                {row.original.subtaskProgress.completed}/
+                {row.original.subtaskProgress.total} subtasks
+              </span>
+            ) : null}
+            <ChecklistProgress progress={row.original.checklistProgress} />
+            {row.original.openClarificationCount ? (
+              <span
+                className="flex items-center gap-0.5 text-xs text-amber-600 shrink-0"
+                title="Open clarifications"
+              >
+                <MessageCircleQuestion className="h-3.5 w-3.5" />
+                {row.original.openClarificationCount}
+              </span>
+            ) : null}
           </div>
         );
       },
@@ -91,33 +128,12 @@ export const getColumns = (projectId?: string): ColumnDef<TaskType>[] => {
           },
         ]),
     {
-      accessorKey: "assignedTo",
+      accessorKey: "assignees",
       header: ({ column }) => (
-        <DataTableColumnHeader column={column} title="Assigned To" />
+        <DataTableColumnHeader column={column} title="Assignees" />
       ),
-      cell: ({ row }) => {
-        const assignee = row.original.assignedTo || null;
-        const name = assignee?.name || "";
-
-        const initials = getAvatarFallbackText(name);
-        const avatarColor = getAvatarColor(name);
-
-        return (
-          name && (
-            <div className="flex items-center gap-1">
-              <Avatar className="h-6 w-6">
-                <AvatarImage src={assignee?.profilePicture || ""} alt={name} />
-                <AvatarFallback className={avatarColor}>
-                  {initials}
-                </AvatarFallback>
-              </Avatar>
-              <span className="block text-ellipsis w-[100px] truncate">
-                {assignee?.name}
-              </span>
-            </div>
-          )
-        );
-      },
+      cell: ({ row }) => <TaskAssignees assignees={row.original.assignees} />,
+      enableSorting: false,
     },
     {
       accessorKey: "dueDate",
@@ -138,32 +154,9 @@ export const getColumns = (projectId?: string): ColumnDef<TaskType>[] => {
         <DataTableColumnHeader column={column} title="Status" />
       ),
       cell: ({ row }) => {
-        const status = statuses.find(
-          (status) => status.value === row.getValue("status")
-        );
-
-        if (!status) {
-          return null;
-        }
-
-        const statusKey = formatStatusToEnum(
-          status.value
-        ) as TaskStatusEnumType;
-        const Icon = status.icon;
-
-        if (!Icon) {
-          return null;
-        }
-
         return (
           <div className="flex lg:w-[120px] items-center">
-            <Badge
-              variant={TaskStatusEnum[statusKey]}
-              className="flex w-auto p-1 px-2 gap-1 font-medium shadow-sm uppercase border-0"
-            >
-              <Icon className="h-4 w-4 rounded-full text-inherit" />
-              <span>{status.label}</span>
-            </Badge>
+            <TaskStatusBadge status={row.getValue("status")} showIcon />
           </div>
         );
       },
@@ -204,6 +197,56 @@ export const getColumns = (projectId?: string): ColumnDef<TaskType>[] => {
         );
       },
     },
+    {
+      accessorKey: "labels",
+      header: ({ column }) => (
+        <DataTableColumnHeader column={column} title="Labels" />
+      ),
+      cell: ({ row }) => (
+        <div className="lg:max-w-[200px]">
+          <TaskLabels labels={row.original.labels} />
+        </div>
+      ),
+      enableSorting: false,
+    },
+    {
+      id: "time",
+      header: ({ column }) => (
+        <DataTableColumnHeader column={column} title="Time" />
+      ),
+      cell: ({ row }) => {
+        const { estimateMinutes, loggedMinutes = 0 } = row.original;
+        if (!estimateMinutes && !loggedMinutes) return null;
+
+        const isOver = !!estimateMinutes && loggedMinutes > estimateMinutes;
+        return (
+          <span
+            className={`whitespace-nowrap text-sm ${
+              isOver ? "text-destructive" : ""
+            }`}
+          >
+            {formatDuration(loggedMinutes)}
+            {estimateMinutes ? ` / ${formatDuration(estimateMinutes)}` : ""}
+          </span>
+        );
+      },
+      enableSorting: false,
+    },
+    ...customFields.map(
+      (field): ColumnDef<TaskType> => ({
+        id: getCustomFieldColumnId(field._id),
+        accessorFn: (task) => task.customFields?.[field._id] ?? null,
+        header: ({ column }) => (
+          <DataTableColumnHeader column={column} title={field.name} />
+        ),
+        cell: ({ row }) => (
+          <CustomFieldValue
+            field={field}
+            value={row.original.customFields?.[field._id]}
+          />
+        ),
+      })
+    ),
     {
       id: "actions",
       cell: ({ row }) => {
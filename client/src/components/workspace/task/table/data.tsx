@@ -1,11 +1,17 @@
-import { TaskPriorityEnum, TaskStatusEnum } from "@/constant";
+import {
+  TaskPriorityEnum,
+  TaskStatusCategoryEnum,
+  TaskStatusEnum,
+} from "@/constant";
 import { transformOptions } from "@/lib/helper";
+import { TaskWorkflowType } from "@/types/api.type";
 import {
   ArrowDown,
   ArrowRight,
   ArrowUp,
   CheckCircle,
   Circle,
+  CircleDashed,
   HelpCircle,
   Timer,
   View,
@@ -19,16 +25,44 @@ const statusIcons = {
   [TaskStatusEnum.DONE]: CheckCircle,
 };
 
+// Custom statuses fall back to an icon for their category.
+const statusCategoryIcons = {
+  [TaskStatusCategoryEnum.NOT_STARTED]: CircleDashed,
+  [TaskStatusCategoryEnum.ACTIVE]: Timer,
+  [TaskStatusCategoryEnum.DONE]: CheckCircle,
+};
+
 const priorityIcons = {
   [TaskPriorityEnum.LOW]: ArrowDown,
   [TaskPriorityEnum.MEDIUM]: ArrowRight,
   [TaskPriorityEnum.HIGH]: ArrowUp,
 };
 
-export const statuses = transformOptions(
-  Object.values(TaskStatusEnum),
-  statusIcons
-);
+export const getStatusOptions = (workflow: TaskWorkflowType) =>
+  workflow.statuses.map((status) => ({
+    label: status.name,
+    value: status.key,
+    icon:
+      statusIcons[status.key as keyof typeof statusIcons] ??
+      statusCategoryIcons[status.category],
+  }));
+
+export const taskLevels = [
+  { label: "Top-level tasks", value: "top" },
+  { label: "Subtasks", value: "child" },
+];
+
+export const blockedStates = [
+  { label: "Blocked", value: "true" },
+  { label: "Not blocked", value: "false" },
+];
+
+export const clarificationStates = [
+  { label: "Has open clarifications", value: "true" },
+  { label: "No open clarifications", value: "false" },
+];
+
+export const watchingStates = [{ label: "Tasks I watch", value: "true" }];
 
 export const priorities = transformOptions(
   Object.values(TaskPriorityEnum),
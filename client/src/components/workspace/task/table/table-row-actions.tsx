@@ -1,6 +1,13 @@
 import { useState } from "react";
 import { Row } from "@tanstack/react-table";
-import { MoreHorizontal, Pencil } from "lucide-react";
+import {
+  Copy,
+  FolderInput,
+  LayoutTemplate,
+  Link2,
+  MoreHorizontal,
+  Pencil,
+} from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -15,10 +22,16 @@ import { ConfirmDialog } from "@/components/resuable/confirm-dialog";
 import { TaskType } from "@/types/api.type";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import useWorkspaceId from "@/hooks/use-workspace-id";
-import { deleteTaskMutationFn } from "@/lib/api";
+import {
+  createTaskTemplateMutationFn,
+  deleteTaskMutationFn,
+} from "@/lib/api";
 import { toast } from "@/hooks/use-toast";
 import EditTaskDialog from "../edit-task-dialog"; // Import the Edit Dialog
+import MoveTaskDialog from "../move-task-dialog";
+import DuplicateTaskDialog from "../duplicate-task-dialog";
 import { useAuthContext } from "@/context/auth-provider";
+import { Permissions } from "@/constant";
 
 interface DataTableRowActionsProps {
   row: Row<TaskType>;
@@ -27,15 +40,32 @@ interface DataTableRowActionsProps {
 export function DataTableRowActions({ row }: DataTableRowActionsProps) {
   const [openDeleteDialog, setOpenDialog] = useState(false);
   const [openEditDialog, setOpenEditDialog] = useState(false); // State for edit dialog
+  const [openMoveDialog, setOpenMoveDialog] = useState(false);
+  const [openDuplicateDialog, setOpenDuplicateDialog] = useState(false);
 
   const queryClient = useQueryClient();
   const workspaceId = useWorkspaceId();
-  const { user, workspace } = useAuthContext();
+  const { user, workspace, hasPermission } = useAuthContext();
 
   const { mutate, isPending } = useMutation({
     mutationFn: deleteTaskMutationFn,
   });
 
+  const { mutate: saveTemplate } = useMutation({
+    mutationFn: createTaskTemplateMutationFn,
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["templates", workspaceId] });
+      toast({
+        title: "Success",
+        description: `Saved "${data.template.name}" as a task template`,
+        variant: "success",
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
   const task = row.original;
   const taskId = task._id as string;
   const taskCode = task.taskCode;
@@ -48,9 +78,19 @@ export function DataTableRowActions({ row }: DataTableRowActionsProps) {
     user &&
       (roleName === "OWNER" ||
         roleName === "ADMIN" ||
-        task.assignedTo?._id === user._id)
+        task.assignees.some((assignee) => assignee._id === user._id))
   );
 
+  const handleCopyLink = () => {
+    const url = `${window.location.origin}/workspace/${workspaceId}/task/${taskCode}`;
+    navigator.clipboard
+      .writeText(url)
+      .then(() => toast({ title: "Link copied", description: url, variant: "success" }))
+      .catch(() =>
+        toast({ title: "Error", description: "Could not copy the link", variant: "destructive" })
+      );
+  };
+
   const handleConfirm = () => {
     mutate(
       { workspaceId, taskId },
@@ -93,6 +133,33 @@ export function DataTableRowActions({ row }: DataTableRowActionsProps) {
           >
             <Pencil className="w-4 h-4 mr-2" /> Edit Task
           </DropdownMenuItem>
+          <DropdownMenuItem className="cursor-pointer" onClick={handleCopyLink}>
+            <Link2 className="w-4 h-4 mr-2" /> Copy Link
+          </DropdownMenuItem>
+          {hasPermission(Permissions.CREATE_TASK) && (
+            <DropdownMenuItem
+              className="cursor-pointer"
+              onClick={() => saveTemplate({ workspaceId, taskId })}
+            >
+              <LayoutTemplate className="w-4 h-4 mr-2" /> Save as Template
+            </DropdownMenuItem>
+          )}
+          {hasPermission(Permissions.CREATE_TASK) && (
+            <DropdownMenuItem
+              className="cursor-pointer"
+              onClick={() => setOpenDuplicateDialog(true)}
+            >
+              <Copy className="w-4 h-4 mr-2" /> Duplicate
+            </DropdownMenuItem>
+          )}
+          {hasPermission(Permissions.DELETE_TASK) && !task.parentTask && (
+            <DropdownMenuItem
+              className="cursor-pointer"
+              onClick={() => setOpenMoveDialog(true)}
+            >
+              <FolderInput className="w-4 h-4 mr-2" /> Move to Project
+            </DropdownMenuItem>
+          )}
           <DropdownMenuSeparator />
 
           {/* Delete Task Option */}
@@ -109,6 +176,23 @@ export function DataTableRowActions({ row }: DataTableRowActionsProps) {
       {/* Edit Task Dialog */}
       <EditTaskDialog task={task} isOpen={openEditDialog} onClose={() => setOpenEditDialog(false)} />
 
+      {openMoveDialog && (
+        <MoveTaskDialog
+          workspaceId={workspaceId}
+          task={task}
+          isOpen={openMoveDialog}
+          onClose={() => setOpenMoveDialog(false)}
+        />
+      )}
+      {openDuplicateDialog && (
+        <DuplicateTaskDialog
+          workspaceId={workspaceId}
+          task={task}
+          isOpen={openDuplicateDialog}
+          onClose={() => setOpenDuplicateDialog(false)}
+        />
+      )}
+
       {/* Delete Task Confirmation Dialog */}
       <ConfirmDialog
         isOpen={openDeleteDialog}
@@ -116,7 +200,7 @@ export function DataTableRowActions({ row }: DataTableRowActionsProps) {
         onClose={() => setOpenDialog(false)}
         onConfirm={handleConfirm}
         title="Delete Task"
-        description={`Are you sure you want to delete ${taskCode}?`}
+        description={`Are you sure you want to delete ${taskCode}? It can be restored from the trash.`}
         confirmText="Delete"
         cancelText="Cancel"
       />
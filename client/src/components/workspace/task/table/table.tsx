@@ -44,6 +44,17 @@ interface DataTableProps<TData, TValue> {
   pagination?: PaginationProps;
   onPageChange?: (page: number) => void;
   onPageSizeChange?: (size: number) => void;
+  // Columns missing from the user's own visibility choices fall back to this.
+  defaultColumnVisibility?: VisibilityState;
+  columnLabels?: Record<string, string>;
+  // When provided, sorting is delegated to the server.
+  sorting?: SortingState;
+  onSortingChange?: (sorting: SortingState) => void;
+  // Rendered above the table while rows on the current page are selected.
+  selectionToolbar?: (
+    selectedRows: TData[],
+    clearSelection: () => void
+  ) => React.ReactNode;
 }
 
 export function DataTable<TData, TValue>({
@@ -54,6 +65,11 @@ export function DataTable<TData, TValue>({
   pagination,
   onPageChange,
   onPageSizeChange,
+  defaultColumnVisibility,
+  columnLabels,
+  sorting: serverSorting,
+  onSortingChange,
+  selectionToolbar,
 }: DataTableProps<TData, TValue>) {
   const { totalCount = 0, pageNumber = 1, pageSize = 10 } = pagination || {};
 
@@ -65,18 +81,30 @@ export function DataTable<TData, TValue>({
     React.useState<VisibilityState>({});
   const [rowSelection, setRowSelection] = React.useState({});
 
+  // Selection is keyed by row index, so it cannot survive a page change.
+  React.useEffect(() => {
+    setRowSelection({});
+  }, [pageNumber, pageSize]);
+
   const table = useReactTable({
     data,
     columns,
     manualPagination: true,
+    manualSorting: Boolean(onSortingChange),
     state: {
-      sorting,
+      sorting: onSortingChange ? serverSorting ?? [] : sorting,
       columnFilters,
-      columnVisibility,
+      columnVisibility: { ...defaultColumnVisibility, ...columnVisibility },
       rowSelection,
       pagination: { pageIndex: pageNumber - 1, pageSize },
     },
-    onSortingChange: setSorting,
+    onSortingChange: (updater) => {
+      if (!onSortingChange) return setSorting(updater);
+      const current = serverSorting ?? [];
+      onSortingChange(
+        typeof updater === "function" ? updater(current) : updater
+      );
+    },
     onColumnFiltersChange: setColumnFilters,
     getCoreRowModel: getCoreRowModel(),
     getPaginationRowModel: getPaginationRowModel(),
@@ -86,6 +114,10 @@ export function DataTable<TData, TValue>({
     onRowSelectionChange: setRowSelection,
   });
 
+  const selectedRows = table
+    .getSelectedRowModel()
+    .rows.map((row) => row.original);
+
   return (
     <div className="w-full space-y-2">
       <div className="block w-full lg:flex lg:items-center lg:justify-between">
@@ -110,13 +142,16 @@ export function DataTable<TData, TValue>({
                       column.toggleVisibility(!!value)
                     }
                   >
-                    {column.id}
+                    {columnLabels?.[column.id] ?? column.id}
                   </DropdownMenuCheckboxItem>
                 );
               })}
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
+      {selectionToolbar &&
+        selectedRows.length > 0 &&
+        selectionToolbar(selectedRows, () => setRowSelection({}))}
       <div className="rounded-md border">
         {isLoading ? (
           <TableSkeleton columns={6} rows={10} />
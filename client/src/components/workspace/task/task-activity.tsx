@@ -0,0 +1,207 @@
+import { format, formatDistanceToNow } from "date-fns";
+import { ArrowRight, Loader } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import useTaskActivity from "@/hooks/api/use-task-activity";
+import useGetWorkspaceMembers from "@/hooks/api/use-get-workspace-members";
+import useLabels from "@/hooks/api/use-labels";
+import useSprints from "@/hooks/api/use-sprints";
+import useCustomFields from "@/hooks/api/use-custom-fields";
+import useWorkspaceWorkflow from "@/hooks/api/use-workspace-workflow";
+import {
+  formatDuration,
+  getAvatarColor,
+  getAvatarFallbackText,
+} from "@/lib/helper";
+import { TaskActivityType, TaskFieldChangeType } from "@/types/api.type";
+
+const fieldLabels: Record<string, string> = {
+  title: "title",
+  description: "description",
+  status: "status",
+  priority: "priority",
+  assignees: "assignees",
+  startDate: "start date",
+  dueDate: "due date",
+  estimateMinutes: "estimate",
+  labels: "labels",
+  sprint: "sprint",
+  blockedBy: "dependencies",
+  checklist: "checklist progress",
+  project: "project",
+  taskCode: "key",
+  workspace: "workspace",
+};
+
+const actionLabels: Record<TaskActivityType["action"], string> = {
+  CREATED: "created the task",
+  UPDATED: "updated the task",
+  DELETED: "deleted the task",
+  RESTORED: "restored the task",
+};
+
+type TaskActivityProps = {
+  workspaceId: string;
+  taskId: string;
+  projectId?: string;
+};
+
+const TaskActivity = ({
+  workspaceId,
+  taskId,
+  projectId,
+}: TaskActivityProps) => {
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } =
+    useTaskActivity({ workspaceId, taskId });
+  const { workflow } = useWorkspaceWorkflow();
+  const { data: memberData } = useGetWorkspaceMembers(workspaceId);
+  const { data: labelData } = useLabels(workspaceId);
+  const { data: sprintData } = useSprints({ workspaceId, projectId });
+  const { data: customFieldData } = useCustomFields(workspaceId, projectId);
+
+  const activities = data?.pages.flatMap((page) => page.activities) ?? [];
+
+  // Ids are stored as-is, so names are looked up from workspace data.
+  const nameOf = (
+    items: { _id: string; name: string }[] | undefined,
+    id: unknown
+  ) => items?.find((item) => item._id === id)?.name ?? "Unknown";
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === null || (Array.isArray(value) && !value.length)) {
+      return "None";
+    }
+
+    switch (field) {
+      case "status":
+        return (
+          workflow.statuses.find((status) => status.key === value)?.name ??
+          String(value)
+        );
+      case "priority":
+        return String(value).charAt(0) + String(value).slice(1).toLowerCase();
+      case "startDate":
+      case "dueDate":
+        return format(new Date(value as string), "PP");
+      case "estimateMinutes":
+        return formatDuration(value as number);
+      case "assignees":
+        return (value as string[])
+          .map((id) =>
+            nameOf(
+              memberData?.members.map((member) => member.userId),
+              id
+            )
+          )
+          .join(", ");
+      case "labels":
+        return (value as string[])
+          .map((id) => nameOf(labelData?.labels, id))
+          .join(", ");
+      case "sprint":
+        return nameOf(sprintData?.sprints, value);
+      case "blockedBy": {
+        const count = (value as string[]).length;
+        return `${count} blocking task${count === 1 ? "" : "s"}`;
+      }
+      default:
+        return Array.isArray(value) ? value.join(", ") : String(value);
+    }
+  };
+
+  const getFieldLabel = (field: string) =>
+    field.startsWith("customFields.")
+      ? nameOf(customFieldData?.fields, field.slice("customFields.".length))
+      : fieldLabels[field] ?? field;
+
+  const renderChange = (change: TaskFieldChangeType) => (
+    <li key={change.field} className="text-sm">
+      <span className="font-medium">{getFieldLabel(change.field)}</span>
+      <div className="mt-0.5 flex flex-wrap items-center gap-1.5 text-muted-foreground">
+        <span className="line-clamp-1 max-w-[45%] line-through">
+          {formatValue(change.field, change.oldValue)}
+        </span>
+        <ArrowRight className="h-3 w-3 shrink-0" />
+        <span className="line-clamp-1 max-w-[45%] text-foreground">
+          {formatValue(change.field, change.newValue)}
+        </span>
+      </div>
+    </li>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-6">
+        <Loader className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!activities.length) {
+    return (
+      <p className="py-6 text-center text-sm text-muted-foreground">
+        No activity recorded yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <ul className="max-h-[420px] space-y-4 overflow-y-auto pr-1 scrollbar">
+        {activities.map((activity) => {
+          const actorName = activity.actor?.name ?? "Automation";
+          const initials = getAvatarFallbackText(actorName);
+          return (
+            <li key={activity._id} className="flex gap-3">
+              <Avatar className="h-7 w-7">
+                <AvatarImage
+                  src={activity.actor?.profilePicture || ""}
+                  alt={actorName}
+                />
+                <AvatarFallback className={getAvatarColor(initials)}>
+                  {initials}
+                </AvatarFallback>
+              </Avatar>
+              <div className="flex-1 space-y-1">
+                <p className="text-sm">
+                  <span className="font-medium">{actorName}</span>{" "}
+                  {activity.action === "UPDATED" &&
+                  activity.changes.length === 1
+                    ? `changed the ${getFieldLabel(activity.changes[0].field)}`
+                    : actionLabels[activity.action]}
+                  <span
+                    className="ml-2 text-xs text-muted-foreground"
+                    title={format(new Date(activity.createdAt), "PPpp")}
+                  >
+                    {formatDistanceToNow(new Date(activity.createdAt), {
+                      addSuffix: true,
+                    })}
+                  </span>
+                </p>
+                {activity.changes.length > 0 && (
+                  <ul className="space-y-1.5 rounded-md border p-2">
+                    {activity.changes.map(renderChange)}
+                  </ul>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+      {hasNextPage && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          disabled={isFetchingNextPage}
+          onClick={() => fetchNextPage()}
+        >
+          {isFetchingNextPage && <Loader className="animate-spin" />}
+          Load older activity
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default TaskActivity;
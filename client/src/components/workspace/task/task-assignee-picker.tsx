@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import useGetWorkspaceMembers from "@/hooks/api/use-get-workspace-members";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { getAvatarColor, getAvatarFallbackText } from "@/lib/helper";
+import TaskAssignees from "./task-assignees";
+
+const TaskAssigneePicker = ({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: string[];
+  onChange: (userIds: string[]) => void;
+  disabled?: boolean;
+}) => {
+  const workspaceId = useWorkspaceId();
+  const [open, setOpen] = useState(false);
+
+  const { data: memberData } = useGetWorkspaceMembers(workspaceId);
+  const users = (memberData?.members || [])
+    .map((member) => member.userId)
+    .filter(Boolean);
+  const selectedUsers = users.filter((user) => value.includes(user._id));
+
+  const toggleUser = (userId: string) => {
+    onChange(
+      value.includes(userId)
+        ? value.filter((id) => id !== userId)
+        : [...value, userId]
+    );
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          disabled={disabled}
+          className="h-auto min-h-9 w-full justify-between font-normal"
+        >
+          {selectedUsers.length ? (
+            <TaskAssignees
+              assignees={selectedUsers.map((user) => ({
+                _id: user._id,
+                name: user.name,
+                profilePicture: user.profilePicture || null,
+              }))}
+            />
+          ) : (
+            <span className="text-muted-foreground">Select assignees</span>
+          )}
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[260px] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search members..." />
+          <CommandList>
+            <CommandEmpty>No members found.</CommandEmpty>
+            <CommandGroup>
+              {users.map((user) => {
+                const name = user.name || "Unknown";
+                const isSelected = value.includes(user._id);
+                return (
+                  <CommandItem
+                    key={user._id}
+                    value={`${name} ${user._id}`}
+                    onSelect={() => toggleUser(user._id)}
+                  >
+                    <Check
+                      className={cn(
+                        "mr-2 h-4 w-4",
+                        isSelected ? "opacity-100" : "opacity-0"
+                      )}
+                    />
+                    <Avatar className="mr-2 h-6 w-6">
+                      <AvatarImage src={user.profilePicture || ""} alt={name} />
+                      <AvatarFallback className={getAvatarColor(name)}>
+                        {getAvatarFallbackText(name)}
+                      </AvatarFallback>
+                    </Avatar>
+                    <span className="truncate">{name}</span>
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TaskAssigneePicker;
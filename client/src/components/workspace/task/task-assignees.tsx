@@ -0,0 +1,52 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { getAvatarColor, getAvatarFallbackText } from "@/lib/helper";
+import { TaskAssigneeType } from "@/types/api.type";
+
+const MAX_VISIBLE_ASSIGNEES = 3;
+
+const TaskAssignees = ({
+  assignees = [],
+  showName = true,
+}: {
+  assignees?: TaskAssigneeType[];
+  showName?: boolean;
+}) => {
+  if (!assignees.length) return null;
+
+  const visible = assignees.slice(0, MAX_VISIBLE_ASSIGNEES);
+  const hiddenCount = assignees.length - visible.length;
+
+  return (
+    <div className="flex items-center gap-1">
+      <div className="flex -space-x-2">
+        {visible.map((assignee) => (
+          <Avatar
+            key={assignee._id}
+            className="h-6 w-6 border-2 border-background"
+            title={assignee.name}
+          >
+            <AvatarImage
+              src={assignee.profilePicture || ""}
+              alt={assignee.name}
+            />
+            <AvatarFallback className={getAvatarColor(assignee.name)}>
+              {getAvatarFallbackText(assignee.name)}
+            </AvatarFallback>
+          </Avatar>
+        ))}
+      </div>
+      {showName && (
+        <span className="block text-ellipsis w-[100px] truncate">
+          {assignees.length === 1
+            ? assignees[0].name
+            : `${assignees[0].name} +${assignees.length - 1}`}
+        </span>
+      )}
+      {!showName && hiddenCount > 0 && (
+        <span className="text-xs text-muted-foreground">+{hiddenCount}</span>
+      )}
+    </div>
+  );
+};
+
+export default TaskAssignees;
@@ -0,0 +1,347 @@
+import { useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  ListTree,
+  Loader,
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+} from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import useTaskChecklist from "@/hooks/api/use-task-checklist";
+import useGetWorkspaceMembers from "@/hooks/api/use-get-workspace-members";
+import { toast } from "@/hooks/use-toast";
+import {
+  convertChecklistItemMutationFn,
+  createChecklistItemMutationFn,
+  deleteChecklistItemMutationFn,
+  reorderChecklistMutationFn,
+  updateChecklistItemMutationFn,
+} from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { ChecklistResponseType } from "@/types/api.type";
+
+const UNASSIGNED_VALUE = "__unassigned__";
+
+type TaskChecklistProps = {
+  workspaceId: string;
+  taskId: string;
+  canEdit: boolean;
+  canConvert: boolean;
+};
+
+const TaskChecklist = ({
+  workspaceId,
+  taskId,
+  canEdit,
+  canConvert,
+}: TaskChecklistProps) => {
+  const queryClient = useQueryClient();
+  const [title, setTitle] = useState("");
+  const [editing, setEditing] = useState<{ id: string; title: string } | null>(
+    null
+  );
+
+  const { data, isLoading } = useTaskChecklist(workspaceId, taskId);
+  const { data: memberData } = useGetWorkspaceMembers(workspaceId);
+
+  const checklist = data?.checklist ?? [];
+  const members = (memberData?.members ?? []).map((member) => member.userId);
+  const total = data?.progress?.total ?? checklist.length;
+  const completed = data?.progress?.completed ?? 0;
+  const percentage = total > 0 ? Math.round((completed / total) * 100) : 0;
+
+  // Every checklist endpoint answers with the whole list, so the cache is
+  // replaced directly instead of being refetched.
+  const onSuccess = (response: ChecklistResponseType) => {
+    queryClient.setQueryData(["task-checklist", workspaceId, taskId], response);
+    queryClient.invalidateQueries({
+      queryKey: ["all-tasks", workspaceId],
+    });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const { mutate: createItem, isPending: isCreating } = useMutation({
+    mutationFn: createChecklistItemMutationFn,
+    onSuccess: (response) => {
+      setTitle("");
+      onSuccess(response);
+    },
+    onError,
+  });
+  const { mutate: updateItem, isPending: isUpdating } = useMutation({
+    mutationFn: updateChecklistItemMutationFn,
+    onSuccess: (response) => {
+      setEditing(null);
+      onSuccess(response);
+    },
+    onError,
+  });
+  const { mutate: reorderItems, isPending: isReordering } = useMutation({
+    mutationFn: reorderChecklistMutationFn,
+    onSuccess,
+    onError,
+  });
+  const { mutate: deleteItem, isPending: isDeleting } = useMutation({
+    mutationFn: deleteChecklistItemMutationFn,
+    onSuccess,
+    onError,
+  });
+  const { mutate: convertItem, isPending: isConverting } = useMutation({
+    mutationFn: convertChecklistItemMutationFn,
+    onSuccess: (response) => {
+      onSuccess(response);
+      queryClient.invalidateQueries({
+        queryKey: ["subtasks", workspaceId, taskId],
+      });
+      toast({
+        title: "Success",
+        description: `Created subtask ${response.subtask.taskCode}`,
+        variant: "success",
+      });
+    },
+    onError,
+  });
+
+  const isBusy =
+    isUpdating || isReordering || isDeleting || isConverting || !canEdit;
+
+  const handleCreate = () => {
+    const trimmed = title.trim();
+    if (!trimmed || isCreating) return;
+    createItem({ workspaceId, taskId, data: { title: trimmed } });
+  };
+
+  const handleRename = () => {
+    if (!editing) return;
+    const trimmed = editing.title.trim();
+    if (!trimmed) return;
+    updateItem({
+      workspaceId,
+      taskId,
+      itemId: editing.id,
+      data: { title: trimmed },
+    });
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    const itemIds = checklist.map((item) => item._id);
+    const [moved] = itemIds.splice(index, 1);
+    itemIds.splice(index + offset, 0, moved);
+    reorderItems({ workspaceId, taskId, itemIds });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <h2 className="font-semibold">Progress</h2>
+          <span className="text-muted-foreground">
+            {completed}/{total} done
+          </span>
+        </div>
+        <div className="h-2 w-full rounded-full bg-muted">
+          <div
+            className="h-2 rounded-full bg-green-500 transition-all"
+            style={{ width: `${percentage}%` }}
+          />
+        </div>
+      </div>
+
+      {canEdit && (
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="Add a checklist item..."
+            value={title}
+            onChange={(event) => setTitle(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") {
+                event.preventDefault();
+                handleCreate();
+              }
+            }}
+          />
+          <Button type="button" disabled={isCreating} onClick={handleCreate}>
+            {isCreating && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+            Add
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : checklist.length === 0 ? (
+        <p className="text-sm text-muted-foreground border rounded-md px-3 py-4">
+          No checklist items yet.
+        </p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {checklist.map((item, index) => (
+            <li key={item._id} className="flex items-center gap-2 px-3 py-2">
+              <Checkbox
+                checked={item.completed}
+                disabled={isBusy}
+                aria-label={`Mark "${item.title}" as done`}
+                onCheckedChange={(checked) =>
+                  updateItem({
+                    workspaceId,
+                    taskId,
+                    itemId: item._id,
+                    data: { completed: checked === true },
+                  })
+                }
+              />
+              {editing?.id === item._id ? (
+                <Input
+                  autoFocus
+                  className="h-8 flex-1"
+                  value={editing.title}
+                  disabled={isUpdating}
+                  onChange={(event) =>
+                    setEditing({ id: item._id, title: event.target.value })
+                  }
+                  onKeyDown={(event) => {
+                    if (event.key === "Enter") {
+                      event.preventDefault();
+                      handleRename();
+                    }
+                    if (event.key === "Escape") setEditing(null);
+                  }}
+                />
+              ) : (
+                <span
+                  className={cn(
+                    "flex-1 text-sm",
+                    item.completed && "text-muted-foreground line-through"
+                  )}
+                  title={
+                    item.completedBy
+                      ? `Checked off by ${item.completedBy.name}`
+                      : undefined
+                  }
+                >
+                  {item.title}
+                </span>
+              )}
+              <Select
+                disabled={isBusy}
+                value={item.assignee?._id ?? UNASSIGNED_VALUE}
+                onValueChange={(selected) =>
+                  updateItem({
+                    workspaceId,
+                    taskId,
+                    itemId: item._id,
+                    data: {
+                      assignee:
+                        selected === UNASSIGNED_VALUE ? null : selected,
+                    },
+                  })
+                }
+              >
+                <SelectTrigger className="h-8 w-36 text-xs">
+                  <SelectValue placeholder="Unassigned" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED_VALUE}>Unassigned</SelectItem>
+                  {members.map((member) => (
+                    <SelectItem key={member._id} value={member._id}>
+                      {member.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {canEdit && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      className="h-8 w-8 p-0"
+                      disabled={isBusy}
+                    >
+                      <MoreHorizontal />
+                      <span className="sr-only">Open menu</span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className="w-[180px]">
+                    <DropdownMenuItem
+                      className="cursor-pointer"
+                      onClick={() =>
+                        setEditing({ id: item._id, title: item.title })
+                      }
+                    >
+                      <Pencil className="w-4 h-4 mr-2" /> Rename
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      className="cursor-pointer"
+                      disabled={index === 0}
+                      onClick={() => handleMove(index, -1)}
+                    >
+                      <ArrowUp className="w-4 h-4 mr-2" /> Move up
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      className="cursor-pointer"
+                      disabled={index === checklist.length - 1}
+                      onClick={() => handleMove(index, 1)}
+                    >
+                      <ArrowDown className="w-4 h-4 mr-2" /> Move down
+                    </DropdownMenuItem>
+                    {canConvert && (
+                      <DropdownMenuItem
+                        className="cursor-pointer"
+                        disabled={item.completed}
+                        onClick={() =>
+                          convertItem({ workspaceId, taskId, itemId: item._id })
+                        }
+                      >
+                        <ListTree className="w-4 h-4 mr-2" /> Make subtask
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem
+                      className="!text-destructive cursor-pointer"
+                      onClick={() =>
+                        deleteItem({ workspaceId, taskId, itemId: item._id })
+                      }
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" /> Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TaskChecklist;
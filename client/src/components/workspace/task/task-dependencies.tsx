@@ -0,0 +1,216 @@
+import { useState } from "react";
+import { Loader, Lock, X } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import useTaskDependencies from "@/hooks/api/use-task-dependencies";
+import {
+  addTaskDependencyMutationFn,
+  getAllTasksQueryFn,
+  removeTaskDependencyMutationFn,
+} from "@/lib/api";
+import { isDoneStatus } from "@/lib/helper";
+import useWorkspaceWorkflow from "@/hooks/api/use-workspace-workflow";
+import { toast } from "@/hooks/use-toast";
+import type { TaskDependencyType } from "@/types/api.type";
+import TaskStatusBadge from "./task-status-badge";
+
+type TaskDependenciesProps = {
+  workspaceId: string;
+  taskId: string;
+  canManage: boolean;
+};
+
+const TaskDependencies = ({
+  workspaceId,
+  taskId,
+  canManage,
+}: TaskDependenciesProps) => {
+  const queryClient = useQueryClient();
+  const [blockerId, setBlockerId] = useState("");
+
+  const { data, isLoading, isFetching } = useTaskDependencies(
+    workspaceId,
+    taskId
+  );
+  const blockers = data?.blockers ?? [];
+  const dependents = data?.dependents ?? [];
+
+  const { data: taskData } = useQuery({
+    queryKey: ["all-tasks", workspaceId, "dependency-options"],
+    queryFn: () => getAllTasksQueryFn({ workspaceId, pageSize: 100 }),
+    enabled: canManage && Boolean(workspaceId),
+    staleTime: 0,
+  });
+
+  const linkedIds = new Set([taskId, ...blockers.map((task) => task._id)]);
+  const taskOptions = (taskData?.tasks ?? []).filter(
+    (task) => !linkedIds.has(task._id)
+  );
+
+  const mutationCallbacks = {
+    onSuccess: () => {
+      setBlockerId("");
+      queryClient.invalidateQueries({
+        queryKey: ["task-dependencies", workspaceId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["all-tasks", workspaceId],
+      });
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Failed to update dependencies",
+        variant: "destructive",
+      });
+    },
+  };
+
+  const { mutate: addDependency, isPending: isAdding } = useMutation({
+    mutationFn: addTaskDependencyMutationFn,
+    ...mutationCallbacks,
+  });
+
+  const { mutate: removeDependency, isPending: isRemoving } = useMutation({
+    mutationFn: removeTaskDependencyMutationFn,
+    ...mutationCallbacks,
+  });
+
+  const handleAdd = () => {
+    if (!blockerId || isAdding) return;
+    addDependency({ workspaceId, taskId, blockerId });
+  };
+
+  return (
+    <div className="space-y-4">
+      {canManage && (
+        <div className="flex items-center gap-2">
+          <Select value={blockerId} onValueChange={setBlockerId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a blocking task" />
+            </SelectTrigger>
+            <SelectContent>
+              <div className="w-full max-h-[200px] overflow-y-auto scrollbar">
+                {taskOptions.map((task) => (
+                  <SelectItem key={task._id} value={task._id}>
+                    {task.taskCode} · {task.title}
+                  </SelectItem>
+                ))}
+              </div>
+            </SelectContent>
+          </Select>
+          <Button type="button" disabled={isAdding} onClick={handleAdd}>
+            {isAdding && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+            Add blocker
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <>
+          <DependencyList
+            title="Blocked by"
+            emptyText="Nothing is blocking this task."
+            tasks={blockers}
+            isFetching={isFetching}
+            onRemove={
+              canManage && !isRemoving
+                ? (id) =>
+                    removeDependency({ workspaceId, taskId, blockerId: id })
+                : undefined
+            }
+          />
+          <DependencyList
+            title="Blocks"
+            emptyText="No tasks depend on this one."
+            tasks={dependents}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+type DependencyListProps = {
+  title: string;
+  emptyText: string;
+  tasks: TaskDependencyType[];
+  isFetching?: boolean;
+  onRemove?: (taskId: string) => void;
+};
+
+const DependencyList = ({
+  title,
+  emptyText,
+  tasks,
+  isFetching,
+  onRemove,
+}: DependencyListProps) => {
+  const { workflow } = useWorkspaceWorkflow();
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">{title}</h2>
+        {isFetching && (
+          <Loader className="h-4 w-4 animate-spin text-muted-foreground" />
+        )}
+      </div>
+      {tasks.length === 0 ? (
+        <p className="text-sm text-muted-foreground border rounded-md px-3 py-4">
+          {emptyText}
+        </p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {tasks.map((task) => (
+            <li
+              key={task._id}
+              className="flex items-center justify-between gap-2 px-3 py-2"
+            >
+              <div className="flex items-center gap-2">
+                {!isDoneStatus(workflow, task.status) && (
+                  <Lock className="h-3.5 w-3.5 text-muted-foreground" />
+                )}
+                <span className="text-xs text-muted-foreground">
+                  {task.taskCode}
+                </span>
+                <span className="text-sm font-medium">{task.title}</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <TaskStatusBadge status={task.status} />
+                {onRemove && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => onRemove(task._id)}
+                  >
+                    <X className="h-4 w-4" />
+                    <span className="sr-only">Remove dependency</span>
+                  </Button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TaskDependencies;
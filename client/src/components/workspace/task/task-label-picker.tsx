@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import useLabels from "@/hooks/api/use-labels";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { LabelBadge } from "./task-labels";
+
+const TaskLabelPicker = ({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: string[];
+  onChange: (labelIds: string[]) => void;
+  disabled?: boolean;
+}) => {
+  const workspaceId = useWorkspaceId();
+  const [open, setOpen] = useState(false);
+
+  const { data } = useLabels(workspaceId);
+  const labels = data?.labels ?? [];
+  const selectedLabels = labels.filter((label) => value.includes(label._id));
+
+  const toggleLabel = (labelId: string) => {
+    onChange(
+      value.includes(labelId)
+        ? value.filter((id) => id !== labelId)
+        : [...value, labelId]
+    );
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          disabled={disabled}
+          className="h-auto min-h-9 w-full justify-between font-normal"
+        >
+          {selectedLabels.length ? (
+            <div className="flex flex-wrap gap-1">
+              {selectedLabels.map((label) => (
+                <LabelBadge key={label._id} label={label} />
+              ))}
+            </div>
+          ) : (
+            <span className="text-muted-foreground">Select labels</span>
+          )}
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[260px] p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Search labels..." />
+          <CommandList>
+            <CommandEmpty>No labels found.</CommandEmpty>
+            <CommandGroup>
+              {labels.map((label) => {
+                const isSelected = value.includes(label._id);
+                return (
+                  <CommandItem
+                    key={label._id}
+                    value={label.name}
+                    onSelect={() => toggleLabel(label._id)}
+                  >
+                    <Check
+                      className={cn(
+                        "mr-2 h-4 w-4",
+                        isSelected ? "opacity-100" : "opacity-0"
+                      )}
+                    />
+                    <LabelBadge label={label} />
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default TaskLabelPicker;
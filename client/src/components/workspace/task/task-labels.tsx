@@ -0,0 +1,32 @@
+import { LabelType } from "@/types/api.type";
+
+export const LabelBadge = ({
+  label,
+}: {
+  label: Pick<LabelType, "name" | "color">;
+}) => (
+  <span
+    className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium"
+    style={{ borderColor: label.color, color: label.color }}
+  >
+    <span
+      className="h-2 w-2 shrink-0 rounded-full"
+      style={{ backgroundColor: label.color }}
+    />
+    {label.name}
+  </span>
+);
+
+const TaskLabels = ({ labels = [] }: { labels?: LabelType[] }) => {
+  if (!labels.length) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {labels.map((label) => (
+        <LabelBadge key={label._id} label={label} />
+      ))}
+    </div>
+  );
+};
+
+export default TaskLabels;
@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Loader, Repeat } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { updateTaskSeriesMutationFn } from "@/lib/api";
+import { describeRecurrence } from "@/lib/helper";
+import { toast } from "@/hooks/use-toast";
+import type { TaskRecurrenceType, TaskType } from "@/types/api.type";
+import RecurrenceFields from "./recurrence-fields";
+
+type TaskRecurrenceProps = {
+  workspaceId: string;
+  task: TaskType;
+  canEdit: boolean;
+};
+
+const TaskRecurrence = ({ workspaceId, task, canEdit }: TaskRecurrenceProps) => {
+  const queryClient = useQueryClient();
+  const series = task.series;
+  const [recurrence, setRecurrence] = useState<TaskRecurrenceType | null>(
+    series?.isActive ? series.recurrence : null
+  );
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: updateTaskSeriesMutationFn,
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["all-tasks", workspaceId],
+      });
+      toast({
+        title: "Success",
+        description: "Schedule updated for this and following occurrences",
+        variant: "success",
+      });
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to update schedule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!series) return null;
+
+  const handleSave = () => {
+    if (isPending) return;
+    mutate({ workspaceId, taskId: task._id, data: { recurrence } });
+  };
+
+  return (
+    <div className="rounded-md border p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Repeat className="h-4 w-4 text-muted-foreground" />
+        <div>
+          <h2 className="text-sm font-semibold">Recurring task</h2>
+          <p className="text-xs text-muted-foreground">
+            {series.isActive
+              ? describeRecurrence(series.recurrence)
+              : "This series no longer repeats."}
+          </p>
+        </div>
+      </div>
+
+      {canEdit && (
+        <>
+          <RecurrenceFields
+            value={recurrence}
+            onChange={setRecurrence}
+            disabled={isPending}
+          />
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              size="sm"
+              disabled={isPending}
+              onClick={handleSave}
+            >
+              {isPending && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+              Save for this and following
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TaskRecurrence;
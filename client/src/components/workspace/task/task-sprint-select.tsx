@@ -0,0 +1,55 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import useSprints from "@/hooks/api/use-sprints";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+
+const BACKLOG_VALUE = "__backlog__";
+
+// Closed sprints no longer take tasks, so only planned and active ones show.
+const TaskSprintSelect = ({
+  projectId,
+  value,
+  onChange,
+  disabled,
+}: {
+  projectId?: string;
+  value: string | null;
+  onChange: (sprintId: string | null) => void;
+  disabled?: boolean;
+}) => {
+  const workspaceId = useWorkspaceId();
+  const { data } = useSprints({ workspaceId, projectId });
+  const sprints = (data?.sprints ?? []).filter(
+    (sprint) => sprint.status !== "CLOSED" || sprint._id === value
+  );
+
+  return (
+    <Select
+      disabled={disabled || !projectId}
+      value={value ?? BACKLOG_VALUE}
+      onValueChange={(selected) =>
+        onChange(selected === BACKLOG_VALUE ? null : selected)
+      }
+    >
+      <SelectTrigger>
+        <SelectValue placeholder="Backlog" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={BACKLOG_VALUE}>Backlog</SelectItem>
+        {sprints.map((sprint) => (
+          <SelectItem key={sprint._id} value={sprint._id}>
+            {sprint.name}
+            {sprint.status === "ACTIVE" && " (active)"}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default TaskSprintSelect;
@@ -0,0 +1,48 @@
+import { Badge } from "@/components/ui/badge";
+import { TaskStatusEnum } from "@/constant";
+import useWorkspaceWorkflow from "@/hooks/api/use-workspace-workflow";
+import { findWorkflowStatus, transformStatusEnum } from "@/lib/helper";
+import { cn } from "@/lib/utils";
+import { getStatusOptions } from "./table/data";
+
+type TaskStatusBadgeProps = {
+  status: string;
+  showIcon?: boolean;
+  className?: string;
+};
+
+const TaskStatusBadge = ({
+  status,
+  showIcon,
+  className,
+}: TaskStatusBadgeProps) => {
+  const { workflow } = useWorkspaceWorkflow();
+  const workflowStatus = findWorkflowStatus(workflow, status);
+  const Icon = showIcon
+    ? getStatusOptions(workflow).find((option) => option.value === status)
+        ?.icon
+    : undefined;
+
+  // Built-in statuses keep their badge variant; custom ones use their color.
+  const variant =
+    status in TaskStatusEnum
+      ? TaskStatusEnum[status as keyof typeof TaskStatusEnum]
+      : "secondary";
+  const color = workflowStatus?.color;
+
+  return (
+    <Badge
+      variant={variant}
+      className={cn(
+        "flex w-auto p-1 px-2 gap-1 font-medium shadow-sm uppercase border-0",
+        className
+      )}
+      style={color ? { backgroundColor: `${color}26`, color } : undefined}
+    >
+      {Icon && <Icon className="h-4 w-4 rounded-full text-inherit" />}
+      <span>{workflowStatus?.name ?? transformStatusEnum(status)}</span>
+    </Badge>
+  );
+};
+
+export default TaskStatusBadge;
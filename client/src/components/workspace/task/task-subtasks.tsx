@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Loader } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import useSubtasks from "@/hooks/api/use-subtasks";
+import { createSubtaskMutationFn } from "@/lib/api";
+import { toast } from "@/hooks/use-toast";
+import TaskStatusBadge from "./task-status-badge";
+
+type TaskSubtasksProps = {
+  workspaceId: string;
+  taskId: string;
+  canCreate: boolean;
+};
+
+const TaskSubtasks = ({ workspaceId, taskId, canCreate }: TaskSubtasksProps) => {
+  const queryClient = useQueryClient();
+  const [title, setTitle] = useState("");
+
+  const { data, isLoading, isFetching } = useSubtasks(workspaceId, taskId);
+  const subtasks = data?.subtasks ?? [];
+  const total = data?.progress?.total ?? subtasks.length;
+  const completed = data?.progress?.completed ?? 0;
+  const percentage = total > 0 ? Math.round((completed / total) * 100) : 0;
+
+  const { mutate: createSubtask, isPending } = useMutation({
+    mutationFn: createSubtaskMutationFn,
+    onSuccess: () => {
+      setTitle("");
+      queryClient.invalidateQueries({
+        queryKey: ["subtasks", workspaceId, taskId],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["all-tasks", workspaceId],
+      });
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Error",
+        description:
+          error instanceof Error ? error.message : "Failed to add subtask",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleCreate = () => {
+    const trimmed = title.trim();
+    if (!trimmed || isPending) return;
+    createSubtask({ workspaceId, taskId, data: { title: trimmed } });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <h2 className="font-semibold">Progress</h2>
+          <span className="text-muted-foreground">
+            {completed}/{total} done
+          </span>
+        </div>
+        <div className="h-2 w-full rounded-full bg-muted">
+          <div
+            className="h-2 rounded-full bg-green-500 transition-all"
+            style={{ width: `${percentage}%` }}
+          />
+        </div>
+      </div>
+
+      {canCreate && (
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="Add a subtask..."
+            value={title}
+            onChange={(event) => setTitle(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") {
+                event.preventDefault();
+                handleCreate();
+              }
+            }}
+          />
+          <Button type="button" disabled={isPending} onClick={handleCreate}>
+            {isPending && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+            Add
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-semibold">Subtasks</h2>
+          {isFetching && (
+            <Loader className="h-4 w-4 animate-spin text-muted-foreground" />
+          )}
+        </div>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : subtasks.length === 0 ? (
+          <p className="text-sm text-muted-foreground border rounded-md px-3 py-4">
+            No subtasks yet.
+          </p>
+        ) : (
+          <ScrollArea className="max-h-80 pr-3">
+            <ul className="divide-y rounded-md border">
+              {subtasks.map((subtask) => (
+                <li
+                  key={subtask._id}
+                  className="flex items-center justify-between gap-2 px-3 py-2"
+                >
+                  <div className="flex flex-col">
+                    <span className="text-xs text-muted-foreground">
+                      {subtask.taskCode}
+                    </span>
+                    <span className="text-sm font-medium">{subtask.title}</span>
+                    {subtask.dueDate && (
+                      <span className="text-xs text-muted-foreground">
+                        Due: {format(subtask.dueDate, "PPP")}
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {subtask.assignees.length > 0 && (
+                      <span className="text-xs text-muted-foreground">
+                        {subtask.assignees
+                          .map((assignee) => assignee.name)
+                          .join(", ")}
+                      </span>
+                    )}
+                    <TaskStatusBadge status={subtask.status} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TaskSubtasks;
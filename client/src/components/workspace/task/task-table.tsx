@@ -6,7 +6,14 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { X } from "lucide-react";
 import { DataTableFacetedFilter } from "./table/table-faceted-filter";
-import { priorities, statuses } from "./table/data";
+import {
+  blockedStates,
+  clarificationStates,
+  getStatusOptions,
+  priorities,
+  taskLevels,
+  watchingStates,
+} from "./table/data";
 import useTaskTableFilter from "@/hooks/use-task-table-filter";
 import { useQuery } from "@tanstack/react-query";
 import useWorkspaceId from "@/hooks/use-workspace-id";
@@ -16,6 +23,15 @@ import useGetProjectsInWorkspaceQuery from "@/hooks/api/use-get-projects";
 import useGetWorkspaceMembers from "@/hooks/api/use-get-workspace-members";
 import { getAvatarColor, getAvatarFallbackText } from "@/lib/helper";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import useWorkspaceWorkflow from "@/hooks/api/use-workspace-workflow";
+import useCustomFields from "@/hooks/api/use-custom-fields";
+import { CustomFieldTypeEnum, Permissions } from "@/constant";
+import { CustomFieldType } from "@/types/api.type";
+import { getCustomFieldColumnId } from "./table/columns";
+import useLabels from "@/hooks/api/use-labels";
+import { useAuthContext } from "@/context/auth-provider";
+import BulkTaskActions from "./bulk-task-actions";
+import { LabelBadge } from "./task-labels";
 
 type Filters = ReturnType<typeof useTaskTableFilter>[0];
 type SetFilters = ReturnType<typeof useTaskTableFilter>[1];
@@ -25,6 +41,7 @@ interface DataTableFilterToolbarProps {
   projectId?: string;
   filters: Filters;
   setFilters: SetFilters;
+  customFields: CustomFieldType[];
 }
 
 const TaskTable = () => {
@@ -36,7 +53,24 @@ const TaskTable = () => {
 
   const [filters, setFilters] = useTaskTableFilter();
   const workspaceId = useWorkspaceId();
-  const columns = getColumns(projectId);
+  const { user, workspace, hasPermission } = useAuthContext();
+  const { workflow } = useWorkspaceWorkflow();
+  const { data: customFieldData } = useCustomFields(workspaceId, projectId);
+  const customFields = customFieldData?.fields ?? [];
+  const columns = getColumns(projectId, workflow, customFields);
+
+  // Custom field columns are opt-in through the "Columns" menu.
+  const defaultColumnVisibility = Object.fromEntries(
+    customFields.map((field) => [getCustomFieldColumnId(field._id), false])
+  );
+  const columnLabels = Object.fromEntries(
+    customFields.map((field) => [getCustomFieldColumnId(field._id), field.name])
+  );
+
+  const roleName = workspace?.members.find(
+    (member) => member.userId === user?._id
+  )?.role?.name;
+  const isOwnerOrAdmin = roleName === "OWNER" || roleName === "ADMIN";
 
   const { data, isLoading } = useQuery({
     queryKey: [
@@ -55,6 +89,16 @@ const TaskTable = () => {
         status: filters.status,
         projectId: projectId || filters.projectId,
         assignedTo: filters.assigneeId,
+        watching: filters.watching === "true",
+        labels: filters.labels,
+        labelsMatch: filters.labelsMatch,
+        level: filters.level,
+        isBlocked: filters.isBlocked,
+        hasOpenClarifications: filters.hasOpenClarifications,
+        sprint: projectId ? filters.sprint : null,
+        customFieldFilters: filters.customFields,
+        sortBy: filters.sortBy,
+        sortOrder: filters.sortOrder,
         pageNumber,
         pageSize,
       }),
@@ -81,6 +125,31 @@ const TaskTable = () => {
         columns={columns}
         onPageChange={handlePageChange}
         onPageSizeChange={handlePageSizeChange}
+        defaultColumnVisibility={defaultColumnVisibility}
+        columnLabels={columnLabels}
+        sorting={
+          filters.sortBy
+            ? [{ id: filters.sortBy, desc: filters.sortOrder !== "asc" }]
+            : []
+        }
+        onSortingChange={(sorting) =>
+          setFilters({
+            sortBy: sorting[0]?.id ?? null,
+            sortOrder: sorting[0] ? (sorting[0].desc ? "desc" : "asc") : null,
+          })
+        }
+        selectionToolbar={
+          hasPermission(Permissions.EDIT_TASK)
+            ? (selectedTasks, clearSelection) => (
+                <BulkTaskActions
+                  taskIds={selectedTasks.map((task) => task._id)}
+                  canEditAll={isOwnerOrAdmin}
+                  canDelete={hasPermission(Permissions.DELETE_TASK)}
+                  onDone={clearSelection}
+                />
+              )
+            : undefined
+        }
         pagination={{
           totalCount,
           pageNumber,
@@ -92,6 +161,7 @@ const TaskTable = () => {
             projectId={projectId}
             filters={filters}
             setFilters={setFilters}
+            customFields={customFields}
           />
         }
       />
@@ -99,23 +169,32 @@ const TaskTable = () => {
   );
 };
 
-const DataTableFilterToolbar: FC<DataTableFilterToolbarProps> = ({
+export const DataTableFilterToolbar: FC<DataTableFilterToolbarProps> = ({
   isLoading,
   projectId,
   filters,
   setFilters,
+  customFields,
 }) => {
   const workspaceId = useWorkspaceId();
+  const { workflow } = useWorkspaceWorkflow();
 
   const { data } = useGetProjectsInWorkspaceQuery({
     workspaceId,
   });
 
   const { data: memberData } = useGetWorkspaceMembers(workspaceId);
+  const { data: labelData } = useLabels(workspaceId);
 
   const projects = data?.projects || [];
   const members = memberData?.members || [];
 
+  const labelOptions = (labelData?.labels || []).map((label) => ({
+    label: <LabelBadge label={label} />,
+    value: label._id,
+  }));
+  const selectedLabels = filters.labels?.split(",") || [];
+
   //Workspace Projects
   const projectOptions = projects?.map((project) => {
     return {
@@ -156,6 +235,37 @@ const DataTableFilterToolbar: FC<DataTableFilterToolbarProps> = ({
     });
   };
 
+  const handleCustomFieldFilterChange = (fieldId: string, values: string[]) => {
+    const next = { ...filters.customFields };
+    if (values.length) {
+      next[fieldId] = values.join(",");
+    } else {
+      delete next[fieldId];
+    }
+    setFilters({ customFields: Object.keys(next).length ? next : null });
+  };
+
+  // Fields with a fixed set of values get a facet; the rest are sortable only.
+  const facetableFields = customFields.filter(
+    (field) =>
+      field.type !== CustomFieldTypeEnum.TEXT &&
+      field.type !== CustomFieldTypeEnum.NUMBER &&
+      field.type !== CustomFieldTypeEnum.DATE
+  );
+
+  const getCustomFieldOptions = (field: CustomFieldType) => {
+    if (field.type === CustomFieldTypeEnum.CHECKBOX) {
+      return [
+        { label: "Checked", value: "true" },
+        { label: "Unchecked", value: "false" },
+      ];
+    }
+    if (field.type === CustomFieldTypeEnum.USER) {
+      return assigneesOptions;
+    }
+    return field.options.map((option) => ({ label: option, value: option }));
+  };
+
   return (
     <div className="flex flex-col lg:flex-row w-full items-start space-y-2 mb-2 lg:mb-0 lg:space-x-2  lg:space-y-0">
       <Input
@@ -172,7 +282,7 @@ const DataTableFilterToolbar: FC<DataTableFilterToolbarProps> = ({
       <DataTableFacetedFilter
         title="Status"
         multiSelect={true}
-        options={statuses}
+        options={getStatusOptions(workflow)}
         disabled={isLoading}
         selectedValues={filters.status?.split(",") || []}
         onFilterChange={(values) => handleFilterChange("status", values)}
@@ -188,9 +298,9 @@ const DataTableFilterToolbar: FC<DataTableFilterToolbarProps> = ({
         onFilterChange={(values) => handleFilterChange("priority", values)}
       />
 
-      {/* Assigned To filter */}
+      {/* Assignees filter, matches any of the selected members */}
       <DataTableFacetedFilter
-        title="Assigned To"
+        title="Assignees"
         multiSelect={true}
         options={assigneesOptions}
         disabled={isLoading}
@@ -198,6 +308,77 @@ const DataTableFilterToolbar: FC<DataTableFilterToolbarProps> = ({
         onFilterChange={(values) => handleFilterChange("assigneeId", values)}
       />
 
+      {/* Watching filter */}
+      <DataTableFacetedFilter
+        title="Watching"
+        multiSelect={false}
+        options={watchingStates}
+        disabled={isLoading}
+        selectedValues={filters.watching ? [filters.watching] : []}
+        onFilterChange={(values) => handleFilterChange("watching", values)}
+      />
+
+      {/* Labels filter */}
+      <DataTableFacetedFilter
+        title="Labels"
+        multiSelect={true}
+        options={labelOptions}
+        disabled={isLoading}
+        selectedValues={selectedLabels}
+        onFilterChange={(values) => handleFilterChange("labels", values)}
+      />
+      {selectedLabels.length > 1 && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 w-full lg:w-auto"
+          disabled={isLoading}
+          onClick={() =>
+            setFilters({
+              labelsMatch: filters.labelsMatch === "all" ? null : "all",
+            })
+          }
+        >
+          {filters.labelsMatch === "all"
+            ? "Match all labels"
+            : "Match any label"}
+        </Button>
+      )}
+
+      {/* Task level filter */}
+      <DataTableFacetedFilter
+        title="Task Type"
+        multiSelect={false}
+        options={taskLevels}
+        disabled={isLoading}
+        selectedValues={filters.level ? [filters.level] : []}
+        onFilterChange={(values) => handleFilterChange("level", values)}
+      />
+
+      {/* Blocked filter */}
+      <DataTableFacetedFilter
+        title="Blocked"
+        multiSelect={false}
+        options={blockedStates}
+        disabled={isLoading}
+        selectedValues={filters.isBlocked ? [filters.isBlocked] : []}
+        onFilterChange={(values) => handleFilterChange("isBlocked", values)}
+      />
+
+      {/* Open clarifications filter */}
+      <DataTableFacetedFilter
+        title="Clarifications"
+        multiSelect={false}
+        options={clarificationStates}
+        disabled={isLoading}
+        selectedValues={
+          filters.hasOpenClarifications ? [filters.hasOpenClarifications] : []
+        }
+        onFilterChange={(values) =>
+          handleFilterChange("hasOpenClarifications", values)
+        }
+      />
+
       {!projectId && (
         <DataTableFacetedFilter
           title="Projects"
@@ -209,8 +390,23 @@ const DataTableFilterToolbar: FC<DataTableFilterToolbarProps> = ({
         />
       )}
 
-      {Object.values(filters).some(
-        (value) => value !== null && value !== ""
+      {facetableFields.map((field) => (
+        <DataTableFacetedFilter
+          key={field._id}
+          title={field.name}
+          multiSelect={field.type !== CustomFieldTypeEnum.CHECKBOX}
+          options={getCustomFieldOptions(field)}
+          disabled={isLoading}
+          selectedValues={filters.customFields?.[field._id]?.split(",") || []}
+          onFilterChange={(values) =>
+            handleCustomFieldFilterChange(field._id, values)
+          }
+        />
+      ))}
+
+      {/* The sprint is picked by the project's sprint selector. */}
+      {Object.entries(filters).some(
+        ([key, value]) => key !== "sprint" && value !== null && value !== ""
       ) && (
         <Button
           disabled={isLoading}
@@ -223,6 +419,15 @@ const DataTableFilterToolbar: FC<DataTableFilterToolbarProps> = ({
               priority: null,
               projectId: null,
               assigneeId: null,
+              watching: null,
+              labels: null,
+              labelsMatch: null,
+              level: null,
+              isBlocked: null,
+              hasOpenClarifications: null,
+              customFields: null,
+              sortBy: null,
+              sortOrder: null,
             })
           }
         >
@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Loader, Play, Square, Trash2 } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAuthContext } from "@/context/auth-provider";
+import useActiveTimer from "@/hooks/api/use-active-timer";
+import useTaskWorklogs from "@/hooks/api/use-task-worklogs";
+import { toast } from "@/hooks/use-toast";
+import {
+  createWorklogMutationFn,
+  deleteWorklogMutationFn,
+  startTimerMutationFn,
+  stopTimerMutationFn,
+} from "@/lib/api";
+import {
+  formatDuration,
+  getAvatarColor,
+  getAvatarFallbackText,
+  parseDuration,
+} from "@/lib/helper";
+
+type TaskTimeTrackingProps = {
+  workspaceId: string;
+  taskId: string;
+  canLog: boolean;
+  isOwnerOrAdmin: boolean;
+};
+
+const TaskTimeTracking = ({
+  workspaceId,
+  taskId,
+  canLog,
+  isOwnerOrAdmin,
+}: TaskTimeTrackingProps) => {
+  const queryClient = useQueryClient();
+  const { user } = useAuthContext();
+
+  const [duration, setDuration] = useState("");
+  const [note, setNote] = useState("");
+
+  const { data, isLoading } = useTaskWorklogs({ workspaceId, taskId });
+  const worklogs = data?.worklogs ?? [];
+
+  const { data: timerData } = useActiveTimer(workspaceId);
+  const activeTimer = timerData?.timer ?? null;
+  const isTimingThisTask = activeTimer?.task?._id === taskId;
+
+  const onSuccess = (description: string) => {
+    queryClient.invalidateQueries({
+      queryKey: ["worklogs", workspaceId],
+    });
+    queryClient.invalidateQueries({
+      queryKey: ["active-timer", workspaceId],
+    });
+    queryClient.invalidateQueries({
+      queryKey: ["all-tasks", workspaceId],
+    });
+    toast({ title: "Success", description, variant: "success" });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const { mutate: startTimer, isPending: isStarting } = useMutation({
+    mutationFn: startTimerMutationFn,
+    onSuccess: () => onSuccess("Timer started"),
+    onError,
+  });
+
+  const { mutate: stopTimer, isPending: isStopping } = useMutation({
+    mutationFn: stopTimerMutationFn,
+    onSuccess: (data) =>
+      onSuccess(`Logged ${formatDuration(data.worklog.durationMinutes)}`),
+    onError,
+  });
+
+  const { mutate: createWorklog, isPending: isLogging } = useMutation({
+    mutationFn: createWorklogMutationFn,
+    onSuccess: () => {
+      setDuration("");
+      setNote("");
+      onSuccess("Time logged successfully");
+    },
+    onError,
+  });
+
+  const { mutate: deleteWorklog, isPending: isDeleting } = useMutation({
+    mutationFn: deleteWorklogMutationFn,
+    onSuccess: () => onSuccess("Worklog deleted successfully"),
+    onError,
+  });
+
+  const handleLog = () => {
+    if (isLogging) return;
+
+    const minutes = parseDuration(duration);
+    if (!minutes) {
+      toast({
+        title: "Error",
+        description: 'Enter a duration like "1h 30m" or "45m"',
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createWorklog({
+      workspaceId,
+      taskId,
+      data: { durationMinutes: minutes, ...(note.trim() && { note }) },
+    });
+  };
+
+  const estimate = data?.estimateMinutes ?? null;
+  const logged = data?.loggedMinutes ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 rounded-md border px-3 py-2">
+        <div className="text-sm">
+          <span className="font-medium">{formatDuration(logged)}</span>
+          <span className="text-muted-foreground">
+            {" "}
+            logged
+            {estimate ? ` of ${formatDuration(estimate)} estimated` : ""}
+          </span>
+          {estimate !== null && logged > estimate && (
+            <Badge variant="destructive" className="ml-2">
+              Over estimate
+            </Badge>
+          )}
+        </div>
+        {canLog &&
+          (isTimingThisTask ? (
+            <Button
+              type="button"
+              size="sm"
+              variant="destructive"
+              disabled={isStopping}
+              onClick={() => stopTimer(workspaceId)}
+            >
+              {isStopping ? (
+                <Loader className="h-4 w-4 animate-spin" />
+              ) : (
+                <Square className="h-4 w-4" />
+              )}
+              Stop timer
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              size="sm"
+              variant="outline"
+              disabled={isStarting}
+              onClick={() => startTimer({ workspaceId, taskId })}
+            >
+              {isStarting ? (
+                <Loader className="h-4 w-4 animate-spin" />
+              ) : (
+                <Play className="h-4 w-4" />
+              )}
+              Start timer
+            </Button>
+          ))}
+      </div>
+
+      {canLog && activeTimer && !isTimingThisTask && (
+        <p className="text-xs text-muted-foreground">
+          Your timer is running on {activeTimer.task?.taskCode}; starting one
+          here stops it.
+        </p>
+      )}
+
+      {canLog && (
+        <div className="flex flex-col gap-2 rounded-md border p-3 sm:flex-row">
+          <Input
+            className="sm:w-[120px]"
+            placeholder="1h 30m"
+            value={duration}
+            onChange={(event) => setDuration(event.target.value)}
+          />
+          <Input
+            placeholder="Note (optional)"
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === "Enter") handleLog();
+            }}
+          />
+          <Button type="button" disabled={isLogging} onClick={handleLog}>
+            {isLogging && <Loader className="mr-2 h-4 w-4 animate-spin" />}
+            Log time
+          </Button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-6">
+          <Loader className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : worklogs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No time logged yet.</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {worklogs.map((worklog) => {
+            const name = worklog.user?.name ?? "Unknown";
+            const initials = getAvatarFallbackText(name);
+            const canDelete =
+              canLog && (isOwnerOrAdmin || worklog.user?._id === user?._id);
+
+            return (
+              <li
+                key={worklog._id}
+                className="flex items-center justify-between gap-2 px-3 py-2"
+              >
+                <div className="flex min-w-0 items-center gap-2">
+                  <Avatar className="h-6 w-6">
+                    <AvatarImage
+                      src={worklog.user?.profilePicture || ""}
+                      alt={name}
+                    />
+                    <AvatarFallback className={getAvatarColor(initials)}>
+                      {initials}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0">
+                    <p className="text-sm">
+                      <span className="font-medium">
+                        {formatDuration(worklog.durationMinutes)}
+                      </span>{" "}
+                      <span className="text-muted-foreground">
+                        {name} · {format(worklog.startedAt, "PP")}
+                        {worklog.source === "TIMER" && " · timer"}
+                      </span>
+                    </p>
+                    {worklog.note && (
+                      <p className="truncate text-xs text-muted-foreground">
+                        {worklog.note}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                {canDelete && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    disabled={isDeleting}
+                    onClick={() =>
+                      deleteWorklog({ workspaceId, worklogId: worklog._id })
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Delete worklog</span>
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TaskTimeTracking;
@@ -0,0 +1,52 @@
+import { CalendarDays, ChartGantt, Kanban, Table2 } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import useTaskView, { TaskViewType } from "@/hooks/use-task-view";
+import TaskTable from "./task-table";
+import TaskBoard from "./board/task-board";
+import TaskCalendar from "./calendar/task-calendar";
+import TaskTimeline from "./timeline/task-timeline";
+
+const TaskViews = () => {
+  const [view, setView] = useTaskView();
+
+  return (
+    <Tabs
+      value={view}
+      onValueChange={(value) => setView(value as TaskViewType)}
+      className="w-full"
+    >
+      <TabsList>
+        <TabsTrigger value="table" className="gap-1.5">
+          <Table2 className="h-4 w-4" />
+          Table
+        </TabsTrigger>
+        <TabsTrigger value="board" className="gap-1.5">
+          <Kanban className="h-4 w-4" />
+          Board
+        </TabsTrigger>
+        <TabsTrigger value="calendar" className="gap-1.5">
+          <CalendarDays className="h-4 w-4" />
+          Calendar
+        </TabsTrigger>
+        <TabsTrigger value="timeline" className="gap-1.5">
+          <ChartGantt className="h-4 w-4" />
+          Timeline
+        </TabsTrigger>
+      </TabsList>
+      <TabsContent value="table">
+        <TaskTable />
+      </TabsContent>
+      <TabsContent value="board">
+        <TaskBoard />
+      </TabsContent>
+      <TabsContent value="calendar">
+        <TaskCalendar />
+      </TabsContent>
+      <TabsContent value="timeline">
+        <TaskTimeline />
+      </TabsContent>
+    </Tabs>
+  );
+};
+
+export default TaskViews;
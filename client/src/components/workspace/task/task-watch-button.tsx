@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { Eye, EyeOff, Loader } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { useAuthContext } from "@/context/auth-provider";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import { unwatchTaskMutationFn, watchTaskMutationFn } from "@/lib/api";
+import { TaskType } from "@/types/api.type";
+
+const TaskWatchButton = ({ task }: { task: TaskType }) => {
+  const queryClient = useQueryClient();
+  const workspaceId = useWorkspaceId();
+  const { user } = useAuthContext();
+
+  const [watchers, setWatchers] = useState<string[]>(task.watchers ?? []);
+  const isWatching = !!user && watchers.includes(user._id);
+
+  const { mutate, isPending } = useMutation({
+    mutationFn: isWatching ? unwatchTaskMutationFn : watchTaskMutationFn,
+    onSuccess: (data) => {
+      setWatchers(data.watchers);
+      queryClient.invalidateQueries({
+        queryKey: ["all-tasks", workspaceId],
+      });
+      toast({
+        title: "Success",
+        description: data.message,
+        variant: "success",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Button
+      type="button"
+      variant="outline"
+      size="sm"
+      disabled={isPending}
+      onClick={() => mutate({ workspaceId, taskId: task._id })}
+    >
+      {isPending ? (
+        <Loader className="h-4 w-4 animate-spin" />
+      ) : isWatching ? (
+        <EyeOff className="h-4 w-4" />
+      ) : (
+        <Eye className="h-4 w-4" />
+      )}
+      {isWatching ? "Unwatch" : "Watch"}
+      <span className="text-muted-foreground">{watchers.length}</span>
+    </Button>
+  );
+};
+
+export default TaskWatchButton;
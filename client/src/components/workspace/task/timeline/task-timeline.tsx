@@ -0,0 +1,638 @@
+import { PointerEvent, useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import {
+  addDays,
+  addWeeks,
+  differenceInCalendarDays,
+  format,
+  isToday,
+  isWeekend,
+  startOfWeek,
+} from "date-fns";
+import { ChevronLeft, ChevronRight, Diamond, Loader, Plus } from "lucide-react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { isDoneStatus } from "@/lib/helper";
+import { Permissions } from "@/constant";
+import { useAuthContext } from "@/context/auth-provider";
+import useTaskTableFilter from "@/hooks/use-task-table-filter";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import useWorkspaceWorkflow from "@/hooks/api/use-workspace-workflow";
+import useCustomFields from "@/hooks/api/use-custom-fields";
+import useMilestones from "@/hooks/api/use-milestones";
+import { toast } from "@/hooks/use-toast";
+import { editTaskMutationFn, getAllTasksQueryFn } from "@/lib/api";
+import {
+  AllTaskResponseType,
+  EditTaskPayloadType,
+  MilestoneType,
+  TaskType,
+} from "@/types/api.type";
+import { DataTableFilterToolbar } from "../task-table";
+import EditTaskDialog from "../edit-task-dialog";
+import MilestoneForm from "../../project/milestone-form";
+
+const TIMELINE_PAGE_SIZE = 500;
+const WINDOW_DAYS = 42;
+const DAY_WIDTH = 32;
+const ROW_HEIGHT = 36;
+const LABEL_WIDTH = 240;
+
+type GroupByType = "project" | "assignee";
+
+type DragModeType = "move" | "start" | "end";
+
+type TimelineRowType =
+  | { type: "group"; id: string; label: string }
+  | { type: "task"; id: string; task: TaskType };
+
+type DragStateType = {
+  taskId: string;
+  mode: DragModeType;
+  originX: number;
+  delta: number;
+};
+
+// Tasks without a start date are drawn as a single day on their due date.
+const getTaskDates = (task: TaskType, drag: DragStateType | null) => {
+  const due = new Date(task.dueDate);
+  const start = task.startDate ? new Date(task.startDate) : due;
+  if (!drag || drag.taskId !== task._id || !drag.delta) return { start, due };
+
+  if (drag.mode === "move") {
+    return { start: addDays(start, drag.delta), due: addDays(due, drag.delta) };
+  }
+  if (drag.mode === "start") {
+    const next = addDays(start, drag.delta);
+    return { start: next > due ? due : next, due };
+  }
+  const next = addDays(due, drag.delta);
+  return { start, due: next < start ? start : next };
+};
+
+const getRows = (tasks: TaskType[], groupBy: GroupByType) => {
+  const groups = new Map<string, { label: string; tasks: TaskType[] }>();
+  const addToGroup = (id: string, label: string, task: TaskType) => {
+    const group = groups.get(id) ?? { label, tasks: [] };
+    group.tasks.push(task);
+    groups.set(id, group);
+  };
+
+  tasks.forEach((task) => {
+    if (groupBy === "project") {
+      addToGroup(
+        task.project?._id ?? "none",
+        task.project ? `${task.project.emoji} ${task.project.name}` : "",
+        task
+      );
+    } else if (!task.assignees.length) {
+      addToGroup("unassigned", "Unassigned", task);
+    } else {
+      task.assignees.forEach((assignee) =>
+        addToGroup(assignee._id, assignee.name, task)
+      );
+    }
+  });
+
+  // Unassigned work goes last; everything else is alphabetical.
+  return [...groups.entries()]
+    .sort(
+      ([idA, a], [idB, b]) =>
+        Number(idA === "unassigned") - Number(idB === "unassigned") ||
+        a.label.localeCompare(b.label)
+    )
+    .flatMap(([id, group]): TimelineRowType[] => [
+      { type: "group", id, label: group.label },
+      ...group.tasks.map((task) => ({
+        type: "task" as const,
+        id: `${id}:${task._id}`,
+        task,
+      })),
+    ]);
+};
+
+const TaskTimeline = () => {
+  const param = useParams();
+  const projectId = param.projectId as string;
+
+  const workspaceId = useWorkspaceId();
+  const queryClient = useQueryClient();
+  const { user, workspace, hasPermission } = useAuthContext();
+  const [filters, setFilters] = useTaskTableFilter();
+  const { workflow } = useWorkspaceWorkflow();
+  const { data: customFieldData } = useCustomFields(workspaceId, projectId);
+  const customFields = customFieldData?.fields ?? [];
+
+  const [windowStart, setWindowStart] = useState(() =>
+    startOfWeek(addWeeks(new Date(), -1))
+  );
+  const [groupBy, setGroupBy] = useState<GroupByType>(
+    projectId ? "assignee" : "project"
+  );
+  const [drag, setDrag] = useState<DragStateType | null>(null);
+  const [editingTask, setEditingTask] = useState<TaskType | null>(null);
+  const [milestoneForm, setMilestoneForm] = useState<{
+    milestone?: MilestoneType;
+  } | null>(null);
+
+  // Start and due dates are admin-only fields in the task update API.
+  const roleName = workspace?.members.find(
+    (member) => member.userId === user?._id
+  )?.role?.name;
+  const canEditDates = roleName === "OWNER" || roleName === "ADMIN";
+  const canManageMilestones = hasPermission(Permissions.EDIT_PROJECT);
+
+  const windowEnd = addDays(windowStart, WINDOW_DAYS);
+  const days = Array.from({ length: WINDOW_DAYS }, (_, index) =>
+    addDays(windowStart, index)
+  );
+  const dueFrom = windowStart.toISOString();
+
+  const queryKey = [
+    "all-tasks",
+    workspaceId,
+    "timeline",
+    filters,
+    projectId,
+    dueFrom,
+  ];
+
+  const { data, isLoading } = useQuery({
+    queryKey,
+    queryFn: () =>
+      getAllTasksQueryFn({
+        workspaceId,
+        keyword: filters.keyword,
+        priority: filters.priority,
+        status: filters.status,
+        projectId: projectId || filters.projectId,
+        assignedTo: filters.assigneeId,
+        watching: filters.watching === "true",
+        labels: filters.labels,
+        labelsMatch: filters.labelsMatch,
+        level: filters.level,
+        isBlocked: filters.isBlocked,
+        hasOpenClarifications: filters.hasOpenClarifications,
+        sprint: projectId ? filters.sprint : null,
+        customFieldFilters: filters.customFields,
+        dueFrom,
+        sortBy: "dueDate",
+        sortOrder: "asc",
+        pageNumber: 1,
+        pageSize: TIMELINE_PAGE_SIZE,
+      }),
+    staleTime: 0,
+  });
+
+  const { data: milestoneData } = useMilestones({
+    workspaceId,
+    projectId,
+    from: dueFrom,
+    to: windowEnd.toISOString(),
+  });
+  const milestones = milestoneData?.milestones ?? [];
+
+  // Everything due from the window start loads; drop what starts after it.
+  const tasks = (data?.tasks || []).filter(
+    (task) => getTaskDates(task, null).start < windowEnd
+  );
+  const totalCount = data?.pagination.totalCount || 0;
+  const rows = getRows(tasks, groupBy);
+
+  const rowIndexByTask = new Map<string, number>();
+  rows.forEach((row, index) => {
+    if (row.type === "task" && !rowIndexByTask.has(row.task._id)) {
+      rowIndexByTask.set(row.task._id, index);
+    }
+  });
+
+  const getDayCenter = (date: string) =>
+    (differenceInCalendarDays(new Date(date), windowStart) + 0.5) * DAY_WIDTH;
+
+  const getBarBounds = (task: TaskType) => {
+    const { start, due } = getTaskDates(task, drag);
+    const left = differenceInCalendarDays(start, windowStart) * DAY_WIDTH;
+    const width = (differenceInCalendarDays(due, start) + 1) * DAY_WIDTH;
+    return { left, width };
+  };
+
+  const { mutate: updateDates } = useMutation({
+    mutationFn: editTaskMutationFn,
+    onMutate: async ({ taskId, data }: EditTaskPayloadType) => {
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<AllTaskResponseType>(queryKey);
+      queryClient.setQueryData<AllTaskResponseType>(queryKey, (old) =>
+        old
+          ? {
+              ...old,
+              tasks: old.tasks.map((task) =>
+                task._id === taskId
+                  ? {
+                      ...task,
+                      startDate:
+                        data.startDate !== undefined
+                          ? data.startDate
+                          : task.startDate,
+                      dueDate: data.dueDate ?? task.dueDate,
+                    }
+                  : task
+              ),
+            }
+          : old
+      );
+      return { previous };
+    },
+    onError: (error: Error, _variables, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKey, context.previous);
+      }
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        queryKey: ["all-tasks", workspaceId],
+      });
+    },
+  });
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const onPointerMove = (event: globalThis.PointerEvent) => {
+      const delta = Math.round((event.clientX - drag.originX) / DAY_WIDTH);
+      if (delta !== drag.delta) setDrag({ ...drag, delta });
+    };
+
+    const onPointerUp = () => {
+      const task = tasks.find((task) => task._id === drag.taskId);
+      setDrag(null);
+      if (!task) return;
+
+      if (!drag.delta) {
+        if (drag.mode === "move") setEditingTask(task);
+        return;
+      }
+
+      const { start, due } = getTaskDates(task, drag);
+      updateDates({
+        workspaceId,
+        projectId: task.project?._id as string,
+        taskId: task._id,
+        data: {
+          ...((task.startDate || drag.mode === "start") && {
+            startDate: start.toISOString(),
+          }),
+          ...(drag.mode !== "start" && { dueDate: due.toISOString() }),
+        },
+      });
+    };
+
+    window.addEventListener("pointermove", onPointerMove);
+    window.addEventListener("pointerup", onPointerUp);
+    return () => {
+      window.removeEventListener("pointermove", onPointerMove);
+      window.removeEventListener("pointerup", onPointerUp);
+    };
+  });
+
+  const startDrag = (
+    event: PointerEvent<HTMLElement>,
+    task: TaskType,
+    mode: DragModeType
+  ) => {
+    event.stopPropagation();
+    event.preventDefault();
+    if (!canEditDates) {
+      if (mode === "move") setEditingTask(task);
+      return;
+    }
+    setDrag({ taskId: task._id, mode, originX: event.clientX, delta: 0 });
+  };
+
+  const chartWidth = WINDOW_DAYS * DAY_WIDTH;
+
+  return (
+    <div className="w-full space-y-4">
+      <DataTableFilterToolbar
+        isLoading={isLoading}
+        projectId={projectId}
+        filters={filters}
+        setFilters={setFilters}
+        customFields={customFields}
+      />
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setWindowStart((date) => addWeeks(date, -1))}
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setWindowStart(startOfWeek(addWeeks(new Date(), -1)))}
+        >
+          Today
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setWindowStart((date) => addWeeks(date, 1))}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+        <h3 className="ml-2 text-lg font-semibold">
+          {format(windowStart, "MMM d")} –{" "}
+          {format(addDays(windowEnd, -1), "MMM d, yyyy")}
+        </h3>
+        <div className="ml-auto flex items-center gap-2">
+          {projectId && canManageMilestones && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setMilestoneForm({})}
+            >
+              <Plus className="h-4 w-4" />
+              Milestone
+            </Button>
+          )}
+          <Select
+            value={groupBy}
+            onValueChange={(value) => setGroupBy(value as GroupByType)}
+          >
+            <SelectTrigger className="h-8 w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="project">Group by project</SelectItem>
+              <SelectItem value="assignee">Group by assignee</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {totalCount > TIMELINE_PAGE_SIZE && (
+        <p className="text-sm text-muted-foreground">
+          Showing the first {TIMELINE_PAGE_SIZE} of {totalCount} tasks. Narrow
+          the filters to see the rest.
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-10">
+          <Loader className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <div className="overflow-x-auto rounded-md border scrollbar">
+          <div style={{ width: LABEL_WIDTH + chartWidth }}>
+            {/* {Day header} */}
+            <div className="flex border-b bg-muted/50">
+              <div
+                className="sticky left-0 z-20 shrink-0 border-r bg-muted px-3 py-1 text-xs font-medium text-muted-foreground"
+                style={{ width: LABEL_WIDTH }}
+              >
+                Task
+              </div>
+              {days.map((day) => (
+                <div
+                  key={day.toISOString()}
+                  className={cn(
+                    "shrink-0 py-1 text-center text-[11px] leading-tight text-muted-foreground",
+                    isWeekend(day) && "bg-muted",
+                    isToday(day) && "font-semibold text-primary"
+                  )}
+                  style={{ width: DAY_WIDTH }}
+                >
+                  {(day.getDate() === 1 || day === days[0]) && (
+                    <div>{format(day, "MMM")}</div>
+                  )}
+                  <div>{format(day, "d")}</div>
+                </div>
+              ))}
+            </div>
+
+            {/* {Milestones} */}
+            <div className="flex border-b" style={{ height: ROW_HEIGHT }}>
+              <div
+                className="sticky left-0 z-20 flex shrink-0 items-center border-r bg-background px-3 text-sm font-medium"
+                style={{ width: LABEL_WIDTH }}
+              >
+                Milestones
+              </div>
+              <div className="relative" style={{ width: chartWidth }}>
+                {milestones.map((milestone) => (
+                  <button
+                    key={milestone._id}
+                    type="button"
+                    title={[
+                      milestone.name,
+                      format(new Date(milestone.date), "PP"),
+                      !projectId && milestone.project.name,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                    disabled={!canManageMilestones}
+                    onClick={() => setMilestoneForm({ milestone })}
+                    className="absolute top-1/2 -translate-x-1/2 -translate-y-1/2 text-primary"
+                    style={{ left: getDayCenter(milestone.date) }}
+                  >
+                    <Diamond className="h-4 w-4 fill-current" />
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* {Task rows} */}
+            <div className="relative">
+              {rows.map((row) =>
+                row.type === "group" ? (
+                  <div
+                    key={row.id}
+                    className="flex border-b bg-muted/30"
+                    style={{ height: ROW_HEIGHT }}
+                  >
+                    <div
+                      className="sticky left-0 z-20 flex shrink-0 items-center truncate border-r bg-muted px-3 text-sm font-semibold"
+                      style={{ width: LABEL_WIDTH }}
+                    >
+                      {row.label}
+                    </div>
+                  </div>
+                ) : (
+                  <div
+                    key={row.id}
+                    className="flex border-b"
+                    style={{ height: ROW_HEIGHT }}
+                  >
+                    <button
+                      type="button"
+                      onClick={() => setEditingTask(row.task)}
+                      className="sticky left-0 z-20 flex shrink-0 items-center gap-2 border-r bg-background px-3 text-left text-sm"
+                      style={{ width: LABEL_WIDTH }}
+                    >
+                      <span className="shrink-0 text-xs text-muted-foreground">
+                        {row.task.taskCode}
+                      </span>
+                      <span className="truncate">{row.task.title}</span>
+                    </button>
+                    <div
+                      className="relative overflow-hidden"
+                      style={{ width: chartWidth }}
+                    >
+                      <div
+                        onPointerDown={(event) =>
+                          startDrag(event, row.task, "move")
+                        }
+                        title={`${row.task.taskCode} ${row.task.title}`}
+                        className={cn(
+                          "group absolute top-1.5 flex h-6 items-center rounded bg-primary/80 px-2 text-xs text-primary-foreground",
+                          canEditDates ? "cursor-grab" : "cursor-pointer",
+                          isDoneStatus(workflow, row.task.status) &&
+                            "bg-muted-foreground/60",
+                          drag?.taskId === row.task._id &&
+                            "cursor-grabbing ring-2 ring-primary"
+                        )}
+                        style={getBarBounds(row.task)}
+                      >
+                        {canEditDates && (
+                          <span
+                            onPointerDown={(event) =>
+                              startDrag(event, row.task, "start")
+                            }
+                            className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize rounded-l opacity-0 group-hover:bg-primary group-hover:opacity-100"
+                          />
+                        )}
+                        <span className="truncate">{row.task.title}</span>
+                        {canEditDates && (
+                          <span
+                            onPointerDown={(event) =>
+                              startDrag(event, row.task, "end")
+                            }
+                            className="absolute inset-y-0 right-0 w-1.5 cursor-ew-resize rounded-r opacity-0 group-hover:bg-primary group-hover:opacity-100"
+                          />
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                )
+              )}
+
+              {/* {Dependency arrows} */}
+              <svg
+                className="pointer-events-none absolute top-0 z-10 text-muted-foreground"
+                style={{ left: LABEL_WIDTH }}
+                width={chartWidth}
+                height={rows.length * ROW_HEIGHT}
+              >
+                <defs>
+                  <marker
+                    id="timeline-arrow"
+                    viewBox="0 0 6 6"
+                    refX="6"
+                    refY="3"
+                    markerWidth="6"
+                    markerHeight="6"
+                    orient="auto"
+                  >
+                    <path d="M0,0 L6,3 L0,6 z" fill="currentColor" />
+                  </marker>
+                </defs>
+                {tasks.flatMap((task) =>
+                  (task.blockedBy ?? []).map((blocker) => {
+                    const blockerTask = tasks.find(
+                      (item) => item._id === blocker._id
+                    );
+                    const fromRow = rowIndexByTask.get(blocker._id);
+                    const toRow = rowIndexByTask.get(task._id);
+                    if (
+                      !blockerTask ||
+                      fromRow === undefined ||
+                      toRow === undefined
+                    ) {
+                      return null;
+                    }
+                    const from = getBarBounds(blockerTask);
+                    const to = getBarBounds(task);
+                    const x1 = from.left + from.width;
+                    const y1 = fromRow * ROW_HEIGHT + ROW_HEIGHT / 2;
+                    const x2 = to.left;
+                    const y2 = toRow * ROW_HEIGHT + ROW_HEIGHT / 2;
+                    return (
+                      <path
+                        key={`${blocker._id}-${task._id}`}
+                        d={`M${x1},${y1} H${x1 + 8} V${y2} H${x2}`}
+                        fill="none"
+                        stroke="currentColor"
+                        strokeWidth={1.5}
+                        markerEnd="url(#timeline-arrow)"
+                      />
+                    );
+                  })
+                )}
+              </svg>
+
+              {/* {Milestone markers} */}
+              {milestones.map((milestone) => (
+                <div
+                  key={milestone._id}
+                  className="pointer-events-none absolute top-0 border-l border-dashed border-primary/60"
+                  style={{
+                    left: LABEL_WIDTH + getDayCenter(milestone.date),
+                    height: rows.length * ROW_HEIGHT,
+                  }}
+                />
+              ))}
+            </div>
+
+            {!rows.length && (
+              <p className="px-3 py-6 text-center text-sm text-muted-foreground">
+                No tasks with due dates in this range.
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {editingTask && (
+        <EditTaskDialog
+          task={editingTask}
+          isOpen={!!editingTask}
+          onClose={() => setEditingTask(null)}
+        />
+      )}
+
+      <Dialog
+        modal={true}
+        open={milestoneForm !== null}
+        onOpenChange={(open) => !open && setMilestoneForm(null)}
+      >
+        <DialogContent className="sm:max-w-lg border-0">
+          {milestoneForm && (
+            <MilestoneForm
+              projectId={milestoneForm.milestone?.project._id ?? projectId}
+              milestone={milestoneForm.milestone}
+              onClose={() => setMilestoneForm(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TaskTimeline;
@@ -0,0 +1,182 @@
+import { format } from "date-fns";
+import { Loader, RotateCcw } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Permissions } from "@/constant";
+import { useAuthContext } from "@/context/auth-provider";
+import useTrash from "@/hooks/api/use-trash";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { toast } from "@/hooks/use-toast";
+import { restoreProjectMutationFn, restoreTaskMutationFn } from "@/lib/api";
+import { TrashedProjectType, TrashedTaskType } from "@/types/api.type";
+
+type TrashRowType =
+  | ({ kind: "project" } & TrashedProjectType)
+  | ({ kind: "task" } & TrashedTaskType);
+
+const TrashTable = () => {
+  const queryClient = useQueryClient();
+  const workspaceId = useWorkspaceId();
+  const { hasPermission } = useAuthContext();
+
+  const { data, isLoading } = useTrash(workspaceId);
+
+  const rows: TrashRowType[] = [
+    ...(data?.projects ?? []).map((project) => ({
+      kind: "project" as const,
+      ...project,
+    })),
+    ...(data?.tasks ?? []).map((task) => ({ kind: "task" as const, ...task })),
+  ].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+
+  const onSuccess = (data: { message: string }) => {
+    queryClient.invalidateQueries({ queryKey: ["trash", workspaceId] });
+    queryClient.invalidateQueries({ queryKey: ["allprojects", workspaceId] });
+    queryClient.invalidateQueries({ queryKey: ["all-tasks", workspaceId] });
+    toast({
+      title: "Success",
+      description: data.message,
+      variant: "success",
+    });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const {
+    mutate: restoreProject,
+    isPending: isRestoringProject,
+    variables: projectVariables,
+  } = useMutation({
+    mutationFn: restoreProjectMutationFn,
+    onSuccess,
+    onError,
+  });
+
+  const {
+    mutate: restoreTask,
+    isPending: isRestoringTask,
+    variables: taskVariables,
+  } = useMutation({
+    mutationFn: restoreTaskMutationFn,
+    onSuccess,
+    onError,
+  });
+
+  const isRestoring = (row: TrashRowType) =>
+    row.kind === "project"
+      ? isRestoringProject && projectVariables?.projectId === row._id
+      : isRestoringTask && taskVariables?.taskId === row._id;
+
+  const canRestore = (row: TrashRowType) =>
+    row.kind === "project"
+      ? hasPermission(Permissions.DELETE_PROJECT)
+      : hasPermission(Permissions.DELETE_TASK) && !row.isProjectDeleted;
+
+  const restore = (row: TrashRowType) =>
+    row.kind === "project"
+      ? restoreProject({ workspaceId, projectId: row._id })
+      : restoreTask({ workspaceId, taskId: row._id });
+
+  const describe = (row: TrashRowType) => {
+    if (row.kind === "project") {
+      return `Project with ${row.taskCount} task(s)`;
+    }
+    const project = row.project
+      ? `${row.project.emoji} ${row.project.name}`
+      : "Unknown project";
+    const subtasks = row.subtaskCount
+      ? ` · ${row.subtaskCount} subtask(s)`
+      : "";
+    return `${project}${row.isProjectDeleted ? " (in trash)" : ""}${subtasks}`;
+  };
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Item</TableHead>
+            <TableHead>Deleted</TableHead>
+            <TableHead>Deleted for good</TableHead>
+            <TableHead className="w-[110px]" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {isLoading ? (
+            <TableRow>
+              <TableCell colSpan={4} className="h-24 text-center">
+                <Loader className="mx-auto h-5 w-5 animate-spin" />
+              </TableCell>
+            </TableRow>
+          ) : rows.length === 0 ? (
+            <TableRow>
+              <TableCell
+                colSpan={4}
+                className="h-24 text-center text-muted-foreground"
+              >
+                The trash is empty.
+              </TableCell>
+            </TableRow>
+          ) : (
+            rows.map((row) => (
+              <TableRow key={`${row.kind}-${row._id}`}>
+                <TableCell>
+                  <div className="font-medium">
+                    {row.kind === "project"
+                      ? `${row.emoji} ${row.name}`
+                      : `${row.taskCode} ${row.title}`}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {describe(row)}
+                  </div>
+                </TableCell>
+                <TableCell className="whitespace-nowrap text-muted-foreground">
+                  <div>{format(new Date(row.deletedAt), "PP p")}</div>
+                  <div className="text-xs">
+                    {row.deletedBy?.name ?? "Deleted user"}
+                  </div>
+                </TableCell>
+                <TableCell className="whitespace-nowrap text-muted-foreground">
+                  {format(new Date(row.purgeAt), "PP")}
+                </TableCell>
+                <TableCell className="text-right">
+                  {canRestore(row) && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={isRestoring(row)}
+                      onClick={() => restore(row)}
+                    >
+                      {isRestoring(row) ? (
+                        <Loader className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <RotateCcw className="h-4 w-4" />
+                      )}
+                      Restore
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
+
+export default TrashTable;
@@ -1,5 +1,7 @@
 import useWorkspaceId from "@/hooks/use-workspace-id";
 import AnalyticsCard from "./common/analytics-card";
+import TimeByMemberCard from "./common/time-by-member-card";
+import ClarificationStatsCard from "./clarification-stats-card";
 import { useQuery } from "@tanstack/react-query";
 import { getWorkspaceAnalyticsQueryFn } from "@/lib/api";
 
@@ -16,22 +18,26 @@ const WorkspaceAnalytics = () => {
   const analytics = data?.analytics;
 
   return (
-    <div className="grid gap-4 md:gap-5 lg:grid-cols-2 xl:grid-cols-3">
-      <AnalyticsCard
-        isLoading={isPending}
-        title="Total Task"
-        value={analytics?.totalTasks || 0}
-      />
-      <AnalyticsCard
-        isLoading={isPending}
-        title="Overdue Task"
-        value={analytics?.overdueTasks || 0}
-      />
-      <AnalyticsCard
-        isLoading={isPending}
-        title="Completed Task"
-        value={analytics?.completedTasks || 0}
-      />
+    <div className="space-y-4 md:space-y-5">
+      <div className="grid gap-4 md:gap-5 lg:grid-cols-2 xl:grid-cols-3">
+        <AnalyticsCard
+          isLoading={isPending}
+          title="Total Task"
+          value={analytics?.totalTasks || 0}
+        />
+        <AnalyticsCard
+          isLoading={isPending}
+          title="Overdue Task"
+          value={analytics?.overdueTasks || 0}
+        />
+        <AnalyticsCard
+          isLoading={isPending}
+          title="Completed Task"
+          value={analytics?.completedTasks || 0}
+        />
+      </div>
+      <TimeByMemberCard timeByMember={data?.timeByMember ?? []} />
+      <ClarificationStatsCard stats={data?.clarificationStats} />
     </div>
   );
 };
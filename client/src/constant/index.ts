@@ -6,13 +6,39 @@ export const TaskStatusEnum = {
   DONE: "DONE",
 } as const;
 
+export const TaskStatusCategoryEnum = {
+  NOT_STARTED: "NOT_STARTED",
+  ACTIVE: "ACTIVE",
+  DONE: "DONE",
+} as const;
+
 export const TaskPriorityEnum = {
   LOW: "LOW",
   MEDIUM: "MEDIUM",
   HIGH: "HIGH",
 } as const;
+export const RecurrenceFrequencyEnum = {
+  DAILY: "DAILY",
+  WEEKLY: "WEEKLY",
+  MONTHLY: "MONTHLY",
+  EVERY_N_DAYS: "EVERY_N_DAYS",
+} as const;
+
+export const CustomFieldTypeEnum = {
+  TEXT: "TEXT",
+  NUMBER: "NUMBER",
+  SINGLE_SELECT: "SINGLE_SELECT",
+  MULTI_SELECT: "MULTI_SELECT",
+  DATE: "DATE",
+  USER: "USER",
+  CHECKBOX: "CHECKBOX",
+} as const;
+
 export type TaskStatusEnumType = keyof typeof TaskStatusEnum;
+export type TaskStatusCategoryEnumType = keyof typeof TaskStatusCategoryEnum;
 export type TaskPriorityEnumType = keyof typeof TaskPriorityEnum;
+export type RecurrenceFrequencyEnumType = keyof typeof RecurrenceFrequencyEnum;
+export type CustomFieldTypeEnumType = keyof typeof CustomFieldTypeEnum;
 
 export const Permissions = {
   CREATE_WORKSPACE: "CREATE_WORKSPACE",
@@ -32,3 +58,23 @@ export const Permissions = {
 } as const;
 
 export type PermissionType = keyof typeof Permissions;
+
+// Mirrors the extensions the API accepts.
+export const ATTACHMENT_ACCEPT = [
+  ".png",
+  ".jpg",
+  ".jpeg",
+  ".gif",
+  ".webp",
+  ".pdf",
+  ".txt",
+  ".log",
+  ".md",
+  ".csv",
+  ".json",
+  ".zip",
+  ".doc",
+  ".docx",
+  ".xls",
+  ".xlsx",
+].join(",");
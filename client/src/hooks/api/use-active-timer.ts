@@ -0,0 +1,13 @@
+import { getActiveTimerQueryFn } from "@/lib/api";
+import { useQuery } from "@tanstack/react-query";
+
+const useActiveTimer = (workspaceId: string) => {
+  return useQuery({
+    queryKey: ["active-timer", workspaceId],
+    queryFn: () => getActiveTimerQueryFn(workspaceId),
+    enabled: Boolean(workspaceId),
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export default useActiveTimer;
@@ -0,0 +1,30 @@
+import { getAuditLogsQueryFn } from "@/lib/api";
+import { AuditLogFilterType } from "@/types/api.type";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+
+const useAuditLogs = ({
+  pageNumber,
+  pageSize,
+  ...filters
+}: AuditLogFilterType & { pageNumber: number; pageSize: number }) => {
+  const { workspaceId, action, actorId, from, to } = filters;
+
+  return useQuery({
+    queryKey: [
+      "audit-logs",
+      workspaceId,
+      action,
+      actorId,
+      from,
+      to,
+      pageNumber,
+      pageSize,
+    ],
+    queryFn: () => getAuditLogsQueryFn({ ...filters, pageNumber, pageSize }),
+    enabled: !!workspaceId,
+    staleTime: 0,
+    placeholderData: keepPreviousData,
+  });
+};
+
+export default useAuditLogs;
@@ -0,0 +1,13 @@
+import { getCustomFieldsQueryFn } from "@/lib/api";
+import { useQuery } from "@tanstack/react-query";
+
+const useCustomFields = (workspaceId: string, projectId?: string) => {
+  return useQuery({
+    queryKey: ["custom-fields", workspaceId, projectId],
+    queryFn: () => getCustomFieldsQueryFn({ workspaceId, projectId }),
+    enabled: Boolean(workspaceId),
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export default useCustomFields;
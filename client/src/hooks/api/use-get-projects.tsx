@@ -6,15 +6,26 @@ const useGetProjectsInWorkspaceQuery = ({
   workspaceId,
   pageSize,
   pageNumber,
+  keyword,
+  includeArchived,
   skip = false,
 }: AllProjectPayloadType) => {
   const query = useQuery({
-    queryKey: ["allprojects", workspaceId, pageNumber, pageSize],
+    queryKey: [
+      "allprojects",
+      workspaceId,
+      pageNumber,
+      pageSize,
+      keyword,
+      includeArchived,
+    ],
     queryFn: () =>
       getProjectsInWorkspaceQueryFn({
         workspaceId,
         pageSize,
         pageNumber,
+        keyword,
+        includeArchived,
       }),
     staleTime: Infinity,
     placeholderData: skip ? undefined : keepPreviousData,
@@ -0,0 +1,13 @@
+import { getLabelsQueryFn } from "@/lib/api";
+import { useQuery } from "@tanstack/react-query";
+
+const useLabels = (workspaceId: string) => {
+  return useQuery({
+    queryKey: ["labels", workspaceId],
+    queryFn: () => getLabelsQueryFn(workspaceId),
+    enabled: Boolean(workspaceId),
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export default useLabels;
@@ -0,0 +1,23 @@
+import { getMilestonesQueryFn } from "@/lib/api";
+import { useQuery } from "@tanstack/react-query";
+
+const useMilestones = ({
+  workspaceId,
+  projectId,
+  from,
+  to,
+}: {
+  workspaceId: string;
+  projectId?: string;
+  from?: string;
+  to?: string;
+}) => {
+  return useQuery({
+    queryKey: ["milestones", workspaceId, projectId, from, to],
+    queryFn: () => getMilestonesQueryFn({ workspaceId, projectId, from, to }),
+    enabled: !!workspaceId,
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export default useMilestones;
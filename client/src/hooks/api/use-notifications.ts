@@ -0,0 +1,14 @@
+import { getNotificationsQueryFn } from "@/lib/api";
+import { useQuery } from "@tanstack/react-query";
+
+const useNotifications = (workspaceId: string) => {
+  return useQuery({
+    queryKey: ["notifications", workspaceId],
+    queryFn: () => getNotificationsQueryFn(workspaceId),
+    enabled: !!workspaceId,
+    // There is no push channel yet, so new mentions are picked up by polling.
+    refetchInterval: 60_000,
+  });
+};
+
+export default useNotifications;
@@ -0,0 +1,20 @@
+import { getSprintsQueryFn } from "@/lib/api";
+import { useQuery } from "@tanstack/react-query";
+
+const useSprints = ({
+  workspaceId,
+  projectId,
+}: {
+  workspaceId: string;
+  projectId?: string;
+}) => {
+  return useQuery({
+    queryKey: ["sprints", projectId],
+    queryFn: () =>
+      getSprintsQueryFn({ workspaceId, projectId: projectId as string }),
+    enabled: Boolean(workspaceId && projectId),
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export default useSprints;
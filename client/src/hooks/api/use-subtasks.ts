@@ -0,0 +1,13 @@
+import { getSubtasksQueryFn } from "@/lib/api";
+import { useQuery } from "@tanstack/react-query";
+
+const useSubtasks = (workspaceId: string, taskId: string) => {
+  return useQuery({
+    queryKey: ["subtasks", workspaceId, taskId],
+    queryFn: () => getSubtasksQueryFn({ workspaceId, taskId }),
+    enabled: Boolean(workspaceId && taskId),
+    staleTime: 0,
+  });
+};
+
+export default useSubtasks;
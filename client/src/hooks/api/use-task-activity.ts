@@ -0,0 +1,32 @@
+import { getTaskActivityQueryFn } from "@/lib/api";
+import { useInfiniteQuery } from "@tanstack/react-query";
+
+const ACTIVITY_PAGE_SIZE = 20;
+
+const useTaskActivity = ({
+  workspaceId,
+  taskId,
+}: {
+  workspaceId: string;
+  taskId: string;
+}) => {
+  return useInfiniteQuery({
+    queryKey: ["task-activity", workspaceId, taskId],
+    queryFn: ({ pageParam }) =>
+      getTaskActivityQueryFn({
+        workspaceId,
+        taskId,
+        pageNumber: pageParam,
+        pageSize: ACTIVITY_PAGE_SIZE,
+      }),
+    initialPageParam: 1,
+    getNextPageParam: ({ pagination }) =>
+      pagination.pageNumber < pagination.totalPages
+        ? pagination.pageNumber + 1
+        : undefined,
+    enabled: Boolean(workspaceId && taskId),
+    staleTime: 0,
+  });
+};
+
+export default useTaskActivity;
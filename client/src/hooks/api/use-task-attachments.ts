@@ -0,0 +1,13 @@
+import { getTaskAttachmentsQueryFn } from "@/lib/api";
+import { useQuery } from "@tanstack/react-query";
+
+const useTaskAttachments = (workspaceId: string, taskId: string) => {
+  return useQuery({
+    queryKey: ["task-attachments", workspaceId, taskId],
+    queryFn: () => getTaskAttachmentsQueryFn({ workspaceId, taskId }),
+    enabled: Boolean(workspaceId && taskId),
+    staleTime: 30_000,
+  });
+};
+
+export default useTaskAttachments;
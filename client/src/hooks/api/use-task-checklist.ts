@@ -0,0 +1,13 @@
+import { getChecklistQueryFn } from "@/lib/api";
+import { useQuery } from "@tanstack/react-query";
+
+const useTaskChecklist = (workspaceId: string, taskId: string) => {
+  return useQuery({
+    queryKey: ["task-checklist", workspaceId, taskId],
+    queryFn: () => getChecklistQueryFn({ workspaceId, taskId }),
+    enabled: Boolean(workspaceId && taskId),
+    staleTime: 0,
+  });
+};
+
+export default useTaskChecklist;
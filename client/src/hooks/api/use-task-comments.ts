@@ -0,0 +1,13 @@
+import { getTaskCommentsQueryFn } from "@/lib/api";
+import { useQuery } from "@tanstack/react-query";
+
+const useTaskComments = (workspaceId: string, taskId: string) => {
+  return useQuery({
+    queryKey: ["task-comments", workspaceId, taskId],
+    queryFn: () => getTaskCommentsQueryFn({ workspaceId, taskId }),
+    enabled: Boolean(workspaceId && taskId),
+    staleTime: 30_000,
+  });
+};
+
+export default useTaskComments;
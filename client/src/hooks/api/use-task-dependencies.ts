@@ -0,0 +1,13 @@
+import { getTaskDependenciesQueryFn } from "@/lib/api";
+import { useQuery } from "@tanstack/react-query";
+
+const useTaskDependencies = (workspaceId: string, taskId: string) => {
+  return useQuery({
+    queryKey: ["task-dependencies", workspaceId, taskId],
+    queryFn: () => getTaskDependenciesQueryFn({ workspaceId, taskId }),
+    enabled: Boolean(workspaceId && taskId),
+    staleTime: 0,
+  });
+};
+
+export default useTaskDependencies;
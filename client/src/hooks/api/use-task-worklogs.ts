@@ -0,0 +1,19 @@
+import { getTaskWorklogsQueryFn } from "@/lib/api";
+import { useQuery } from "@tanstack/react-query";
+
+const useTaskWorklogs = ({
+  workspaceId,
+  taskId,
+}: {
+  workspaceId: string;
+  taskId: string;
+}) => {
+  return useQuery({
+    queryKey: ["worklogs", workspaceId, taskId],
+    queryFn: () => getTaskWorklogsQueryFn({ workspaceId, taskId }),
+    enabled: Boolean(workspaceId && taskId),
+    staleTime: 5 * 60 * 1000,
+  });
+};
+
+export default useTaskWorklogs;
@@ -0,0 +1,14 @@
+import { getTemplatesQueryFn } from "@/lib/api";
+import { TemplateKindType } from "@/types/api.type";
+import { useQuery } from "@tanstack/react-query";
+
+const useTemplates = (workspaceId: string, type?: TemplateKindType) => {
+  return useQuery({
+    queryKey: ["templates", workspaceId, type],
+    queryFn: () => getTemplatesQueryFn({ workspaceId, type }),
+    enabled: Boolean(workspaceId),
+    staleTime: 30_000,
+  });
+};
+
+export default useTemplates;
@@ -0,0 +1,12 @@
+import { getTrashQueryFn } from "@/lib/api";
+import { useQuery } from "@tanstack/react-query";
+
+const useTrash = (workspaceId: string) => {
+  return useQuery({
+    queryKey: ["trash", workspaceId],
+    queryFn: () => getTrashQueryFn(workspaceId),
+    enabled: Boolean(workspaceId),
+  });
+};
+
+export default useTrash;
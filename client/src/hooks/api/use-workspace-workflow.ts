@@ -0,0 +1,22 @@
+import { getWorkspaceWorkflowQueryFn } from "@/lib/api";
+import { DEFAULT_TASK_WORKFLOW } from "@/lib/helper";
+import { useQuery } from "@tanstack/react-query";
+import useWorkspaceId from "../use-workspace-id";
+
+const useWorkspaceWorkflow = () => {
+  const workspaceId = useWorkspaceId();
+
+  const query = useQuery({
+    queryKey: ["workspace-workflow", workspaceId],
+    queryFn: () => getWorkspaceWorkflowQueryFn(workspaceId),
+    enabled: Boolean(workspaceId),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return {
+    ...query,
+    workflow: query.data?.workflow ?? DEFAULT_TASK_WORKFLOW,
+  };
+};
+
+export default useWorkspaceWorkflow;
@@ -1,22 +1,42 @@
+import { TaskPriorityEnum, TaskPriorityEnumType } from "@/constant";
+import { LabelMatchType, TaskLevelType } from "@/types/api.type";
 import {
-  TaskPriorityEnum,
-  TaskPriorityEnumType,
-  TaskStatusEnum,
-  TaskStatusEnumType,
-} from "@/constant";
-import { parseAsString, parseAsStringEnum, useQueryStates } from "nuqs";
+  parseAsJson,
+  parseAsString,
+  parseAsStringEnum,
+  useQueryStates,
+} from "nuqs";
+
+const parseCustomFieldFilters = (value: unknown) => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => typeof v === "string")
+  ) as Record<string, string>;
+};
 
 const useTaskTableFilter = () => {
   return useQueryStates({
-    status: parseAsStringEnum<TaskStatusEnumType>(
-      Object.values(TaskStatusEnum)
-    ),
+    // Status keys come from the workspace workflow, so any key is accepted.
+    status: parseAsString,
     priority: parseAsStringEnum<TaskPriorityEnumType>(
       Object.values(TaskPriorityEnum)
     ),
     keyword: parseAsString,
     projectId: parseAsString,
     assigneeId: parseAsString,
+    watching: parseAsStringEnum<"true">(["true"]),
+    labels: parseAsString,
+    labelsMatch: parseAsStringEnum<LabelMatchType>(["any", "all"]),
+    level: parseAsStringEnum<TaskLevelType>(["top", "child"]),
+    isBlocked: parseAsStringEnum<"true" | "false">(["true", "false"]),
+    hasOpenClarifications: parseAsStringEnum<"true" | "false">([
+      "true",
+      "false",
+    ]),
+    sprint: parseAsString,
+    customFields: parseAsJson(parseCustomFieldFilters),
+    sortBy: parseAsString,
+    sortOrder: parseAsStringEnum<"asc" | "desc">(["asc", "desc"]),
   });
 };
 
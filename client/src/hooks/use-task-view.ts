@@ -0,0 +1,17 @@
+import { parseAsStringEnum, useQueryState } from "nuqs";
+
+export type TaskViewType = "table" | "board" | "calendar" | "timeline";
+
+const useTaskView = () => {
+  return useQueryState(
+    "view",
+    parseAsStringEnum<TaskViewType>([
+      "table",
+      "board",
+      "calendar",
+      "timeline",
+    ]).withDefault("table")
+  );
+};
+
+export default useTaskView;
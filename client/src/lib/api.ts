@@ -1,23 +1,86 @@
 import API from "./axios-client";
 import {
+  ActiveTimerResponseType,
   AllMembersInWorkspaceResponseType,
   AllProjectPayloadType,
   AllProjectResponseType,
   AllTaskPayloadType,
   AllTaskResponseType,
-  AnalyticsResponseType,
+  AuditLogFilterType,
+  AuditLogResponseType,
+  AuditLogVerificationResponseType,
+  ChecklistItemActionPayloadType,
+  ChecklistResponseType,
+  CreateChecklistItemPayloadType,
+  CreateTaskCommentPayloadType,
+  CreateTemplatePayloadType,
   CreateTaskClarificationPayloadType,
   ChangeWorkspaceMemberRoleType,
   CreateProjectPayloadType,
+  CreateCustomFieldPayloadType,
+  CreateSubtaskPayloadType,
+  CustomFieldListResponseType,
+  CustomFieldType,
   CreateTaskPayloadType,
+  CreateWorklogPayloadType,
   EditTaskPayloadType,
+  DuplicateTaskPayloadType,
+  BatchTasksPayloadType,
+  BatchTasksResponseType,
+  MoveTaskPayloadType,
+  LabelListResponseType,
+  LabelPayloadType,
+  LabelType,
+  MilestoneListResponseType,
+  MilestonePayloadType,
+  MilestoneType,
+  NotificationListResponseType,
+  ResolveTaskClarificationPayloadType,
   RespondTaskClarificationPayloadType,
+  SprintActionPayloadType,
+  SprintListResponseType,
+  SprintPayloadType,
+  SprintReportResponseType,
+  SprintType,
   CreateWorkspaceResponseType,
   EditProjectPayloadType,
+  ProjectAnalyticsResponseType,
   ProjectByIdPayloadType,
   ProjectResponseType,
+  ReorderChecklistPayloadType,
+  SubtaskListResponseType,
   TaskClarificationListResponseType,
+  TaskDependenciesResponseType,
+  TaskDependencyPayloadType,
   TaskClarificationResponseType,
+  TaskCommentListResponseType,
+  TaskCommentType,
+  TaskActivityResponseType,
+  TaskAttachmentListResponseType,
+  TaskAttachmentType,
+  TaskSeriesType,
+  TaskType,
+  TaskWatchersResponseType,
+  TemplateKindType,
+  TemplateListResponseType,
+  TemplateType,
+  TaskWorklogsResponseType,
+  TrashResponseType,
+  UpdateCustomFieldPayloadType,
+  UpdateLabelPayloadType,
+  UpdateMilestonePayloadType,
+  UpdateSprintPayloadType,
+  UpdateChecklistItemPayloadType,
+  UpdateClarificationPolicyPayloadType,
+  UpdateTaskClarificationPayloadType,
+  UpdateTaskCommentPayloadType,
+  UpdateTaskSeriesPayloadType,
+  UpdateWorkflowPayloadType,
+  UploadAttachmentPayloadType,
+  WorkflowResponseType,
+  WorkspaceAnalyticsResponseType,
+  WorklogExportParamsType,
+  WorklogType,
 } from "../types/api.type";
 import {
   AllWorkspaceResponseType,
@@ -28,6 +91,7 @@ import {
   registerType,
   WorkspaceByIdResponseType,
   EditWorkspaceType,
+  WorkspaceType,
 } from "@/types/api.type";
 
 export const loginMutationFn = async (
@@ -88,11 +152,40 @@ export const getMembersInWorkspaceQueryFn = async (
 
 export const getWorkspaceAnalyticsQueryFn = async (
   workspaceId: string
-): Promise<AnalyticsResponseType> => {
+): Promise<WorkspaceAnalyticsResponseType> => {
   const response = await API.get(`/workspace/analytics/${workspaceId}`);
   return response.data;
 };
 
+export const getWorkspaceWorkflowQueryFn = async (
+  workspaceId: string
+): Promise<WorkflowResponseType> => {
+  const response = await API.get(`/workspace/workflow/${workspaceId}`);
+  return response.data;
+};
+
+export const updateWorkspaceWorkflowMutationFn = async ({
+  workspaceId,
+  data,
+}: UpdateWorkflowPayloadType): Promise<WorkflowResponseType> => {
+  const response = await API.put(`/workspace/workflow/${workspaceId}`, data);
+  return response.data;
+};
+
+export const updateClarificationPolicyMutationFn = async ({
+  workspaceId,
+  clarificationResponsePolicy,
+}: UpdateClarificationPolicyPayloadType): Promise<{
+  message: string;
+  workspace: WorkspaceType;
+}> => {
+  const response = await API.put(
+    `/workspace/clarification-policy/${workspaceId}`,
+    { clarificationResponsePolicy }
+  );
+  return response.data;
+};
+
 export const changeWorkspaceMemberRoleMutationFn = async ({
   workspaceId,
   data,
@@ -155,10 +248,17 @@ export const getProjectsInWorkspaceQueryFn = async ({
   workspaceId,
   pageSize = 10,
   pageNumber = 1,
+  keyword,
+  includeArchived,
 }: AllProjectPayloadType): Promise<AllProjectResponseType> => {
-  const response = await API.get(
-    `/project/workspace/${workspaceId}/all?pageSize=${pageSize}&pageNumber=${pageNumber}`
-  );
+  const response = await API.get(`/project/workspace/${workspaceId}/all`, {
+    params: {
+      pageSize,
+      pageNumber,
+      keyword: keyword || undefined,
+      includeArchived: includeArchived || undefined,
+    },
+  });
   return response.data;
 };
 
@@ -175,7 +275,7 @@ export const getProjectByIdQueryFn = async ({
 export const getProjectAnalyticsQueryFn = async ({
   workspaceId,
   projectId,
-}: ProjectByIdPayloadType): Promise<AnalyticsResponseType> => {
+}: ProjectByIdPayloadType): Promise<ProjectAnalyticsResponseType> => {
   const response = await API.get(
     `/project/${projectId}/workspace/${workspaceId}/analytics`
   );
@@ -194,6 +294,26 @@ export const deleteProjectMutationFn = async ({
   return response.data;
 };
 
+export const archiveProjectMutationFn = async ({
+  workspaceId,
+  projectId,
+}: ProjectByIdPayloadType): Promise<ProjectResponseType> => {
+  const response = await API.put(
+    `/project/${projectId}/workspace/${workspaceId}/archive`
+  );
+  return response.data;
+};
+
+export const unarchiveProjectMutationFn = async ({
+  workspaceId,
+  projectId,
+}: ProjectByIdPayloadType): Promise<ProjectResponseType> => {
+  const response = await API.put(
+    `/project/${projectId}/workspace/${workspaceId}/unarchive`
+  );
+  return response.data;
+};
+
 //*******TASKS ********************************
 //************************* */
 
@@ -223,6 +343,99 @@ export const editTaskMutationFn = async ({
   return response.data;
 };
 
+export const updateTaskSeriesMutationFn = async ({
+  workspaceId,
+  taskId,
+  data,
+}: UpdateTaskSeriesPayloadType): Promise<{
+  message: string;
+  series: TaskSeriesType;
+}> => {
+  const response = await API.put(
+    `/task/${taskId}/workspace/${workspaceId}/series`,
+    data
+  );
+  return response.data;
+};
+
+export const getSubtasksQueryFn = async ({
+  workspaceId,
+  taskId,
+}: {
+  workspaceId: string;
+  taskId: string;
+}): Promise<SubtaskListResponseType> => {
+  const response = await API.get(
+    `/task/${taskId}/workspace/${workspaceId}/subtasks`
+  );
+  return response.data;
+};
+
+export const createSubtaskMutationFn = async ({
+  workspaceId,
+  taskId,
+  data,
+}: CreateSubtaskPayloadType) => {
+  const response = await API.post(
+    `/task/${taskId}/workspace/${workspaceId}/subtasks`,
+    data
+  );
+  return response.data;
+};
+
+export const getTaskDependenciesQueryFn = async ({
+  workspaceId,
+  taskId,
+}: {
+  workspaceId: string;
+  taskId: string;
+}): Promise<TaskDependenciesResponseType> => {
+  const response = await API.get(
+    `/task/${taskId}/workspace/${workspaceId}/dependencies`
+  );
+  return response.data;
+};
+
+export const getTaskActivityQueryFn = async ({
+  workspaceId,
+  taskId,
+  pageNumber,
+  pageSize,
+}: {
+  workspaceId: string;
+  taskId: string;
+  pageNumber: number;
+  pageSize: number;
+}): Promise<TaskActivityResponseType> => {
+  const response = await API.get(
+    `/task/${taskId}/workspace/${workspaceId}/activity?pageNumber=${pageNumber}&pageSize=${pageSize}`
+  );
+  return response.data;
+};
+
+export const addTaskDependencyMutationFn = async ({
+  workspaceId,
+  taskId,
+  blockerId,
+}: TaskDependencyPayloadType): Promise<TaskDependenciesResponseType> => {
+  const response = await API.post(
+    `/task/${taskId}/workspace/${workspaceId}/dependencies`,
+    { blockerId }
+  );
+  return response.data;
+};
+
+export const removeTaskDependencyMutationFn = async ({
+  workspaceId,
+  taskId,
+  blockerId,
+}: TaskDependencyPayloadType): Promise<TaskDependenciesResponseType> => {
+  const response = await API.delete(
+    `/task/${taskId}/workspace/${workspaceId}/dependencies/${blockerId}`
+  );
+  return response.data;
+};
+
 export const getTaskClarificationsQueryFn = async ({
   workspaceId,
   taskId,
@@ -271,14 +484,95 @@ export const respondTaskClarificationMutationFn = async ({
   return response.data;
 };
 
+export const updateTaskClarificationMutationFn = async ({
+  workspaceId,
+  taskId,
+  clarificationId,
+  question,
+}: UpdateTaskClarificationPayloadType): Promise<{
+  message: string;
+  clarification: TaskClarificationResponseType;
+}> => {
+  const response = await API.put(
+    `/task/${taskId}/workspace/${workspaceId}/clarifications/${clarificationId}`,
+    { question }
+  );
+  return response.data;
+};
+
+export const withdrawTaskClarificationMutationFn = async ({
+  workspaceId,
+  taskId,
+  clarificationId,
+}: {
+  workspaceId: string;
+  taskId: string;
+  clarificationId: string;
+}): Promise<{
+  message: string;
+  clarification: TaskClarificationResponseType;
+}> => {
+  const response = await API.post(
+    `/task/${taskId}/workspace/${workspaceId}/clarifications/${clarificationId}/withdraw`
+  );
+  return response.data;
+};
+
+export const resolveTaskClarificationMutationFn = async ({
+  workspaceId,
+  taskId,
+  clarificationId,
+  acceptedResponseId,
+}: ResolveTaskClarificationPayloadType): Promise<{
+  message: string;
+  clarification: TaskClarificationResponseType;
+}> => {
+  const response = await API.post(
+    `/task/${taskId}/workspace/${workspaceId}/clarifications/${clarificationId}/resolve`,
+    {
+      acceptedResponseId,
+    }
+  );
+  return response.data;
+};
+
+export const reopenTaskClarificationMutationFn = async ({
+  workspaceId,
+  taskId,
+  clarificationId,
+}: {
+  workspaceId: string;
+  taskId: string;
+  clarificationId: string;
+}): Promise<{
+  message: string;
+  clarification: TaskClarificationResponseType;
+}> => {
+  const response = await API.post(
+    `/task/${taskId}/workspace/${workspaceId}/clarifications/${clarificationId}/reopen`
+  );
+  return response.data;
+};
+
 export const getAllTasksQueryFn = async ({
   workspaceId,
   keyword,
   projectId,
   assignedTo,
+  watching,
+  labels,
+  labelsMatch,
   priority,
   status,
-  dueDate,
+  dueFrom,
+  dueTo,
+  level,
+  isBlocked,
+  hasOpenClarifications,
+  sprint,
+  customFieldFilters,
+  sortBy,
+  sortOrder,
   pageNumber,
   pageSize,
 }: AllTaskPayloadType): Promise<AllTaskResponseType> => {
@@ -288,9 +582,23 @@ export const getAllTasksQueryFn = async ({
   if (keyword) queryParams.append("keyword", keyword);
   if (projectId) queryParams.append("projectId", projectId);
   if (assignedTo) queryParams.append("assignedTo", assignedTo);
+  if (watching) queryParams.append("watching", "true");
+  if (labels) queryParams.append("labels", labels);
+  if (labels && labelsMatch) queryParams.append("labelsMatch", labelsMatch);
   if (priority) queryParams.append("priority", priority);
   if (status) queryParams.append("status", status);
-  if (dueDate) queryParams.append("dueDate", dueDate);
+  if (dueFrom) queryParams.append("dueFrom", dueFrom);
+  if (dueTo) queryParams.append("dueTo", dueTo);
+  if (level) queryParams.append("level", level);
+  if (isBlocked) queryParams.append("isBlocked", isBlocked);
+  if (hasOpenClarifications)
+    queryParams.append("hasOpenClarifications", hasOpenClarifications);
+  if (sprint) queryParams.append("sprint", sprint);
+  Object.entries(customFieldFilters || {}).forEach(([fieldId, value]) => {
+    if (value) queryParams.append(`cf.${fieldId}`, value);
+  });
+  if (sortBy) queryParams.append("sortBy", sortBy);
+  if (sortOrder) queryParams.append("sortOrder", sortOrder);
   if (pageNumber) queryParams.append("pageNumber", pageNumber?.toString());
   if (pageSize) queryParams.append("pageSize", pageSize?.toString());
 
@@ -299,6 +607,32 @@ export const getAllTasksQueryFn = async ({
   return response.data;
 };
 
+export const watchTaskMutationFn = async ({
+  workspaceId,
+  taskId,
+}: {
+  workspaceId: string;
+  taskId: string;
+}): Promise<TaskWatchersResponseType> => {
+  const response = await API.post(
+    `/task/${taskId}/workspace/${workspaceId}/watch`
+  );
+  return response.data;
+};
+
+export const unwatchTaskMutationFn = async ({
+  workspaceId,
+  taskId,
+}: {
+  workspaceId: string;
+  taskId: string;
+}): Promise<TaskWatchersResponseType> => {
+  const response = await API.delete(
+    `/task/${taskId}/workspace/${workspaceId}/watch`
+  );
+  return response.data;
+};
+
 export const deleteTaskMutationFn = async ({
   workspaceId,
   taskId,
@@ -313,3 +647,841 @@ export const deleteTaskMutationFn = async ({
   );
   return response.data;
 };
+
+export const moveTaskMutationFn = async ({
+  workspaceId,
+  taskId,
+  data,
+}: MoveTaskPayloadType): Promise<{ message: string; task: TaskType }> => {
+  const response = await API.post(
+    `/task/${taskId}/workspace/${workspaceId}/move`,
+    data
+  );
+  return response.data;
+};
+
+export const duplicateTaskMutationFn = async ({
+  workspaceId,
+  taskId,
+  data,
+}: DuplicateTaskPayloadType): Promise<{
+  message: string;
+  task: TaskType;
+  subtasks: TaskType[];
+}> => {
+  const response = await API.post(
+    `/task/${taskId}/workspace/${workspaceId}/duplicate`,
+    data
+  );
+  return response.data;
+};
+
+export const batchTasksMutationFn = async ({
+  workspaceId,
+  data,
+}: BatchTasksPayloadType): Promise<BatchTasksResponseType> => {
+  const response = await API.post(`/task/workspace/${workspaceId}/batch`, data);
+  return response.data;
+};
+
+export const getTaskByCodeQueryFn = async ({
+  workspaceId,
+  taskCode,
+}: {
+  workspaceId: string;
+  taskCode: string;
+}): Promise<{ message: string; task: TaskType }> => {
+  const response = await API.get(
+    `/task/workspace/${workspaceId}/code/${encodeURIComponent(taskCode)}`
+  );
+  return response.data;
+};
+
+//*******CUSTOM FIELDS ********************************
+//************************* */
+
+export const getCustomFieldsQueryFn = async ({
+  workspaceId,
+  projectId,
+}: {
+  workspaceId: string;
+  projectId?: string;
+}): Promise<CustomFieldListResponseType> => {
+  const query = projectId ? `?projectId=${projectId}` : "";
+  const response = await API.get(
+    `/custom-field/workspace/${workspaceId}/all${query}`
+  );
+  return response.data;
+};
+
+export const createCustomFieldMutationFn = async ({
+  workspaceId,
+  data,
+}: CreateCustomFieldPayloadType): Promise<{
+  message: string;
+  field: CustomFieldType;
+}> => {
+  const response = await API.post(
+    `/custom-field/workspace/${workspaceId}/create`,
+    data
+  );
+  return response.data;
+};
+
+export const updateCustomFieldMutationFn = async ({
+  workspaceId,
+  fieldId,
+  data,
+}: UpdateCustomFieldPayloadType): Promise<{
+  message: string;
+  field: CustomFieldType;
+}> => {
+  const response = await API.put(
+    `/custom-field/${fieldId}/workspace/${workspaceId}/update`,
+    data
+  );
+  return response.data;
+};
+
+export const deleteCustomFieldMutationFn = async ({
+  workspaceId,
+  fieldId,
+}: {
+  workspaceId: string;
+  fieldId: string;
+}): Promise<{
+  message: string;
+}> => {
+  const response = await API.delete(
+    `/custom-field/${fieldId}/workspace/${workspaceId}/delete`
+  );
+  return response.data;
+};
+
+//*******LABELS ********************************
+//************************* */
+
+export const getLabelsQueryFn = async (
+  workspaceId: string
+): Promise<LabelListResponseType> => {
+  const response = await API.get(`/label/workspace/${workspaceId}/all`);
+  return response.data;
+};
+
+export const createLabelMutationFn = async ({
+  workspaceId,
+  data,
+}: LabelPayloadType): Promise<{
+  message: string;
+  label: LabelType;
+}> => {
+  const response = await API.post(
+    `/label/workspace/${workspaceId}/create`,
+    data
+  );
+  return response.data;
+};
+
+export const updateLabelMutationFn = async ({
+  workspaceId,
+  labelId,
+  data,
+}: UpdateLabelPayloadType): Promise<{
+  message: string;
+  label: LabelType;
+}> => {
+  const response = await API.put(
+    `/label/${labelId}/workspace/${workspaceId}/update`,
+    data
+  );
+  return response.data;
+};
+
+export const deleteLabelMutationFn = async ({
+  workspaceId,
+  labelId,
+}: {
+  workspaceId: string;
+  labelId: string;
+}): Promise<{
+  message: string;
+}> => {
+  const response = await API.delete(
+    `/label/${labelId}/workspace/${workspaceId}/delete`
+  );
+  return response.data;
+};
+
+//*******TIME TRACKING ********************************
+//************************* */
+
+export const getActiveTimerQueryFn = async (
+  workspaceId: string
+): Promise<ActiveTimerResponseType> => {
+  const response = await API.get(
+    `/worklog/workspace/${workspaceId}/timer/active`
+  );
+  return response.data;
+};
+
+export const startTimerMutationFn = async ({
+  workspaceId,
+  taskId,
+}: {
+  workspaceId: string;
+  taskId: string;
+}): Promise<{
+  message: string;
+}> => {
+  const response = await API.post(
+    `/worklog/task/${taskId}/workspace/${workspaceId}/timer/start`
+  );
+  return response.data;
+};
+
+export const stopTimerMutationFn = async (
+  workspaceId: string
+): Promise<{
+  message: string;
+  worklog: WorklogType;
+}> => {
+  const response = await API.post(
+    `/worklog/workspace/${workspaceId}/timer/stop`
+  );
+  return response.data;
+};
+
+export const getTaskWorklogsQueryFn = async ({
+  workspaceId,
+  taskId,
+}: {
+  workspaceId: string;
+  taskId: string;
+}): Promise<TaskWorklogsResponseType> => {
+  const response = await API.get(
+    `/worklog/task/${taskId}/workspace/${workspaceId}/all`
+  );
+  return response.data;
+};
+
+export const createWorklogMutationFn = async ({
+  workspaceId,
+  taskId,
+  data,
+}: CreateWorklogPayloadType): Promise<{
+  message: string;
+  worklog: WorklogType;
+}> => {
+  const response = await API.post(
+    `/worklog/task/${taskId}/workspace/${workspaceId}/create`,
+    data
+  );
+  return response.data;
+};
+
+export const deleteWorklogMutationFn = async ({
+  workspaceId,
+  worklogId,
+}: {
+  workspaceId: string;
+  worklogId: string;
+}): Promise<{
+  message: string;
+}> => {
+  const response = await API.delete(
+    `/worklog/${worklogId}/workspace/${workspaceId}/delete`
+  );
+  return response.data;
+};
+
+export const exportWorklogsFn = async ({
+  workspaceId,
+  from,
+  to,
+  projectId,
+}: WorklogExportParamsType): Promise<Blob> => {
+  const queryParams = new URLSearchParams();
+  if (from) queryParams.append("from", from);
+  if (to) queryParams.append("to", to);
+  if (projectId) queryParams.append("projectId", projectId);
+
+  const response = await API.get(
+    `/worklog/workspace/${workspaceId}/export?${queryParams.toString()}`,
+    { responseType: "blob" }
+  );
+  return response.data;
+};
+
+//*******SPRINTS ********************************
+//************************* */
+
+export const getSprintsQueryFn = async ({
+  workspaceId,
+  projectId,
+}: {
+  workspaceId: string;
+  projectId: string;
+}): Promise<SprintListResponseType> => {
+  const response = await API.get(
+    `/project/${projectId}/workspace/${workspaceId}/sprint/all`
+  );
+  return response.data;
+};
+
+export const createSprintMutationFn = async ({
+  workspaceId,
+  projectId,
+  data,
+}: SprintPayloadType): Promise<{
+  message: string;
+  sprint: SprintType;
+}> => {
+  const response = await API.post(
+    `/project/${projectId}/workspace/${workspaceId}/sprint/create`,
+    data
+  );
+  return response.data;
+};
+
+export const updateSprintMutationFn = async ({
+  workspaceId,
+  projectId,
+  sprintId,
+  data,
+}: UpdateSprintPayloadType): Promise<{
+  message: string;
+  sprint: SprintType;
+}> => {
+  const response = await API.put(
+    `/project/${projectId}/workspace/${workspaceId}/sprint/${sprintId}/update`,
+    data
+  );
+  return response.data;
+};
+
+export const deleteSprintMutationFn = async ({
+  workspaceId,
+  projectId,
+  sprintId,
+}: SprintActionPayloadType): Promise<{
+  message: string;
+}> => {
+  const response = await API.delete(
+    `/project/${projectId}/workspace/${workspaceId}/sprint/${sprintId}/delete`
+  );
+  return response.data;
+};
+
+export const startSprintMutationFn = async ({
+  workspaceId,
+  projectId,
+  sprintId,
+}: SprintActionPayloadType): Promise<{
+  message: string;
+  sprint: SprintType;
+}> => {
+  const response = await API.post(
+    `/project/${projectId}/workspace/${workspaceId}/sprint/${sprintId}/start`
+  );
+  return response.data;
+};
+
+export const closeSprintMutationFn = async ({
+  workspaceId,
+  projectId,
+  sprintId,
+  carryOverTo,
+}: SprintActionPayloadType & {
+  carryOverTo: string | null;
+}): Promise<{
+  message: string;
+  sprint: SprintType;
+}> => {
+  const response = await API.post(
+    `/project/${projectId}/workspace/${workspaceId}/sprint/${sprintId}/close`,
+    { carryOverTo }
+  );
+  return response.data;
+};
+
+export const getSprintReportQueryFn = async ({
+  workspaceId,
+  projectId,
+  sprintId,
+}: SprintActionPayloadType): Promise<SprintReportResponseType> => {
+  const response = await API.get(
+    `/project/${projectId}/workspace/${workspaceId}/sprint/${sprintId}/report`
+  );
+  return response.data;
+};
+
+//*******MILESTONES ********************************
+//************************* */
+
+export const getMilestonesQueryFn = async ({
+  workspaceId,
+  projectId,
+  from,
+  to,
+}: {
+  workspaceId: string;
+  projectId?: string;
+  from?: string;
+  to?: string;
+}): Promise<MilestoneListResponseType> => {
+  const queryParams = new URLSearchParams();
+  if (projectId) queryParams.append("projectId", projectId);
+  if (from) queryParams.append("from", from);
+  if (to) queryParams.append("to", to);
+
+  const response = await API.get(
+    `/project/workspace/${workspaceId}/milestone/all?${queryParams}`
+  );
+  return response.data;
+};
+
+export const createMilestoneMutationFn = async ({
+  workspaceId,
+  projectId,
+  data,
+}: MilestonePayloadType): Promise<{
+  message: string;
+  milestone: MilestoneType;
+}> => {
+  const response = await API.post(
+    `/project/${projectId}/workspace/${workspaceId}/milestone/create`,
+    data
+  );
+  return response.data;
+};
+
+export const updateMilestoneMutationFn = async ({
+  workspaceId,
+  projectId,
+  milestoneId,
+  data,
+}: UpdateMilestonePayloadType): Promise<{
+  message: string;
+  milestone: MilestoneType;
+}> => {
+  const response = await API.put(
+    `/project/${projectId}/workspace/${workspaceId}/milestone/${milestoneId}/update`,
+    data
+  );
+  return response.data;
+};
+
+export const deleteMilestoneMutationFn = async ({
+  workspaceId,
+  projectId,
+  milestoneId,
+}: {
+  workspaceId: string;
+  projectId: string;
+  milestoneId: string;
+}): Promise<{
+  message: string;
+}> => {
+  const response = await API.delete(
+    `/project/${projectId}/workspace/${workspaceId}/milestone/${milestoneId}/delete`
+  );
+  return response.data;
+};
+
+//*******AUDIT LOG ********************************
+//************************* */
+
+const toAuditLogQueryParams = ({
+  action,
+  actorId,
+  from,
+  to,
+}: Omit<AuditLogFilterType, "workspaceId">) => {
+  const queryParams = new URLSearchParams();
+  if (action) queryParams.append("action", action);
+  if (actorId) queryParams.append("actorId", actorId);
+  if (from) queryParams.append("from", from);
+  if (to) queryParams.append("to", to);
+  return queryParams;
+};
+
+export const getAuditLogsQueryFn = async ({
+  workspaceId,
+  pageNumber,
+  pageSize,
+  ...filters
+}: AuditLogFilterType & {
+  pageNumber: number;
+  pageSize: number;
+}): Promise<AuditLogResponseType> => {
+  const queryParams = toAuditLogQueryParams(filters);
+  queryParams.append("pageNumber", String(pageNumber));
+  queryParams.append("pageSize", String(pageSize));
+
+  const response = await API.get(
+    `/audit-log/workspace/${workspaceId}/all?${queryParams}`
+  );
+  return response.data;
+};
+
+export const exportAuditLogsFn = async ({
+  workspaceId,
+  ...filters
+}: AuditLogFilterType): Promise<Blob> => {
+  const queryParams = toAuditLogQueryParams(filters);
+
+  const response = await API.get(
+    `/audit-log/workspace/${workspaceId}/export?${queryParams}`,
+    { responseType: "blob" }
+  );
+  return response.data;
+};
+
+export const verifyAuditLogMutationFn = async (
+  workspaceId: string
+): Promise<AuditLogVerificationResponseType> => {
+  const response = await API.get(`/audit-log/workspace/${workspaceId}/verify`);
+  return response.data;
+};
+
+//*******COMMENTS ********************************
+//************************* */
+
+export const getTaskCommentsQueryFn = async ({
+  workspaceId,
+  taskId,
+}: {
+  workspaceId: string;
+  taskId: string;
+}): Promise<TaskCommentListResponseType> => {
+  const response = await API.get(
+    `/comment/task/${taskId}/workspace/${workspaceId}/all`
+  );
+  return response.data;
+};
+
+export const createTaskCommentMutationFn = async ({
+  workspaceId,
+  taskId,
+  data,
+}: CreateTaskCommentPayloadType): Promise<{
+  message: string;
+  comment: TaskCommentType;
+}> => {
+  const response = await API.post(
+    `/comment/task/${taskId}/workspace/${workspaceId}/create`,
+    data
+  );
+  return response.data;
+};
+
+export const updateTaskCommentMutationFn = async ({
+  workspaceId,
+  commentId,
+  data,
+}: UpdateTaskCommentPayloadType): Promise<{
+  message: string;
+  comment: TaskCommentType;
+}> => {
+  const response = await API.put(
+    `/comment/${commentId}/workspace/${workspaceId}/update`,
+    data
+  );
+  return response.data;
+};
+
+export const deleteTaskCommentMutationFn = async ({
+  workspaceId,
+  commentId,
+}: {
+  workspaceId: string;
+  commentId: string;
+}): Promise<{
+  message: string;
+}> => {
+  const response = await API.delete(
+    `/comment/${commentId}/workspace/${workspaceId}/delete`
+  );
+  return response.data;
+};
+
+//*******NOTIFICATIONS ********************************
+//************************* */
+
+export const getNotificationsQueryFn = async (
+  workspaceId: string
+): Promise<NotificationListResponseType> => {
+  const response = await API.get(`/notification/workspace/${workspaceId}/all`);
+  return response.data;
+};
+
+export const markNotificationReadMutationFn = async ({
+  workspaceId,
+  notificationId,
+}: {
+  workspaceId: string;
+  notificationId: string;
+}): Promise<{
+  message: string;
+}> => {
+  const response = await API.put(
+    `/notification/${notificationId}/workspace/${workspaceId}/read`
+  );
+  return response.data;
+};
+
+export const markAllNotificationsReadMutationFn = async (
+  workspaceId: string
+): Promise<{
+  message: string;
+}> => {
+  const response = await API.put(
+    `/notification/workspace/${workspaceId}/read-all`
+  );
+  return response.data;
+};
+
+//*******ATTACHMENTS ********************************
+//************************* */
+
+export const getTaskAttachmentsQueryFn = async ({
+  workspaceId,
+  taskId,
+}: {
+  workspaceId: string;
+  taskId: string;
+}): Promise<TaskAttachmentListResponseType> => {
+  const response = await API.get(
+    `/attachment/task/${taskId}/workspace/${workspaceId}/all`
+  );
+  return response.data;
+};
+
+// The file travels as the raw request body with its name in the query.
+export const uploadAttachmentMutationFn = async ({
+  workspaceId,
+  taskId,
+  file,
+  clarificationId,
+  responseId,
+}: UploadAttachmentPayloadType): Promise<{
+  message: string;
+  attachment: TaskAttachmentType;
+}> => {
+  const response = await API.post(
+    `/attachment/task/${taskId}/workspace/${workspaceId}/upload`,
+    file,
+    {
+      params: { fileName: file.name, clarificationId, responseId },
+      headers: { "Content-Type": "application/octet-stream" },
+    }
+  );
+  return response.data;
+};
+
+export const downloadAttachmentFn = async ({
+  workspaceId,
+  attachmentId,
+}: {
+  workspaceId: string;
+  attachmentId: string;
+}): Promise<Blob> => {
+  const response = await API.get(
+    `/attachment/${attachmentId}/workspace/${workspaceId}/download`,
+    { responseType: "blob" }
+  );
+  return response.data;
+};
+
+export const deleteAttachmentMutationFn = async ({
+  workspaceId,
+  attachmentId,
+}: {
+  workspaceId: string;
+  attachmentId: string;
+}): Promise<{
+  message: string;
+}> => {
+  const response = await API.delete(
+    `/attachment/${attachmentId}/workspace/${workspaceId}/delete`
+  );
+  return response.data;
+};
+
+//*******CHECKLISTS ********************************
+//************************* */
+
+export const getChecklistQueryFn = async ({
+  workspaceId,
+  taskId,
+}: {
+  workspaceId: string;
+  taskId: string;
+}): Promise<ChecklistResponseType> => {
+  const response = await API.get(
+    `/checklist/task/${taskId}/workspace/${workspaceId}/all`
+  );
+  return response.data;
+};
+
+export const createChecklistItemMutationFn = async ({
+  workspaceId,
+  taskId,
+  data,
+}: CreateChecklistItemPayloadType): Promise<ChecklistResponseType> => {
+  const response = await API.post(
+    `/checklist/task/${taskId}/workspace/${workspaceId}/create`,
+    data
+  );
+  return response.data;
+};
+
+export const updateChecklistItemMutationFn = async ({
+  workspaceId,
+  taskId,
+  itemId,
+  data,
+}: UpdateChecklistItemPayloadType): Promise<ChecklistResponseType> => {
+  const response = await API.put(
+    `/checklist/${itemId}/task/${taskId}/workspace/${workspaceId}/update`,
+    data
+  );
+  return response.data;
+};
+
+export const reorderChecklistMutationFn = async ({
+  workspaceId,
+  taskId,
+  itemIds,
+}: ReorderChecklistPayloadType): Promise<ChecklistResponseType> => {
+  const response = await API.put(
+    `/checklist/task/${taskId}/workspace/${workspaceId}/reorder`,
+    { itemIds }
+  );
+  return response.data;
+};
+
+export const convertChecklistItemMutationFn = async ({
+  workspaceId,
+  taskId,
+  itemId,
+}: ChecklistItemActionPayloadType): Promise<
+  ChecklistResponseType & { subtask: TaskType }
+> => {
+  const response = await API.post(
+    `/checklist/${itemId}/task/${taskId}/workspace/${workspaceId}/convert`
+  );
+  return response.data;
+};
+
+export const deleteChecklistItemMutationFn = async ({
+  workspaceId,
+  taskId,
+  itemId,
+}: ChecklistItemActionPayloadType): Promise<ChecklistResponseType> => {
+  const response = await API.delete(
+    `/checklist/${itemId}/task/${taskId}/workspace/${workspaceId}/delete`
+  );
+  return response.data;
+};
+
+//*******TEMPLATES ********************************
+//************************* */
+
+export const getTemplatesQueryFn = async ({
+  workspaceId,
+  type,
+}: {
+  workspaceId: string;
+  type?: TemplateKindType;
+}): Promise<TemplateListResponseType> => {
+  const response = await API.get(`/template/workspace/${workspaceId}/all`, {
+    params: { type },
+  });
+  return response.data;
+};
+
+export const createProjectTemplateMutationFn = async ({
+  workspaceId,
+  projectId,
+  data,
+}: CreateTemplatePayloadType & { projectId: string }): Promise<{
+  message: string;
+  template: TemplateType;
+}> => {
+  const response = await API.post(
+    `/template/project/${projectId}/workspace/${workspaceId}/create`,
+    data ?? {}
+  );
+  return response.data;
+};
+
+export const createTaskTemplateMutationFn = async ({
+  workspaceId,
+  taskId,
+  data,
+}: CreateTemplatePayloadType & { taskId: string }): Promise<{
+  message: string;
+  template: TemplateType;
+}> => {
+  const response = await API.post(
+    `/template/task/${taskId}/workspace/${workspaceId}/create`,
+    data ?? {}
+  );
+  return response.data;
+};
+
+export const deleteTemplateMutationFn = async ({
+  workspaceId,
+  templateId,
+}: {
+  workspaceId: string;
+  templateId: string;
+}): Promise<{
+  message: string;
+}> => {
+  const response = await API.delete(
+    `/template/${templateId}/workspace/${workspaceId}/delete`
+  );
+  return response.data;
+};
+
+//*******TRASH ********************************
+//************************* */
+
+export const getTrashQueryFn = async (
+  workspaceId: string
+): Promise<TrashResponseType> => {
+  const response = await API.get(`/trash/workspace/${workspaceId}/all`);
+  return response.data;
+};
+
+export const restoreTaskMutationFn = async ({
+  workspaceId,
+  taskId,
+}: {
+  workspaceId: string;
+  taskId: string;
+}): Promise<{
+  message: string;
+}> => {
+  const response = await API.post(
+    `/trash/task/${taskId}/workspace/${workspaceId}/restore`
+  );
+  return response.data;
+};
+
+export const restoreProjectMutationFn = async ({
+  workspaceId,
+  projectId,
+}: {
+  workspaceId: string;
+  projectId: string;
+}): Promise<{
+  message: string;
+}> => {
+  const response = await API.post(
+    `/trash/project/${projectId}/workspace/${workspaceId}/restore`
+  );
+  return response.data;
+};
@@ -1,3 +1,10 @@
+import { TaskStatusCategoryEnum, TaskStatusEnum } from "@/constant";
+import type {
+  AllMembersInWorkspaceResponseType,
+  TaskWorkflowType,
+  WorkflowStatusType,
+} from "@/types/api.type";
+
 //THE UPDATED ONE BECAUSE OF THE FILTERS ->  Take Note ->
 export const transformOptions = (
   options: string[],
@@ -20,6 +27,106 @@ export const formatStatusToEnum = (status: string): string => {
   return status.toUpperCase().replace(/\s+/g, "_");
 };
 
+// Mirrors the backend default so screens render before the workflow loads.
+export const DEFAULT_TASK_WORKFLOW: TaskWorkflowType = {
+  statuses: [
+    {
+      key: TaskStatusEnum.BACKLOG,
+      name: "Backlog",
+      category: TaskStatusCategoryEnum.NOT_STARTED,
+    },
+    {
+      key: TaskStatusEnum.TODO,
+      name: "Todo",
+      category: TaskStatusCategoryEnum.NOT_STARTED,
+    },
+    {
+      key: TaskStatusEnum.IN_PROGRESS,
+      name: "In Progress",
+      category: TaskStatusCategoryEnum.ACTIVE,
+    },
+    {
+      key: TaskStatusEnum.IN_REVIEW,
+      name: "In Review",
+      category: TaskStatusCategoryEnum.ACTIVE,
+    },
+    {
+      key: TaskStatusEnum.DONE,
+      name: "Done",
+      category: TaskStatusCategoryEnum.DONE,
+    },
+  ],
+  transitions: [],
+  defaultStatus: TaskStatusEnum.TODO,
+};
+
+export const findWorkflowStatus = (
+  workflow: TaskWorkflowType,
+  key: string
+): WorkflowStatusType | undefined =>
+  workflow.statuses.find((status) => status.key === key);
+
+export const isDoneStatus = (workflow: TaskWorkflowType, key: string) =>
+  findWorkflowStatus(workflow, key)?.category === TaskStatusCategoryEnum.DONE;
+
+// With no transitions configured every status is reachable.
+export const getAllowedNextStatuses = (
+  workflow: TaskWorkflowType,
+  from: string
+) =>
+  workflow.statuses.filter(
+    (status) =>
+      status.key === from ||
+      !workflow.transitions.length ||
+      workflow.transitions.some(
+        (transition) => transition.from === from && transition.to === status.key
+      )
+  );
+
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export const describeRecurrence = (rule: {
+  frequency: string;
+  interval?: number;
+  weekdays?: number[];
+  dayOfMonth?: number | null;
+}): string => {
+  switch (rule.frequency) {
+    case "DAILY":
+      return "Every day";
+    case "WEEKLY":
+      return `Weekly on ${(rule.weekdays || [])
+        .map((day) => WEEKDAY_LABELS[day])
+        .join(", ")}`;
+    case "MONTHLY":
+      return `Monthly on day ${rule.dayOfMonth}`;
+    case "EVERY_N_DAYS":
+      return `Every ${rule.interval || 1} days`;
+    default:
+      return "Custom schedule";
+  }
+};
+
+export const formatDuration = (minutes: number | null | undefined) => {
+  if (!minutes) return "0m";
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (!hours) return `${rest}m`;
+  return rest ? `${hours}h ${rest}m` : `${hours}h`;
+};
+
+// Reads "1h 30m", "1.5h", "45m" or a bare number of minutes.
+export const parseDuration = (value: string): number | null => {
+  const input = value.trim().toLowerCase();
+  if (!input) return null;
+  if (/^\d+$/.test(input)) return Number(input);
+
+  const match = input.match(/^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m)?$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  return Math.round(Number(match[1] || 0) * 60 + Number(match[2] || 0));
+};
+
 export const getAvatarColor = (initials: string): string => {
   const colors = [
     "bg-red-500 text-white",
@@ -50,3 +157,30 @@ export const getAvatarFallbackText = (name: string) => {
     .slice(0, 2); // Ensure only two initials
   return initials || "NA";
 };
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Mirrors the API default for template roles: the longest-standing member
+// holding the role.
+export const findMemberForRole = (
+  members: AllMembersInWorkspaceResponseType["members"],
+  role: string
+) =>
+  [...members]
+    .sort(
+      (a, b) => new Date(a.joinedAt).getTime() - new Date(b.joinedAt).getTime()
+    )
+    .find((member) => member.role?.name === role);
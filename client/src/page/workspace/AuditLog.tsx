@@ -0,0 +1,46 @@
+import { Link } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import { Separator } from "@/components/ui/separator";
+import WorkspaceHeader from "@/components/workspace/common/workspace-header";
+import AuditLogTable from "@/components/workspace/settings/audit-log-table";
+import { Permissions } from "@/constant";
+import withPermission from "@/hoc/with-permission";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+
+const AuditLog = () => {
+  const workspaceId = useWorkspaceId();
+
+  return (
+    <div className="w-full h-auto py-2">
+      <WorkspaceHeader />
+      <Separator className="my-4 " />
+      <main>
+        <div className="w-full max-w-5xl mx-auto py-3">
+          <Link
+            to={`/workspace/${workspaceId}/settings`}
+            className="mb-2 inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Workspace settings
+          </Link>
+          <h2 className="text-[20px] leading-[30px] font-semibold mb-1">
+            Audit log
+          </h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Sign-ins, membership and role changes, workspace edits and
+            deletions in this workspace. Entries are chained together so any
+            later change to them can be detected.
+          </p>
+          <AuditLogTable />
+        </div>
+      </main>
+    </div>
+  );
+};
+
+const AuditLogWithPermission = withPermission(
+  AuditLog,
+  Permissions.MANAGE_WORKSPACE_SETTINGS
+);
+
+export default AuditLogWithPermission;
@@ -1,7 +1,8 @@
 import { Separator } from "@/components/ui/separator";
 import ProjectAnalytics from "@/components/workspace/project/project-analytics";
 import ProjectHeader from "@/components/workspace/project/project-header";
-import TaskTable from "@/components/workspace/task/task-table";
+import ProjectSprints from "@/components/workspace/project/project-sprints";
+import TaskViews from "@/components/workspace/task/task-views";
 
 const ProjectDetails = () => {
   return (
@@ -10,8 +11,9 @@ const ProjectDetails = () => {
       <div className="space-y-5">
         <ProjectAnalytics />
         <Separator />
-        {/* {Task Table} */}
-        <TaskTable />
+        <ProjectSprints />
+        {/* {Task Views} */}
+        <TaskViews />
       </div>
     </div>
   );
@@ -2,6 +2,12 @@ import { Separator } from "@/components/ui/separator";
 import WorkspaceHeader from "@/components/workspace/common/workspace-header";
 import EditWorkspaceForm from "@/components/workspace/edit-workspace-form";
 import DeleteWorkspaceCard from "@/components/workspace/settings/delete-workspace-card";
+import WorkflowSettingsCard from "@/components/workspace/settings/workflow-settings-card";
+import CustomFieldsSettingsCard from "@/components/workspace/settings/custom-fields-settings-card";
+import LabelsSettingsCard from "@/components/workspace/settings/labels-settings-card";
+import TemplatesSettingsCard from "@/components/workspace/settings/templates-settings-card";
+import ClarificationPolicyCard from "@/components/workspace/settings/clarification-policy-card";
+import AuditLogCard from "@/components/workspace/settings/audit-log-card";
 import { Permissions } from "@/constant";
 import withPermission from "@/hoc/with-permission";
 
@@ -20,6 +26,24 @@ const Settings = () => {
             <div className="pt-2">
               <EditWorkspaceForm />
             </div>
+            <div className="pt-2">
+              <WorkflowSettingsCard />
+            </div>
+            <div className="pt-2">
+              <CustomFieldsSettingsCard />
+            </div>
+            <div className="pt-2">
+              <LabelsSettingsCard />
+            </div>
+            <div className="pt-2">
+              <TemplatesSettingsCard />
+            </div>
+            <div className="pt-2">
+              <ClarificationPolicyCard />
+            </div>
+            <div className="pt-2">
+              <AuditLogCard />
+            </div>
             <div className="pt-2">
               <DeleteWorkspaceCard />
             </div>
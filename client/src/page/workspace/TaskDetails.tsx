@@ -0,0 +1,54 @@
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { Loader } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Separator } from "@/components/ui/separator";
+import WorkspaceHeader from "@/components/workspace/common/workspace-header";
+import EditTaskDialog from "@/components/workspace/task/edit-task-dialog";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+import { getTaskByCodeQueryFn } from "@/lib/api";
+
+// Resolves shareable links such as /workspace/:workspaceId/task/WEB-123.
+export default function TaskDetails() {
+  const navigate = useNavigate();
+  const workspaceId = useWorkspaceId();
+  const taskCode = useParams().taskCode as string;
+
+  const { data, isPending, isError, error } = useQuery({
+    queryKey: ["task-by-code", workspaceId, taskCode],
+    queryFn: () => getTaskByCodeQueryFn({ workspaceId, taskCode }),
+    enabled: Boolean(workspaceId && taskCode),
+    retry: false,
+  });
+
+  const task = data?.task;
+
+  const onClose = () =>
+    navigate(
+      task?.project
+        ? `/workspace/${workspaceId}/project/${task.project._id}`
+        : `/workspace/${workspaceId}/tasks`
+    );
+
+  return (
+    <div className="w-full h-auto py-2">
+      <WorkspaceHeader />
+      <Separator className="my-4 " />
+      <main className="w-full max-w-3xl mx-auto py-3">
+        {isPending ? (
+          <Loader className="mx-auto h-5 w-5 animate-spin" />
+        ) : isError ? (
+          <div className="text-center text-sm text-muted-foreground">
+            <p className="mb-2">{error.message}</p>
+            <Link
+              to={`/workspace/${workspaceId}/tasks`}
+              className="underline hover:text-foreground"
+            >
+              Go to all tasks
+            </Link>
+          </div>
+        ) : null}
+        {task && <EditTaskDialog task={task} isOpen onClose={onClose} />}
+      </main>
+    </div>
+  );
+}
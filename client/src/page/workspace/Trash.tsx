@@ -0,0 +1,30 @@
+import { Separator } from "@/components/ui/separator";
+import WorkspaceHeader from "@/components/workspace/common/workspace-header";
+import TrashTable from "@/components/workspace/trash/trash-table";
+import useTrash from "@/hooks/api/use-trash";
+import useWorkspaceId from "@/hooks/use-workspace-id";
+
+export default function Trash() {
+  const workspaceId = useWorkspaceId();
+  const { data } = useTrash(workspaceId);
+
+  return (
+    <div className="w-full h-auto py-2">
+      <WorkspaceHeader />
+      <Separator className="my-4 " />
+      <main>
+        <div className="w-full max-w-5xl mx-auto py-3">
+          <h2 className="text-[20px] leading-[30px] font-semibold mb-1">
+            Trash
+          </h2>
+          <p className="text-sm text-muted-foreground mb-4">
+            Deleted projects and tasks stay here for{" "}
+            {data?.retentionDays ?? 30} days before they are deleted for good.
+            Restoring a project brings back the tasks deleted with it.
+          </p>
+          <TrashTable />
+        </div>
+      </main>
+    </div>
+  );
+}
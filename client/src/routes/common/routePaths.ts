@@ -13,6 +13,9 @@ export const PROTECTED_ROUTES = {
   TASKS: "/workspace/:workspaceId/tasks",
   MEMBERS: "/workspace/:workspaceId/members",
   SETTINGS: "/workspace/:workspaceId/settings",
+  AUDIT_LOG: "/workspace/:workspaceId/settings/audit-log",
+  TRASH: "/workspace/:workspaceId/trash",
+  TASK_DETAILS: "/workspace/:workspaceId/task/:taskCode",
   PROJECT_DETAILS: "/workspace/:workspaceId/project/:projectId",
 };
 
@@ -5,7 +5,10 @@ import WorkspaceDashboard from "@/page/workspace/Dashboard";
 import Members from "@/page/workspace/Members";
 import ProjectDetails from "@/page/workspace/ProjectDetails";
 import Settings from "@/page/workspace/Settings";
+import AuditLog from "@/page/workspace/AuditLog";
 import Tasks from "@/page/workspace/Tasks";
+import Trash from "@/page/workspace/Trash";
+import TaskDetails from "@/page/workspace/TaskDetails";
 import { AUTH_ROUTES, BASE_ROUTE, PROTECTED_ROUTES } from "./routePaths";
 import InviteUser from "@/page/invite/InviteUser";
 
@@ -20,6 +23,9 @@ export const protectedRoutePaths = [
   { path: PROTECTED_ROUTES.TASKS, element: <Tasks /> },
   { path: PROTECTED_ROUTES.MEMBERS, element: <Members /> },
   { path: PROTECTED_ROUTES.SETTINGS, element: <Settings /> },
+  { path: PROTECTED_ROUTES.AUDIT_LOG, element: <AuditLog /> },
+  { path: PROTECTED_ROUTES.TRASH, element: <Trash /> },
+  { path: PROTECTED_ROUTES.TASK_DETAILS, element: <TaskDetails /> },
   { path: PROTECTED_ROUTES.PROJECT_DETAILS, element: <ProjectDetails /> },
 ];
 
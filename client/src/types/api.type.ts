@@ -1,7 +1,9 @@
 import {
+  CustomFieldTypeEnumType,
   PermissionType,
+  RecurrenceFrequencyEnumType,
   TaskPriorityEnumType,
-  TaskStatusEnumType,
+  TaskStatusCategoryEnumType,
 } from "@/constant";
 
 export type loginType = { email: string; password: string };
@@ -50,6 +52,47 @@ export type WorkspaceType = {
   description?: string;
   owner: string;
   inviteCode: string;
+  workflow?: TaskWorkflowType;
+  clarificationResponsePolicy?: ClarificationResponsePolicyType;
+};
+
+// Who besides owners and admins may answer clarifications.
+export type ClarificationResponsePolicyType =
+  | "ADMINS"
+  | "ADMINS_AND_ASSIGNEES"
+  | "ANY_MEMBER";
+
+export type UpdateClarificationPolicyPayloadType = {
+  workspaceId: string;
+  clarificationResponsePolicy: ClarificationResponsePolicyType;
+};
+
+export type WorkflowStatusType = {
+  key: string;
+  name: string;
+  category: TaskStatusCategoryEnumType;
+  color?: string | null;
+};
+
+export type WorkflowTransitionType = {
+  from: string;
+  to: string;
+};
+
+export type TaskWorkflowType = {
+  statuses: WorkflowStatusType[];
+  transitions: WorkflowTransitionType[];
+  defaultStatus: string;
+};
+
+export type WorkflowResponseType = {
+  message: string;
+  workflow: TaskWorkflowType;
+};
+
+export type UpdateWorkflowPayloadType = {
+  workspaceId: string;
+  data: TaskWorkflowType;
 };
 
 export type CreateWorkspaceType = {
@@ -131,6 +174,41 @@ export type AnalyticsResponseType = {
     overdueTasks: number;
     completedTasks: number;
   };
+  timeByMember: TimeByMemberType[];
+};
+
+export type TimeByMemberType = {
+  userId: string;
+  name: string;
+  profilePicture: string | null;
+  estimatedMinutes: number;
+  loggedMinutes: number;
+};
+
+export type LabelBreakdownType = {
+  labelId: string;
+  name: string;
+  color: string;
+  total: number;
+  completed: number;
+};
+
+export type ClarificationStatsType = {
+  openCount: number;
+  answeredCount: number;
+  resolvedCount: number;
+  respondedCount: number;
+  // Minutes from question to first response; null until anything is answered.
+  averageResponseMinutes: number | null;
+  medianResponseMinutes: number | null;
+};
+
+export type WorkspaceAnalyticsResponseType = AnalyticsResponseType & {
+  clarificationStats: ClarificationStatsType;
+};
+
+export type ProjectAnalyticsResponseType = AnalyticsResponseType & {
+  labelBreakdown: LabelBreakdownType[];
 };
 
 export type PaginationType = {
@@ -153,6 +231,8 @@ export type RoleType = {
 export type ProjectType = {
   _id: string;
   name: string;
+  // Prefix of the project's task codes, e.g. WEB for WEB-123.
+  key: string | null;
   emoji: string;
   description: string;
   workspace: string;
@@ -161,6 +241,8 @@ export type ProjectType = {
     name: string;
     profilePicture: string;
   };
+  // Archived projects are read-only and hidden from default listings.
+  archivedAt: string | null;
   createdAt: string;
   updatedAt: string;
 };
@@ -170,7 +252,12 @@ export type CreateProjectPayloadType = {
   data: {
     emoji: string;
     name: string;
+    key?: string;
     description: string;
+    templateId?: string;
+    startDate?: string;
+    // Member filling each template role, keyed by role name.
+    roleAssignees?: Record<string, string>;
   };
 };
 
@@ -195,6 +282,7 @@ export type AllProjectPayloadType = {
   pageNumber?: number;
   pageSize?: number;
   keyword?: string;
+  includeArchived?: boolean;
   skip?: boolean;
 };
 
@@ -220,9 +308,16 @@ export type CreateTaskPayloadType = {
     title: string;
     description: string;
     priority: TaskPriorityEnumType;
-    status: TaskStatusEnumType;
-    assignedTo: string | null;
+    status: string;
+    assignees: string[];
+    startDate?: string | null;
     dueDate: string;
+    estimateMinutes?: number | null;
+    recurrence?: TaskRecurrenceType;
+    customFields?: CustomFieldValuesType;
+    labels?: string[];
+    sprint?: string | null;
+    checklist?: string[];
   };
 };
 
@@ -234,20 +329,67 @@ export type EditTaskPayloadType = {
     title: string;
     description: string;
     priority: TaskPriorityEnumType;
-    status: TaskStatusEnumType;
-    assignedTo: string | null;
+    status: string;
+    assignees: string[];
+    startDate: string | null;
     dueDate: string;
+    estimateMinutes: number | null;
+    overrideBlockers: boolean;
+    customFields: CustomFieldValuesType;
+    labels: string[];
+    sprint: string | null;
+    rank: number;
   }>;
 };
 
+export type MoveTaskPayloadType = {
+  workspaceId: string;
+  taskId: string;
+  data: {
+    projectId: string;
+    // Current assignee id to their replacement; null unassigns them.
+    assigneeMap?: Record<string, string | null>;
+  };
+};
+
+export type DuplicateTaskPayloadType = {
+  workspaceId: string;
+  taskId: string;
+  data: {
+    title?: string;
+    description: boolean;
+    clarifications: boolean;
+    subtasks: boolean;
+  };
+};
+
+export type ClarificationStatusType =
+  | "OPEN"
+  | "ANSWERED"
+  | "RESOLVED"
+  | "WITHDRAWN";
+
 export type TaskClarificationResponseType = {
   _id: string;
   question: string;
+  status: ClarificationStatusType;
+  // Earlier wordings of the question, oldest first.
+  questionHistory: Array<{ question: string; editedAt: string }>;
+  editedAt: string | null;
+  withdrawnAt: string | null;
   askedBy: {
     _id: string;
     name: string;
     profilePicture: string | null;
   } | null;
+  acceptedResponse: string | null;
+  resolvedAt: string | null;
+  resolvedBy: {
+    _id: string;
+    name: string;
+    profilePicture: string | null;
+  } | null;
+  reopenedAt: string | null;
   responses: Array<{
     _id: string;
     message: string;
@@ -279,6 +421,26 @@ export type RespondTaskClarificationPayloadType = {
   message: string;
 };
 
+export type UpdateTaskClarificationPayloadType = {
+  workspaceId: string;
+  taskId: string;
+  clarificationId: string;
+  question: string;
+};
+
+export type ResolveTaskClarificationPayloadType = {
+  workspaceId: string;
+  taskId: string;
+  clarificationId: string;
+  acceptedResponseId?: string;
+};
+
+
+export type TaskAssigneeType = {
+  _id: string;
+  name: string;
+  profilePicture: string | null;
+};
 
 export type TaskType = {
   _id: string;
@@ -290,27 +452,233 @@ export type TaskType = {
     name: string;
   };
   priority: TaskPriorityEnumType;
-  status: TaskStatusEnumType;
-  assignedTo: {
-    _id: string;
-    name: string;
-    profilePicture: string | null;
-  } | null;
+  status: string;
+  assignees: TaskAssigneeType[];
+  watchers?: string[];
   createdBy?: string;
+  startDate?: string | null;
   dueDate: string;
+  estimateMinutes?: number | null;
+  loggedMinutes?: number;
   taskCode: string;
+  parentTask?: string | null;
+  subtaskProgress?: SubtaskProgressType;
+  checklistProgress?: SubtaskProgressType;
+  // Clarifications not yet resolved; only set on task list results.
+  openClarificationCount?: number;
+  blockedBy?: TaskDependencyType[];
+  series?: TaskSeriesType | null;
+  sprint?: string | null;
+  rank?: number;
+  customFields?: CustomFieldValuesType;
+  labels?: LabelType[];
   createdAt?: string;
   updatedAt?: string;
 };
 
+export type LabelType = {
+  _id: string;
+  name: string;
+  color: string;
+};
+
+export type LabelListResponseType = {
+  message: string;
+  labels: LabelType[];
+};
+
+export type LabelPayloadType = {
+  workspaceId: string;
+  data: {
+    name: string;
+    color: string;
+  };
+};
+
+export type UpdateLabelPayloadType = LabelPayloadType & {
+  labelId: string;
+};
+
+export type BatchTaskOperationType =
+  | {
+      action: "update";
+      changes: Partial<{
+        status: string;
+        priority: TaskPriorityEnumType;
+        assignees: string[];
+        dueDate: string;
+        addLabels: string[];
+        removeLabels: string[];
+      }>;
+    }
+  | { action: "move"; projectId: string }
+  | { action: "delete" };
+
+export type BatchTasksPayloadType = {
+  workspaceId: string;
+  data: {
+    taskIds: string[];
+    operation: BatchTaskOperationType;
+  };
+};
+
+export type BatchTaskResultType = {
+  taskId: string;
+  taskCode: string | null;
+  success: boolean;
+  error?: string;
+};
+
+export type BatchTasksResponseType = {
+  message: string;
+  succeeded: number;
+  failed: number;
+  results: BatchTaskResultType[];
+};
+
+export type LabelMatchType = "any" | "all";
+
+export type CustomFieldValueType =
+  | string
+  | number
+  | boolean
+  | string[]
+  | null;
+
+export type CustomFieldValuesType = Record<string, CustomFieldValueType>;
+
+export type CustomFieldType = {
+  _id: string;
+  name: string;
+  type: CustomFieldTypeEnumType;
+  options: string[];
+  workspace: string;
+  project: string | null;
+  createdAt?: string;
+};
+
+export type CustomFieldListResponseType = {
+  message: string;
+  fields: CustomFieldType[];
+};
+
+export type CreateCustomFieldPayloadType = {
+  workspaceId: string;
+  data: {
+    name: string;
+    type: CustomFieldTypeEnumType;
+    options?: string[];
+    projectId?: string | null;
+  };
+};
+
+export type UpdateCustomFieldPayloadType = {
+  workspaceId: string;
+  fieldId: string;
+  data: Partial<{
+    name: string;
+    options: string[];
+  }>;
+};
+
+export type TaskRecurrenceType = {
+  frequency: RecurrenceFrequencyEnumType;
+  interval?: number;
+  weekdays?: number[];
+  dayOfMonth?: number | null;
+  endsAt?: string | null;
+};
+
+export type TaskSeriesType = {
+  _id: string;
+  recurrence: TaskRecurrenceType;
+  isActive: boolean;
+};
+
+export type UpdateTaskSeriesPayloadType = {
+  workspaceId: string;
+  taskId: string;
+  data: Partial<{
+    title: string;
+    description: string;
+    priority: TaskPriorityEnumType;
+    assignees: string[];
+    recurrence: TaskRecurrenceType | null;
+  }>;
+};
+
+export type TaskWatchersResponseType = {
+  message: string;
+  watchers: string[];
+};
+
+export type TaskDependencyType = {
+  _id: string;
+  taskCode: string;
+  title: string;
+  status: string;
+};
+
+export type TaskDependenciesResponseType = {
+  message: string;
+  blockers: TaskDependencyType[];
+  dependents: TaskDependencyType[];
+};
+
+export type TaskDependencyPayloadType = {
+  workspaceId: string;
+  taskId: string;
+  blockerId: string;
+};
+
+export type SubtaskProgressType = {
+  total: number;
+  completed: number;
+};
+
+export type TaskLevelType = "top" | "child";
+
+export type CreateSubtaskPayloadType = {
+  workspaceId: string;
+  taskId: string;
+  data: {
+    title: string;
+    description?: string;
+    priority?: TaskPriorityEnumType;
+    status?: string;
+    assignees?: string[];
+    dueDate?: string;
+  };
+};
+
+export type SubtaskListResponseType = {
+  message: string;
+  subtasks: TaskType[];
+  progress: SubtaskProgressType;
+};
+
 export type AllTaskPayloadType = {
   workspaceId: string;
   projectId?: string | null;
   keyword?: string | null;
   priority?: TaskPriorityEnumType | null;
-  status?: TaskStatusEnumType | null;
+  status?: string | null;
   assignedTo?: string | null;
-  dueDate?: string | null;
+  watching?: boolean | null;
+  labels?: string | null;
+  labelsMatch?: LabelMatchType | null;
+  // Due date range; a bare `YYYY-MM-DD` upper bound includes that day.
+  dueFrom?: string | null;
+  dueTo?: string | null;
+  level?: TaskLevelType | null;
+  isBlocked?: "true" | "false" | null;
+  hasOpenClarifications?: "true" | "false" | null;
+  // A sprint id, or "backlog" for tasks outside any sprint.
+  sprint?: string | null;
+  // Keyed by custom field id, sent as `cf.<id>` query params.
+  customFieldFilters?: Record<string, string> | null;
+  sortBy?: string | null;
+  sortOrder?: "asc" | "desc" | null;
   pageNumber?: number | null;
   pageSize?: number | null;
 };
@@ -320,3 +688,429 @@ export type AllTaskResponseType = {
   tasks: TaskType[];
   pagination: PaginationType;
 };
+
+export type WorklogSourceType = "TIMER" | "MANUAL";
+
+export type WorklogType = {
+  _id: string;
+  task: string;
+  user: {
+    _id: string;
+    name: string;
+    profilePicture: string | null;
+  } | null;
+  source: WorklogSourceType;
+  note: string | null;
+  startedAt: string;
+  endedAt: string | null;
+  durationMinutes: number;
+};
+
+export type TaskWorklogsResponseType = {
+  message: string;
+  worklogs: WorklogType[];
+  estimateMinutes: number | null;
+  loggedMinutes: number;
+};
+
+export type ActiveTimerType = Omit<WorklogType, "task" | "user"> & {
+  task: {
+    _id: string;
+    taskCode: string;
+    title: string;
+    project: string;
+  } | null;
+};
+
+export type ActiveTimerResponseType = {
+  message: string;
+  timer: ActiveTimerType | null;
+};
+
+export type CreateWorklogPayloadType = {
+  workspaceId: string;
+  taskId: string;
+  data: {
+    durationMinutes: number;
+    note?: string;
+    startedAt?: string;
+  };
+};
+
+export type WorklogExportParamsType = {
+  workspaceId: string;
+  from?: string;
+  to?: string;
+  projectId?: string;
+};
+
+export type SprintStatusType = "PLANNED" | "ACTIVE" | "CLOSED";
+
+export type SprintType = {
+  _id: string;
+  name: string;
+  goal: string | null;
+  status: SprintStatusType;
+  startDate: string;
+  endDate: string;
+  startedAt: string | null;
+  closedAt: string | null;
+  carriedOverTo: string | null;
+};
+
+export type SprintListResponseType = {
+  message: string;
+  sprints: SprintType[];
+};
+
+export type SprintPayloadType = {
+  workspaceId: string;
+  projectId: string;
+  data: {
+    name: string;
+    goal?: string | null;
+    startDate: string;
+    endDate: string;
+  };
+};
+
+export type UpdateSprintPayloadType = {
+  workspaceId: string;
+  projectId: string;
+  sprintId: string;
+  data: Partial<SprintPayloadType["data"]>;
+};
+
+export type SprintActionPayloadType = {
+  workspaceId: string;
+  projectId: string;
+  sprintId: string;
+};
+
+export type SprintReportTaskType = {
+  _id: string;
+  taskCode: string;
+  title: string;
+  status: string;
+};
+
+export type SprintReportResponseType = {
+  message: string;
+  sprint: SprintType;
+  report: {
+    committed: SprintReportTaskType[];
+    completed: SprintReportTaskType[];
+    addedMidSprint: SprintReportTaskType[];
+    carriedOver: SprintReportTaskType[];
+    remaining: SprintReportTaskType[];
+  };
+};
+
+export type MilestoneType = {
+  _id: string;
+  name: string;
+  description: string | null;
+  date: string;
+  project: {
+    _id: string;
+    emoji: string;
+    name: string;
+  };
+};
+
+export type MilestoneListResponseType = {
+  message: string;
+  milestones: MilestoneType[];
+};
+
+export type MilestonePayloadType = {
+  workspaceId: string;
+  projectId: string;
+  data: {
+    name: string;
+    description?: string | null;
+    date: string;
+  };
+};
+
+export type UpdateMilestonePayloadType = {
+  workspaceId: string;
+  projectId: string;
+  milestoneId: string;
+  data: Partial<MilestonePayloadType["data"]>;
+};
+
+export type TaskActivityActionType =
+  | "CREATED"
+  | "UPDATED"
+  | "DELETED"
+  | "RESTORED";
+
+export type TaskFieldChangeType = {
+  // A task field, or `customFields.<id>` for custom field values.
+  field: string;
+  oldValue: unknown;
+  newValue: unknown;
+};
+
+export type TaskActivityType = {
+  _id: string;
+  action: TaskActivityActionType;
+  // Null for automated changes such as recurring task occurrences.
+  actor: TaskAssigneeType | null;
+  changes: TaskFieldChangeType[];
+  createdAt: string;
+};
+
+export type TaskActivityResponseType = {
+  message: string;
+  activities: TaskActivityType[];
+  pagination: PaginationType;
+};
+
+export type AuditActionType =
+  | "USER_LOGGED_IN"
+  | "MEMBER_JOINED"
+  | "MEMBER_ROLE_CHANGED"
+  | "WORKSPACE_UPDATED"
+  | "PROJECT_DELETED"
+  | "PROJECT_RESTORED"
+  | "TASK_DELETED"
+  | "TASK_RESTORED"
+  | "PROJECT_ARCHIVED"
+  | "PROJECT_UNARCHIVED"
+  | "TASK_MOVED";
+
+export type AuditLogType = {
+  _id: string;
+  sequence: number;
+  action: AuditActionType;
+  actor: (TaskAssigneeType & { email: string }) | null;
+  targetId: string | null;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+};
+
+export type AuditLogFilterType = {
+  workspaceId: string;
+  action?: AuditActionType;
+  actorId?: string;
+  from?: string;
+  to?: string;
+};
+
+export type AuditLogResponseType = {
+  message: string;
+  logs: AuditLogType[];
+  pagination: PaginationType;
+};
+
+export type AuditLogVerificationResponseType = {
+  message: string;
+  verification: {
+    valid: boolean;
+    checkedCount: number;
+    brokenAtSequence: number | null;
+  };
+};
+
+export type TaskCommentType = {
+  _id: string;
+  task: string;
+  author: TaskAssigneeType | null;
+  // Markdown source.
+  body: string;
+  // The top-level comment of the thread, or null for a thread opener.
+  parentComment: string | null;
+  mentions: { _id: string; name: string }[];
+  editedAt: string | null;
+  deletedAt: string | null;
+  createdAt: string;
+};
+
+export type TaskCommentListResponseType = {
+  message: string;
+  comments: TaskCommentType[];
+};
+
+export type CreateTaskCommentPayloadType = {
+  workspaceId: string;
+  taskId: string;
+  data: {
+    body: string;
+    parentCommentId?: string;
+  };
+};
+
+export type UpdateTaskCommentPayloadType = {
+  workspaceId: string;
+  commentId: string;
+  data: {
+    body: string;
+  };
+};
+
+export type NotificationKindType = "COMMENT_MENTION";
+
+export type NotificationType = {
+  _id: string;
+  type: NotificationKindType;
+  actor: TaskAssigneeType | null;
+  task: {
+    _id: string;
+    taskCode: string;
+    title: string;
+    project: string;
+  } | null;
+  comment: { _id: string; body: string; deletedAt: string | null } | null;
+  readAt: string | null;
+  createdAt: string;
+};
+
+export type NotificationListResponseType = {
+  message: string;
+  notifications: NotificationType[];
+  unreadCount: number;
+};
+
+export type TaskAttachmentType = {
+  _id: string;
+  task: string;
+  // Set when the file was attached to a clarification response.
+  clarification: string | null;
+  clarificationResponse: string | null;
+  uploadedBy: TaskAssigneeType | null;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  createdAt: string;
+};
+
+export type TaskAttachmentListResponseType = {
+  message: string;
+  attachments: TaskAttachmentType[];
+};
+
+export type UploadAttachmentPayloadType = {
+  workspaceId: string;
+  taskId: string;
+  file: File;
+  clarificationId?: string;
+  responseId?: string;
+};
+
+export type ChecklistItemType = {
+  _id: string;
+  title: string;
+  completed: boolean;
+  completedAt: string | null;
+  completedBy: { _id: string; name: string } | null;
+  assignee: TaskAssigneeType | null;
+};
+
+export type ChecklistResponseType = {
+  message: string;
+  checklist: ChecklistItemType[];
+  progress: SubtaskProgressType;
+};
+
+export type CreateChecklistItemPayloadType = {
+  workspaceId: string;
+  taskId: string;
+  data: {
+    title: string;
+    assignee?: string | null;
+  };
+};
+
+export type UpdateChecklistItemPayloadType = {
+  workspaceId: string;
+  taskId: string;
+  itemId: string;
+  data: {
+    title?: string;
+    completed?: boolean;
+    assignee?: string | null;
+  };
+};
+
+export type ReorderChecklistPayloadType = {
+  workspaceId: string;
+  taskId: string;
+  itemIds: string[];
+};
+
+export type ChecklistItemActionPayloadType = {
+  workspaceId: string;
+  taskId: string;
+  itemId: string;
+};
+
+export type TemplateKindType = "PROJECT" | "TASK";
+
+export type TemplateTaskType = {
+  title: string;
+  description: string | null;
+  priority: TaskPriorityEnumType;
+  // Days after the start date picked when the template is used.
+  startOffsetDays: number | null;
+  dueOffsetDays: number | null;
+  estimateMinutes: number | null;
+  checklist: string[];
+  assigneeRoles: string[];
+  labels: string[];
+};
+
+export type TemplateType = {
+  _id: string;
+  name: string;
+  description: string | null;
+  type: TemplateKindType;
+  projectEmoji: string | null;
+  projectDescription: string | null;
+  tasks: TemplateTaskType[];
+  createdBy: TaskAssigneeType | null;
+  createdAt: string;
+};
+
+export type TemplateListResponseType = {
+  message: string;
+  templates: TemplateType[];
+};
+
+export type CreateTemplatePayloadType = {
+  workspaceId: string;
+  data?: {
+    name?: string;
+    description?: string;
+  };
+};
+
+type TrashedItemType = {
+  _id: string;
+  deletedAt: string;
+  deletedBy: TaskAssigneeType | null;
+  // When the item is permanently deleted.
+  purgeAt: string;
+};
+
+export type TrashedProjectType = TrashedItemType & {
+  name: string;
+  emoji: string;
+  taskCount: number;
+};
+
+export type TrashedTaskType = TrashedItemType & {
+  taskCode: string;
+  title: string;
+  project: { _id: string; name: string; emoji: string } | null;
+  isProjectDeleted: boolean;
+  subtaskCount: number;
+};
+
+export type TrashResponseType = {
+  message: string;
+  retentionDays: number;
+  projects: TrashedProjectType[];
+  tasks: TrashedTaskType[];
+};